@@ -1,7 +1,7 @@
 const esbuild = require('esbuild');
 
 esbuild.build({
-  entryPoints: ['src/worker/worker-debug.ts'], // change to worker.ts for production
+  entryPoints: ['src/worker/worker.ts'], // registers the alarm listeners and the RPC server
   outfile: 'extension-chrome/background.js', // change to extension-firefox/background.js for firefox
   bundle: true,
   platform: 'browser',
@@ -3,6 +3,7 @@ import { NavigationSidebar } from "./components/NavigationSidebar";
 import { MiddlePanel } from "./components/MiddlePanel";
 import { MainPanel } from "./components/MainPanel";
 import { QuestsMiddlePanel } from "./components/QuestsMiddlePanel";
+import { InventoryMainPanel } from "./components/InventoryMainPanel";
 import { QuestsMainPanel } from "./components/QuestsMainPanel";
 import { FocusSessionModal } from "./components/FocusSessionModal";
 import { ProgressMainPanel } from "./components/ProgressMainPanel";
@@ -11,13 +12,9 @@ import { SettingsMiddlePanel } from "./components/SettingsMiddlePanel";
 import { SettingsMainPanel } from "./components/SettingsMainPanel";
 import {
   AuthService,
-  QuestService,
-  NotificationService,
-  SessionService,
-  getTaskService,
   QuestUIAdapter,
-  getSettingsService,
-  getAntiQuestService,
+  getRpcClient,
+  onDataChanged,
 } from "./worker";
 import type { Severity } from "./worker/models/Quest";
 import type {
@@ -58,8 +55,9 @@ export interface FocusSession {
   duration: number;
 }
 
-const taskService = getTaskService();
-const antiQuestService = getAntiQuestService();
+// Service calls are proxied to the background worker (see worker/messaging)
+const taskService = getRpcClient('tasks');
+const antiQuestService = getRpcClient('antiQuests');
 
 export default function App() {
   const [activeNav, setActiveNav] = useState("home");
@@ -95,13 +93,12 @@ export default function App() {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [quests, setQuests] = useState<Quest[]>([]);
   const [notifications, setNotifications] = useState<WorkerNotification[]>([]);
-  const [dataVersion, setDataVersion] = useState(0);
 
   // Services
   const authService = new AuthService();
-  const questService = new QuestService();
-  const notificationService = new NotificationService();
-  const sessionService = new SessionService();
+  const questService = getRpcClient('quests');
+  const notificationService = getRpcClient('notifications');
+  const sessionService = getRpcClient('sessions');
 
   const { showModal, hideModal } = useModal();
 
@@ -116,7 +113,7 @@ export default function App() {
     startWorkerLoop().catch(e => {
       console.error("FATAL: Error starting worker:", e);
     });
-    // Worker loop runs continuously via setInterval inside startWorkerLoop
+    // Periodic jobs run in background.js via chrome.alarms (setInterval fallback on the dev server)
     // No need to call it repeatedly from here
   }, []);
 
@@ -125,7 +122,7 @@ export default function App() {
     
     const loadAndApplySettings  = async () => {
       try {
-        const settingsService = getSettingsService();
+        const settingsService = getRpcClient('settings');
         const userId = await authService.getCurrentUserId();
         const userSettings = await settingsService.getUserSettings(userId);
         
@@ -140,6 +137,24 @@ export default function App() {
     loadAndApplySettings ();
   }, []);
 
+  // Reload when data changes in another window or the background worker
+  useEffect(() => {
+    if (!userId) return;
+
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = onDataChanged((event) => {
+      if (event.userId && event.userId !== userId) return;
+      // Bursts of changes (e.g. completeSession) trigger one reload
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => loadAllData(userId), 150);
+    });
+
+    return () => {
+      unsubscribe();
+      if (reloadTimer) clearTimeout(reloadTimer);
+    };
+  }, [userId]);
+
   // Load quest-specific data when quest is selected
   useEffect(() => {
     if (selectedQuestId) {
@@ -401,6 +416,7 @@ export default function App() {
         if (result.levelUp && typeof result.levelUp === 'object') {
           console.log(`Level Up! Quest → Level ${result.levelUp.newLevel}`);
         }
+        result.loot.forEach(item => console.log(`Loot! ${item.rarity} ${item.name}`));
 
         // FULL REFRESH - reload all data including stats
         console.log('[endFocusSession] Reloading all data...');
@@ -414,8 +430,8 @@ export default function App() {
           level: verifyUser?.totalLevel
         });
 
-        setDataVersion(v => v + 1);  // Trigger MainPanel stats refresh
-        console.log('[endFocusSession] ✅ Data reload complete, dataVersion incremented');
+        // MainPanel stats refresh on the completeSession change event
+        console.log('[endFocusSession] ✅ Data reload complete');
       } catch (error) {
         console.error("[endFocusSession] ❌ Failed to end session:", error);
         console.error("[endFocusSession] Error stack:", error);
@@ -663,7 +679,6 @@ export default function App() {
       });
 
       await loadAllData(userId);
-      setDataVersion(v => v + 1);  // Trigger MainPanel stats refresh
       console.log("[REFRESH] ✅ Refresh completed successfully");
     } catch (error) {
       console.error("[REFRESH] ❌ Failed to refresh data:", error);
@@ -969,7 +984,6 @@ export default function App() {
           userId={userId}
           tasks={tasks}
           workerQuests={workerQuests}
-          dataVersion={dataVersion}
           // selectedQuestId={selectedQuestId}
           onToggleTask={toggleTaskComplete}
           onReorderTasks={reorderTasks}
@@ -1016,6 +1030,7 @@ export default function App() {
           onUpdateAntiQuest={handleUpdateAntiQuest}
         />
       )}
+      {activeNav === "inventory" && userId && <InventoryMainPanel userId={userId} />}
       {activeNav === "progress" && (
         <ProgressMainPanel selectedView={progressView} userId={userId!} antiQuests={antiQuests} />
       )}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { Award, Lock } from 'lucide-react';
+import { getRpcClient, onDataChanged } from '../worker';
+import type { AchievementProgress } from '../worker/services/achievement.service';
+
+interface AchievementsViewProps {
+  userId: string;
+}
+
+export function AchievementsView({ userId }: AchievementsViewProps) {
+  const [progress, setProgress] = useState<AchievementProgress[]>([]);
+
+  useEffect(() => {
+    const achievementService = getRpcClient('achievements');
+    const loadProgress = async () => {
+      try {
+        setProgress(await achievementService.getAchievementProgress(userId));
+      } catch (error) {
+        console.error('Failed to load achievements:', error);
+      }
+    };
+
+    loadProgress();
+    return onDataChanged(event => {
+      if (event.collections.includes('users')) loadProgress();
+    });
+  }, [userId]);
+
+  const unlockedCount = progress.filter(p => p.unlocked).length;
+  // Unlocked first (newest first), then locked by how close they are
+  const sorted = [...progress].sort((a, b) => {
+    if (a.unlocked !== b.unlocked) return a.unlocked ? -1 : 1;
+    if (a.unlocked) return (b.unlockedAt ?? '').localeCompare(a.unlockedAt ?? '');
+    return b.current / b.achievement.rule.target - a.current / a.achievement.rule.target;
+  });
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-xl text-white mb-2">Achievements</h2>
+        <p className="text-sm text-[#b9bbbe]">
+          {unlockedCount} of {progress.length} unlocked
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {sorted.map(({ achievement, current, unlocked, unlockedAt }) => (
+          <div
+            key={achievement.achievementId}
+            className={`bg-[#2f3136] rounded-lg p-4 flex items-start gap-3 ${unlocked ? '' : 'opacity-70'}`}
+          >
+            {unlocked ? (
+              <Award className="w-6 h-6 text-[#faa61a] shrink-0" />
+            ) : (
+              <Lock className="w-6 h-6 text-[#72767d] shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="text-sm text-white">{achievement.name}</div>
+              <div className="text-xs text-[#b9bbbe] mb-2">{achievement.description}</div>
+              {unlocked ? (
+                <div className="text-xs text-[#72767d]">
+                  {unlockedAt ? `Unlocked ${new Date(unlockedAt).toLocaleDateString()}` : 'Unlocked'}
+                </div>
+              ) : (
+                <>
+                  <div className="h-1.5 bg-[#202225] rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-[#5865F2]"
+                      style={{ width: `${(current / achievement.rule.target) * 100}%` }}
+                    />
+                  </div>
+                  <div className="text-xs text-[#72767d] mt-1">
+                    {current} / {achievement.rule.target}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { CalendarClock, Check, RefreshCw } from "lucide-react";
+import { getRpcClient } from "../worker";
+import { saveHomeTaskOrder } from "../worker/utils/task-order-storage";
+import type { DailyPlan } from "../worker/services/gm/gm.planner";
+
+interface DailyPlanCardProps {
+  userId: string;
+  onAccepted?: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export function DailyPlanCard({ userId, onAccepted }: DailyPlanCardProps) {
+  const [plan, setPlan] = useState<DailyPlan | null>(null);
+  const [isDisabled, setIsDisabled] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isAccepted, setIsAccepted] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsBusy(true);
+    try {
+      const res = await getRpcClient("planner").generateDailyPlan(userId);
+      setPlan(res);
+      setIsDisabled(res === null);
+      setIsAccepted(false);
+    } catch (error) {
+      console.error("Failed to generate daily plan:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!plan) return;
+    setIsBusy(true);
+    try {
+      const items = await getRpcClient("planner").acceptDailyPlan(userId, plan);
+      // The home list reads its order from local storage first
+      saveHomeTaskOrder(userId, items);
+      setIsAccepted(true);
+      onAccepted?.();
+    } catch (error) {
+      console.error("Failed to accept daily plan:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (isDisabled) return null;
+
+  return (
+    <div className="mb-6 bg-[#2f3136] rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 text-[#faa61a]" />
+          <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe]">GM Daily Plan</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleGenerate}
+            disabled={isBusy}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-[#202225] text-[#dcddde] hover:bg-[#36393f] disabled:opacity-50"
+          >
+            <RefreshCw className="w-3 h-3" />
+            {plan ? "Regenerate" : "Plan my day"}
+          </button>
+          {plan && plan.blocks.length > 0 && (
+            <button
+              onClick={handleAccept}
+              disabled={isBusy || isAccepted}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-[#5865F2] hover:bg-[#4752C4] text-white disabled:opacity-50"
+            >
+              <Check className="w-3 h-3" />
+              {isAccepted ? "Accepted" : "Accept"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {plan && (
+        <>
+          <div className="text-xs text-[#72767d] mb-3">
+            {plan.plannedMin} of {plan.capacityMin} min planned
+            {plan.burnoutRisk !== "Low" && ` · ${plan.burnoutRisk} burnout risk, lighter day`}
+          </div>
+
+          <div className="space-y-1 mb-3">
+            {plan.blocks.map((block) => (
+              <div key={block.subtaskId} className="flex items-center gap-3 text-sm">
+                <span className="w-24 shrink-0 text-xs text-[#72767d]">
+                  {formatTime(block.startTime)}–{formatTime(block.endTime)}
+                </span>
+                <span className="flex-1 text-[#dcddde] truncate">{block.title}</span>
+                <span className="text-xs text-[#72767d] truncate">{block.questTitle}</span>
+                <span className="text-xs text-[#faa61a]">{block.pomodoros}🍅</span>
+              </div>
+            ))}
+            {plan.blocks.length === 0 && (
+              <div className="text-sm text-[#72767d]">Nothing fits today. Take the rest.</div>
+            )}
+          </div>
+
+          {plan.deferrals.length > 0 && (
+            <div className="border-t border-[#202225] pt-2">
+              <div className="text-xs text-[#72767d] mb-1">Deferred ({plan.deferrals.length})</div>
+              {plan.deferrals.map((deferral) => (
+                <div key={deferral.subtaskId} className="flex items-center gap-3 text-xs text-[#72767d]">
+                  <span className="flex-1 truncate">{deferral.title}</span>
+                  <span className="truncate">{deferral.reason}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { Swords } from "lucide-react";
+import { getRpcClient, onDataChanged } from "../worker";
+import type { Quest } from "../worker/models/Quest";
+import type { DungeonMemberProgress } from "../worker/models/DungeonMemberProgress";
+
+interface DungeonPanelProps {
+  quest: Quest;
+}
+
+const STATUS_COLORS: Record<NonNullable<Quest["dungeonStatus"]>, string> = {
+  active: "#faa61a",
+  cleared: "#57F287",
+  failed: "#ED4245",
+};
+
+export function DungeonPanel({ quest }: DungeonPanelProps) {
+  const [members, setMembers] = useState<DungeonMemberProgress[]>([]);
+
+  useEffect(() => {
+    const loadMembers = async () => {
+      try {
+        setMembers(await getRpcClient("dungeons").getDungeonProgress(quest.questId));
+      } catch (error) {
+        console.error("Failed to load dungeon progress:", error);
+      }
+    };
+
+    loadMembers();
+    return onDataChanged((event) => {
+      if (event.collections.includes("dungeonProgress")) loadMembers();
+    });
+  }, [quest.questId]);
+
+  const status = quest.dungeonStatus ?? "active";
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe]">
+          Party ({members.length})
+        </h3>
+        <span className="text-xs capitalize" style={{ color: STATUS_COLORS[status] }}>
+          {status}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {members.map((member) => (
+          <div key={member.progressId} className="bg-[#2f3136] rounded px-3 py-3">
+            <div className="flex items-center gap-3 mb-2">
+              <Swords className="w-4 h-4 text-[#ED4245] shrink-0" />
+              <span className="flex-1 text-sm text-[#dcddde] truncate">{member.userId}</span>
+              <span className="text-xs text-[#72767d]">#{member.performance.velocityRank} velocity</span>
+              {member.rewardXP !== undefined && (
+                <span className="text-xs text-[#faa61a]">+{member.rewardXP} XP</span>
+              )}
+            </div>
+            <div className="h-1.5 bg-[#202225] rounded-full overflow-hidden">
+              <div
+                className="h-full bg-[#ED4245]"
+                style={{ width: `${member.contributionPercent}%` }}
+              />
+            </div>
+            <div className="flex justify-between text-xs text-[#72767d] mt-1">
+              <span>
+                {member.completedSubtasks.length} subtasks · {member.totalTimeSpentMin} min
+              </span>
+              <span>{member.contributionPercent}%</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { Pause, Play, Square, Zap } from 'lucide-react';
 import { Button } from './ui/button';
 import type { FocusSession, Task } from '../App';
-import { SessionService } from '../worker';
+import type { RpcClient } from '../worker';
 import type { Quest } from '../worker/models/Quest';
 import {
   requestNotificationPermission,
@@ -15,7 +15,7 @@ interface FocusSessionModalProps {
   sessionId: string;  // Add sessionId from parent
   onEnd: (sessionId: string, actualMinutes: number, notes?: string) => void;
   tasks: Task[];
-  sessionService: SessionService;
+  sessionService: RpcClient<'sessions'>;
   userId: string;
   quest: Quest;
 }
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Package, Shield, Sword, Gem, Sparkles, Trash2 } from 'lucide-react';
+import { getRpcClient, onDataChanged } from '../worker';
+import type { InventoryItem, UserProfile } from '../worker/models/UserProfile';
+
+interface InventoryMainPanelProps {
+  userId: string;
+}
+
+const RARITY_COLORS: Record<InventoryItem['rarity'], string> = {
+  Common: '#b9bbbe',
+  Rare: '#00b0f4',
+  Epic: '#9b59b6',
+  Legendary: '#faa61a',
+};
+
+const SLOTS: { key: keyof UserProfile['equippedArtifacts']; label: string; icon: typeof Sword }[] = [
+  { key: 'weapon', label: 'Weapon', icon: Sword },
+  { key: 'armor', label: 'Armor', icon: Shield },
+  { key: 'accessory', label: 'Accessory', icon: Gem },
+];
+
+export function InventoryMainPanel({ userId }: InventoryMainPanelProps) {
+  const inventoryService = getRpcClient('inventory');
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [equipped, setEquipped] = useState<UserProfile['equippedArtifacts']>({ weapon: null, armor: null, accessory: null });
+
+  const loadInventory = async () => {
+    try {
+      const inventory = await inventoryService.getInventory(userId);
+      setItems([...inventory.items].sort((a, b) => b.acquiredAt.localeCompare(a.acquiredAt)));
+      setEquipped(inventory.equippedArtifacts);
+    } catch (error) {
+      console.error('Failed to load inventory:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadInventory();
+    return onDataChanged(event => {
+      if (event.collections.includes('users')) loadInventory();
+    });
+  }, [userId]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Inventory action failed:', error);
+      alert(error instanceof Error ? error.message : 'Inventory action failed');
+    }
+  };
+
+  const renderItem = (item: InventoryItem) => {
+    const isBroken = item.durability !== null && item.durability <= 0;
+    return (
+      <div key={item.itemId} className="bg-[#2f3136] rounded-lg p-4 flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm text-white truncate">{item.name}</span>
+            <span
+              className="text-xs px-2 py-0.5 rounded"
+              style={{ backgroundColor: `${RARITY_COLORS[item.rarity]}20`, color: RARITY_COLORS[item.rarity] }}
+            >
+              {item.rarity}
+            </span>
+            {item.isEquipped && (
+              <span className="text-xs text-[#57F287]">{item.type === 'Rune' ? 'Active' : 'Equipped'}</span>
+            )}
+          </div>
+          <div className="text-xs text-[#b9bbbe]">{item.effect}</div>
+          <div className="text-xs text-[#72767d] mt-1">
+            {item.type === 'Artifact' ? item.slotType : 'Rune'}
+            {item.durability !== null && ` · ${isBroken ? 'Broken' : `Durability ${item.durability}%`}`}
+            {item.usesRemaining !== null && ` · ${item.usesRemaining} use${item.usesRemaining === 1 ? '' : 's'} left`}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {item.type === 'Artifact' && !isBroken && (
+            <button
+              onClick={() => runAction(() => item.isEquipped
+                ? inventoryService.unequipItem(userId, item.itemId)
+                : inventoryService.equipItem(userId, item.itemId))}
+              className="px-3 py-1 rounded text-xs bg-[#5865F2] hover:bg-[#4752C4] text-white"
+            >
+              {item.isEquipped ? 'Unequip' : 'Equip'}
+            </button>
+          )}
+          {item.type === 'Rune' && !item.isEquipped && (
+            <button
+              onClick={() => runAction(() => inventoryService.activateRune(userId, item.itemId))}
+              className="px-3 py-1 rounded text-xs bg-[#5865F2] hover:bg-[#4752C4] text-white flex items-center gap-1"
+            >
+              <Sparkles className="w-3 h-3" />
+              Activate
+            </button>
+          )}
+          <button
+            onClick={() => {
+              if (confirm(`Discard ${item.name}?`)) {
+                runAction(() => inventoryService.discardItem(userId, item.itemId));
+              }
+            }}
+            className="p-1 rounded text-[#72767d] hover:text-[#ED4245]"
+            title="Discard"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <h2 className="text-xl text-white mb-6">Inventory</h2>
+
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        {SLOTS.map(slot => {
+          const Icon = slot.icon;
+          const item = items.find(i => i.itemId === equipped[slot.key]);
+          return (
+            <div key={slot.key} className="bg-[#2f3136] rounded-lg p-4">
+              <div className="flex items-center gap-2 text-xs uppercase tracking-wide text-[#72767d] mb-2">
+                <Icon className="w-4 h-4" />
+                {slot.label}
+              </div>
+              {item ? (
+                <>
+                  <div className="text-sm" style={{ color: RARITY_COLORS[item.rarity] }}>{item.name}</div>
+                  <div className="text-xs text-[#b9bbbe]">{item.effect}</div>
+                </>
+              ) : (
+                <div className="text-sm text-[#72767d]">Empty</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {items.length === 0 ? (
+        <div className="text-center text-[#72767d] py-12">
+          <Package className="w-10 h-10 mx-auto mb-3" />
+          <p className="text-sm">No items yet. Level up and complete quests to find loot.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">{items.map(renderItem)}</div>
+      )}
+    </div>
+  );
+}
@@ -6,24 +6,24 @@ import { TaskList } from "./TaskList";
 import { ProgressHeatmap } from "./ProgressHeatmap";
 import { QuestSelectDropdown } from "./QuestSelectDropdown";
 import {
-  AnalyticsService,
   AuthService,
-  getTaskService,
   QuestUIAdapter,
   TaskService,
+  getRpcClient,
+  onDataChanged,
 } from "../worker";
 import type { Task } from "../App";
 import type { TodayMetrics } from "../worker/services/analytics.service";
 import type { UserProfile } from "../worker/models/UserProfile";
 import { Quest, Subtask } from "../worker/models/Quest";
 import { FloatingPlusButton } from "./FloatingPlusButton";
+import { DailyPlanCard } from "./DailyPlanCard";
 import { totalExpForLevel, xpToNextLevel, currentLevelFromExp, xpDeltaForLevel } from "../worker/utils/level-and-xp-converters";
 
 interface MainPanelProps {
   userId: string;
   tasks: Task[];
   workerQuests: Quest[];
-  dataVersion?: number;
   onToggleTask: (taskId: string) => void;
   onReorderTasks: (startIndex: number, endIndex: number) => void;
   onStartFocus: (task: Task | Subtask, questTitle?: string) => void;
@@ -37,7 +37,6 @@ export function MainPanel({
   userId,
   tasks,
   workerQuests,
-  dataVersion,
   onToggleTask,
   onReorderTasks,
   onStartFocus,
@@ -52,7 +51,7 @@ export function MainPanel({
   const [totalSessions, setTotalSessions] = useState<number>(0);
   const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
 
-  const analyticsService = new AnalyticsService();
+  const analyticsService = getRpcClient("analytics");
   const authService = new AuthService();
   const [newTaskTitle, setNewTaskTitle] = useState("");
   const [selectedQuestId, setSelectedQuestId] = useState<string | null>(null);
@@ -84,10 +83,17 @@ export function MainPanel({
 
   useEffect(() => {
     loadStats();
-  }, [userId, dataVersion]);
+
+    // Refresh stats whenever sessions or XP change (this window or another)
+    return onDataChanged((event) => {
+      if (event.collections.some(c => c === 'sessions' || c === 'users')) {
+        loadStats();
+      }
+    });
+  }, [userId]);
 
   const loadStats = async () => {
-    console.log('[MainPanel] loadStats triggered - dataVersion:', dataVersion);
+    console.log('[MainPanel] loadStats triggered');
     try {
       const [metrics, profile] = await Promise.all([
         analyticsService.getTodayMetrics(userId),
@@ -104,16 +110,10 @@ export function MainPanel({
       setUserProfile(profile || null);
 
       // Get total sessions count
-      const { getDB } = await import("../worker");
-      const db = getDB();
-      const allSessions = await db.sessions
-        .where("userId")
-        .equals(userId)
-        .and(s => s.status === "completed")
-        .toArray();
-      setTotalSessions(allSessions.length);
+      const sessionCount = await analyticsService.getCompletedSessionCount(userId);
+      setTotalSessions(sessionCount);
 
-      console.log('[MainPanel] ✅ Stats loaded - Total Sessions:', allSessions.length);
+      console.log('[MainPanel] ✅ Stats loaded - Total Sessions:', sessionCount);
     } catch (error) {
       console.error("[MainPanel] ❌ Failed to load stats:", error);
     }
@@ -134,7 +134,7 @@ export function MainPanel({
   //     try {
   //       // const { TaskService } = await import("../worker/services/task.service");
 
-  //       const taskService = getTaskService();
+  //       const taskService = getRpcClient("tasks");
 
   //       const orderedTasks = await taskService.applySavedOrder(tasks);
   //       if (JSON.stringify(orderedTasks) !== JSON.stringify(tasks)) {
@@ -158,7 +158,10 @@ export function MainPanel({
             <Button
               variant="ghost"
               size="sm"
-              onClick={onRefresh}
+              onClick={() => {
+                onRefresh();
+                loadStats();
+              }}
               className="h-7 w-7 p-0 hover:bg-[#4f545c]"
               title="Refresh tasks"
             >
@@ -316,6 +319,9 @@ export function MainPanel({
             </div>
           </div>
 
+          {/* GM Daily Plan */}
+          <DailyPlanCard userId={userId} onAccepted={onRefresh} />
+
           {/* Today's Task List */}
           <div className="mb-6">
             <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe] mb-3">
@@ -1,16 +1,16 @@
 import { useEffect, useState } from "react";
-import { Search, Sparkles, MessageCircle, Activity } from "lucide-react";
+import { Search, Sparkles, MessageCircle, Activity, Check, X } from "lucide-react";
 import { Input } from "./ui/input";
 import {
-  GMService,
   AuthService,
-  AnalyticsService,
-  QuestService,
   SearchService,
   ActivityFeedService,
+  getRpcClient,
 } from "../worker";
 import type { Quest } from "../worker/models/Quest";
 import type { ActivityItem } from "../worker/models/ActivityItem";
+import type { GMSuggestion } from "../worker/services/gm/gm.service";
+import type { GMSuggestionAction } from "../worker/models/GMSuggestion";
 
 interface MiddlePanelProps {
   userId: string;
@@ -22,9 +22,7 @@ export function MiddlePanel({ userId }: MiddlePanelProps) {
   const [activityFeed, setActivityFeed] = useState<ActivityItem[]>([]);
 
   // State to hold the dynamic suggestions
-  const [gmSuggestions, setGmSuggestions] = useState<
-    Array<{ id: string; text: string; type: string }>
-  >([]);
+  const [gmSuggestions, setGmSuggestions] = useState<GMSuggestion[]>([]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
   useEffect(() => {
@@ -42,14 +40,7 @@ export function MiddlePanel({ userId }: MiddlePanelProps) {
 
     const fetchGMSuggestions = async () => {
       try {
-        // The 'as any' cast is used because the frontend's simplified context
-        // may not have the full worker-side imports (like AnalyticsService and QuestService)
-        // ready for instantiation, but the GMService class structure requires them.
-        const gmService = new GMService(
-          new AnalyticsService() as any,
-          new QuestService() as any
-        );
-        const suggestions = await gmService.getHomeSuggestions(
+        const suggestions = await getRpcClient("gm").getHomeSuggestions(
           currentUserId || userId
         );
         setGmSuggestions(suggestions.slice(0, 5)); // Limit to top 5 suggestions
@@ -61,6 +52,36 @@ export function MiddlePanel({ userId }: MiddlePanelProps) {
     fetchGMSuggestions();
   }, [currentUserId]);
 
+  // Acting on or dismissing a suggestion teaches the GM which tone works
+  const handleSuggestionFeedback = async (suggestion: GMSuggestion, acted: boolean) => {
+    setGmSuggestions((prev) => prev.filter((s) => s.id !== suggestion.id));
+    try {
+      await getRpcClient("gmActions").recordSuggestionOutcome(
+        currentUserId || userId,
+        suggestion,
+        acted ? "accepted" : "dismissed"
+      );
+    } catch (error) {
+      console.error("Failed to record GM feedback:", error);
+    }
+  };
+
+  // Running an action counts as accepting; alternatives for the same quest and action go with it
+  const handleRunAction = async (suggestion: GMSuggestion, action: GMSuggestionAction) => {
+    const questId = action.params?.questId;
+    try {
+      await getRpcClient("gmActions").executeSuggestionAction(currentUserId || userId, suggestion, action);
+      setGmSuggestions((prev) =>
+        prev.filter((s) =>
+          s.id !== suggestion.id &&
+          !(questId && s.actions?.some((a) => a.action === action.action && a.params?.questId === questId))
+        )
+      );
+    } catch (error) {
+      console.error("Failed to run GM action:", error);
+    }
+  };
+
   const searchService = new SearchService();
   const activityService = new ActivityFeedService();
 
@@ -183,9 +204,40 @@ export function MiddlePanel({ userId }: MiddlePanelProps) {
           {gmSuggestions.map((suggestion) => (
             <div
               key={suggestion.id}
-              className="bg-[#202225] rounded px-3 py-2 mb-2 text-sm"
+              className="group bg-[#202225] rounded px-3 py-2 mb-2 text-sm flex items-start gap-2"
             >
-              <p className="text-[#dcddde]">{suggestion.text}</p>
+              <div className="flex-1">
+                <p className="text-[#dcddde]">{suggestion.text}</p>
+                {suggestion.actions && suggestion.actions.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {suggestion.actions.map((action) => (
+                      <button
+                        key={action.label}
+                        onClick={() => handleRunAction(suggestion, action)}
+                        className="px-2 py-0.5 text-xs rounded bg-[#4f545c] hover:bg-[#5865F2] text-white"
+                      >
+                        {action.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => handleSuggestionFeedback(suggestion, true)}
+                  title="On it"
+                  className="text-[#72767d] hover:text-[#57F287]"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleSuggestionFeedback(suggestion, false)}
+                  title="Dismiss"
+                  className="text-[#72767d] hover:text-[#ED4245]"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
             </div>
           ))}
         </div>
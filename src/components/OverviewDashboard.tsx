@@ -6,6 +6,7 @@ import { TimePercentageDonut } from './TimePercentageDonut';
 import { QuestVelocityGraph } from './QuestVelocityGraph';
 import { StreakPanel } from './StreakPanel';
 import { ProgressHeatmap } from './ProgressHeatmap';
+import { TrackCard } from './TrackCard';
 import { useEffect, useState } from 'react';
 
 interface OverviewDashboardProps {
@@ -78,8 +79,13 @@ export function OverviewDashboard({ userId, timeView = 'overview' }: OverviewDas
         </div>
       </div>
 
-      {/* Row 4: Heatmap (Full Width) */}
+      {/* Row 4: Specialization Track (Full Width) */}
       <div style={animationStyle(7)}>
+        <TrackCard userId={userId} />
+      </div>
+
+      {/* Row 5: Heatmap (Full Width) */}
+      <div style={animationStyle(8)}>
         <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe] mb-3">Activity Heatmap</h3>
         <ProgressHeatmap userId={userId} />
       </div>
@@ -6,6 +6,9 @@ import { CompletionTrendsView } from './CompletionTrendsView';
 import { XPLogsView } from './XPLogsView';
 import { ByQuestView } from './ByQuestView';
 import { AntiQuestAnalytics } from './AntiQuestAnalytics';
+import { RankView } from './RankView';
+import { AchievementsView } from './AchievementsView';
+import { WeeklyReportView } from './WeeklyReportView';
 import type { Quest } from '../worker/models/Quest';
 
 interface ProgressMainPanelProps {
@@ -39,6 +42,12 @@ export function ProgressMainPanel({ userId, selectedView, antiQuests = [] }: Pro
         return <BestQuestsView userId={userId} />;
       case 'completion-trends':
         return <CompletionTrendsView userId={userId} />;
+      case 'rank':
+        return <RankView userId={userId} />;
+      case 'achievements':
+        return <AchievementsView userId={userId} />;
+      case 'weekly-report':
+        return <WeeklyReportView userId={userId} />;
       // AntiQuest Analytics views
       case 'aq-overview':
         return <AntiQuestAnalytics antiQuests={antiQuests} view="aq-overview" userId={userId} />;
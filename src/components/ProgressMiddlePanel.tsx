@@ -105,6 +105,9 @@ export function ProgressMiddlePanel({ selectedView, onViewSelect }: ProgressMidd
               <ViewButton id="best-quests" label="Best Quests" indent />
               <ViewButton id="weak-quests" label="Weak Quests" indent />
               <ViewButton id="completion-trends" label="Completion Trends" indent />
+              <ViewButton id="rank" label="Rank" indent />
+              <ViewButton id="achievements" label="Achievements" indent />
+              <ViewButton id="weekly-report" label="Weekly Report" indent />
             </div>
           )}
         </div>
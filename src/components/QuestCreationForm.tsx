@@ -75,9 +75,9 @@ export function QuestCreationForm({
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const { getSettingsService, AuthService } = await import("../worker");
+        const { getRpcClient, AuthService } = await import("../worker");
         const authService = new AuthService();
-        const settingsService = getSettingsService();
+        const settingsService = getRpcClient("settings");
 
         const userId = await authService.getCurrentUserId();
         const userSettings = await settingsService.getUserSettings(userId);
@@ -223,10 +223,8 @@ export function QuestCreationForm({
     }
 
     try {
-      console.log("[QuestCreationForm] Importing QuestService...");
-      const { QuestService } = await import("../worker");
-      const questService = new QuestService();
-      console.log("[QuestCreationForm] QuestService imported and instantiated");
+      const { getRpcClient } = await import("../worker");
+      const questService = getRpcClient("quests");
 
       const questData: QuestFormData = {
         title: title.trim(),
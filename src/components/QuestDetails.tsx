@@ -25,6 +25,7 @@ import { Task } from "../App";
 import { QuestService } from "../worker";
 import { AuthService, getTaskService } from "../worker";
 import { useModal } from "../context/ModalContext";
+import { DungeonPanel } from "./DungeonPanel";
 import {
   saveTaskOrder,
   loadTaskOrder,
@@ -448,6 +449,9 @@ export function QuestDetails({
             </div>
           )}
 
+          {/* Dungeon party */}
+          {quest.isDungeon && <DungeonPanel quest={quest} />}
+
           {/* Subtasks */}
           <div className="mb-6">
             <button
@@ -33,6 +33,13 @@ export function QuestEditForm({
   const [customDays, setCustomDays] = useState<number[]>(
     quest.schedule.customDays || []
   );
+  const [trackAlignment, setTrackAlignment] = useState<"auto" | "aligned" | "not_aligned">(
+    quest.trackAlignmentOverride === true
+      ? "aligned"
+      : quest.trackAlignmentOverride === false
+      ? "not_aligned"
+      : "auto"
+  );
   const [subtasks, setSubtasks] = useState(
     quest.subtasks.map((st) => ({
       title: st.title,
@@ -114,6 +121,8 @@ export function QuestEditForm({
         isPublic,
         dueDate: dueDate || null,
         tags,
+        trackAlignmentOverride:
+          trackAlignment === "auto" ? null : trackAlignment === "aligned",
         schedule: {
           frequency: schedule === "daily" ? "Daily" : "Custom",
           customDays: schedule === "custom" ? customDays : undefined,
@@ -378,6 +387,26 @@ export function QuestEditForm({
             </div>
           </div>
 
+          {/* Track Alignment */}
+          <div className="bg-[#2f3136] p-4 rounded-lg border border-[#202225]">
+            <label className="block text-sm text-[#b9bbbe] mb-2 font-medium">
+              Track Alignment
+            </label>
+            <select
+              value={trackAlignment}
+              onChange={(e) =>
+                setTrackAlignment(e.target.value as "auto" | "aligned" | "not_aligned")
+              }
+              className="w-full bg-[#202225] text-white px-3 py-2 rounded border-2 border-transparent focus:border-[#5865F2] outline-none transition-colors"
+            >
+              <option value="auto">
+                Automatic (currently {quest.isTrackAligned ? "aligned" : "not aligned"})
+              </option>
+              <option value="aligned">Always aligned</option>
+              <option value="not_aligned">Never aligned</option>
+            </select>
+          </div>
+
           {/* Public/Private Toggle */}
           <div className="bg-[#2f3136] p-4 rounded-lg border border-[#202225]">
             <label className="flex items-center gap-3 cursor-pointer">
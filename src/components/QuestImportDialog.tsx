@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Upload, AlertTriangle } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { AuthService, getRpcClient } from '../worker';
+import type { QuestDraft, QuestImportSource } from '../worker';
+import type { DifficultyTier } from '../worker/models/Quest';
+
+interface QuestImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCES: { value: QuestImportSource; label: string; accept: string }[] = [
+  { value: 'markdown', label: 'Markdown checklist', accept: '.md,.markdown,.txt' },
+  { value: 'todoist-csv', label: 'Todoist (CSV)', accept: '.csv' },
+  { value: 'todoist-json', label: 'Todoist (JSON)', accept: '.json' },
+  { value: 'trello-json', label: 'Trello board (JSON)', accept: '.json' },
+];
+
+const DIFFICULTIES: DifficultyTier[] = ['Trivial', 'Easy', 'Medium', 'Hard', 'Epic'];
+
+export function QuestImportDialog({ open, onOpenChange }: QuestImportDialogProps) {
+  const importService = getRpcClient('questImport');
+  const [source, setSource] = useState<QuestImportSource>('markdown');
+  const [drafts, setDrafts] = useState<QuestDraft[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setDrafts([]);
+    setWarnings([]);
+    setError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    try {
+      const userId = await new AuthService().getCurrentUserId();
+      const preview = await importService.previewImport(userId, source, await file.text());
+      setDrafts(preview.drafts);
+      setWarnings(preview.warnings);
+    } catch (e) {
+      console.error('Quest import preview failed:', e);
+      setError(e instanceof Error ? e.message : 'Could not read file');
+    }
+  };
+
+  const updateDraft = (draftId: string, changes: Partial<QuestDraft>) => {
+    setDrafts(prev => prev.map(d => (d.draftId === draftId ? { ...d, ...changes } : d)));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const userId = await new AuthService().getCurrentUserId();
+      const result = await importService.importQuests(userId, drafts);
+      if (result.failed.length > 0) {
+        alert(
+          `Imported ${result.created.length} quest${result.created.length === 1 ? '' : 's'}. ` +
+          `Failed:\n${result.failed.map(f => `• ${f.title}: ${f.error}`).join('\n')}`
+        );
+      }
+      handleOpenChange(false);
+    } catch (e) {
+      console.error('Quest import failed:', e);
+      setError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const selectedCount = drafts.filter(d => d.selected).length;
+  const accept = SOURCES.find(s => s.value === source)?.accept;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-[#2f3136] border-[#202225] max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Import Quests</DialogTitle>
+          <DialogDescription className="text-[#b9bbbe]">
+            Each project, card or checklist becomes a quest. Imported quests are sent to the GM for validation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value as QuestImportSource);
+              reset();
+            }}
+            className="bg-[#202225] text-[#dcddde] border border-[#4f545c] rounded px-2 py-1 text-sm"
+          >
+            {SOURCES.map(s => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+          <Button asChild variant="outline" className="text-[#dcddde] border-[#4f545c] hover:bg-[#4f545c]">
+            <label className="cursor-pointer flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              Choose File
+              <input
+                type="file"
+                accept={accept}
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-[#ED4245]">{error}</p>}
+        {warnings.map(warning => (
+          <p key={warning} className="text-sm text-[#f0b232] flex items-center gap-1">
+            <AlertTriangle className="w-4 h-4" />
+            {warning}
+          </p>
+        ))}
+
+        {drafts.length > 0 && (
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {drafts.map(draft => (
+              <div
+                key={draft.draftId}
+                className={`bg-[#202225] rounded p-3 flex items-start gap-3 ${draft.selected ? '' : 'opacity-50'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.selected}
+                  onChange={(e) => updateDraft(draft.draftId, { selected: e.target.checked })}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white truncate">{draft.title}</div>
+                  <div className="text-xs text-[#72767d]">
+                    {draft.subtasks.length} subtask{draft.subtasks.length === 1 ? '' : 's'}
+                    {draft.tags.length > 0 && ` · ${draft.tags.map(t => `#${t}`).join(' ')}`}
+                    {draft.dueDate && ` · due ${new Date(draft.dueDate).toLocaleDateString()}`}
+                    {` · priority ${draft.priority}`}
+                  </div>
+                  {draft.duplicateOf && (
+                    <div className="text-xs text-[#f0b232]">
+                      {draft.duplicateOf === 'import' ? 'Repeated in this file' : 'A quest with this title already exists'}
+                    </div>
+                  )}
+                </div>
+                <select
+                  value={draft.difficulty}
+                  onChange={(e) => updateDraft(draft.draftId, { difficulty: e.target.value as DifficultyTier })}
+                  className="bg-[#2f3136] text-[#dcddde] border border-[#4f545c] rounded px-2 py-1 text-xs"
+                >
+                  {DIFFICULTIES.map(d => (
+                    <option key={d} value={d}>{d}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="bg-[#4f545c] text-[#dcddde] border-0 hover:bg-[#5d6269]"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={selectedCount === 0 || isImporting}
+            className="bg-[#5865F2] hover:bg-[#4752C4] text-white"
+          >
+            {isImporting ? 'Importing...' : `Import ${selectedCount} Quest${selectedCount === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
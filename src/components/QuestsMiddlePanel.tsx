@@ -1,10 +1,11 @@
 import { useState } from 'react';
-import { ChevronDown, ChevronRight, Search, MessageCircle, Bell, Compass, Plus, Sparkles, AlertTriangle } from 'lucide-react';
+import { ChevronDown, ChevronRight, Search, MessageCircle, Bell, Compass, Plus, Sparkles, AlertTriangle, Upload } from 'lucide-react';
 import { Input } from './ui/input';
 import type { Quest, Severity } from '../worker/models/Quest';
 import type { Notification as WorkerNotification } from '../worker/models/Notification';
 import { QuestService } from '../worker';
 import { GoalComment } from '../worker/models/GoalComment';
+import { QuestImportDialog } from './QuestImportDialog';
 
 interface QuestsMiddlePanelProps {
   quests: Quest[];
@@ -57,6 +58,7 @@ export function QuestsMiddlePanel({
     antiQuests: false, // Collapsed by default
   });
   const [searchQuery, setSearchQuery] = useState('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
   // const [questComments, setQuestComments] = useState<Record<string, GoalComment[]>>({});
   // const questService = new QuestService();
 
@@ -224,6 +226,14 @@ export function QuestsMiddlePanel({
             <span className="text-sm text-white">Create New Quest</span>
             <Sparkles className="w-4 h-4 text-[#faa61a] ml-auto" />
           </button>
+          <button
+            onClick={() => setIsImportOpen(true)}
+            className="w-full px-3 py-2 flex items-center gap-2 text-xs text-[#b9bbbe] hover:bg-[#5865F2] hover:bg-opacity-10 transition-all"
+          >
+            <Upload className="w-3 h-3" />
+            Import from Markdown, Todoist or Trello
+          </button>
+          <QuestImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
         </div>
 
         {/* My Quests (Collapsible) */}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Trophy, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { getRpcClient, onDataChanged } from '../worker';
+import type { RankSummary } from '../worker/services/rank.service';
+import type { RankHistoryEntry } from '../worker/models/RankHistory';
+
+interface RankViewProps {
+  userId: string;
+}
+
+const CHANGE_STYLES: Record<RankHistoryEntry['change'], { color: string; icon: typeof Minus; label: string }> = {
+  promoted: { color: '#57F287', icon: TrendingUp, label: 'Promoted' },
+  demoted: { color: '#ED4245', icon: TrendingDown, label: 'Demoted' },
+  held: { color: '#b9bbbe', icon: Minus, label: 'Held' },
+};
+
+export function RankView({ userId }: RankViewProps) {
+  const [summary, setSummary] = useState<RankSummary | null>(null);
+
+  useEffect(() => {
+    const rankService = getRpcClient('rank');
+    const loadRank = async () => {
+      try {
+        setSummary(await rankService.getRankSummary(userId));
+      } catch (error) {
+        console.error('Failed to load rank:', error);
+      }
+    };
+
+    loadRank();
+    return onDataChanged(event => {
+      if (event.collections.includes('users')) loadRank();
+    });
+  }, [userId]);
+
+  if (!summary) {
+    return <div className="p-6 text-sm text-[#72767d]">Loading rank...</div>;
+  }
+
+  const progress = summary.nextMinRP === null
+    ? 100
+    : Math.min(100, Math.max(0, ((summary.rankPoints - summary.currentMinRP) / (summary.nextMinRP - summary.currentMinRP)) * 100));
+  const chartData = [...summary.history].reverse().map(entry => ({
+    week: entry.weekStart.slice(5),
+    rp: entry.rankPoints,
+  }));
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-xl text-white mb-2">Rank</h2>
+        <p className="text-sm text-[#b9bbbe]">
+          Grades are evaluated every Monday, one step at a time
+        </p>
+      </div>
+
+      {/* Current Grade */}
+      <div className="bg-[#2f3136] rounded-lg p-6 mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <Trophy className="w-8 h-8 text-[#faa61a]" />
+            <div>
+              <div className="text-2xl text-white">{summary.grade}</div>
+              <div className="text-xs text-[#72767d]">{summary.rankPoints} RP</div>
+            </div>
+          </div>
+          <div className="text-right text-xs text-[#72767d]">
+            <div>This week: <span className="text-[#57F287]">+{summary.weekRpEarned}</span></div>
+            {summary.weekRpDecayed > 0 && (
+              <div>Decay: <span className="text-[#ED4245]">-{summary.weekRpDecayed}</span></div>
+            )}
+          </div>
+        </div>
+        <div className="h-2 bg-[#202225] rounded-full overflow-hidden">
+          <div className="h-full bg-[#faa61a]" style={{ width: `${progress}%` }} />
+        </div>
+        <div className="mt-2 text-xs text-[#72767d]">
+          {summary.nextGrade
+            ? `${Math.max(0, (summary.nextMinRP ?? 0) - summary.rankPoints)} RP to ${summary.nextGrade}`
+            : 'Highest grade reached'}
+        </div>
+      </div>
+
+      {/* RP Trend */}
+      {chartData.length > 1 && (
+        <div className="bg-[#2f3136] rounded-lg p-6 mb-6">
+          <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe] mb-4">
+            RP at Weekly Evaluation
+          </h3>
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#202225" />
+              <XAxis dataKey="week" stroke="#72767d" style={{ fontSize: '12px' }} />
+              <YAxis stroke="#72767d" style={{ fontSize: '12px' }} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#18191c',
+                  border: 'none',
+                  borderRadius: '8px',
+                  color: '#dcddde',
+                }}
+                labelStyle={{ color: '#dcddde' }}
+              />
+              <Line
+                type="monotone"
+                dataKey="rp"
+                stroke="#faa61a"
+                strokeWidth={2}
+                dot={{ r: 4, fill: '#faa61a' }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* History */}
+      <div>
+        <h3 className="text-sm text-white mb-4">Rank History</h3>
+        {summary.history.length === 0 ? (
+          <div className="text-sm text-[#72767d]">No weekly evaluations yet.</div>
+        ) : (
+          <div className="space-y-2">
+            {summary.history.map(entry => {
+              const style = CHANGE_STYLES[entry.change];
+              const Icon = style.icon;
+              return (
+                <div key={entry.id} className="bg-[#2f3136] rounded-lg p-4 flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <Icon className="w-5 h-5" style={{ color: style.color }} />
+                    <div>
+                      <div className="text-sm text-white">
+                        {entry.change === 'held' ? entry.toGrade : `${entry.fromGrade} → ${entry.toGrade}`}
+                      </div>
+                      <div className="text-xs text-[#72767d]">Week of {entry.weekStart}</div>
+                    </div>
+                  </div>
+                  <div className="text-right text-xs">
+                    <div style={{ color: style.color }}>{style.label}</div>
+                    <div className="text-[#72767d]">
+                      {entry.rankPoints} RP (+{entry.rpEarned}{entry.rpDecayed > 0 ? ` / -${entry.rpDecayed}` : ''})
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,23 @@
 import { useEffect, useState } from 'react';
-import { Clock, Zap, AlertCircle, Trophy } from 'lucide-react';
+import { Clock, Zap, AlertCircle, Trophy, Download } from 'lucide-react';
 import { AuthService } from '../worker/services/auth.service';
-import { AnalyticsService } from '../worker/services/analytics.service';
-import { QuestService } from '../worker/services/quest.service';
+import { getRpcClient } from '../worker';
+import { toLocalDate } from '../worker/utils/local-date';
+import type { Quest } from '../worker/models/Quest';
+
+const EXPORT_DEFAULT_RANGE_DAYS = 30;
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
 
 interface SessionHistoryViewProps {
   userId: string;
@@ -13,13 +28,20 @@ export function SessionHistoryView({ userId, logType = 'session' }: SessionHisto
   const [sessionHistory, setSessionHistory] = useState<any[]>([]);
   const [xpLogs, setXpLogs] = useState<any[]>([]);
   const [milestoneLogs, setMilestoneLogs] = useState<any[]>([]);
+  const [exportQuests, setExportQuests] = useState<Quest[]>([]);
+  const [exportStart, setExportStart] = useState(() =>
+    toLocalDate(new Date(Date.now() - EXPORT_DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000))
+  );
+  const [exportEnd, setExportEnd] = useState(() => toLocalDate(new Date()));
+  const [exportQuestId, setExportQuestId] = useState('');
+  const [exportTag, setExportTag] = useState('');
 
   useEffect(() => {
     async function loadData() {
       if (logType === 'session' || logType === 'xp') {
         const authService = new AuthService();
-        const analyticsService = new AnalyticsService();
-        const questService = new QuestService();
+        const analyticsService = getRpcClient('analytics');
+        const questService = getRpcClient('quests');
         const user: any = await authService.getCurrentUser();
         const sessions = await analyticsService.getSessionHistory({
           userId: user.userId,
@@ -52,6 +74,7 @@ export function SessionHistoryView({ userId, logType = 'session' }: SessionHisto
         );
 
         setSessionHistory(enrichedSessions);
+        setExportQuests(await questService.getUserQuests(user.userId));
         
         // XP logs are just sessions with different formatting
         if (logType === 'xp') {
@@ -69,7 +92,7 @@ export function SessionHistoryView({ userId, logType = 'session' }: SessionHisto
       if (logType === 'milestone') {
         // Load milestone data from quest progress history
         const authService = new AuthService();
-        const questService = new QuestService();
+        const questService = getRpcClient('quests');
         const user: any = await authService.getCurrentUser();
         const quests = await questService.getUserQuests(user.userId);
         const milestones: any[] = [];
@@ -195,6 +218,87 @@ export function SessionHistoryView({ userId, logType = 'session' }: SessionHisto
 //     },
 //   ];
 
+  const exportTags = Array.from(new Set(exportQuests.flatMap(q => q.tags || []))).sort();
+
+  const handleExportSessions = async (format: 'csv' | 'ics') => {
+    const options = {
+      startDate: exportStart,
+      endDate: exportEnd,
+      questIds: exportQuestId ? [exportQuestId] : [],
+      tags: exportTag ? [exportTag] : [],
+    };
+    try {
+      const exportService = getRpcClient('sessionExport');
+      const filename = `ascend-sessions-${exportStart}-to-${exportEnd}.${format}`;
+      if (format === 'csv') {
+        downloadFile(await exportService.exportCsv(userId, options), filename, 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(await exportService.exportIcs(userId, options), filename, 'text/calendar;charset=utf-8');
+      }
+    } catch (error) {
+      console.error('Session export failed:', error);
+      alert(`Failed to export sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const renderExportBar = () => (
+    <div className="bg-[#2f3136] rounded-lg p-4 mb-4 flex flex-wrap items-center gap-2 text-xs">
+      <input
+        type="date"
+        value={exportStart}
+        max={exportEnd}
+        onChange={(e) => setExportStart(e.target.value)}
+        className="bg-[#202225] text-[#dcddde] rounded px-2 py-1"
+      />
+      <span className="text-[#72767d]">to</span>
+      <input
+        type="date"
+        value={exportEnd}
+        min={exportStart}
+        onChange={(e) => setExportEnd(e.target.value)}
+        className="bg-[#202225] text-[#dcddde] rounded px-2 py-1"
+      />
+      <select
+        value={exportQuestId}
+        onChange={(e) => setExportQuestId(e.target.value)}
+        className="bg-[#202225] text-[#dcddde] rounded px-2 py-1"
+      >
+        <option value="">All quests</option>
+        {exportQuests.map(q => (
+          <option key={q.questId} value={q.questId}>{q.title}</option>
+        ))}
+      </select>
+      {exportTags.length > 0 && (
+        <select
+          value={exportTag}
+          onChange={(e) => setExportTag(e.target.value)}
+          className="bg-[#202225] text-[#dcddde] rounded px-2 py-1"
+        >
+          <option value="">All tags</option>
+          {exportTags.map(tag => (
+            <option key={tag} value={tag}>{tag}</option>
+          ))}
+        </select>
+      )}
+      <div className="flex gap-2 ml-auto">
+        <button
+          onClick={() => handleExportSessions('csv')}
+          className="flex items-center gap-1 px-3 py-1 rounded bg-[#5865F2] hover:bg-[#4752C4] text-white"
+        >
+          <Download className="w-3 h-3" />
+          CSV
+        </button>
+        <button
+          onClick={() => handleExportSessions('ics')}
+          className="flex items-center gap-1 px-3 py-1 rounded bg-[#4f545c] hover:bg-[#5d6269] text-white"
+        >
+          <Download className="w-3 h-3" />
+          Calendar (.ics)
+        </button>
+      </div>
+    </div>
+  );
+
   const renderSessionHistory = () => (
     <div className="space-y-3">
       {sessionHistory.map((session) => (
@@ -309,6 +413,7 @@ export function SessionHistoryView({ userId, logType = 'session' }: SessionHisto
   return (
     <div className="p-6">
       <h2 className="text-xl text-white mb-6">{getTitle()}</h2>
+      {logType === 'session' && renderExportBar()}
       {renderContent()}
     </div>
   );
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { getSettingsService, AuthService } from '../worker';
+import { getRpcClient, AuthService } from '../worker';
 import type { UserSettings } from '../worker/models/UserSettings';
 import { AccountSection } from './settings/AccountSection';
 import { NotificationsSection } from './settings/NotificationsSection';
@@ -31,7 +31,7 @@ export function SettingsMainPanel({ selectedSection }: SettingsMainPanelProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
-  const settingsService = getSettingsService();
+  const settingsService = getRpcClient('settings');
   const authService = new AuthService();
 
   useEffect(() => {
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Compass, Lock, Check } from "lucide-react";
+import { getRpcClient, onDataChanged } from "../worker";
+import type { Track, TrackAnalytics } from "../worker/services/track.service";
+
+interface TrackCardProps {
+  userId: string;
+}
+
+const TRACK_COLORS: Record<Track, string> = {
+  Architect: "#00b0f4",
+  Scholar: "#9b59b6",
+  Vanguard: "#ED4245",
+};
+
+// Analytics window for the aligned-effort share
+const WINDOW_DAYS = 30;
+
+export function TrackCard({ userId }: TrackCardProps) {
+  const [analytics, setAnalytics] = useState<TrackAnalytics | null>(null);
+  const [selectedTrack, setSelectedTrack] = useState<Track>("Architect");
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const loadAnalytics = async () => {
+    const endDate = new Date().toISOString().split("T")[0];
+    const startDate = new Date(Date.now() - (WINDOW_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+    try {
+      const res = await getRpcClient("tracks").getTrackAnalytics(userId, startDate, endDate);
+      setAnalytics(res);
+      setSelectedTrack(res.track);
+    } catch (error) {
+      console.error("Failed to load track analytics:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!userId) return;
+    loadAnalytics();
+    return onDataChanged((event) => {
+      if (event.collections.includes("users") || event.collections.includes("sessions")) loadAnalytics();
+    });
+  }, [userId]);
+
+  const handleSwitch = async () => {
+    if (!analytics || selectedTrack === analytics.track) return;
+    if (!confirm(`Switch to ${selectedTrack}? You won't be able to switch again for 14 days.`)) return;
+
+    setIsSwitching(true);
+    try {
+      await getRpcClient("tracks").switchTrack(userId, selectedTrack);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to switch track");
+      setSelectedTrack(analytics.track);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  if (!analytics) return null;
+
+  const color = TRACK_COLORS[analytics.track];
+  const share = (aligned: number, total: number) => (total > 0 ? Math.round((aligned / total) * 100) : 0);
+  const timeShare = share(analytics.alignedMinutes, analytics.totalMinutes);
+  const xpShare = share(analytics.alignedXP, analytics.totalXP);
+
+  return (
+    <div className="bg-[#2f3136] rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe]">
+          Specialization Track
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedTrack}
+            onChange={(e) => setSelectedTrack(e.target.value as Track)}
+            disabled={isSwitching || analytics.switchAvailableAt !== null}
+            className="bg-[#202225] text-[#dcddde] text-xs px-2 py-1 rounded outline-none disabled:opacity-50"
+          >
+            {(Object.keys(TRACK_COLORS) as Track[]).map((track) => (
+              <option key={track} value={track}>{track}</option>
+            ))}
+          </select>
+          {selectedTrack !== analytics.track && (
+            <button
+              onClick={handleSwitch}
+              disabled={isSwitching}
+              className="px-2 py-1 rounded text-xs bg-[#5865F2] hover:bg-[#4752C4] text-white disabled:opacity-50"
+            >
+              Switch
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 mb-4">
+        <Compass className="w-8 h-8" style={{ color }} />
+        <div>
+          <div className="text-2xl text-white">{analytics.track}</div>
+          <div className="text-xs text-[#72767d]">
+            {analytics.switchAvailableAt
+              ? `Switch available ${new Date(analytics.switchAvailableAt).toLocaleDateString()}`
+              : `Aligned quests earn ${analytics.alignedMultiplier}× XP`}
+          </div>
+        </div>
+      </div>
+
+      {/* Aligned effort, last 30 days */}
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div>
+          <div className="text-xs text-[#72767d] mb-1">Aligned Quests</div>
+          <div className="text-lg text-white">{analytics.alignedQuests} / {analytics.totalQuests}</div>
+        </div>
+        <div>
+          <div className="text-xs text-[#72767d] mb-1">Aligned Time</div>
+          <div className="text-lg" style={{ color }}>{timeShare}%</div>
+        </div>
+        <div>
+          <div className="text-xs text-[#72767d] mb-1">Aligned XP</div>
+          <div className="text-lg" style={{ color }}>{xpShare}%</div>
+        </div>
+      </div>
+
+      {/* Perks */}
+      <div className="space-y-2">
+        {analytics.unlockedPerks.map((perk) => (
+          <div key={perk.perkId} className="flex items-center gap-2 text-sm text-[#dcddde]">
+            <Check className="w-4 h-4 text-[#57F287]" />
+            <span>{perk.name}</span>
+            <span className="text-xs text-[#72767d]">{perk.description}</span>
+          </div>
+        ))}
+        {analytics.nextPerk && (
+          <div className="flex items-center gap-2 text-sm text-[#72767d]">
+            <Lock className="w-4 h-4" />
+            <span>{analytics.nextPerk.name}</span>
+            <span className="text-xs">Level {analytics.nextPerk.unlockLevel}: {analytics.nextPerk.description}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { Download, RefreshCw, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { getRpcClient, onDataChanged } from '../worker';
+import type { Trend, WeeklyReport } from '../worker/models/WeeklyReport';
+
+interface WeeklyReportViewProps {
+  userId: string;
+}
+
+const TREND_STYLES: Record<Trend, { color: string; icon: typeof Minus }> = {
+  improving: { color: '#57F287', icon: TrendingUp },
+  declining: { color: '#ED4245', icon: TrendingDown },
+  stable: { color: '#b9bbbe', icon: Minus },
+};
+
+const SEVERITY_COLORS: Record<WeeklyReport['patterns'][number]['severity'], string> = {
+  info: '#5865F2',
+  warning: '#faa61a',
+  critical: '#ED4245',
+};
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function formatDelta(current: number, previous: number): string {
+  const delta = current - previous;
+  return delta === 0 ? '±0' : delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+export function WeeklyReportView({ userId }: WeeklyReportViewProps) {
+  const [reports, setReports] = useState<WeeklyReport[]>([]);
+  const [selectedWeek, setSelectedWeek] = useState<string | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    const reportService = getRpcClient('reports');
+    const loadReports = async () => {
+      try {
+        const [stored, settings] = await Promise.all([
+          reportService.getWeeklyReports(userId),
+          getRpcClient('settings').getUserSettings(userId),
+        ]);
+        setReports(stored);
+        setEnabled(settings.ai.suggestions.weeklyAnalysis);
+      } catch (error) {
+        console.error('Failed to load weekly reports:', error);
+      }
+    };
+
+    loadReports();
+    return onDataChanged(event => {
+      if (event.collections.includes('weeklyReports') || event.collections.includes('settings')) loadReports();
+    });
+  }, [userId]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const report = await getRpcClient('reports').generateWeeklyReport(userId);
+      setSelectedWeek(report.weekStart);
+    } catch (error) {
+      console.error('Failed to generate weekly report:', error);
+      alert(`Failed to generate report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleExport = async (report: WeeklyReport) => {
+    try {
+      const markdown = await getRpcClient('reports').exportWeeklyReportMarkdown(userId, report.weekStart);
+      downloadFile(markdown, `ascend-weekly-report-${report.weekStart}.md`, 'text/markdown;charset=utf-8');
+    } catch (error) {
+      console.error('Weekly report export failed:', error);
+      alert(`Failed to export report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const selectedIndex = Math.max(0, reports.findIndex(r => r.weekStart === selectedWeek));
+  const report = reports[selectedIndex];
+  // Stored reports are newest first, so the next one is the week to compare against
+  const previous: WeeklyReport | undefined = reports[selectedIndex + 1];
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-xl text-white mb-2">Weekly Report</h2>
+          <p className="text-sm text-[#b9bbbe]">
+            The GM's look back at each week, compiled every Monday
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm rounded bg-[#4f545c] hover:bg-[#5d6269] text-white disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isGenerating ? 'animate-spin' : ''}`} />
+            This Week So Far
+          </button>
+          {report && (
+            <button
+              onClick={() => handleExport(report)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm rounded bg-[#5865F2] hover:bg-[#4752c4] text-white"
+            >
+              <Download className="w-4 h-4" />
+              Export Markdown
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!enabled && (
+        <div className="bg-[#2f3136] rounded-lg p-4 mb-6 text-sm text-[#b9bbbe]">
+          Weekly analysis is turned off, so reports aren't compiled automatically. Enable it under Settings → AI.
+        </div>
+      )}
+
+      {reports.length === 0 ? (
+        <div className="text-sm text-[#72767d]">No weekly reports yet.</div>
+      ) : (
+        <>
+          {/* Week Picker */}
+          <div className="flex flex-wrap gap-2 mb-6">
+            {reports.map(r => (
+              <button
+                key={r.id}
+                onClick={() => setSelectedWeek(r.weekStart)}
+                className={`px-3 py-1 text-xs rounded ${
+                  r.weekStart === report.weekStart
+                    ? 'bg-[#5865F2] text-white'
+                    : 'bg-[#2f3136] text-[#b9bbbe] hover:bg-[#40444b]'
+                }`}
+              >
+                {r.weekStart}
+              </button>
+            ))}
+          </div>
+
+          {/* Totals */}
+          <div className="grid grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'XP Earned', value: report.totals.xp, prev: previous?.totals.xp },
+              { label: 'Focus Minutes', value: report.totals.focusMinutes, prev: previous?.totals.focusMinutes },
+              { label: 'Sessions', value: report.totals.sessionsCompleted, prev: previous?.totals.sessionsCompleted },
+              { label: 'Active Days', value: report.consistency.activeDays, prev: report.consistency.previousActiveDays },
+            ].map(stat => (
+              <div key={stat.label} className="bg-[#2f3136] rounded-lg p-4">
+                <div className="text-xs text-[#72767d] mb-1">{stat.label}</div>
+                <div className="text-2xl text-white">{stat.value}</div>
+                {stat.prev !== undefined && (
+                  <div className="text-xs text-[#b9bbbe]">{formatDelta(stat.value, stat.prev)} vs previous week</div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Trends */}
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            {[
+              { label: 'Consistency', trend: report.consistency.trend, detail: `${report.consistency.activeDays}/7 days active` },
+              { label: 'Quality', trend: report.quality.trend, detail: `Average ${report.quality.average} (was ${report.quality.previousAverage})` },
+            ].map(item => {
+              const style = TREND_STYLES[item.trend];
+              const Icon = style.icon;
+              return (
+                <div key={item.label} className="bg-[#2f3136] rounded-lg p-4 flex items-center gap-3">
+                  <Icon className="w-5 h-5" style={{ color: style.color }} />
+                  <div>
+                    <div className="text-sm text-white">{item.label}: <span style={{ color: style.color }}>{item.trend}</span></div>
+                    <div className="text-xs text-[#72767d]">{item.detail}</div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Quests */}
+          <div className="bg-[#2f3136] rounded-lg p-6 mb-6">
+            <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe] mb-4">Time by Quest</h3>
+            {report.quests.length === 0 ? (
+              <div className="text-sm text-[#72767d]">No completed sessions this week.</div>
+            ) : (
+              <div className="space-y-2">
+                {report.quests.map(q => (
+                  <div key={q.questId} className="flex items-center justify-between text-sm">
+                    <span className="text-[#dcddde] truncate">{q.title}</span>
+                    <span className="text-xs text-[#72767d] shrink-0 ml-4">
+                      {q.sessions} sessions · {q.minutes} min · +{q.xp} XP · quality {q.averageQuality}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* AntiQuests & Overdue */}
+          {(report.antiQuests.length > 0 || report.overdue.length > 0) && (
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div className="bg-[#2f3136] rounded-lg p-6">
+                <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe] mb-4">AntiQuest Impact</h3>
+                {report.antiQuests.length === 0 ? (
+                  <div className="text-sm text-[#72767d]">None this week.</div>
+                ) : report.antiQuests.map(a => (
+                  <div key={a.antiQuestId} className="flex justify-between text-sm mb-1">
+                    <span className="text-[#dcddde]">{a.title} ×{a.occurrences}</span>
+                    <span className="text-[#ED4245]">-{a.xpLost} XP</span>
+                  </div>
+                ))}
+              </div>
+              <div className="bg-[#2f3136] rounded-lg p-6">
+                <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe] mb-4">Overdue</h3>
+                {report.overdue.length === 0 ? (
+                  <div className="text-sm text-[#72767d]">Nothing overdue.</div>
+                ) : report.overdue.map(o => (
+                  <div key={o.questId} className="flex justify-between text-sm mb-1">
+                    <span className="text-[#dcddde]">{o.title}</span>
+                    <span className="text-[#faa61a]">{o.daysOverdue}d</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* GM Analysis */}
+          {(report.patterns.length > 0 || report.recommendations.length > 0) && (
+            <div className="bg-[#2f3136] rounded-lg p-6">
+              <h3 className="text-xs uppercase tracking-wide text-[#b9bbbe] mb-4">GM Analysis</h3>
+              {report.patterns.map(p => (
+                <div key={p.name} className="text-sm mb-2">
+                  <span style={{ color: SEVERITY_COLORS[p.severity] }}>{p.name}</span>
+                  <span className="text-[#b9bbbe]">: {p.detail}</span>
+                </div>
+              ))}
+              {report.recommendations.length > 0 && (
+                <ul className="mt-3 space-y-1 list-disc list-inside text-sm text-[#dcddde]">
+                  {report.recommendations.map(r => <li key={r}>{r}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
+import { useEffect, useState } from 'react';
 import { Label } from '../ui/label';
+import { Input } from '../ui/input';
 import { ToggleSwitch } from '../ui/toggle-switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Button } from '../ui/button';
@@ -14,7 +16,13 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '../ui/alert-dialog';
-import type { UserSettings } from '../../worker/models/UserSettings';
+import { getRpcClient, onDataChanged } from '../../worker';
+import { DEFAULT_USER_SETTINGS, type UserSettings } from '../../worker/models/UserSettings';
+import type { ValidationQuotaStatus } from '../../worker/services/gm/gm.quota';
+
+type ProviderSettings = UserSettings['ai']['provider'];
+
+const LOCAL_ENDPOINT = 'http://localhost:11434/v1';
 
 interface AISectionProps {
   settings: UserSettings;
@@ -23,6 +31,39 @@ interface AISectionProps {
 }
 
 export function AISection({ settings, onUpdate }: AISectionProps) {
+  // Settings saved before providers existed have none
+  const provider = settings.ai.provider ?? DEFAULT_USER_SETTINGS.ai.provider;
+  const [endpoint, setEndpoint] = useState(provider.endpoint);
+  const [model, setModel] = useState(provider.model);
+  const [apiKey, setApiKey] = useState('');
+  const [savedApiKey, setSavedApiKey] = useState('');
+  const [quota, setQuota] = useState<ValidationQuotaStatus | null>(null);
+
+  useEffect(() => {
+    // The key is stored on this device only, outside the synced settings
+    getRpcClient('settings').getProviderApiKey(settings.userId)
+      .then(key => {
+        setApiKey(key);
+        setSavedApiKey(key);
+      })
+      .catch(error => console.error('Failed to load GM provider API key:', error));
+  }, [settings.userId]);
+
+  useEffect(() => {
+    const loadQuota = async () => {
+      try {
+        setQuota(await getRpcClient('gmQuota').getQuota(settings.userId));
+      } catch (error) {
+        console.error('Failed to load GM validation quota:', error);
+      }
+    };
+
+    loadQuota();
+    return onDataChanged(event => {
+      if (event.collections.includes('quests')) loadQuota();
+    });
+  }, [settings.userId]);
+
   const handleToneChange = async (tone: 'mild' | 'standard' | 'tough') => {
     await onUpdate({
       ai: {
@@ -56,6 +97,34 @@ export function AISection({ settings, onUpdate }: AISectionProps) {
     });
   };
 
+  const handleProviderChange = async (updates: Partial<ProviderSettings>) => {
+    await onUpdate({
+      ai: {
+        ...settings.ai,
+        provider: {
+          ...provider,
+          ...updates,
+        },
+      },
+    });
+  };
+
+  const handleSaveProviderFields = async () => {
+    if (endpoint === provider.endpoint && model === provider.model) return;
+    await handleProviderChange({ endpoint: endpoint.trim(), model: model.trim() });
+  };
+
+  const handleSaveApiKey = async () => {
+    const key = apiKey.trim();
+    if (key === savedApiKey) return;
+    try {
+      await getRpcClient('settings').setProviderApiKey(settings.userId, key);
+      setSavedApiKey(key);
+    } catch (error) {
+      console.error('Failed to save GM provider API key:', error);
+    }
+  };
+
   const handleResetMemory = async () => {
     // TODO: Implement GM memory reset
     alert('AI memory reset functionality coming soon');
@@ -102,6 +171,100 @@ export function AISection({ settings, onUpdate }: AISectionProps) {
 
       <Separator className="bg-[#202225]" />
 
+      <div>
+        <h3 className="text-white mb-4 font-semibold">GM Provider</h3>
+        <div className="space-y-4">
+          <div>
+            <Label className="text-[#b9bbbe]">Validation Provider</Label>
+            <Select
+              value={provider.type}
+              onValueChange={(type: ProviderSettings['type']) => handleProviderChange({ type })}
+            >
+              <SelectTrigger className="mt-2 bg-[#202225] border-[#202225] text-[#dcddde] max-w-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-[#2f3136] border-[#202225]">
+                <SelectItem value="ascend" className="text-[#dcddde]">Ascend Cloud</SelectItem>
+                <SelectItem value="openai-compatible" className="text-[#dcddde]">
+                  OpenAI-Compatible API
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-[#72767d] mt-2">
+              Which model judges your quest difficulty
+            </p>
+          </div>
+
+          {quota && (
+            <div className="max-w-md">
+              <div className="flex items-center justify-between">
+                <Label className="text-[#dcddde]">Remote Validations Today</Label>
+                <span className={quota.remaining > 0 ? 'text-[#dcddde] text-sm' : 'text-[#ED4245] text-sm'}>
+                  {quota.remaining} of {quota.dailyLimit} left
+                </span>
+              </div>
+              <div className="mt-2 h-2 rounded bg-[#202225] overflow-hidden">
+                <div
+                  className="h-full bg-[#5865F2]"
+                  style={{ width: `${quota.dailyLimit > 0 ? (quota.remaining / quota.dailyLimit) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-sm text-[#72767d] mt-2">
+                Resets at {new Date(quota.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                When it runs low, Epic and Hard quests go first; the rest are validated on-device.
+              </p>
+            </div>
+          )}
+
+          {provider.type === 'openai-compatible' && (
+            <>
+              <div>
+                <Label htmlFor="providerEndpoint" className="text-[#b9bbbe]">Endpoint</Label>
+                <Input
+                  id="providerEndpoint"
+                  value={endpoint}
+                  onChange={(e) => setEndpoint(e.target.value)}
+                  onBlur={handleSaveProviderFields}
+                  placeholder={LOCAL_ENDPOINT}
+                  className="mt-2 bg-[#202225] border-[#202225] text-[#dcddde] placeholder:text-[#72767d] max-w-md"
+                />
+                <p className="text-sm text-[#72767d] mt-2">
+                  Base URL of a /chat/completions server. For a local model server (e.g.
+                  Ollama) use {LOCAL_ENDPOINT}
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="providerModel" className="text-[#b9bbbe]">Model</Label>
+                <Input
+                  id="providerModel"
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  onBlur={handleSaveProviderFields}
+                  placeholder="gpt-4o-mini"
+                  className="mt-2 bg-[#202225] border-[#202225] text-[#dcddde] placeholder:text-[#72767d] max-w-md"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="providerApiKey" className="text-[#b9bbbe]">API Key</Label>
+                <Input
+                  id="providerApiKey"
+                  type="password"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  onBlur={handleSaveApiKey}
+                  placeholder="Leave empty for local servers"
+                  className="mt-2 bg-[#202225] border-[#202225] text-[#dcddde] placeholder:text-[#72767d] max-w-md"
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Separator className="bg-[#202225]" />
+
       <div>
         <h3 className="text-white mb-4 font-semibold">Automatic Suggestions</h3>
         <div className="space-y-4">
@@ -14,7 +14,7 @@ import {
   AlertDialogTrigger,
 } from '../ui/alert-dialog';
 import type { UserSettings } from '../../worker/models/UserSettings';
-import { getSettingsService } from '../../worker';
+import { getRpcClient } from '../../worker';
 
 interface DangerSectionProps {
   settings: UserSettings;
@@ -22,7 +22,7 @@ interface DangerSectionProps {
 
 export function DangerSection({ settings }: DangerSectionProps) {
   const [deleteConfirmation, setDeleteConfirmation] = useState('');
-  const settingsService = getSettingsService();
+  const settingsService = getRpcClient('settings');
 
   const handleResetProgress = async () => {
     try {
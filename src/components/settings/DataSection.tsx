@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react';
 import { Button } from '../ui/button';
 import { Label } from '../ui/label';
 import { ToggleSwitch } from '../ui/toggle-switch';
@@ -14,14 +15,9 @@ import {
   AlertDialogTrigger,
 } from '../ui/alert-dialog';
 import type { UserSettings } from '../../worker/models/UserSettings';
-import {
-  getSettingsService,
-  AuthService,
-  QuestService,
-  AnalyticsService,
-  SessionService
-} from '../../worker';
-import questToTasks from '../../worker/utils/quest-to-tasks';
+import type { SyncConflict } from '../../worker/models/SyncOperation';
+import { getRpcClient } from '../../worker';
+import type { ImportMode, ImportReport, TableImportReport } from '../../worker';
 
 interface DataSectionProps {
   settings: UserSettings;
@@ -29,106 +25,111 @@ interface DataSectionProps {
   isSaving: boolean;
 }
 
+// Renders a conflicted value compactly for the side-by-side choice
+function formatConflictValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
 export function DataSection({ settings, onUpdate }: DataSectionProps) {
-  const settingsService = getSettingsService();
+  const settingsService = getRpcClient('settings');
+  const syncService = getRpcClient('sync');
+  const backupService = getRpcClient('backup');
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [failedSyncCount, setFailedSyncCount] = useState(0);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [queueStats, setQueueStats] = useState({ pending: 0, coalesced: 0 });
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [pendingImport, setPendingImport] = useState<{ data: unknown; report: ImportReport } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    syncService.getFailedSyncCount(settings.userId)
+      .then(setFailedSyncCount)
+      .catch(error => console.error('Failed to load failed sync count:', error));
+    syncService.getQueueStats(settings.userId)
+      .then(setQueueStats)
+      .catch(error => console.error('Failed to load sync queue stats:', error));
+
+    if (!settings.storage.cloudSync) return;
+    syncService.getOpenConflicts(settings.userId)
+      .then(setConflicts)
+      .catch(error => console.error('Failed to load sync conflicts:', error));
+  }, [settings.userId, settings.storage.cloudSync]);
+
+  const handleRetryFailedSyncs = async () => {
+    setIsRetrying(true);
+    try {
+      const requeued = await syncService.retryFailedSyncs(settings.userId);
+      setFailedSyncCount(await syncService.getFailedSyncCount(settings.userId));
+      alert(`Re-queued ${requeued} failed sync${requeued === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error('Retry failed syncs failed:', error);
+      alert('Failed to retry syncs');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const handleResolveConflict = async (conflictId: string, choice: 'local' | 'remote') => {
+    try {
+      await syncService.resolveConflict(conflictId, choice);
+      setConflicts(prev => prev.filter(c => c.conflictId !== conflictId));
+    } catch (error) {
+      console.error('Resolve conflict failed:', error);
+      alert('Failed to resolve conflict');
+    }
+  };
 
   const handleExport = async () => {
     try {
-      console.log('[EXPORT] Starting data export...');
-      console.log('[EXPORT] Using userId:', settings.userId);
-
-      const authService = new AuthService();
-      const questService = new QuestService();
-      const analyticsService = new AnalyticsService();
-
-      // Verify user exists first
-      const currentUser = await authService.getCurrentUser();
-      if (!currentUser) {
-        throw new Error(`User not found with userId: ${settings.userId}`);
-      }
-
-      console.log('[EXPORT] User verified:', currentUser.username);
-
-      // Gather all user data
-      const [
-        quests,
-        sessions,
-        progressStats,
-        consistencyScore,
-        settingsData
-      ] = await Promise.all([
-        questService.getUserQuests(settings.userId),
-        analyticsService.getSessionHistory({
-          userId: settings.userId,
-          limit: 1000 // Get all sessions (up to 1000)
-        }),
-        analyticsService.getProgressStats(settings.userId),
-        analyticsService.getConsistencyScore(settings.userId),
-        settingsService.exportSettings(settings.userId)
-      ]);
-
-      console.log('[EXPORT] Data gathered:', {
-        questsCount: quests.length,
-        sessionsCount: sessions.length,
-        progressStats,
-        consistencyScore
-      });
-
-      // Convert quests to tasks (tasks are just flattened subtasks)
-      const tasks = questToTasks(quests);
-
-      console.log('[EXPORT] Tasks converted:', tasks.length);
-
-      // Create comprehensive export object
-      const exportData = {
-        exportedAt: new Date().toISOString(),
-        exportVersion: '1.0',
-        user: {
-          userId: currentUser?.userId,
-          username: currentUser?.username,
-          totalLevel: currentUser?.totalLevel,
-          experiencePoints: currentUser?.experiencePoints,
-          streakData: currentUser?.streakData,
-          createdAt: currentUser?.joinDate
-        },
-        quests: quests.map(quest => ({
-          questId: quest.questId,
-          title: quest.title,
-          description: quest.description,
-          subtasks: quest.subtasks,
-          gamification: quest.gamification,
-          difficulty: quest.difficulty,
-          tracking: quest.tracking,
-          isCompleted: quest.isCompleted,
-          createdAt: quest.createdAt,
-          completedAt: quest.completedAt
-        })),
-        tasks: tasks,
-        sessions: sessions,
-        stats: {
-          progress: progressStats,
-          consistency: consistencyScore
-        },
-        settings: JSON.parse(settingsData)
-      };
+      const backup = await backupService.exportBackup(settings.userId);
 
       // Create and download JSON file
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      const filename = `ascend-data-export-${new Date().toISOString().split('T')[0]}.json`;
+      const filename = `ascend-backup-${new Date().toISOString().split('T')[0]}.json`;
       link.download = filename;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       URL.revokeObjectURL(url);
 
-      console.log('[EXPORT] ✅ Data exported successfully:', filename);
+      console.log('[EXPORT] Backup exported:', filename);
       alert('Data exported successfully!');
     } catch (error) {
-      console.error('[EXPORT] ❌ Export failed:', error);
-      alert(`Failed to export data: ${error instanceof Error ? error.message : 'Unknown error'}\n\nCheck console for details.`);
+      console.error('[EXPORT] Export failed:', error);
+      alert(`Failed to export data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text());
+      const report = await backupService.previewImport(data, settings.userId, importMode);
+      setPendingImport({ data, report });
+    } catch (error) {
+      console.error('[IMPORT] Preview failed:', error);
+      alert(`Failed to read backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+    try {
+      await backupService.importBackup(pendingImport.data, settings.userId, pendingImport.report.mode);
+      setPendingImport(null);
+      alert('Backup imported successfully!');
+    } catch (error) {
+      console.error('[IMPORT] Import failed:', error);
+      alert(`Failed to import backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
     }
   };
 
@@ -160,8 +161,81 @@ export function DataSection({ settings, onUpdate }: DataSectionProps) {
           Export My Data
         </Button>
         <p className="text-sm text-[#72767d] mt-2">
-          Download your quests, tasks, and stats as JSON
+          Download a full backup of your data as JSON
+        </p>
+      </div>
+
+      <Separator className="bg-[#202225]" />
+
+      <div>
+        <div className="flex items-center gap-3">
+          <Button asChild variant="outline" className="text-[#dcddde] border-[#4f545c] hover:bg-[#4f545c]">
+            <label className="cursor-pointer">
+              Import Backup
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  handleImportFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </Button>
+          <select
+            value={importMode}
+            onChange={(e) => setImportMode(e.target.value as ImportMode)}
+            className="bg-[#202225] text-[#dcddde] border border-[#4f545c] rounded px-2 py-1 text-sm"
+          >
+            <option value="merge">Merge with my data</option>
+            <option value="replace">Replace my data</option>
+          </select>
+        </div>
+        <p className="text-sm text-[#72767d] mt-2">
+          Restore a backup or an older export. You'll see what changes before anything is written.
         </p>
+        <AlertDialog open={pendingImport !== null} onOpenChange={(open) => !open && setPendingImport(null)}>
+          <AlertDialogContent className="bg-[#2f3136] border-[#202225]">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-white">
+                {pendingImport?.report.mode === 'replace' ? 'Replace your data with this backup?' : 'Merge this backup?'}
+              </AlertDialogTitle>
+              <AlertDialogDescription className="text-[#b9bbbe]">
+                {pendingImport?.report.exportedAt
+                  ? `Backup from ${new Date(pendingImport.report.exportedAt).toLocaleString()}.`
+                  : 'Backup date unknown.'}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {pendingImport && (
+              <div className="text-sm text-[#dcddde] space-y-1">
+                {(Object.entries(pendingImport.report.tables) as [string, TableImportReport][])
+                  .filter(([, t]) => t.added + t.updated + t.skipped + t.removed > 0)
+                  .map(([table, t]) => (
+                    <p key={table}>
+                      <span className="font-semibold">{table}</span>: {t.added} added, {t.updated} updated, {t.skipped} skipped
+                      {t.removed > 0 && `, ${t.removed} removed`}
+                    </p>
+                  ))}
+                {pendingImport.report.warnings.map(warning => (
+                  <p key={warning} className="text-[#f0b232]">{warning}</p>
+                ))}
+              </div>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel className="bg-[#4f545c] text-[#dcddde] border-0 hover:bg-[#5d6269]">
+                Cancel
+              </AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleConfirmImport}
+                disabled={isImporting}
+                className="bg-[#5865F2] hover:bg-[#4752C4] text-white"
+              >
+                {isImporting ? 'Importing...' : 'Import'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
 
       <Separator className="bg-[#202225]" />
@@ -217,6 +291,63 @@ export function DataSection({ settings, onUpdate }: DataSectionProps) {
             ⚠️ Cloud sync is disabled. Your data is only stored locally.
           </p>
         )}
+        {settings.storage.cloudSync && (
+          <p className="text-sm text-[#72767d] mt-2">
+            {queueStats.pending} change{queueStats.pending === 1 ? '' : 's'} waiting to sync
+            {queueStats.coalesced > 0 && ` · ${queueStats.coalesced} redundant update${queueStats.coalesced === 1 ? '' : 's'} merged`}
+          </p>
+        )}
+        {failedSyncCount > 0 && (
+          <div className="mt-4">
+            <Button
+              variant="outline"
+              onClick={handleRetryFailedSyncs}
+              disabled={isRetrying}
+              className="text-[#dcddde] border-[#4f545c] hover:bg-[#4f545c]"
+            >
+              {isRetrying ? 'Retrying...' : `Retry Failed Syncs (${failedSyncCount})`}
+            </Button>
+            <p className="text-sm text-[#72767d] mt-2">
+              These changes failed to sync after several attempts
+            </p>
+          </div>
+        )}
+        {conflicts.length > 0 && (
+          <div className="mt-4 max-w-md space-y-3">
+            <Label className="text-[#dcddde]">Sync Conflicts</Label>
+            <p className="text-sm text-[#72767d]">
+              These were changed on two devices at once. This device's value is kept until you choose.
+            </p>
+            {conflicts.map(conflict => (
+              <div key={conflict.conflictId} className="bg-[#202225] rounded p-3 space-y-2">
+                <p className="text-sm text-white">
+                  {conflict.collection === 'quests' ? 'Quest' : conflict.collection === 'users' ? 'Profile' : 'Settings'}
+                  {' · '}
+                  <span className="font-semibold">{conflict.field}</span>
+                </p>
+                <p className="text-xs text-[#b9bbbe]">This device: {formatConflictValue(conflict.localValue)}</p>
+                <p className="text-xs text-[#b9bbbe]">Other device: {formatConflictValue(conflict.remoteValue)}</p>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleResolveConflict(conflict.conflictId, 'local')}
+                    className="bg-[#5865F2] hover:bg-[#4752C4] text-white"
+                  >
+                    Keep Mine
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleResolveConflict(conflict.conflictId, 'remote')}
+                    className="text-[#dcddde] border-[#4f545c] hover:bg-[#4f545c]"
+                  >
+                    Use Other Device
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
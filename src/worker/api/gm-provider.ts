@@ -0,0 +1,266 @@
+/**
+ * GM Providers
+ * Pluggable backends for GM quest validation
+ *
+ * A provider turns a quest and the user's GMValidationContext into a
+ * ValidationResult. The Ascend backend (RemoteAPI) is one provider; the
+ * OpenAI-compatible provider prompts any /chat/completions server, hosted or
+ * local, and schema-checks the reply; the stub answers deterministically for tests.
+ */
+
+import type { Quest } from '../models/Quest';
+import type { UserSettings } from '../models/UserSettings';
+import { RemoteAPI, GMValidationContext, ValidationResult } from './remote-client';
+
+export interface GMProvider {
+  validateQuest(quest: Quest, context: GMValidationContext): Promise<ValidationResult>;
+}
+
+export type GMProviderConfig = UserSettings['ai']['provider'];
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface OpenAICompatibleOptions {
+  endpoint: string; // Base URL; /chat/completions is appended
+  model: string;
+  apiKey?: string;
+  maxRetries?: number; // Extra attempts after a malformed reply
+}
+
+const DIFFICULTY_TIERS = ['Trivial', 'Easy', 'Medium', 'Hard', 'Epic'] as const;
+const STATUSES = ['validated', 'rejected', 'error'] as const;
+
+const DEFAULT_MAX_RETRIES = 2;
+
+// Provider API keys are secrets: they live in chrome.storage.local (localStorage
+// on the dev server), never in the settings row that is synced and backed up
+const API_KEY_PREFIX = 'ascendGmApiKey:';
+
+const TONE_INSTRUCTIONS: Record<GMValidationContext['gmTone'], string> = {
+  mild: 'Be a kind, encouraging mentor.',
+  standard: 'Be a direct, fair Grandmaster.',
+  tough: 'Be a blunt, demanding drill sergeant.',
+};
+
+/**
+ * Chat completions against an OpenAI-compatible server
+ */
+export class OpenAICompatibleProvider implements GMProvider {
+  private endpoint: string;
+  private model: string;
+  private apiKey: string;
+  private maxRetries: number;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.endpoint = options.endpoint.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey ?? '';
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Ask the model, re-prompting with the parse error when the reply isn't valid JSON
+   */
+  async validateQuest(quest: Quest, context: GMValidationContext): Promise<ValidationResult> {
+    const messages = buildValidationPrompt(quest, context);
+    let lastError = '';
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      const reply = await this.complete(messages);
+      try {
+        return parseValidationReply(reply);
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.warn(`[GMProvider] Malformed reply (attempt ${attempt + 1}): ${lastError}`);
+        messages.push(
+          { role: 'assistant', content: reply },
+          { role: 'user', content: `That reply was invalid: ${lastError}. Reply again with only the JSON object.` }
+        );
+      }
+    }
+
+    throw new Error(`GM_PROVIDER_INVALID_REPLY: ${lastError}`);
+  }
+
+  /**
+   * Send the conversation and return the first choice's text
+   */
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.endpoint}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, messages, temperature: 0.2 }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`GM provider request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('GM provider returned no message content');
+    }
+    return content;
+  }
+}
+
+/**
+ * Deterministic provider for tests: keeps the user's difficulty unless told otherwise
+ */
+export class StubGMProvider implements GMProvider {
+  readonly calls: Array<{ quest: Quest; context: GMValidationContext }> = [];
+
+  constructor(private overrides: Partial<ValidationResult> = {}) {}
+
+  async validateQuest(quest: Quest, context: GMValidationContext): Promise<ValidationResult> {
+    this.calls.push({ quest, context });
+    return {
+      status: 'validated',
+      suggestedDifficulty: quest.difficulty.userAssigned,
+      confidence: 1,
+      reasoning: `Stub validation of '${quest.title}'.`,
+      recommendations: [],
+      ...this.overrides,
+    };
+  }
+}
+
+/**
+ * The provider selected in the AI settings (older settings without one use the Ascend backend)
+ */
+export function createGMProvider(config: GMProviderConfig | undefined, apiKey?: string): GMProvider {
+  if (config?.type === 'openai-compatible') {
+    return new OpenAICompatibleProvider({
+      endpoint: config.endpoint,
+      model: config.model,
+      apiKey,
+    });
+  }
+  return new RemoteAPI();
+}
+
+/**
+ * API key for the user's OpenAI-compatible provider, '' when none is stored
+ */
+export async function getProviderApiKey(userId: string): Promise<string> {
+  const key = `${API_KEY_PREFIX}${userId}`;
+  const storage = getExtensionStorage();
+  if (storage) {
+    const result = await storage.get([key]);
+    return result[key] ?? '';
+  }
+  return globalThis.localStorage?.getItem(key) ?? '';
+}
+
+/**
+ * Store the API key on this device; an empty key removes it
+ */
+export async function setProviderApiKey(userId: string, apiKey: string): Promise<void> {
+  const key = `${API_KEY_PREFIX}${userId}`;
+  const storage = getExtensionStorage();
+  if (storage) {
+    if (apiKey) await storage.set({ [key]: apiKey });
+    else await storage.remove(key);
+    return;
+  }
+  if (apiKey) globalThis.localStorage?.setItem(key, apiKey);
+  else globalThis.localStorage?.removeItem(key);
+}
+
+/**
+ * System and user messages asking for a ValidationResult as JSON
+ */
+export function buildValidationPrompt(quest: Quest, context: GMValidationContext): ChatMessage[] {
+  const system = [
+    'You are the Grandmaster, the game master of a productivity RPG where users earn XP for focused work on quests.',
+    'Judge whether the difficulty the user assigned to a quest matches the effort it needs, given their recent performance.',
+    TONE_INSTRUCTIONS[context.gmTone] ?? TONE_INSTRUCTIONS.standard,
+    'Reply with only a JSON object, no prose or code fences, with these fields:',
+    `- "status": one of ${STATUSES.map(s => `"${s}"`).join(', ')}`,
+    `- "suggestedDifficulty": one of ${DIFFICULTY_TIERS.map(t => `"${t}"`).join(', ')} (required when validated)`,
+    '- "confidence": number from 0 to 1',
+    '- "reasoning": one or two sentences addressed to the user',
+    '- "recommendations": array of short actionable strings',
+  ].join('\n');
+
+  const user = JSON.stringify({
+    quest: {
+      title: quest.title,
+      description: quest.description,
+      subtasks: quest.subtasks.map(st => ({
+        title: st.title,
+        estimatePomodoros: st.estimatePomodoros ?? 1,
+      })),
+      userAssignedDifficulty: quest.difficulty.userAssigned,
+      timeEstimateHours: quest.timeEstimateHours,
+    },
+    metrics: context.metrics,
+  }, null, 2);
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ];
+}
+
+/**
+ * Parse and schema-check a model reply; throws describing the first problem found
+ */
+export function parseValidationReply(text: string): ValidationResult {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('no JSON object found');
+
+  let data: any;
+  try {
+    data = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error('reply is not valid JSON');
+  }
+
+  if (!STATUSES.includes(data.status)) {
+    throw new Error(`"status" must be one of ${STATUSES.join(', ')}`);
+  }
+  if (data.suggestedDifficulty !== undefined && !DIFFICULTY_TIERS.includes(data.suggestedDifficulty)) {
+    throw new Error(`"suggestedDifficulty" must be one of ${DIFFICULTY_TIERS.join(', ')}`);
+  }
+  if (data.status === 'validated' && data.suggestedDifficulty === undefined) {
+    throw new Error('"suggestedDifficulty" is required when validated');
+  }
+  if (data.suggestedXpPerPomodoro !== undefined && !(typeof data.suggestedXpPerPomodoro === 'number' && data.suggestedXpPerPomodoro > 0)) {
+    throw new Error('"suggestedXpPerPomodoro" must be a positive number');
+  }
+  if (data.confidence !== undefined && !(typeof data.confidence === 'number' && data.confidence >= 0 && data.confidence <= 1)) {
+    throw new Error('"confidence" must be a number from 0 to 1');
+  }
+  if (data.reasoning !== undefined && typeof data.reasoning !== 'string') {
+    throw new Error('"reasoning" must be a string');
+  }
+  if (data.recommendations !== undefined && !(Array.isArray(data.recommendations) && data.recommendations.every((r: unknown) => typeof r === 'string'))) {
+    throw new Error('"recommendations" must be an array of strings');
+  }
+
+  return {
+    status: data.status,
+    suggestedDifficulty: data.suggestedDifficulty,
+    suggestedXpPerPomodoro: data.suggestedXpPerPomodoro,
+    confidence: data.confidence,
+    reasoning: data.reasoning,
+    recommendations: data.recommendations,
+    message: typeof data.message === 'string' ? data.message : undefined,
+  };
+}
+
+/**
+ * chrome.storage.local when running inside the extension, otherwise null
+ */
+function getExtensionStorage(): any | null {
+  return (globalThis as any).chrome?.storage?.local ?? null;
+}
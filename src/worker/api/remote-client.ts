@@ -54,6 +54,25 @@ export interface ValidationResult {
 }
 
 
+/**
+ * A single document change returned by the pull endpoint.
+ */
+export interface RemoteChange {
+  collection: string;
+  documentId: string;
+  operation: 'upsert' | 'delete';
+  data: any | null; // Full document for upserts, null for deletes
+  updatedAt: string; // ISO8601 - server-side modification time
+}
+
+/**
+ * Response of GET /sync/changes
+ */
+export interface PullChangesResponse {
+  changes: RemoteChange[];
+  cursor: string | null; // Pass back as `since` on the next pull
+  hasMore: boolean;
+}
 
 export class RemoteAPI {
   private baseURL: string;
@@ -158,32 +177,87 @@ export class RemoteAPI {
    * Sync session to cloud
    */
   async syncSession(session: any): Promise<void> {
-    if (!this.isOnline()) return;
+    await this.pushDocument('sessions', session.sessionId, session);
+  }
 
-    await fetch(`${this.baseURL}/sessions/${session.sessionId}`, {
+  /**
+   * Sync quest to cloud
+   */
+  async syncQuest(quest: Quest): Promise<void> {
+    await this.pushDocument('quests', quest.questId, quest);
+  }
+
+  /**
+   * Upsert a document in any synced collection
+   * Throws on non-2xx so the sync queue can retry
+   */
+  async pushDocument(collection: string, documentId: string, data: any): Promise<void> {
+    if (!this.isOnline()) {
+      throw new Error('Cannot push changes while offline');
+    }
+
+    const response = await fetch(`${this.baseURL}/${collection}/${encodeURIComponent(documentId)}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.authToken}`
       },
-      body: JSON.stringify(session)
+      body: JSON.stringify(data)
     });
+
+    if (!response.ok) {
+      throw new Error(`Push failed for ${collection}/${documentId}: ${response.statusText}`);
+    }
   }
 
   /**
-   * Sync quest to cloud
+   * Delete a document in any synced collection
+   * A 404 is treated as success (already gone remotely)
    */
-  async syncQuest(quest: Quest): Promise<void> {
-    if (!this.isOnline()) return;
+  async deleteDocument(collection: string, documentId: string): Promise<void> {
+    if (!this.isOnline()) {
+      throw new Error('Cannot push changes while offline');
+    }
 
-    await fetch(`${this.baseURL}/quests/${quest.questId}`, {
-      method: 'PUT',
+    const response = await fetch(`${this.baseURL}/${collection}/${encodeURIComponent(documentId)}`, {
+      method: 'DELETE',
       headers: {
-        'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.authToken}`
-      },
-      body: JSON.stringify(quest)
+      }
     });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Delete failed for ${collection}/${documentId}: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Pull remote changes made since the given cursor
+   */
+  async pullChanges(userId: string, since: string | null): Promise<PullChangesResponse> {
+    if (!this.isOnline()) {
+      return { changes: [], cursor: since, hasMore: false };
+    }
+
+    const params = new URLSearchParams({ userId });
+    if (since) params.set('since', since);
+
+    const response = await fetch(`${this.baseURL}/sync/changes?${params.toString()}`, {
+      headers: {
+        'Authorization': `Bearer ${this.authToken}`
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to pull changes: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return {
+      changes: data.changes || [],
+      cursor: data.cursor ?? since,
+      hasMore: Boolean(data.hasMore),
+    };
   }
 
   /**
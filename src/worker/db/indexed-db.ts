@@ -14,9 +14,13 @@ import type { ActivityItem } from "../models/ActivityItem";
 import type { AgentState } from "../models/AgentState";
 import type { GoalComment } from "../models/GoalComment";
 import type { Notification } from "../models/Notification";
-import type { SyncOperation } from "../models/SyncOperation";
+import type { SyncOperation, DeadLetterOperation, SyncState, SyncBase, SyncConflict } from "../models/SyncOperation";
 import { UserSettings } from "../models";
 import type { PerformanceMetrics } from "../models/AgentState";
+import type { RankHistoryEntry } from "../models/RankHistory";
+import type { WeeklyReport } from "../models/WeeklyReport";
+import type { SuggestionOutcome } from "../models/GMSuggestion";
+import type { DungeonMemberProgress } from "../models/DungeonMemberProgress";
 
 export interface PerformanceMetricsSnapshot {
   id: string; // Unique ID: userId-metricType-timestamp
@@ -26,6 +30,9 @@ export interface PerformanceMetricsSnapshot {
   value: number;
 }
 
+// Collections whose documents carry a syncClock and are merged field-by-field on pull
+export const CLOCKED_COLLECTIONS = ["quests", "users", "settings"];
+
 export class IndexedDb extends Dexie {
   // Tables
   users!: Table<UserProfile, string>;
@@ -39,6 +46,14 @@ export class IndexedDb extends Dexie {
   syncQueue!: Table<SyncOperation, string>;
   settings!: Table<UserSettings, string>;
   performanceSnapshots!: Table<PerformanceMetricsSnapshot, string>;
+  syncState!: Table<SyncState, string>;
+  syncBases!: Table<SyncBase, string>;
+  syncConflicts!: Table<SyncConflict, string>;
+  deadLetters!: Table<DeadLetterOperation, string>;
+  rankHistory!: Table<RankHistoryEntry, string>;
+  weeklyReports!: Table<WeeklyReport, string>;
+  suggestionOutcomes!: Table<SuggestionOutcome, string>;
+  dungeonProgress!: Table<DungeonMemberProgress, string>;
 
   constructor() {
     super("AscendDB");
@@ -59,6 +74,47 @@ export class IndexedDb extends Dexie {
       performanceSnapshots: "id, userId, metricType, timestamp, [userId+metricType+timestamp]",    
     });
 
+    this.version(8).stores({
+      // v8: Added syncState for the remote pull cursor
+      syncState: "userId",
+    });
+
+    this.version(9).stores({
+      // v9: Added syncBases (merge ancestors) and syncConflicts for concurrent edits
+      syncBases: "key, collection, documentId",
+      syncConflicts: "conflictId, userId, status, documentId, [userId+status]",
+    });
+
+    this.version(10).stores({
+      // v10: Added deadLetters for sync ops that exhausted their retries
+      deadLetters: "id, userId, collection, deadLetteredAt",
+    });
+
+    this.version(11).stores({
+      // v11: Added rankHistory for weekly grade evaluations
+      rankHistory: "id, userId, weekStart, [userId+weekStart]",
+    });
+
+    this.version(12).stores({
+      // v12: Added dungeonProgress, one row per member of a DungeonQuest
+      dungeonProgress: "progressId, dungeonId, userId, [dungeonId+userId]",
+    });
+
+    this.version(13).stores({
+      // v13: Added weeklyReports for the GM weekly analysis
+      weeklyReports: "id, userId, weekStart, [userId+weekStart]",
+    });
+
+    this.version(14).stores({
+      // v14: Added suggestionOutcomes, how the user responded to each GM suggestion
+      suggestionOutcomes: "id, userId, suggestionId, [userId+suggestionId]",
+    });
+
+    this.version(15).stores({
+      // v15: Indexed syncQueue by [collection+documentId] for pending-op lookups during pull
+      syncQueue: "id, userId, timestamp, priority, [priority+timestamp], [collection+documentId]",
+    });
+
     // Migration/upgrade block: convert older taskOrder shapes if needed
     this.on("ready", async () => {
       // no-op; just ensure DB ready
@@ -199,6 +255,8 @@ export class IndexedDb extends Dexie {
 
   /**
    * Add to sync queue
+   * A pending op for the same collection+documentId is coalesced into one op
+   * (see coalesceSyncOps) instead of queueing another full snapshot
    */
   async queueSync(
     operation: Omit<SyncOperation, "id" | "timestamp">
@@ -215,20 +273,107 @@ export class IndexedDb extends Dexie {
       error: operation.error || null,
     } as SyncOperation;
 
-    console.log("[IndexedDB] Adding to syncQueue:", syncOp);
-    await this.syncQueue.put(syncOp);
-    console.log("[IndexedDB] Operation added to syncQueue successfully");
+    const clocked = CLOCKED_COLLECTIONS.includes(syncOp.collection) && syncOp.operation !== "delete";
+    const tables = clocked
+      ? [this.syncQueue, this.syncState, this.table(syncOp.collection)]
+      : [this.syncQueue, this.syncState];
+
+    // Read-merge-write of the pending op; another queueSync for the same document must not interleave
+    await this.transaction("rw", tables, async () => {
+      if (clocked) {
+        await this.bumpSyncClock(syncOp);
+      }
+
+      const existing = await this.syncQueue.get(id);
+      if (existing) {
+        const coalesced = this.coalesceSyncOps(existing, syncOp);
+        await this.recordCoalescedOps(existing.userId || syncOp.userId, coalesced ? 1 : 2);
+
+        if (!coalesced) {
+          console.log("[IndexedDB] create+delete cancelled out, removing op:", id);
+          await this.syncQueue.delete(id);
+          return;
+        }
+
+        console.log("[IndexedDB] Coalesced into pending op:", coalesced);
+        await this.syncQueue.put(coalesced);
+        return;
+      }
+
+      console.log("[IndexedDB] Adding to syncQueue:", syncOp);
+      await this.syncQueue.put(syncOp);
+      console.log("[IndexedDB] Operation added to syncQueue successfully");
+    });
+  }
+
+  /**
+   * Fold a new op into the pending op for the same document
+   * Returns null when the two cancel out (created and deleted before any push)
+   * The merged op is a new payload, so it starts with the incoming op's retry state
+   */
+  private coalesceSyncOps(existing: SyncOperation, incoming: SyncOperation): SyncOperation | null {
+    let operation = incoming.operation;
+    if (existing.operation === "create" && incoming.operation === "delete") {
+      return null;
+    } else if (existing.operation === "create" && incoming.operation === "update") {
+      operation = "create"; // Remote has never seen it
+    } else if (existing.operation === "delete" && incoming.operation === "create") {
+      operation = "update"; // Remote still has it
+    }
+
+    // Partial patches (e.g. { hidden }) layer over the earlier snapshot
+    const canMerge = operation !== "delete" && isPlainObject(existing.data) && isPlainObject(incoming.data);
+    const data = canMerge ? { ...existing.data, ...incoming.data } : incoming.data;
+
+    return {
+      ...existing,
+      operation,
+      data,
+      userId: existing.userId || incoming.userId,
+      // Lower number runs first (see getPendingSyncOps)
+      priority: Math.min(existing.priority, incoming.priority),
+      retryCount: incoming.retryCount,
+      nextRetryTime: incoming.nextRetryTime,
+      error: incoming.error,
+      // Keep queue position
+      timestamp: existing.timestamp,
+      coalescedCount: (existing.coalescedCount ?? 0) + 1,
+    };
+  }
+
+  private async recordCoalescedOps(userId: string | undefined, saved: number): Promise<void> {
+    if (!userId) return;
+    const state = await this.getSyncState(userId);
+    await this.saveSyncState({ ...state, coalescedOps: (state.coalescedOps ?? 0) + saved });
+  }
+
+  /**
+   * Sync queue size and how many redundant ops coalescing has saved
+   */
+  async getSyncQueueStats(userId: string): Promise<{ pending: number; coalesced: number }> {
+    const [pending, state] = await Promise.all([
+      this.syncQueue.where("userId").equals(userId).count(),
+      this.getSyncState(userId),
+    ]);
+    return { pending, coalesced: state.coalescedOps ?? 0 };
   }
 
   /**
    * Get pending sync operations sorted by priority
    * Lower priority number = higher priority (e.g., 2 before 7)
+   * Ops backing off after a failure are skipped until their nextRetryTime
+   * `matches` narrows the ops before the limit, so one collection can't starve another
    */
-  async getPendingSyncOps(limit: number = 50): Promise<SyncOperation[]> {
+  async getPendingSyncOps(
+    limit: number = 50,
+    matches: (op: SyncOperation) => boolean = () => true
+  ): Promise<SyncOperation[]> {
     // Get all items, sort manually (compound index might have issues)
-    const allItems = await this.syncQueue.toArray();
+    const now = Date.now();
+    const allItems = (await this.syncQueue.toArray())
+      .filter((op) => (!op.nextRetryTime || op.nextRetryTime <= now) && matches(op));
 
-    console.log(`[IndexedDB] getPendingSyncOps: Found ${allItems.length} total items in queue`);
+    console.log(`[IndexedDB] getPendingSyncOps: Found ${allItems.length} items ready in queue`);
 
     // Sort by priority (ascending = lower number = higher priority), then timestamp
     const sorted = allItems.sort((a, b) => {
@@ -257,6 +402,99 @@ export class IndexedDb extends Dexie {
     await this.syncQueue.delete(id);
   }
 
+  /**
+   * Record a local edit in the document's vector clock
+   * The stored row and the queued snapshot get the same bumped clock in one
+   * transaction. op.data is usually the caller's own object, so a later put
+   * of it keeps the new clock instead of writing the old one back.
+   */
+  private async bumpSyncClock(op: SyncOperation): Promise<void> {
+    const table = this.table(op.collection) as Table<any, string>;
+
+    await this.transaction("rw", [table, this.syncState], async () => {
+      const doc = await table.get(op.documentId);
+      if (!doc) return;
+
+      // Some callers omit userId on the op; the document always knows its owner
+      const ownerId = op.userId ?? doc.ownerId ?? doc.userId;
+      if (!ownerId) return;
+
+      const { deviceId } = await this.getSyncState(ownerId);
+      if (!deviceId) return;
+
+      const clock = { ...(doc.syncClock ?? {}) };
+      clock[deviceId] = (clock[deviceId] ?? 0) + 1;
+
+      await table.put({ ...doc, syncClock: clock });
+      if (isPlainObject(op.data)) {
+        op.data.syncClock = clock;
+      }
+    });
+  }
+
+  /**
+   * Get sync bookkeeping for a user (creates the record and device id if none exists)
+   */
+  async getSyncState(userId: string): Promise<SyncState> {
+    const existing = await this.syncState.get(userId);
+    if (existing?.deviceId) return existing;
+
+    const state: SyncState = {
+      userId,
+      cursor: null,
+      lastPushAt: null,
+      lastPullAt: null,
+      ...existing,
+      deviceId: `device_${crypto.randomUUID()}`,
+    };
+    await this.syncState.put(state);
+    return state;
+  }
+
+  /**
+   * Save sync bookkeeping for a user
+   */
+  async saveSyncState(state: SyncState): Promise<void> {
+    await this.syncState.put(state);
+  }
+
+  /**
+   * Get the last agreed-on version of a synced document
+   */
+  async getSyncBase(collection: string, documentId: string): Promise<SyncBase | undefined> {
+    return await this.syncBases.get(`${collection}:${documentId}`);
+  }
+
+  /**
+   * Remember a document version both local and remote have seen
+   */
+  async saveSyncBase(collection: string, documentId: string, data: any): Promise<void> {
+    await this.syncBases.put({
+      key: `${collection}:${documentId}`,
+      collection,
+      documentId,
+      data,
+      syncedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Forget the merge ancestor of a deleted document
+   */
+  async deleteSyncBase(collection: string, documentId: string): Promise<void> {
+    await this.syncBases.delete(`${collection}:${documentId}`);
+  }
+
+  /**
+   * Get unresolved sync conflicts for a user
+   */
+  async getOpenSyncConflicts(userId: string): Promise<SyncConflict[]> {
+    return await this.syncConflicts
+      .where("[userId+status]")
+      .equals([userId, "open"])
+      .toArray();
+  }
+
   /**
    * Clear all data (for testing/reset)
    */
@@ -271,6 +509,14 @@ export class IndexedDb extends Dexie {
       this.comments.clear(),
       this.notifications.clear(),
       this.syncQueue.clear(),
+      this.syncState.clear(),
+      this.syncBases.clear(),
+      this.syncConflicts.clear(),
+      this.deadLetters.clear(),
+      this.rankHistory.clear(),
+      this.dungeonProgress.clear(),
+      this.weeklyReports.clear(),
+      this.suggestionOutcomes.clear(),
     ]);
   }
 
@@ -336,6 +582,10 @@ export class IndexedDb extends Dexie {
 
 }
 
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
 let _db: IndexedDb | null = null;
 
 export function getDB() {
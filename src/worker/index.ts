@@ -10,6 +10,7 @@ export { ActivityFeedService } from './services/activity-feed.service';
 export { SearchService } from './services/search.service';
 export { RemoteAPI } from './api/remote-client';
 export { SyncQueue } from './sync/sync-queue';
+export { SyncService } from './services/sync.service';
 export { getDB, IndexedDb } from './db/indexed-db';
 export { SeedService } from './services/seed.service'; 
 export { AuthService } from './services/auth.service'; 
@@ -19,6 +20,22 @@ export { NotificationService } from './services/notification.service';
 export { SettingsService, getSettingsService } from './services/settings.service';
 export { GMService } from './services/gm/gm.service';
 export { AntiQuestService, getAntiQuestService, SEVERITY_COLORS } from './services/antiquest.service';
+export { BackupService, getBackupService } from './services/backup.service';
+export { SessionExportService, getSessionExportService } from './services/session-export.service';
+export { QuestImportService, getQuestImportService } from './services/quest-import.service';
+export { InventoryService, getInventoryService, getItemTemplate, ITEM_CATALOG } from './services/inventory.service';
+export { BuffService, getBuffService, STREAK_MILESTONES } from './services/buff.service';
+export { RankService, getRankService, GRADES } from './services/rank.service';
+export { TrackService, getTrackService, TRACKS } from './services/track.service';
+export { AchievementService, getAchievementService, ACHIEVEMENTS } from './services/achievement.service';
+export { DungeonService, getDungeonService } from './services/dungeon.service';
+export { DailyPlannerService, getDailyPlannerService } from './services/gm/gm.planner';
+export { WeeklyReportService, getWeeklyReportService, formatWeeklyReportMarkdown } from './services/gm/gm.reports';
+export { RescheduleService, getRescheduleService } from './services/gm/gm.rescheduler';
+export { GMActionService, getGMActionService, GM_ACTIONS } from './services/gm/gm.actions';
+export { GMQuotaService, getGMQuotaService } from './services/gm/gm.quota';
+export { CalibrationService, getCalibrationService } from './services/gm/gm.calibration';
+export { getRpcClient, onDataChanged } from './messaging/rpc-client';
 
 // Export utilities
 export { calculateTaskPriority, sortQuestsByPriority } from './utils/task-sorting.util';
@@ -26,5 +43,9 @@ export { calculateTaskPriority, sortQuestsByPriority } from './utils/task-sortin
 // Export types
 export type { HeatmapDay, TodayMetrics } from './services/analytics.service';
 export type { SearchResult } from './services/search.service';
-export type { ValidationResult } from './api/remote-client';
+export type { ValidationResult, RemoteChange } from './api/remote-client';
+export type { ImportMode, ImportReport, TableImportReport } from './services/backup.service';
+export type { SessionExportOptions } from './services/session-export.service';
+export type { QuestDraft, QuestImportSource, QuestImportPreview, QuestImportResult } from './services/quest-import.service';
+export type { RpcClient, RpcServiceName, DataChangedEvent } from './messaging/rpc-schema';
 export type { Severity, AntiQuestOccurrence, AntiQuestTracking } from './models/Quest';
\ No newline at end of file
@@ -0,0 +1,371 @@
+/**
+ * Background Jobs
+ * Periodic work driven by chrome.alarms in the MV3 service worker (background.js)
+ *
+ * Jobs run against the shared IndexedDB whether or not the Ascend window is open.
+ * They iterate db.users rather than AuthService (localStorage is not available
+ * in a service worker). Outside the extension, startIntervalJobs() falls back
+ * to setInterval so the dev server keeps working.
+ */
+
+import { getDB } from '../db/indexed-db';
+import { QuestService } from '../services/quest.service';
+import { SyncService } from '../services/sync.service';
+import { AnalyticsService } from '../services/analytics.service';
+import { NotificationService } from '../services/notification.service';
+import { getBuffService } from '../services/buff.service';
+import { getRankService } from '../services/rank.service';
+import { getDungeonService } from '../services/dungeon.service';
+import { getWeeklyReportService } from '../services/gm/gm.reports';
+import { getCalibrationService } from '../services/gm/gm.calibration';
+import { toLocalDate } from '../utils/local-date';
+import type { Session } from '../models/Session';
+
+export const ALARMS = {
+  GM_QUEUE: 'ascend-gm-queue',
+  SYNC: 'ascend-sync',
+  STREAK_RISK: 'ascend-streak-risk',
+  BUFF_SWEEP: 'ascend-buff-sweep',
+  RANK: 'ascend-rank',
+  DUNGEON: 'ascend-dungeon',
+  WEEKLY_REPORT: 'ascend-weekly-report',
+  CALIBRATION: 'ascend-calibration',
+  DAILY_SUMMARY: 'ascend-daily-summary', // one per user: `${DAILY_SUMMARY}:${userId}`
+} as const;
+
+// Alarm periods in minutes (Chrome enforces a 1 minute minimum)
+const GM_QUEUE_PERIOD_MIN = 1;
+const SYNC_PERIOD_MIN = 5;
+const STREAK_RISK_PERIOD_MIN = 60;
+const BUFF_SWEEP_PERIOD_MIN = 15;
+const RANK_PERIOD_MIN = 60;
+const DUNGEON_PERIOD_MIN = 60;
+const WEEKLY_REPORT_PERIOD_MIN = 60;
+const CALIBRATION_PERIOD_MIN = 6 * 60;
+const DAY_MIN = 24 * 60;
+
+// Streak reminders only go out in the evening, when there is still time to act
+const STREAK_RISK_HOUR = 18;
+
+let _questService: QuestService | null = null;
+let _syncService: SyncService | null = null;
+
+function getQuestService(): QuestService {
+  if (!_questService) _questService = new QuestService();
+  return _questService;
+}
+
+function getSyncService(): SyncService {
+  if (!_syncService) _syncService = new SyncService();
+  return _syncService;
+}
+
+/**
+ * chrome.alarms when running inside the extension, otherwise null
+ */
+function getAlarmsApi(): any | null {
+  return (globalThis as any).chrome?.alarms ?? null;
+}
+
+export function hasAlarms(): boolean {
+  return getAlarmsApi() !== null;
+}
+
+/**
+ * Register alarm listeners and make sure every alarm exists
+ * Must be called synchronously at the top level of the service worker,
+ * otherwise Chrome does not deliver the alarm that woke it up.
+ */
+export function registerBackgroundJobs(): void {
+  const alarms = getAlarmsApi();
+  if (!alarms) {
+    console.warn('[BackgroundJobs] chrome.alarms unavailable, background jobs not registered');
+    return;
+  }
+
+  alarms.onAlarm.addListener((alarm: { name: string }) => {
+    runAlarm(alarm.name).catch(e => console.error(`[BackgroundJobs] Alarm ${alarm.name} failed:`, e));
+  });
+
+  const chromeApi = (globalThis as any).chrome;
+  chromeApi.runtime?.onInstalled?.addListener(() => {
+    scheduleAlarms().catch(e => console.error('[BackgroundJobs] Scheduling on install failed:', e));
+  });
+  chromeApi.runtime?.onStartup?.addListener(() => {
+    scheduleAlarms().catch(e => console.error('[BackgroundJobs] Scheduling on startup failed:', e));
+  });
+
+  // Don't wait up to SYNC_PERIOD_MIN after coming back online
+  globalThis.addEventListener?.('online', () => {
+    runSyncJob().catch(e => console.error('[BackgroundJobs] Reconnect sync failed:', e));
+  });
+
+  // The worker may also wake for other events; alarms persist, so this only fills gaps
+  scheduleAlarms().catch(e => console.error('[BackgroundJobs] Scheduling failed:', e));
+}
+
+/**
+ * Create any missing periodic alarms and (re)schedule daily summaries
+ */
+export async function scheduleAlarms(): Promise<void> {
+  const alarms = getAlarmsApi();
+  if (!alarms) return;
+
+  await ensureAlarm(ALARMS.GM_QUEUE, { delayInMinutes: GM_QUEUE_PERIOD_MIN, periodInMinutes: GM_QUEUE_PERIOD_MIN });
+  await ensureAlarm(ALARMS.SYNC, { delayInMinutes: SYNC_PERIOD_MIN, periodInMinutes: SYNC_PERIOD_MIN });
+  await ensureAlarm(ALARMS.STREAK_RISK, { delayInMinutes: STREAK_RISK_PERIOD_MIN, periodInMinutes: STREAK_RISK_PERIOD_MIN });
+  await ensureAlarm(ALARMS.BUFF_SWEEP, { delayInMinutes: BUFF_SWEEP_PERIOD_MIN, periodInMinutes: BUFF_SWEEP_PERIOD_MIN });
+  await ensureAlarm(ALARMS.RANK, { delayInMinutes: RANK_PERIOD_MIN, periodInMinutes: RANK_PERIOD_MIN });
+  await ensureAlarm(ALARMS.DUNGEON, { delayInMinutes: DUNGEON_PERIOD_MIN, periodInMinutes: DUNGEON_PERIOD_MIN });
+  await ensureAlarm(ALARMS.WEEKLY_REPORT, { delayInMinutes: WEEKLY_REPORT_PERIOD_MIN, periodInMinutes: WEEKLY_REPORT_PERIOD_MIN });
+  await ensureAlarm(ALARMS.CALIBRATION, { delayInMinutes: CALIBRATION_PERIOD_MIN, periodInMinutes: CALIBRATION_PERIOD_MIN });
+  await scheduleDailySummaries();
+}
+
+/**
+ * Keep one daily-summary alarm per user at their settings time
+ * Re-run hourly so changes to dailySummaryTime are picked up without a UI hook
+ */
+export async function scheduleDailySummaries(): Promise<void> {
+  const alarms = getAlarmsApi();
+  if (!alarms) return;
+
+  const db = getDB();
+  const users = await db.users.toArray();
+
+  for (const user of users) {
+    const name = `${ALARMS.DAILY_SUMMARY}:${user.userId}`;
+    const settings = await db.settings.get(user.userId);
+
+    if (!settings?.notifications.dailySummary) {
+      await alarms.clear(name);
+      continue;
+    }
+
+    const when = getNextOccurrence(settings.notifications.dailySummaryTime);
+    const existing = await alarms.get(name);
+    if (existing && existing.scheduledTime === when) continue;
+
+    alarms.create(name, { when, periodInMinutes: DAY_MIN });
+  }
+}
+
+/**
+ * Dispatch an alarm to its job
+ */
+export async function runAlarm(name: string): Promise<void> {
+  if (name === ALARMS.GM_QUEUE) {
+    await runGMQueueJob();
+  } else if (name === ALARMS.SYNC) {
+    await runSyncJob();
+  } else if (name === ALARMS.STREAK_RISK) {
+    await runStreakRiskJob();
+    await scheduleDailySummaries();
+  } else if (name === ALARMS.BUFF_SWEEP) {
+    await runBuffSweepJob();
+  } else if (name === ALARMS.RANK) {
+    await runRankJob();
+  } else if (name === ALARMS.DUNGEON) {
+    await runDungeonJob();
+  } else if (name === ALARMS.WEEKLY_REPORT) {
+    await runWeeklyReportJob();
+  } else if (name === ALARMS.CALIBRATION) {
+    await runCalibrationJob();
+  } else if (name.startsWith(`${ALARMS.DAILY_SUMMARY}:`)) {
+    await runDailySummaryJob(name.slice(ALARMS.DAILY_SUMMARY.length + 1));
+  }
+}
+
+/**
+ * setInterval fallback for contexts without chrome.alarms (vite dev server)
+ */
+export function startIntervalJobs(): void {
+  const every = (minutes: number, job: () => Promise<void>, label: string) => {
+    setInterval(() => {
+      job().catch(e => console.error(`[BackgroundJobs] ${label} failed:`, e));
+    }, minutes * 60 * 1000);
+  };
+
+  every(GM_QUEUE_PERIOD_MIN, runGMQueueJob, 'GM queue');
+  every(SYNC_PERIOD_MIN, runSyncJob, 'Sync');
+  every(STREAK_RISK_PERIOD_MIN, runStreakRiskJob, 'Streak risk');
+  every(BUFF_SWEEP_PERIOD_MIN, runBuffSweepJob, 'Buff sweep');
+  every(RANK_PERIOD_MIN, runRankJob, 'Rank');
+  every(DUNGEON_PERIOD_MIN, runDungeonJob, 'Dungeon');
+  every(WEEKLY_REPORT_PERIOD_MIN, runWeeklyReportJob, 'Weekly report');
+  every(CALIBRATION_PERIOD_MIN, runCalibrationJob, 'Calibration');
+
+  // Drain anything queued while the app was closed
+  runGMQueueJob().catch(e => console.error('[BackgroundJobs] Initial GM queue run failed:', e));
+  runSyncJob().catch(e => console.error('[BackgroundJobs] Initial sync failed:', e));
+}
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+/**
+ * Drain pending GM validation requests
+ */
+export async function runGMQueueJob(): Promise<void> {
+  console.log('[BackgroundJobs] Running GM queue processor');
+  await getQuestService().gmService.processPendingQueue();
+}
+
+/**
+ * Push local changes and pull remote ones for cloud-sync users
+ */
+export async function runSyncJob(): Promise<void> {
+  await getSyncService().syncNow();
+}
+
+/**
+ * Remind users in the evening when today's activity is still missing
+ * At most one reminder per user per day
+ */
+export async function runStreakRiskJob(): Promise<void> {
+  if (new Date().getHours() < STREAK_RISK_HOUR) return;
+
+  const db = getDB();
+  const analyticsService = new AnalyticsService();
+  const notificationService = new NotificationService();
+  const users = await db.users.toArray();
+
+  for (const user of users) {
+    const settings = await db.settings.get(user.userId);
+    if (!settings?.notifications.questReminders) continue;
+    if (user.streakData.currentStreak <= 0) continue;
+    if (!(await analyticsService.isStreakAtRisk(user.userId))) continue;
+    if (await hasNotificationToday(user.userId, 'streak_risk')) continue;
+
+    await notificationService.createNotification(
+      user.userId,
+      'streak_risk',
+      'Streak at risk',
+      `Your ${user.streakData.currentStreak}-day streak ends at midnight. One session keeps it alive.`,
+      undefined,
+      'high'
+    );
+  }
+}
+
+/**
+ * Expire buffs/debuffs and debuff daily quests that were skipped yesterday
+ */
+export async function runBuffSweepJob(): Promise<void> {
+  const users = await getDB().users.toArray();
+  for (const user of users) {
+    await getBuffService().sweep(user.userId);
+  }
+}
+
+/**
+ * Decay RP for inactive users and run the weekly grade evaluation
+ */
+export async function runRankJob(): Promise<void> {
+  const users = await getDB().users.toArray();
+  for (const user of users) {
+    await getRankService().processUser(user.userId);
+  }
+}
+
+/**
+ * Resolve dungeons whose due date has passed
+ */
+export async function runDungeonJob(): Promise<void> {
+  await getDungeonService().resolveDueDungeons();
+}
+
+/**
+ * Compile last week's GM report for users with weekly analysis enabled
+ */
+export async function runWeeklyReportJob(): Promise<void> {
+  const users = await getDB().users.toArray();
+  for (const user of users) {
+    await getWeeklyReportService().processUser(user.userId);
+  }
+}
+
+/**
+ * Check validated difficulty against actual effort and refresh calibration factors
+ */
+export async function runCalibrationJob(): Promise<void> {
+  const users = await getDB().users.toArray();
+  for (const user of users) {
+    await getCalibrationService().recalibrate(user.userId);
+  }
+}
+
+/**
+ * Summarize yesterday's sessions for one user
+ */
+export async function runDailySummaryJob(userId: string): Promise<void> {
+  const db = getDB();
+  const [user, settings] = await Promise.all([db.users.get(userId), db.settings.get(userId)]);
+  if (!user || !settings?.notifications.dailySummary) return;
+  if (await hasNotificationToday(userId, 'daily_summary')) return;
+
+  const now = new Date();
+  const yesterday = toLocalDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1));
+  const sessions = await db.sessions
+    .where('userId')
+    .equals(userId)
+    .filter(session => session.status === 'completed' && toLocalDate(new Date(session.startTime)) === yesterday)
+    .toArray();
+  const activeQuests = await db.getActiveQuests(userId);
+
+  await new NotificationService().createNotification(
+    userId,
+    'daily_summary',
+    'Daily summary',
+    formatDailySummary(sessions, user.streakData.currentStreak, activeQuests.length, settings.displayName)
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function ensureAlarm(name: string, info: { delayInMinutes: number; periodInMinutes: number }): Promise<void> {
+  const alarms = getAlarmsApi();
+  const existing = await alarms.get(name);
+  if (!existing) {
+    alarms.create(name, info);
+  }
+}
+
+async function hasNotificationToday(userId: string, type: 'streak_risk' | 'daily_summary'): Promise<boolean> {
+  const today = toLocalDate(new Date());
+  const notifications = await getDB().notifications.where('userId').equals(userId).toArray();
+  return notifications.some(n => n.type === type && toLocalDate(new Date(n.createdAt)) === today);
+}
+
+function formatDailySummary(
+  sessions: Session[],
+  streak: number,
+  activeQuestCount: number,
+  displayName: string
+): string {
+  const sessionCount = sessions.length;
+  if (sessionCount === 0) {
+    return `No sessions yesterday. ${activeQuestCount} active quest${activeQuestCount === 1 ? '' : 's'} waiting, ${displayName}.`;
+  }
+
+  const minutes = Math.round(sessions.reduce((sum, s) => sum + (s.actualDurationMin || 0), 0));
+  const xp = Math.round(sessions.reduce((sum, s) => sum + (s.xpEarned || 0), 0));
+  return `Yesterday: ${sessionCount} session${sessionCount === 1 ? '' : 's'}, ${minutes} min focused, +${xp} XP. ` +
+    `Streak: ${streak} day${streak === 1 ? '' : 's'}.`;
+}
+
+/**
+ * Next local time matching HH:MM, as Unix ms
+ */
+function getNextOccurrence(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date();
+  next.setHours(hours || 0, minutes || 0, 0, 0);
+  if (next.getTime() <= Date.now()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
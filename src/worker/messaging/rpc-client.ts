@@ -0,0 +1,135 @@
+/**
+ * RPC Client
+ * Typed service proxies for UI code
+ *
+ *   const questService = getRpcClient('quests');
+ *   const quests = await questService.getUserQuests(userId);
+ *
+ * Inside the extension, calls go over chrome.runtime messaging to the RpcServer
+ * in background.js. Without an extension runtime (vite dev server) they run on
+ * an in-process RpcServer, so the same code works in both.
+ */
+
+import { AuthService } from '../services/auth.service';
+import { RpcServer } from './rpc-server';
+import {
+  RPC_CHANNEL,
+  RpcClient,
+  RpcServiceName,
+  RpcRequest,
+  RpcResponse,
+  DataChangedEvent,
+  getMethodCollections,
+  isRpcMessage,
+} from './rpc-schema';
+
+type ChangeListener = (event: DataChangedEvent) => void;
+
+const clients = new Map<RpcServiceName, unknown>();
+const changeListeners = new Set<ChangeListener>();
+
+let _authService: AuthService | null = null;
+let _localServer: RpcServer | null = null;
+let isSubscribedToRuntime = false;
+
+function getRuntime(): any | null {
+  const runtime = (globalThis as any).chrome?.runtime;
+  return runtime?.id && runtime.sendMessage ? runtime : null;
+}
+
+function getLocalServer(): RpcServer {
+  if (!_localServer) {
+    _localServer = new RpcServer();
+    _localServer.onDataChanged(notifyListeners);
+  }
+  return _localServer;
+}
+
+async function getCallerUserId(): Promise<string | null> {
+  if (!_authService) _authService = new AuthService();
+  try {
+    return await _authService.getCurrentUserId();
+  } catch {
+    return null;
+  }
+}
+
+async function call(service: RpcServiceName, method: string, args: unknown[]): Promise<unknown> {
+  const request: RpcRequest = {
+    channel: RPC_CHANNEL,
+    kind: 'request',
+    id: crypto.randomUUID(),
+    service,
+    method,
+    args,
+    userId: await getCallerUserId(),
+  };
+
+  const runtime = getRuntime();
+  const response: RpcResponse | undefined = runtime
+    ? await runtime.sendMessage(request)
+    : await getLocalServer().handle(request);
+
+  if (!response) {
+    throw new Error(`RPC_NO_RESPONSE: ${service}.${method}`);
+  }
+  if (!response.ok) {
+    throw new Error(response.error ?? `RPC call failed: ${service}.${method}`);
+  }
+  return response.result;
+}
+
+/**
+ * Get the typed proxy for a service
+ */
+export function getRpcClient<S extends RpcServiceName>(service: S): RpcClient<S> {
+  let client = clients.get(service) as RpcClient<S> | undefined;
+  if (!client) {
+    client = new Proxy({} as RpcClient<S>, {
+      get: (_target, method) => {
+        if (typeof method !== 'string' || !getMethodCollections(service, method)) {
+          return undefined;
+        }
+        return (...args: unknown[]) => call(service, method, args);
+      },
+    });
+    clients.set(service, client);
+  }
+  return client;
+}
+
+/**
+ * Subscribe to data changes made through any window or the background worker
+ * Returns an unsubscribe function
+ */
+export function onDataChanged(listener: ChangeListener): () => void {
+  subscribeToRuntime();
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function subscribeToRuntime(): void {
+  if (isSubscribedToRuntime) return;
+  const runtime = getRuntime();
+  if (!runtime?.onMessage) return;
+
+  runtime.onMessage.addListener((message: unknown) => {
+    if (isRpcMessage(message) && message.kind === 'data-changed') {
+      notifyListeners(message);
+    }
+    return false;
+  });
+  isSubscribedToRuntime = true;
+}
+
+function notifyListeners(event: DataChangedEvent): void {
+  changeListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[RpcClient] Data change listener failed:', error);
+    }
+  });
+}
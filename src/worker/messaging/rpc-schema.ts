@@ -0,0 +1,281 @@
+/**
+ * RPC Schema
+ * Request/response contract between the extension UI and the background worker
+ *
+ * The UI never touches service instances directly: every call is a message to
+ * one authoritative RpcServer (in background.js), so two windows can't race on
+ * the same Dexie rows. Only methods listed in RPC_METHODS are callable; each
+ * entry lists the collections the call may change, and a non-empty list makes
+ * the server broadcast a DataChangedEvent after it succeeds.
+ */
+
+import type { QuestService } from '../services/quest.service';
+import type { TaskService } from '../services/task.service';
+import type { SessionService } from '../services/session.service';
+import type { NotificationService } from '../services/notification.service';
+import type { AntiQuestService } from '../services/antiquest.service';
+import type { SettingsService } from '../services/settings.service';
+import type { AnalyticsService } from '../services/analytics.service';
+import type { SyncService } from '../services/sync.service';
+import type { BackupService } from '../services/backup.service';
+import type { SessionExportService } from '../services/session-export.service';
+import type { QuestImportService } from '../services/quest-import.service';
+import type { InventoryService } from '../services/inventory.service';
+import type { RankService } from '../services/rank.service';
+import type { TrackService } from '../services/track.service';
+import type { AchievementService } from '../services/achievement.service';
+import type { DungeonService } from '../services/dungeon.service';
+import type { DailyPlannerService } from '../services/gm/gm.planner';
+import type { WeeklyReportService } from '../services/gm/gm.reports';
+import type { RescheduleService } from '../services/gm/gm.rescheduler';
+import type { GMService } from '../services/gm/gm.service';
+import type { GMActionService } from '../services/gm/gm.actions';
+import type { GMQuotaService } from '../services/gm/gm.quota';
+
+export const RPC_CHANNEL = 'ascend-rpc';
+
+export interface RpcServiceMap {
+  quests: QuestService;
+  tasks: TaskService;
+  sessions: SessionService;
+  notifications: NotificationService;
+  antiQuests: AntiQuestService;
+  settings: SettingsService;
+  analytics: AnalyticsService;
+  sync: SyncService;
+  backup: BackupService;
+  sessionExport: SessionExportService;
+  questImport: QuestImportService;
+  inventory: InventoryService;
+  rank: RankService;
+  tracks: TrackService;
+  achievements: AchievementService;
+  dungeons: DungeonService;
+  planner: DailyPlannerService;
+  reports: WeeklyReportService;
+  rescheduler: RescheduleService;
+  gm: GMService;
+  gmActions: GMActionService;
+  gmQuota: GMQuotaService;
+}
+
+export type RpcServiceName = keyof RpcServiceMap;
+
+type MethodSchema<S extends RpcServiceName> = {
+  [M in keyof RpcServiceMap[S]]?: readonly string[];
+};
+
+const READ: readonly string[] = [];
+
+/**
+ * Whitelisted methods per service, mapped to the collections they change
+ */
+export const RPC_METHODS = {
+  quests: {
+    getUserQuests: READ,
+    getArchivedQuests: READ,
+    getQuest: READ,
+    getWatchedQuests: READ,
+    getQuestComments: READ,
+    getPublicQuests: READ,
+    getEpicQuestStats: READ,
+    joinQuest: ['quests', 'dungeonProgress'],
+    createQuest: ['quests'],
+    updateQuest: ['quests'],
+    toggleWatch: ['quests'],
+    addComment: ['comments'],
+    toggleSubtaskComplete: ['quests', 'users', 'activityFeed', 'notifications', 'dungeonProgress'],
+    addSubtask: ['quests'],
+    deleteQuest: ['quests'],
+    archiveQuest: ['quests'],
+  },
+  tasks: {
+    // Regenerates repeating quests, so it writes despite the name
+    getTodaysTasks: ['quests'],
+    getTaskOrder: READ,
+    updateTaskOrder: ['taskOrders'],
+    saveTaskOrder: ['taskOrders'],
+    toggleSubtaskCompletion: ['quests', 'users', 'activityFeed', 'notifications', 'dungeonProgress'],
+  },
+  sessions: {
+    getActiveSession: READ,
+    getTodaySessionCounts: READ,
+    createSession: ['sessions'],
+    switchToDeepFocus: ['sessions'],
+    pauseSession: ['sessions'],
+    resumeSession: ['sessions'],
+    completeSession: ['sessions', 'quests', 'users', 'activityFeed', 'notifications', 'dungeonProgress'],
+  },
+  notifications: {
+    getUserNotifications: READ,
+    markAsRead: ['notifications'],
+  },
+  antiQuests: {
+    getAntiQuests: READ,
+    getArchivedAntiQuests: READ,
+    getAntiQuest: READ,
+    createAntiQuest: ['quests'],
+    logOccurrence: ['quests', 'users', 'activityFeed', 'notifications'],
+    updateAntiQuest: ['quests'],
+    archiveAntiQuest: ['quests'],
+    deleteAntiQuest: ['quests'],
+  },
+  settings: {
+    getUserSettings: READ,
+    exportSettings: READ,
+    updateSettings: ['settings'],
+    resetSettings: ['settings'],
+    clearCache: ['sessions', 'activityFeed'],
+    resetAllProgress: ['quests', 'sessions', 'activityFeed', 'users'],
+    // chrome.storage.local, outside the Dexie collections
+    getProviderApiKey: READ,
+    setProviderApiKey: READ,
+  },
+  analytics: {
+    getHeatmapData: READ,
+    getTodayMetrics: READ,
+    getQuestSessions: READ,
+    getConsistencyScore: READ,
+    getSessionQualityBreakdown: READ,
+    getWorkDistribution: READ,
+    getTimeDistribution: READ,
+    getVelocityData: READ,
+    getProgressStats: READ,
+    getBestQuests: READ,
+    getWeakQuests: READ,
+    getSessionHistory: READ,
+    getSessionsByDateRange: READ,
+    getCompletedSessionCount: READ,
+  },
+  sync: {
+    syncNow: ['quests', 'users', 'sessions', 'notifications', 'settings', 'comments'],
+    getPendingCount: READ,
+    getQueueStats: READ,
+    getFailedSyncCount: READ,
+    retryFailedSyncs: ['syncQueue'],
+    getOpenConflicts: READ,
+    resolveConflict: ['quests', 'users', 'settings'],
+  },
+  backup: {
+    exportBackup: READ,
+    previewImport: READ,
+    importBackup: [
+      'users', 'settings', 'quests', 'sessions', 'taskOrders', 'activityFeed',
+      'agentStates', 'comments', 'notifications', 'performanceSnapshots',
+      'rankHistory', 'dungeonProgress', 'weeklyReports', 'suggestionOutcomes',
+    ],
+  },
+  sessionExport: {
+    exportCsv: READ,
+    exportIcs: READ,
+  },
+  questImport: {
+    previewImport: READ,
+    importQuests: ['quests', 'activityFeed'],
+  },
+  inventory: {
+    getInventory: READ,
+    equipItem: ['users'],
+    unequipItem: ['users'],
+    activateRune: ['users'],
+    discardItem: ['users'],
+  },
+  rank: {
+    getRankSummary: READ,
+  },
+  tracks: {
+    getTrackAnalytics: READ,
+    switchTrack: ['users', 'quests'],
+  },
+  achievements: {
+    getAchievementProgress: READ,
+  },
+  dungeons: {
+    getDungeonProgress: READ,
+  },
+  planner: {
+    // Reads today's tasks, which regenerates repeating quests
+    generateDailyPlan: ['quests'],
+    acceptDailyPlan: ['taskOrders'],
+  },
+  reports: {
+    getWeeklyReports: READ,
+    getWeeklyReport: READ,
+    exportWeeklyReportMarkdown: READ,
+    // The current week also refreshes the analytics snapshots
+    generateWeeklyReport: ['weeklyReports', 'performanceSnapshots'],
+  },
+  rescheduler: {
+    getRescheduleProposals: READ,
+    applyRescheduleProposal: ['quests'],
+  },
+  gm: {
+    // Records each showing and refreshes the stored patterns, so it writes despite the name
+    getHomeSuggestions: ['suggestionOutcomes', 'agentStates'],
+  },
+  gmActions: {
+    // Actions change quests; the outcome also updates AgentState and, via tone feedback, the user
+    executeSuggestionAction: ['quests', 'suggestionOutcomes', 'agentStates', 'users'],
+    recordSuggestionOutcome: ['suggestionOutcomes', 'agentStates', 'users'],
+  },
+  gmQuota: {
+    getQuota: READ,
+  },
+} as const satisfies { [S in RpcServiceName]: MethodSchema<S> };
+
+export type RpcMethodName<S extends RpcServiceName> =
+  keyof (typeof RPC_METHODS)[S] & keyof RpcServiceMap[S] & string;
+
+/**
+ * Client-side view of a service: whitelisted methods only, always async
+ */
+export type RpcClient<S extends RpcServiceName> = {
+  [M in RpcMethodName<S>]: RpcServiceMap[S][M] extends (...args: infer A) => infer R
+    ? (...args: A) => Promise<Awaited<R>>
+    : never;
+};
+
+export interface RpcRequest {
+  channel: typeof RPC_CHANNEL;
+  kind: 'request';
+  id: string;
+  service: RpcServiceName;
+  method: string;
+  args: unknown[];
+  userId: string | null; // Caller's current user; the worker has no localStorage
+}
+
+export interface RpcResponse {
+  channel: typeof RPC_CHANNEL;
+  kind: 'response';
+  id: string;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+export interface DataChangedEvent {
+  channel: typeof RPC_CHANNEL;
+  kind: 'data-changed';
+  service: RpcServiceName;
+  method: string;
+  collections: string[];
+  userId: string | null;
+  timestamp: string; // ISO8601
+}
+
+export type RpcMessage = RpcRequest | RpcResponse | DataChangedEvent;
+
+/**
+ * Collections a whitelisted method may change, or null if it is not callable
+ */
+export function getMethodCollections(service: string, method: string): readonly string[] | null {
+  if (!Object.prototype.hasOwnProperty.call(RPC_METHODS, service)) return null;
+  const methods = RPC_METHODS[service as RpcServiceName] as Record<string, readonly string[]>;
+  if (!Object.prototype.hasOwnProperty.call(methods, method)) return null;
+  return methods[method];
+}
+
+export function isRpcMessage(message: unknown): message is RpcMessage {
+  return typeof message === 'object' && message !== null && (message as RpcMessage).channel === RPC_CHANNEL;
+}
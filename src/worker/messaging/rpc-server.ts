@@ -0,0 +1,163 @@
+/**
+ * RpcServer
+ * Executes whitelisted service calls on behalf of the UI and broadcasts change events
+ *
+ * Runs in background.js (listen() registers the chrome.runtime listener) and,
+ * when there is no extension runtime (vite dev server), in-process behind the
+ * RPC client. Mutating calls run one at a time so concurrent requests from
+ * several windows can't interleave their read-modify-write cycles.
+ */
+
+import { QuestService } from '../services/quest.service';
+import { getTaskService } from '../services/task.service';
+import { SessionService } from '../services/session.service';
+import { NotificationService } from '../services/notification.service';
+import { getAntiQuestService } from '../services/antiquest.service';
+import { getSettingsService } from '../services/settings.service';
+import { AnalyticsService } from '../services/analytics.service';
+import { SyncService } from '../services/sync.service';
+import { getBackupService } from '../services/backup.service';
+import { getSessionExportService } from '../services/session-export.service';
+import { getQuestImportService } from '../services/quest-import.service';
+import { getInventoryService } from '../services/inventory.service';
+import { getRankService } from '../services/rank.service';
+import { getTrackService } from '../services/track.service';
+import { getAchievementService } from '../services/achievement.service';
+import { getDungeonService } from '../services/dungeon.service';
+import { getDailyPlannerService } from '../services/gm/gm.planner';
+import { getWeeklyReportService } from '../services/gm/gm.reports';
+import { getRescheduleService } from '../services/gm/gm.rescheduler';
+import { getGMActionService } from '../services/gm/gm.actions';
+import { getGMQuotaService } from '../services/gm/gm.quota';
+import { setRequestUserId } from '../services/auth.service';
+import {
+  RPC_CHANNEL,
+  RpcServiceMap,
+  RpcRequest,
+  RpcResponse,
+  DataChangedEvent,
+  getMethodCollections,
+  isRpcMessage,
+} from './rpc-schema';
+
+type ChangeListener = (event: DataChangedEvent) => void;
+
+export class RpcServer {
+  private services: RpcServiceMap;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<ChangeListener>();
+
+  constructor(services?: Partial<RpcServiceMap>) {
+    const quests = new QuestService();
+    this.services = {
+      quests,
+      tasks: getTaskService(),
+      sessions: new SessionService(),
+      notifications: new NotificationService(),
+      antiQuests: getAntiQuestService(),
+      settings: getSettingsService(),
+      analytics: new AnalyticsService(),
+      sync: new SyncService(),
+      backup: getBackupService(),
+      sessionExport: getSessionExportService(),
+      questImport: getQuestImportService(),
+      inventory: getInventoryService(),
+      rank: getRankService(),
+      tracks: getTrackService(),
+      achievements: getAchievementService(),
+      dungeons: getDungeonService(),
+      planner: getDailyPlannerService(),
+      reports: getWeeklyReportService(),
+      rescheduler: getRescheduleService(),
+      gm: quests.gmService, // QuestService already builds one with its dependencies
+      gmActions: getGMActionService(),
+      gmQuota: getGMQuotaService(),
+      ...services,
+    };
+  }
+
+  /**
+   * Answer RPC requests sent over chrome.runtime messaging
+   * Must be called at the top level of the service worker
+   */
+  listen(): void {
+    const runtime = (globalThis as any).chrome?.runtime;
+    if (!runtime?.onMessage) {
+      console.warn('[RpcServer] chrome.runtime unavailable, not listening');
+      return;
+    }
+
+    runtime.onMessage.addListener((message: unknown, _sender: unknown, sendResponse: (response: RpcResponse) => void) => {
+      if (!isRpcMessage(message) || message.kind !== 'request') return false;
+
+      this.handle(message).then(sendResponse);
+      return true; // Keep the channel open for the async response
+    });
+
+    console.log('[RpcServer] Listening for UI requests');
+  }
+
+  /**
+   * Execute one request; never throws, errors are returned in the response
+   */
+  async handle(request: RpcRequest): Promise<RpcResponse> {
+    const response: RpcResponse = { channel: RPC_CHANNEL, kind: 'response', id: request.id, ok: false };
+
+    const collections = getMethodCollections(request.service, request.method);
+    if (!collections) {
+      response.error = `RPC_METHOD_NOT_ALLOWED: ${request.service}.${request.method}`;
+      return response;
+    }
+
+    const invoke = async () => {
+      setRequestUserId(request.userId);
+      const service = this.services[request.service] as any;
+      return await service[request.method](...request.args);
+    };
+
+    try {
+      response.result = collections.length > 0 ? await this.serialize(invoke) : await invoke();
+      response.ok = true;
+    } catch (error) {
+      console.error(`[RpcServer] ${request.service}.${request.method} failed:`, error);
+      response.error = error instanceof Error ? error.message : String(error);
+      return response;
+    }
+
+    if (collections.length > 0) {
+      this.emit({
+        channel: RPC_CHANNEL,
+        kind: 'data-changed',
+        service: request.service,
+        method: request.method,
+        collections: [...collections],
+        userId: request.userId,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Subscribe to change events in this context (used by the in-process fallback)
+   */
+  onDataChanged(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writeQueue.then(task, task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private emit(event: DataChangedEvent): void {
+    this.listeners.forEach(listener => listener(event));
+
+    // Reaches every open extension page; rejects harmlessly when none is open
+    const runtime = (globalThis as any).chrome?.runtime;
+    runtime?.sendMessage?.(event)?.catch?.(() => undefined);
+  }
+}
@@ -3,6 +3,8 @@
  * GM/Agent state structure from SRS Section 4.6
  */
 
+import type { DifficultyTier } from './Quest';
+
 // Detailed Performance Metrics for GM consumption
 export interface PerformanceMetrics {
   weeklyVelocity: number; // XP per hour this week
@@ -48,6 +50,33 @@ export interface AgentState {
     burnoutRisk: number; // 0-100
     optimizationOpportunities: string[];
   };
+
+  // Validated difficulty checked against actual effort (see gm.calibration)
+  calibration?: DifficultyCalibration;
+}
+
+export interface DifficultyCalibration {
+  // Median actual ÷ estimated effort over recently completed quests; 1 = estimates hold
+  factor: number;
+  sampleSize: number; // completed quests behind the factor
+  quests: QuestCalibration[];
+  calibratedAt: string; // ISO8601
+}
+
+export interface QuestCalibration {
+  questId: string;
+  title: string;
+  isCompleted: boolean;
+  validatedTier: DifficultyTier;
+  actualTier: DifficultyTier; // the tier the (projected) tracked effort fits
+  estimatedHours: number;
+  actualHours: number; // tracked so far, projected to completion for open quests
+  sessions: number;
+  daysActive: number; // registration to completion (or now)
+  effortRatio: number; // actualHours ÷ estimatedHours
+  xpPerPomodoro: number;
+  proposedXpPerPomodoro: number | null; // open quests whose actual tier differs
+  reason: string;
 }
 
 export interface Pattern {
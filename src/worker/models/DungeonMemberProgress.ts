@@ -17,6 +17,7 @@ export interface DungeonMemberProgress {
   contributionPercent: number; // 0-100
   
   status: 'active' | 'completed' | 'failed';
+  rewardXP?: number; // Share of the clear reward, set when the dungeon resolves
   joinedAt: string; // ISO8601
   lastUpdated: string; // ISO8601
   
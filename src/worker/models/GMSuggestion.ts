@@ -17,4 +17,20 @@ export interface GMSuggestion {
   dismissible: boolean;
   createdAt: string;
   expiresAt: string | null;
+}
+
+export type GMSuggestionAction = GMSuggestion['actions'][number];
+
+/**
+ * One showing of a suggestion on the home view and how the user responded
+ */
+export interface SuggestionOutcome {
+  id: string;
+  userId: string;
+  suggestionId: string;
+  category: string; // first action name, or the suggestion type when it has no actions
+  outcome: 'shown' | 'accepted' | 'dismissed' | 'expired';
+  shownAt: string; // ISO8601
+  expiresAt: string; // ISO8601
+  respondedAt: string | null; // ISO8601, when accepted/dismissed/expired
 }
\ No newline at end of file
@@ -6,7 +6,7 @@
 export interface Notification {
   id: string;
   userId: string;
-  type: 'milestone' | 'comment' | 'slowdown' | 'guild' | 'achievement' | 'quest_default';
+  type: 'milestone' | 'comment' | 'slowdown' | 'guild' | 'achievement' | 'quest_default' | 'sync_conflict' | 'streak_risk' | 'daily_summary' | 'weekly_report';
   
   title: string;
   message: string;
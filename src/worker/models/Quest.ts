@@ -2,6 +2,8 @@
  * Quest Model
  * Complete quest structure from SRS Section 4.2
  */
+import type { VectorClock } from "./SyncOperation";
+
 export type DifficultyTier = "Trivial" | "Easy" | "Medium" | "Hard" | "Epic";
 
 // AntiQuest Types
@@ -62,12 +64,17 @@ export interface Quest {
 
   watchers: string[]; // userIds
   members: string[]; // userIds (for guild quests)
-  isTrackAligned: boolean;
+  isTrackAligned: boolean; // Derived by TrackService from tags/text, or the override below
+  trackAlignmentOverride?: boolean | null; // User override; null/undefined = automatic
   dueDate: string | null; // ISO8601
   isCompleted: boolean;
   completedAt: string | null; // ISO8601
 
-  activeBuffs: string[]; // buffIds
+  // Dungeon outcome, set by DungeonService at the due date
+  dungeonStatus?: "active" | "cleared" | "failed";
+  dungeonResolvedAt?: string | null; // ISO8601
+
+  activeBuffs: string[]; // buffIds/debuffIds scoped to this quest (see BuffService)
 
   gamification: {
     currentLevel: number;
@@ -104,6 +111,9 @@ export interface Quest {
 
   // Validation status for offline queue handling
   validationStatus: "pending" | "validated" | "failed" | "queued";
+
+  // Per-device edit counters for cloud sync conflict detection
+  syncClock?: VectorClock;
 }
 
 export interface Subtask {
@@ -113,6 +123,7 @@ export interface Subtask {
   isComplete: boolean;
   completedAt: string | null; // ISO8601
   revisionCount: number;
+  deferredUntil?: string | null; // YYYY-MM-DD, set by the GM rescheduler; out of plans until then
 }
 
 export interface GMFeedback {
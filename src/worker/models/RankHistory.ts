@@ -0,0 +1,17 @@
+/**
+ * RankHistory Model
+ * One entry per weekly grade evaluation (see RankService)
+ */
+
+export interface RankHistoryEntry {
+  id: string; // `${userId}-${weekStart}`
+  userId: string;
+  weekStart: string; // YYYY-MM-DD (Monday, UTC) of the evaluated week
+  evaluatedAt: string; // ISO8601
+  fromGrade: string;
+  toGrade: string;
+  change: 'promoted' | 'demoted' | 'held';
+  rankPoints: number; // RP at the end of the week
+  rpEarned: number; // RP from sessions during the week
+  rpDecayed: number; // RP lost to inactivity during the week
+}
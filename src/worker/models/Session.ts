@@ -33,6 +33,7 @@ export interface Session {
   
   xpEarned: number;
   xpMultipliers: XPMultiplier[];
+  rpEarned?: number; // Rank points, see RankService
   
   // Deep Focus specific
   deepFocusElapsedSec: number; // NEW - tracks up-counter for deep focus
@@ -55,6 +56,6 @@ export interface Interruption {
 }
 
 export interface XPMultiplier {
-  source: 'difficulty' | 'track_aligned' | 'rune' | 'buff' | 'dungeon';
+  source: 'difficulty' | 'track_aligned' | 'perk' | 'rune' | 'buff' | 'debuff' | 'dungeon';
   value: number;
 }
\ No newline at end of file
@@ -15,4 +15,62 @@ export interface SyncOperation {
   retryCount: number;           // Renamed from 'retries' for clarity
   nextRetryTime: number | null; // Unix ms - when eligible for next retry
   error: string | null;
+  coalescedCount?: number;      // Later ops for the same document folded into this one
+}
+
+/**
+ * An operation that failed MAX_RETRIES times
+ * Kept so the user can retry it manually instead of losing the change
+ */
+export interface DeadLetterOperation extends SyncOperation {
+  deadLetteredAt: string;       // ISO8601
+}
+
+/**
+ * Per-user sync bookkeeping
+ * Tracks the remote pull cursor so each pull only fetches newer changes
+ */
+export interface SyncState {
+  userId: string;
+  cursor: string | null;        // Opaque cursor returned by the last pull
+  lastPushAt: string | null;    // ISO8601
+  lastPullAt: string | null;    // ISO8601
+  deviceId?: string;            // This install's id in vector clocks
+  coalescedOps?: number;        // Redundant ops saved by queue coalescing
+}
+
+/**
+ * Vector clock: deviceId -> number of local edits made on that device
+ * Two clocks where neither dominates mean the document was edited concurrently
+ */
+export type VectorClock = Record<string, number>;
+
+/**
+ * Last version of a document both sides agreed on (pushed or pulled)
+ * Used as the common ancestor for three-way merges
+ */
+export interface SyncBase {
+  key: string;                  // `${collection}:${documentId}`
+  collection: string;
+  documentId: string;
+  data: any;
+  syncedAt: string;             // ISO8601
+}
+
+/**
+ * A field edited differently on two devices that could not be merged automatically
+ * The local value is kept until the user picks a side
+ */
+export interface SyncConflict {
+  conflictId: string;
+  userId: string;
+  collection: string;
+  documentId: string;
+  field: string;
+  localValue: any;
+  remoteValue: any;
+  status: 'open' | 'resolved';
+  resolution: 'local' | 'remote' | null;
+  createdAt: string;            // ISO8601
+  resolvedAt: string | null;    // ISO8601
 }
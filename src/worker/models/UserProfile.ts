@@ -2,6 +2,7 @@
  * UserProfile Model
  * Complete user data structure from SRS Section 4.1
  */
+import type { VectorClock } from './SyncOperation';
 
 export interface UserProfile {
   userId: string;
@@ -11,8 +12,24 @@ export interface UserProfile {
   isPublic: boolean;
   joinDate: string; // ISO8601
   specializationTrack: 'Architect' | 'Scholar' | 'Vanguard';
-  grade: string; // 'Bronze I' | 'Silver III' | 'Gold' | 'Platinum' | 'Ascendant'
+  trackChangedAt?: string | null; // ISO8601, starts the track switch cooldown
+  grade: string; // 'Bronze I' … 'Platinum III' | 'Ascendant', changed only by the weekly evaluation
   rankPoints: number;
+
+  // RP accounting per week (see RankService)
+  rankState?: {
+    lastDecayDate: string | null; // YYYY-MM-DD, last day inactivity decay was applied for
+    weekStart?: string; // YYYY-MM-DD (Monday, UTC) of the week the counters below belong to
+    weekRpEarned: number;
+    weekRpDecayed: number;
+    // Counters of the previous week, frozen at the week boundary for the weekly evaluation
+    lastWeek?: {
+      weekStart: string;
+      rpEarned: number;
+      rpDecayed: number;
+      rankPoints: number; // RP when the week ended
+    };
+  };
   
   inventory: InventoryItem[];
   
@@ -29,6 +46,8 @@ export interface UserProfile {
     motivationalStyle: 'firm' | 'gentle' | 'neutral';
     preferredDifficulty: 'easy' | 'medium' | 'strict';
     trustLevel: number; // 0-100
+    // How often GM messages in each tone were acted on vs dismissed (see gm.persona)
+    toneEngagement?: Partial<Record<'mild' | 'standard' | 'tough', { acted: number; dismissed: number }>>;
   };
   
   streakData: {
@@ -40,6 +59,14 @@ export interface UserProfile {
   
   consistencyScore: number; // 0-100
   achievements: string[];
+  achievementUnlocks?: Record<string, string>; // achievementId → unlockedAt (ISO8601)
+
+  // Loot sources already rolled ('quest_complete:<questId>', 'user_level:<n>', ...)
+  // so re-completing a quest can't farm drops
+  lootSources?: string[];
+
+  // Per-device edit counters for cloud sync conflict detection
+  syncClock?: VectorClock;
 }
 
 export interface InventoryItem {
@@ -51,8 +78,9 @@ export interface InventoryItem {
   usesRemaining: number | null; // null for artifacts
   durability: number | null; // 0-100, null if disabled
   slotType: 'Weapon' | 'Armor' | 'Accessory' | null;
-  isEquipped: boolean;
+  isEquipped: boolean; // Artifacts: in a slot; Runes: armed for upcoming sessions
   acquiredAt: string; // ISO8601
+  templateId?: string; // Key into ITEM_CATALOG (inventory.service); drives the XP effect
 }
 
 export interface Buff {
@@ -68,6 +96,7 @@ export interface Debuff {
   debuffId: string;
   name: string;
   effect: string;
-  severity: number; // 0-100
+  severity: number; // 0-100, % of XP withheld
   expiresAt: string | null; // ISO8601
+  questId?: string; // Only affects this quest (also listed in Quest.activeBuffs); global when unset
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import type { VectorClock } from './SyncOperation';
+
 export interface UserSettings {
   userId: string;
   
@@ -56,13 +58,21 @@ export interface UserSettings {
       reschedules: boolean;
       weeklyAnalysis: boolean;
     };
+    // Where GM validation runs: the Ascend backend, or any OpenAI-compatible
+    // chat completions server (hosted, or a local model server like Ollama).
+    // The API key is kept on this device only (see getProviderApiKey)
+    provider: {
+      type: 'ascend' | 'openai-compatible';
+      endpoint: string;                // Base URL, e.g. http://localhost:11434/v1
+      model: string;
+    };
   };
 
   // GM Validation Quota
   gmValidationQuota: {
     dailyLimit: number;              // Default: 10 successful AI validations per day
     successfulValidationsToday: number;  // Count of AI validations that succeeded
-    resetTimestamp: string;           // ISO8601 - when quota resets (midnight UTC)
+    resetTimestamp: string;           // ISO8601 - when quota resets (local midnight)
   };
 
   // Data & Storage
@@ -79,6 +89,7 @@ export interface UserSettings {
   // Metadata
   lastModified: string; // ISO8601
   version: number; // Schema version
+  syncClock?: VectorClock; // Per-device edit counters for cloud sync
 }
 
 // Default settings
@@ -129,6 +140,11 @@ export const DEFAULT_USER_SETTINGS: Omit<UserSettings, 'userId'> = {
       reschedules: true,
       weeklyAnalysis: false,
     },
+    provider: {
+      type: 'ascend',
+      endpoint: 'https://api.openai.com/v1',
+      model: 'gpt-4o-mini',
+    },
   },
   gmValidationQuota: {
     dailyLimit: 10,
@@ -0,0 +1,54 @@
+/**
+ * WeeklyReport Model
+ * One GM weekly analysis per user and week (see WeeklyReportService)
+ */
+
+export type Trend = 'improving' | 'stable' | 'declining';
+
+export interface WeeklyReport {
+  id: string; // `${userId}-${weekStart}`
+  userId: string;
+  weekStart: string; // YYYY-MM-DD (Monday, UTC)
+  weekEnd: string; // YYYY-MM-DD (Sunday, UTC)
+  generatedAt: string; // ISO8601
+
+  totals: {
+    xp: number;
+    focusMinutes: number;
+    sessionsCompleted: number;
+    sessionsAbandoned: number;
+  };
+  quests: WeeklyQuestStat[]; // most time first
+
+  consistency: {
+    activeDays: number; // 0-7
+    previousActiveDays: number;
+    monthlyConsistency: number | null; // latest snapshot in the week, 0-100
+    trend: Trend;
+  };
+  quality: {
+    average: number; // 0-100, completed sessions
+    previousAverage: number;
+    trend: Trend;
+    byDay: { date: string; average: number | null }[];
+  };
+  velocity: {
+    xpPerHour: number | null; // latest weeklyVelocity snapshot in the week
+    burnoutRisk: 'Low' | 'Medium' | 'High' | 'Critical' | null; // at generation, latest week only
+  };
+
+  antiQuests: { antiQuestId: string; title: string; occurrences: number; xpLost: number }[];
+  overdue: { questId: string; title: string; dueDate: string; daysOverdue: number }[];
+
+  patterns: { name: string; detail: string; severity: 'info' | 'warning' | 'critical' }[];
+  recommendations: string[];
+}
+
+export interface WeeklyQuestStat {
+  questId: string;
+  title: string;
+  xp: number;
+  minutes: number;
+  sessions: number;
+  averageQuality: number;
+}
@@ -8,13 +8,15 @@ export type { Quest, Subtask, ProgressHistoryEntry } from './Quest';
 export type { Session, PauseEvent, Interruption, XPMultiplier } from './Session';
 export type { TaskOrder } from './TaskOrder';
 export type { ActivityItem, ActivityType } from './ActivityItem';
-export type { AgentState, Pattern, QuestAdjustment, PendingAction } from './AgentState';
+export type { AgentState, Pattern, QuestAdjustment, PendingAction, DifficultyCalibration, QuestCalibration } from './AgentState';
 export type { GoalComment, Reaction } from './GoalComment';
 export type { Notification } from './Notification';
-export type { SyncOperation } from './SyncOperation';
-export type { GMSuggestion } from './GMSuggestion';
+export type { SyncOperation, DeadLetterOperation, SyncState, SyncBase, SyncConflict, VectorClock } from './SyncOperation';
+export type { GMSuggestion, GMSuggestionAction, SuggestionOutcome } from './GMSuggestion';
 export type { DungeonMemberProgress } from './DungeonMemberProgress';
 export type { AnalyticsSummary, DayBreakdown, QuestBreakdown } from './AnalyticsSummary';
 export type { UserSettings } from './UserSettings';
+export type { RankHistoryEntry } from './RankHistory';
+export type { WeeklyReport, WeeklyQuestStat } from './WeeklyReport';
 // export type { AntiQuestAnalytics } from './AntiQuestAnalytics';
 export { DEFAULT_USER_SETTINGS } from './UserSettings';
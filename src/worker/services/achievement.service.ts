@@ -0,0 +1,243 @@
+/**
+ * AchievementService
+ * Declarative achievement catalog, incremental unlocks and progress
+ *
+ * Each achievement is a rule: a metric and a target. After a trigger
+ * (session, quest completion, AntiQuest occurrence) only the locked
+ * achievements whose metric that trigger can move are evaluated. Unlocks
+ * land in UserProfile.achievements / achievementUnlocks, the activity feed
+ * and notifications.
+ */
+
+import { getDB } from '../db/indexed-db';
+import type { UserProfile } from '../models/UserProfile';
+import type { DifficultyTier, Quest } from '../models/Quest';
+import { ActivityFeedService } from './activity-feed.service';
+import { NotificationService } from './notification.service';
+
+export type AchievementMetric =
+  | 'pomodoros' // completed pomodoro sessions
+  | 'deep_focus_minutes' // minutes in completed deep focus sessions
+  | 'streak' // longest daily streak
+  | 'quests_completed' // completed quests, optionally of one difficulty
+  | 'antiquest_clean_days' // best current gap on any active AntiQuest
+  | 'total_level';
+
+export type AchievementTrigger = 'session' | 'quest_complete' | 'antiquest_occurrence';
+
+export interface AchievementRule {
+  metric: AchievementMetric;
+  target: number;
+  difficulty?: DifficultyTier; // quests_completed only
+}
+
+export interface Achievement {
+  achievementId: string;
+  name: string;
+  description: string;
+  rule: AchievementRule;
+}
+
+export interface AchievementProgress {
+  achievement: Achievement;
+  current: number; // capped at the target
+  unlocked: boolean;
+  unlockedAt: string | null; // ISO8601
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { achievementId: 'first-focus', name: 'First Focus', description: 'Complete your first pomodoro', rule: { metric: 'pomodoros', target: 1 } },
+  { achievementId: 'pomodoro-10', name: 'Getting Serious', description: 'Complete 10 pomodoros', rule: { metric: 'pomodoros', target: 10 } },
+  { achievementId: 'pomodoro-100', name: 'Centurion', description: 'Complete 100 pomodoros', rule: { metric: 'pomodoros', target: 100 } },
+  { achievementId: 'pomodoro-500', name: 'Tomato Baron', description: 'Complete 500 pomodoros', rule: { metric: 'pomodoros', target: 500 } },
+  { achievementId: 'deep-focus-10h', name: 'Deep Diver', description: 'Spend 10 hours in deep focus', rule: { metric: 'deep_focus_minutes', target: 600 } },
+  { achievementId: 'streak-7', name: 'One Week Strong', description: 'Reach a 7-day streak', rule: { metric: 'streak', target: 7 } },
+  { achievementId: 'streak-30', name: 'Habit Forged', description: 'Reach a 30-day streak', rule: { metric: 'streak', target: 30 } },
+  { achievementId: 'streak-100', name: 'Unbroken', description: 'Reach a 100-day streak', rule: { metric: 'streak', target: 100 } },
+  { achievementId: 'first-quest', name: 'Quest Complete', description: 'Complete your first quest', rule: { metric: 'quests_completed', target: 1 } },
+  { achievementId: 'quests-10', name: 'Adventurer', description: 'Complete 10 quests', rule: { metric: 'quests_completed', target: 10 } },
+  { achievementId: 'first-epic', name: 'Epic Triumph', description: 'Complete your first Epic quest', rule: { metric: 'quests_completed', target: 1, difficulty: 'Epic' } },
+  { achievementId: 'clean-7', name: 'Clean Week', description: '7 clean days on an AntiQuest', rule: { metric: 'antiquest_clean_days', target: 7 } },
+  { achievementId: 'clean-30', name: 'Breaking Free', description: '30 clean days on an AntiQuest', rule: { metric: 'antiquest_clean_days', target: 30 } },
+  { achievementId: 'level-10', name: 'Rising', description: 'Reach level 10', rule: { metric: 'total_level', target: 10 } },
+  { achievementId: 'level-25', name: 'Veteran', description: 'Reach level 25', rule: { metric: 'total_level', target: 25 } },
+];
+
+// Metrics each trigger can move; everything else is skipped on that trigger
+const TRIGGER_METRICS: Record<AchievementTrigger, AchievementMetric[]> = {
+  session: ['pomodoros', 'deep_focus_minutes', 'streak', 'total_level', 'antiquest_clean_days'],
+  quest_complete: ['quests_completed', 'total_level'],
+  antiquest_occurrence: ['antiquest_clean_days'],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AchievementService {
+  private db = getDB();
+
+  /**
+   * Unlock any locked achievements the trigger completed; returns the new unlocks
+   */
+  async evaluate(userId: string, trigger: AchievementTrigger): Promise<Achievement[]> {
+    const user = await this.db.users.get(userId);
+    if (!user) return [];
+
+    const unlocked = new Set(user.achievements ?? []);
+    const candidates = ACHIEVEMENTS.filter(a =>
+      !unlocked.has(a.achievementId) && TRIGGER_METRICS[trigger].includes(a.rule.metric)
+    );
+    if (candidates.length === 0) return [];
+
+    const metrics = new MetricReader(this.db, user);
+    const newlyUnlocked: Achievement[] = [];
+    for (const achievement of candidates) {
+      if ((await metrics.read(achievement.rule)) >= achievement.rule.target) {
+        newlyUnlocked.push(achievement);
+      }
+    }
+    if (newlyUnlocked.length === 0) return [];
+
+    const now = new Date().toISOString();
+    user.achievements = [...(user.achievements ?? []), ...newlyUnlocked.map(a => a.achievementId)];
+    user.achievementUnlocks = {
+      ...(user.achievementUnlocks ?? {}),
+      ...Object.fromEntries(newlyUnlocked.map(a => [a.achievementId, now])),
+    };
+    await this.db.users.put(user);
+    await this.db.queueSync({
+      operation: 'update',
+      collection: 'users',
+      documentId: userId,
+      data: user,
+      priority: 8,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
+
+    const activityService = new ActivityFeedService();
+    const notificationService = new NotificationService();
+    for (const achievement of newlyUnlocked) {
+      await activityService.addActivity({
+        activityId: `achievement_unlock_${userId}_${achievement.achievementId}`,
+        type: 'achievement_unlock',
+        userId,
+        username: user.username,
+        timestamp: now,
+        data: { achievementName: achievement.name },
+      });
+      await notificationService.createNotification(
+        userId,
+        'achievement',
+        `Achievement unlocked: ${achievement.name}`,
+        achievement.description
+      );
+    }
+
+    console.log(`[AchievementService] ${userId} unlocked: ${newlyUnlocked.map(a => a.achievementId).join(', ')}`);
+    return newlyUnlocked;
+  }
+
+  /**
+   * Every achievement with the user's progress toward it
+   */
+  async getAchievementProgress(userId: string): Promise<AchievementProgress[]> {
+    const user = await this.db.users.get(userId);
+    if (!user) throw new Error('User not found');
+
+    const metrics = new MetricReader(this.db, user);
+    const unlocks = user.achievementUnlocks ?? {};
+    const unlocked = new Set(user.achievements ?? []);
+
+    const progress: AchievementProgress[] = [];
+    for (const achievement of ACHIEVEMENTS) {
+      const isUnlocked = unlocked.has(achievement.achievementId);
+      const current = isUnlocked ? achievement.rule.target : await metrics.read(achievement.rule);
+      progress.push({
+        achievement,
+        current: Math.min(current, achievement.rule.target),
+        unlocked: isUnlocked,
+        unlockedAt: unlocks[achievement.achievementId] ?? null,
+      });
+    }
+    return progress;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Reads metric values for one user, loading each table at most once
+ */
+class MetricReader {
+  private sessions: Promise<{ sessionType: string; actualDurationMin: number }[]> | null = null;
+  private quests: Promise<Quest[]> | null = null;
+
+  constructor(private db: ReturnType<typeof getDB>, private user: UserProfile) {}
+
+  async read(rule: AchievementRule): Promise<number> {
+    switch (rule.metric) {
+      case 'pomodoros':
+        return (await this.getSessions()).filter(s => s.sessionType === 'pomodoro').length;
+      case 'deep_focus_minutes':
+        return (await this.getSessions())
+          .filter(s => s.sessionType === 'deep_focus')
+          .reduce((sum, s) => sum + (s.actualDurationMin || 0), 0);
+      case 'streak':
+        return Math.max(this.user.streakData?.longestStreak ?? 0, this.user.streakData?.currentStreak ?? 0);
+      case 'quests_completed':
+        return (await this.getQuests()).filter(q =>
+          q.type !== 'AntiQuest' &&
+          q.isCompleted &&
+          (!rule.difficulty || getDifficulty(q) === rule.difficulty)
+        ).length;
+      case 'antiquest_clean_days':
+        return (await this.getQuests())
+          .filter(q => q.type === 'AntiQuest' && !q.hidden)
+          .reduce((best, q) => Math.max(best, getCleanDays(q)), 0);
+      case 'total_level':
+        return this.user.totalLevel ?? 0;
+    }
+  }
+
+  private getSessions() {
+    if (!this.sessions) {
+      this.sessions = this.db.sessions
+        .where('userId')
+        .equals(this.user.userId)
+        .filter(s => s.status === 'completed')
+        .toArray();
+    }
+    return this.sessions;
+  }
+
+  private getQuests() {
+    if (!this.quests) {
+      this.quests = this.db.quests.where('ownerId').equals(this.user.userId).toArray();
+    }
+    return this.quests;
+  }
+}
+
+function getDifficulty(quest: Quest): string {
+  return quest.difficulty.gmValidated ?? quest.difficulty.userAssigned;
+}
+
+/**
+ * Whole days since the last occurrence, or since the AntiQuest was created
+ */
+export function getCleanDays(antiQuest: Pick<Quest, 'createdAt' | 'antiTracking'>, now = Date.now()): number {
+  const since = antiQuest.antiTracking?.lastOccurredAt ?? antiQuest.createdAt;
+  return Math.max(0, Math.floor((now - new Date(since).getTime()) / DAY_MS));
+}
+
+// Singleton
+let _achievementService: AchievementService | null = null;
+
+export function getAchievementService() {
+  if (!_achievementService) _achievementService = new AchievementService();
+  return _achievementService;
+}
@@ -8,6 +8,7 @@ import type { Session } from "../models/Session";
 import type { PerformanceMetrics } from "../models/AgentState";
 import type { Quest } from "../models/Quest";
 import { currentLevelFromExp } from "../utils/level-and-xp-converters";
+import { getBuffService } from "./buff.service";
 
 export interface HeatmapDay {
   date: string;
@@ -755,6 +756,9 @@ export class AnalyticsService {
     // Update last activity date
     userProfile.streakData.lastActivityDate = today;
 
+    // Streak milestones grant a timed XP buff
+    getBuffService().grantStreakBuff(userProfile);
+
     // Save to database
     await this.db.users.put(userProfile);
 
@@ -765,7 +769,9 @@ export class AnalyticsService {
       documentId: userId,
       data: userProfile,
       priority: 8,
-      retries: 0,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -837,6 +843,17 @@ export class AnalyticsService {
     return await this.getSessionsByDateRange(userId, today, today);
   }
 
+  /**
+   * Count of all completed sessions for a user
+   */
+  async getCompletedSessionCount(userId: string): Promise<number> {
+    return await this.db.sessions
+      .where("userId")
+      .equals(userId)
+      .and((s) => s.status === "completed")
+      .count();
+  }
+
   // --- START GM-SPECIFIC ANALYTICS METHODS ---
 
   /**
@@ -14,6 +14,8 @@ import type { Quest, Severity, AntiQuestOccurrence, AntiQuestTracking } from "..
 import { AuthService } from "./auth.service";
 import { applyXPPenaltyWithFloor } from "../utils/level-and-xp-converters";
 import { ActivityFeedService } from "./activity-feed.service";
+import { getBuffService } from "./buff.service";
+import { getAchievementService } from "./achievement.service";
 
 // XP Penalties by severity
 const SEVERITY_XP_PENALTIES: Record<Severity, number> = {
@@ -178,7 +180,8 @@ export class AntiQuestService {
       data: antiQuest,
       priority: 7,
       userId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -248,20 +251,34 @@ export class AntiQuestService {
       throw new Error("User not found");
     }
 
-    const xpResult = applyXPPenaltyWithFloor(
-      user.experiencePoints,
-      antiQuest.severity.xpPenaltyPerEvent
+    // Active debuffs make the penalty harsher, streak buffs soften it
+    const buffService = getBuffService();
+    const penalty = Math.round(
+      antiQuest.severity.xpPenaltyPerEvent * buffService.getPenaltyMultiplier(user, antiQuestId)
     );
+    const xpResult = applyXPPenaltyWithFloor(user.experiencePoints, penalty);
 
-    // Update user XP
+    // Update user XP and apply the relapse debuff
     user.experiencePoints = xpResult.newXP;
+    buffService.applyRelapseDebuff(user, antiQuest);
     await this.db.users.put(user);
+    await this.db.queueSync({
+      operation: "update",
+      collection: "users",
+      documentId: userId,
+      data: user,
+      priority: 8,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
 
     // Create occurrence record
     const occurrence: AntiQuestOccurrence = {
       id: `occ_${crypto.randomUUID()}`,
       timestamp: occurrenceTimestamp,
-      xpPenalty: antiQuest.severity.xpPenaltyPerEvent,
+      xpPenalty: penalty,
       actualPenalty: xpResult.actualPenalty,
       notes,
     };
@@ -298,11 +315,12 @@ export class AntiQuestService {
       data: antiQuest,
       priority: 7,
       userId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
-    console.log(`[AntiQuestService] Logged occurrence for ${antiQuestId}: -${xpResult.actualPenalty} XP (requested: -${antiQuest.severity.xpPenaltyPerEvent})`);
+    console.log(`[AntiQuestService] Logged occurrence for ${antiQuestId}: -${xpResult.actualPenalty} XP (requested: -${penalty})`);
 
     // Log activity for XP deduction
     const activityService = new ActivityFeedService();
@@ -319,6 +337,8 @@ export class AntiQuestService {
       }
     });
 
+    await getAchievementService().evaluate(userId, 'antiquest_occurrence');
+
     return { antiQuest, occurrence, xpResult };
   }
 
@@ -426,7 +446,8 @@ export class AntiQuestService {
       data: antiQuest,
       priority: 7,
       userId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -463,7 +484,8 @@ export class AntiQuestService {
       data: { hidden: antiQuest.hidden },
       priority: 7,
       userId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -495,7 +517,8 @@ export class AntiQuestService {
       data: null,
       priority: 9,
       userId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
   }
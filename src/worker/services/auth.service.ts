@@ -7,6 +7,15 @@
 import { getDB } from '../db/indexed-db';
 import { SeedService } from './seed.service';
 
+// User of the RPC request being handled in the background worker, which has no
+// localStorage. Ascend has one signed-in user per browser profile, so a single
+// slot is enough even when requests interleave.
+let _requestUserId: string | null = null;
+
+export function setRequestUserId(userId: string | null): void {
+  _requestUserId = userId;
+}
+
 export class AuthService {
   private db = getDB();
   private seedService = new SeedService();
@@ -17,6 +26,11 @@ export class AuthService {
    * Seeds database on first load
    */
   async getCurrentUserId(): Promise<string> {
+    // Inside the background worker the caller tells us who is signed in
+    if (_requestUserId) {
+      return _requestUserId;
+    }
+
     // Check if already initialized
     if (this.currentUserId) {
       // console.log("In auth service, user is current user");
@@ -0,0 +1,452 @@
+/**
+ * BackupService
+ * Lossless, versioned backup and restore of a user's local data
+ *
+ * Format v2 stores every user-owned row of every data table as-is.
+ * Sync bookkeeping (syncQueue, syncState, syncBases, syncConflicts,
+ * deadLetters) is device-specific and is not backed up; imported rows are
+ * queued for sync instead.
+ *
+ * v1 files (exportVersion '1.0', written by the old Data → Export button)
+ * hold trimmed quests and a partial profile; they are migrated to v2 by
+ * filling the missing fields with the same defaults QuestService.createQuest uses.
+ */
+
+import type { Table } from 'dexie';
+import { getDB } from '../db/indexed-db';
+import type { Quest } from '../models/Quest';
+import type { UserProfile } from '../models/UserProfile';
+import { DEFAULT_USER_SETTINGS } from '../models/UserSettings';
+
+export const BACKUP_FORMAT = 'ascend-backup';
+export const BACKUP_FORMAT_VERSION = 2;
+
+// Tables in a v2 backup and the field that ties a row to its user
+const BACKUP_TABLES = {
+  users: 'userId',
+  settings: 'userId',
+  quests: 'ownerId',
+  sessions: 'userId',
+  taskOrders: 'userId',
+  activityFeed: 'userId',
+  agentStates: 'userId',
+  comments: 'userId',
+  notifications: 'userId',
+  performanceSnapshots: 'userId',
+  rankHistory: 'userId',
+  dungeonProgress: 'userId',
+  weeklyReports: 'userId',
+  suggestionOutcomes: 'userId',
+} as const;
+
+export type BackupTableName = keyof typeof BACKUP_TABLES;
+
+// Tables mirrored to the backend (see SyncQueue); imported rows are queued for push
+const SYNCED_TABLES: BackupTableName[] = ['users', 'settings', 'quests', 'sessions', 'comments', 'notifications', 'dungeonProgress'];
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: string; // ISO8601
+  userId: string;
+  tables: { [T in BackupTableName]: any[] };
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface TableImportReport {
+  added: number;
+  updated: number;
+  skipped: number;
+  removed: number; // replace mode only
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  mode: ImportMode;
+  sourceVersion: number;
+  exportedAt: string | null;
+  remappedFromUserId: string | null;
+  tables: Record<BackupTableName, TableImportReport>;
+  warnings: string[];
+}
+
+export class BackupService {
+  private db = getDB();
+
+  /**
+   * Build a v2 backup of everything the user owns
+   */
+  async exportBackup(userId: string): Promise<BackupFile> {
+    const tables = {} as BackupFile['tables'];
+
+    for (const name of Object.keys(BACKUP_TABLES) as BackupTableName[]) {
+      tables[name] = await this.getUserRows(name, userId);
+    }
+
+    // Comments by others on the user's quests belong with those quests
+    const questIds = new Set(tables.quests.map(q => q.questId));
+    const questComments = await this.db.comments.filter(c => questIds.has(c.questId) && c.userId !== userId).toArray();
+    tables.comments.push(...questComments);
+
+    return {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      userId,
+      tables,
+    };
+  }
+
+  /**
+   * Report what importing would change without writing anything
+   */
+  async previewImport(raw: unknown, userId: string, mode: ImportMode): Promise<ImportReport> {
+    return this.runImport(raw, userId, mode, true);
+  }
+
+  /**
+   * Import a backup into the current user's data
+   * merge: add missing rows, update rows the backup has a newer version of
+   *        (profiles carry no modification time: see isNewerRow)
+   * replace: delete the user's rows first, then restore the backup;
+   *          removed rows are deleted on the backend too
+   * Either mode skips rows whose key is taken by another user's row
+   */
+  async importBackup(raw: unknown, userId: string, mode: ImportMode): Promise<ImportReport> {
+    return this.runImport(raw, userId, mode, false);
+  }
+
+  private async runImport(raw: unknown, userId: string, mode: ImportMode, dryRun: boolean): Promise<ImportReport> {
+    const sourceVersion = getFormatVersion(raw);
+    const backup = this.validateBackup(sourceVersion === 1 ? migrateV1(raw as any) : raw);
+    const warnings: string[] = sourceVersion === 1
+      ? ['Migrated from a v1 export: only quests, sessions, settings and profile stats were included.']
+      : [];
+
+    const remappedFromUserId = backup.userId !== userId ? backup.userId : null;
+    if (remappedFromUserId) {
+      warnings.push(`Backup belongs to another user id (${remappedFromUserId}); rows were reassigned to you.`);
+    }
+
+    const report: ImportReport = {
+      dryRun,
+      mode,
+      sourceVersion,
+      exportedAt: (raw as any).exportedAt ?? null,
+      remappedFromUserId,
+      tables: {} as ImportReport['tables'],
+      warnings,
+    };
+
+    const plan: { name: BackupTableName; rows: any[]; toWrite: any[]; removedKeys: any[] }[] = [];
+
+    for (const name of Object.keys(BACKUP_TABLES) as BackupTableName[]) {
+      const table = this.getTable(name);
+      const keyPath = getKeyPath(table);
+      const ownerField = BACKUP_TABLES[name];
+      const rows = backup.tables[name].map(row => remapUser(row, backup.userId, userId));
+      const tableReport: TableImportReport = { added: 0, updated: 0, skipped: 0, removed: 0 };
+      const toWrite: any[] = [];
+      let foreignRows = 0;
+
+      const existingRows = mode === 'replace' ? await this.getUserRows(name, userId) : [];
+      const incomingKeys = new Set(rows.map(row => row[keyPath]));
+      const removedKeys = existingRows.map(row => row[keyPath]).filter(key => !incomingKeys.has(key));
+      tableReport.removed = removedKeys.length;
+
+      for (const row of rows) {
+        const key = row[keyPath];
+        if (key === undefined || key === null) {
+          tableReport.skipped++;
+          continue;
+        }
+
+        const existing = await table.get(key);
+        if (existing && existing[ownerField] !== row[ownerField]) {
+          // Same key, different owner: never overwrite another user's row
+          foreignRows++;
+          tableReport.skipped++;
+        } else if (sourceVersion === 1 && name === 'users') {
+          // v1 profiles are partial: overlay them, never add them as new rows
+          if (existing) {
+            tableReport.updated++;
+            toWrite.push({ ...existing, ...row });
+          } else {
+            tableReport.skipped++;
+          }
+        } else if (!existing) {
+          tableReport.added++;
+          toWrite.push(row);
+        } else if (mode === 'replace' || isNewerRow(name, row, existing)) {
+          tableReport.updated++;
+          toWrite.push(row);
+        } else {
+          tableReport.skipped++;
+        }
+      }
+
+      if (foreignRows > 0) {
+        warnings.push(`${name}: ${foreignRows} row(s) already belong to another user and were skipped.`);
+      }
+      report.tables[name] = tableReport;
+      plan.push({ name, rows, toWrite, removedKeys });
+    }
+
+    if (dryRun) return report;
+
+    const tables = plan.map(({ name }) => this.getTable(name));
+    await this.db.transaction('rw', tables, async () => {
+      for (const { name, toWrite } of plan) {
+        const table = this.getTable(name);
+        if (mode === 'replace') {
+          const keyPath = getKeyPath(table);
+          const existing = await this.getUserRows(name, userId);
+          await table.bulkDelete(existing.map(row => row[keyPath]));
+        }
+        await table.bulkPut(toWrite);
+      }
+    });
+
+    // Push restored rows to the backend like any other local edit
+    for (const { name, toWrite, removedKeys } of plan) {
+      if (!SYNCED_TABLES.includes(name)) continue;
+      const keyPath = getKeyPath(this.getTable(name));
+
+      // Otherwise the next pull would bring the removed rows back
+      for (const documentId of removedKeys) {
+        await this.db.queueSync({
+          operation: 'delete',
+          collection: name,
+          documentId,
+          data: null,
+          priority: 8,
+          userId,
+          retryCount: 0,
+          nextRetryTime: null,
+          error: null,
+        });
+      }
+
+      for (const row of toWrite) {
+        await this.db.queueSync({
+          operation: 'update',
+          collection: name,
+          documentId: row[keyPath],
+          data: row,
+          priority: 8,
+          userId,
+          retryCount: 0,
+          nextRetryTime: null,
+          error: null,
+        });
+      }
+    }
+
+    console.log('[BackupService] Import complete:', report);
+    return report;
+  }
+
+  /**
+   * Check the shape of a (possibly migrated) backup
+   */
+  private validateBackup(raw: unknown): BackupFile {
+    const backup = raw as BackupFile;
+    if (!backup || typeof backup !== 'object' || backup.format !== BACKUP_FORMAT) {
+      throw new Error('BACKUP_INVALID: Not an Ascend backup file');
+    }
+    if (typeof backup.userId !== 'string' || !backup.userId) {
+      throw new Error('BACKUP_INVALID: Missing userId');
+    }
+    if (!backup.tables || typeof backup.tables !== 'object') {
+      throw new Error('BACKUP_INVALID: Missing tables');
+    }
+
+    const tables = {} as BackupFile['tables'];
+    for (const name of Object.keys(BACKUP_TABLES) as BackupTableName[]) {
+      const rows = backup.tables[name] ?? [];
+      if (!Array.isArray(rows)) {
+        throw new Error(`BACKUP_INVALID: Table ${name} is not a list`);
+      }
+      tables[name] = rows.filter(row => row && typeof row === 'object');
+    }
+
+    return { ...backup, tables };
+  }
+
+  private async getUserRows(name: BackupTableName, userId: string): Promise<any[]> {
+    const ownerField = BACKUP_TABLES[name];
+    return await this.getTable(name).filter((row: any) => row[ownerField] === userId).toArray();
+  }
+
+  private getTable(name: BackupTableName): Table<any, any> {
+    return this.db[name] as Table<any, any>;
+  }
+}
+
+// ============================================================================
+// FORMAT HELPERS
+// ============================================================================
+
+function getFormatVersion(raw: unknown): number {
+  const file = raw as any;
+  if (!file || typeof file !== 'object') {
+    throw new Error('BACKUP_INVALID: File is not a JSON object');
+  }
+  if (file.format === BACKUP_FORMAT) {
+    if (typeof file.formatVersion !== 'number' || file.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new Error(`BACKUP_UNSUPPORTED_VERSION: ${file.formatVersion}`);
+    }
+    return file.formatVersion;
+  }
+  if (file.exportVersion === '1.0') {
+    return 1;
+  }
+  throw new Error('BACKUP_INVALID: Not an Ascend backup file');
+}
+
+/**
+ * Convert a v1 export into a v2 backup
+ */
+function migrateV1(file: any): BackupFile {
+  const userId: string = file.user?.userId;
+  const now = new Date().toISOString();
+
+  const quests: Quest[] = (file.quests ?? []).map((q: any): Quest => ({
+    questId: q.questId,
+    ownerId: userId,
+    title: q.title ?? 'Untitled quest',
+    description: q.description ?? '',
+    type: 'Quest',
+    isDungeon: false,
+    isPublic: false,
+    tags: [],
+    hidden: false,
+    priority: 'B',
+    color: '#5865F2',
+    behavior: 'repeating',
+    difficulty: {
+      userAssigned: 'Medium',
+      gmValidated: null,
+      isLocked: false,
+      validatedAt: null,
+      xpPerPomodoro: 50,
+      ...q.difficulty,
+    },
+    schedule: {
+      frequency: 'Daily',
+      targetCompletionsPerCycle: 1,
+      pomodoroDurationMin: 25,
+      breakDurationMin: 5,
+      preferredTimeSlots: [],
+    },
+    subtasks: q.subtasks ?? [],
+    watchers: [],
+    members: [],
+    isTrackAligned: false,
+    dueDate: null,
+    isCompleted: q.isCompleted ?? false,
+    completedAt: q.completedAt ?? null,
+    activeBuffs: [],
+    gamification: q.gamification ?? { currentLevel: 0, currentExp: 0, expToNextLevel: 22 },
+    progressHistory: [],
+    tracking: q.tracking ?? { totalTrackedTime: 0, velocity: 0, averageSessionQuality: 0, lastSessionAt: null },
+    registeredAt: null,
+    createdAt: q.createdAt ?? now,
+    updatedAt: q.createdAt ?? now,
+    validationStatus: 'validated',
+  }));
+
+  // v1 only carried profile stats; runImport overlays them on the existing profile
+  const users: Partial<UserProfile>[] = file.user ? [{
+    userId,
+    username: file.user.username,
+    totalLevel: file.user.totalLevel,
+    experiencePoints: file.user.experiencePoints,
+    streakData: file.user.streakData,
+    joinDate: file.user.createdAt,
+  }] : [];
+
+  const settings = file.settings ? [{ ...DEFAULT_USER_SETTINGS, ...file.settings, userId }] : [];
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: file.exportedAt ?? now,
+    userId,
+    tables: {
+      users: users.filter(u => u.userId),
+      settings,
+      quests: quests.filter(q => q.questId),
+      sessions: file.sessions ?? [],
+      taskOrders: [],
+      activityFeed: [],
+      agentStates: [],
+      comments: [],
+      notifications: [],
+      performanceSnapshots: [],
+      rankHistory: [],
+      dungeonProgress: [],
+      weeklyReports: [],
+      suggestionOutcomes: [],
+    },
+  };
+}
+
+/**
+ * Point a row at the importing user when the backup came from another user id
+ */
+function remapUser(row: any, fromUserId: string, toUserId: string): any {
+  if (fromUserId === toUserId) return row;
+
+  const remapped = { ...row };
+  for (const field of ['userId', 'ownerId']) {
+    if (remapped[field] === fromUserId) remapped[field] = toUserId;
+  }
+  // Generated keys that embed the user id (taskOrders, performanceSnapshots)
+  if (typeof remapped.id === 'string' && remapped.id.startsWith(`${fromUserId}-`)) {
+    remapped.id = `${toUserId}-${remapped.id.slice(fromUserId.length + 1)}`;
+  }
+  for (const field of ['members', 'watchers']) {
+    if (Array.isArray(remapped[field])) {
+      remapped[field] = remapped[field].map((id: string) => (id === fromUserId ? toUserId : id));
+    }
+  }
+  return remapped;
+}
+
+function getKeyPath(table: Table<any, any>): string {
+  return table.schema.primKey.keyPath as string;
+}
+
+/**
+ * Whether a backup row should overwrite the local row in merge mode
+ * Profiles have no modification time: the later streakData.lastActivityDate
+ * wins, then the higher experiencePoints; a tie keeps the local profile
+ */
+function isNewerRow(name: BackupTableName, row: any, existing: any): boolean {
+  if (name === 'users') {
+    const incomingDate = row.streakData?.lastActivityDate ?? '';
+    const localDate = existing.streakData?.lastActivityDate ?? '';
+    if (incomingDate !== localDate) return incomingDate > localDate;
+    return (row.experiencePoints ?? 0) > (existing.experiencePoints ?? 0);
+  }
+  return getRowTimestamp(row) > getRowTimestamp(existing);
+}
+
+/**
+ * Best-effort modification time of a row (ms since epoch)
+ */
+function getRowTimestamp(row: any): number {
+  const value = row.updatedAt ?? row.lastModified ?? row.lastUpdated ?? row.endTime ?? row.timestamp ?? row.createdAt;
+  const time = value ? new Date(value).getTime() : 0;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+// Singleton
+let _backupService: BackupService | null = null;
+
+export function getBackupService() {
+  if (!_backupService) _backupService = new BackupService();
+  return _backupService;
+}
@@ -0,0 +1,246 @@
+/**
+ * BuffService
+ * Timed buffs and debuffs on UserProfile.activeBuffs / activeDebuffs
+ *
+ * Buffs come from streak milestones and multiply XP. Debuffs come from
+ * skipped daily quests (scoped to that quest via Quest.activeBuffs) and
+ * AntiQuest occurrences (global); each withholds `severity`% of XP and
+ * makes AntiQuest penalties harsher. Expired modifiers are ignored when
+ * applied and removed by the background sweep.
+ */
+
+import { getDB } from '../db/indexed-db';
+import type { UserProfile, Buff, Debuff } from '../models/UserProfile';
+import type { Quest, Severity } from '../models/Quest';
+import type { XPMultiplier } from '../models/Session';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Buff granted when the streak reaches exactly `days`
+ */
+export const STREAK_MILESTONES: { days: number; name: string; multiplier: number; durationHours: number }[] = [
+  { days: 3, name: 'Warming Up', multiplier: 1.05, durationHours: 24 },
+  { days: 7, name: 'On a Roll', multiplier: 1.1, durationHours: 48 },
+  { days: 14, name: 'Momentum', multiplier: 1.15, durationHours: 72 },
+  { days: 30, name: 'Unstoppable', multiplier: 1.25, durationHours: 7 * 24 },
+  { days: 100, name: 'Ascendant Flame', multiplier: 1.5, durationHours: 7 * 24 },
+];
+
+const MISSED_DAILY_SEVERITY = 5;
+const MISSED_DAILY_DURATION_HOURS = 24;
+
+const RELAPSE_SEVERITY: Record<Severity, number> = {
+  mild: 5,
+  moderate: 10,
+  severe: 15,
+  critical: 25,
+};
+const RELAPSE_DURATION_HOURS = 24;
+
+// Debuffs stack up to this much XP withheld / extra penalty
+const MAX_DEBUFF_SEVERITY = 50;
+
+export class BuffService {
+  private db = getDB();
+
+  /**
+   * Grant the streak buff if the streak just hit a milestone; mutates the profile
+   */
+  grantStreakBuff(user: UserProfile): Buff | null {
+    const milestone = STREAK_MILESTONES.find(m => m.days === user.streakData.currentStreak);
+    if (!milestone) return null;
+
+    const buff: Buff = {
+      buffId: `buff_streak_${milestone.days}`,
+      name: milestone.name,
+      source: 'streak',
+      effect: { xpBonus: Math.round((milestone.multiplier - 1) * 100) / 100, streakDays: milestone.days },
+      multiplier: milestone.multiplier,
+      expiresAt: new Date(Date.now() + milestone.durationHours * HOUR_MS).toISOString(),
+    };
+
+    user.activeBuffs = [...(user.activeBuffs ?? []).filter(b => b.buffId !== buff.buffId), buff];
+    console.log(`[BuffService] ${user.userId} reached a ${milestone.days}-day streak: ${buff.name}`);
+    return buff;
+  }
+
+  /**
+   * Debuff for an AntiQuest occurrence; refreshes rather than stacks per AntiQuest
+   */
+  applyRelapseDebuff(user: UserProfile, antiQuest: Quest): Debuff {
+    const severity = RELAPSE_SEVERITY[antiQuest.severity?.userAssigned ?? 'mild'];
+    const debuff: Debuff = {
+      debuffId: `debuff_relapse_${antiQuest.questId}`,
+      name: `Relapse: ${antiQuest.title}`,
+      effect: `-${severity}% XP, harsher AntiQuest penalties`,
+      severity,
+      expiresAt: new Date(Date.now() + RELAPSE_DURATION_HOURS * HOUR_MS).toISOString(),
+    };
+
+    user.activeDebuffs = [...(user.activeDebuffs ?? []).filter(d => d.debuffId !== debuff.debuffId), debuff];
+    return debuff;
+  }
+
+  /**
+   * XP multipliers from active buffs and the debuffs that apply to this quest
+   */
+  getXPModifiers(user: UserProfile, questId: string): XPMultiplier[] {
+    const now = Date.now();
+    const multipliers: XPMultiplier[] = this.getActiveBuffs(user, now)
+      .map(buff => ({ source: 'buff' as const, value: buff.multiplier }));
+
+    const severity = this.getDebuffSeverity(user, questId, now);
+    if (severity > 0) {
+      multipliers.push({ source: 'debuff', value: 1 - severity / 100 });
+    }
+    return multipliers;
+  }
+
+  /**
+   * Factor for AntiQuest XP penalties: debuffs make them harsher, streak buffs softer
+   */
+  getPenaltyMultiplier(user: UserProfile, questId: string): number {
+    const now = Date.now();
+    const debuffFactor = 1 + this.getDebuffSeverity(user, questId, now) / 100;
+    const buffBonus = this.getActiveBuffs(user, now).reduce((sum, b) => sum + (b.multiplier - 1), 0);
+    return debuffFactor * Math.max(0.5, 1 - buffBonus);
+  }
+
+  /**
+   * Remove expired modifiers and debuff yesterday's skipped daily quests
+   */
+  async sweep(userId: string): Promise<{ expired: number; missedDailies: number }> {
+    const user = await this.db.users.get(userId);
+    if (!user) return { expired: 0, missedDailies: 0 };
+
+    const now = Date.now();
+    const before = (user.activeBuffs?.length ?? 0) + (user.activeDebuffs?.length ?? 0);
+    user.activeBuffs = this.getActiveBuffs(user, now);
+    user.activeDebuffs = (user.activeDebuffs ?? []).filter(d => isActive(d.expiresAt, now));
+    const expired = before - user.activeBuffs.length - user.activeDebuffs.length;
+
+    const missed = await this.findMissedDailies(user);
+    for (const quest of missed.quests) {
+      const debuffId = `debuff_missed_${quest.questId}_${missed.date}`;
+      user.activeDebuffs.push({
+        debuffId,
+        name: `Missed Daily: ${quest.title}`,
+        effect: `-${MISSED_DAILY_SEVERITY}% XP on this quest`,
+        severity: MISSED_DAILY_SEVERITY,
+        expiresAt: new Date(now + MISSED_DAILY_DURATION_HOURS * HOUR_MS).toISOString(),
+        questId: quest.questId,
+      });
+    }
+
+    await this.syncQuestScopes(user);
+
+    if (expired > 0 || missed.quests.length > 0) {
+      await this.db.users.put(user);
+      await this.db.queueSync({
+        operation: 'update',
+        collection: 'users',
+        documentId: userId,
+        data: user,
+        priority: 8,
+        userId,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
+      });
+      console.log(`[BuffService] Sweep for ${userId}: ${expired} expired, ${missed.quests.length} missed dailies`);
+    }
+
+    return { expired, missedDailies: missed.quests.length };
+  }
+
+  /**
+   * Daily repeating quests with no completed session or subtask yesterday (UTC)
+   * Quests that already carry yesterday's debuff are skipped, so the sweep can run often.
+   */
+  private async findMissedDailies(user: UserProfile): Promise<{ date: string; quests: Quest[] }> {
+    const date = new Date(Date.now() - 24 * HOUR_MS).toISOString().split('T')[0];
+    const existing = new Set((user.activeDebuffs ?? []).map(d => d.debuffId));
+
+    const quests = (await this.db.getActiveQuests(user.userId))
+      .filter(q =>
+        q.type === 'Quest' &&
+        q.behavior === 'repeating' &&
+        q.schedule.frequency === 'Daily' &&
+        q.createdAt.split('T')[0] < date &&
+        !existing.has(`debuff_missed_${q.questId}_${date}`)
+      );
+    if (quests.length === 0) return { date, quests };
+
+    const sessions = await this.db.sessions
+      .where('[userId+startTime]')
+      .between([user.userId, date], [user.userId, `${date}\uffff`])
+      .filter(s => s.status === 'completed')
+      .toArray();
+    const workedOn = new Set(sessions.map(s => s.questId));
+
+    return {
+      date,
+      quests: quests.filter(q =>
+        !workedOn.has(q.questId) &&
+        !q.subtasks.some(st => st.completedAt?.startsWith(date))
+      ),
+    };
+  }
+
+  /**
+   * Keep Quest.activeBuffs equal to the ids of the active debuffs scoped to it
+   */
+  private async syncQuestScopes(user: UserProfile): Promise<void> {
+    const scoped = new Map<string, string[]>();
+    for (const debuff of user.activeDebuffs) {
+      if (!debuff.questId) continue;
+      scoped.set(debuff.questId, [...(scoped.get(debuff.questId) ?? []), debuff.debuffId]);
+    }
+
+    const quests = await this.db.quests.where('ownerId').equals(user.userId).toArray();
+    for (const quest of quests) {
+      const ids = scoped.get(quest.questId) ?? [];
+      const current = quest.activeBuffs ?? [];
+      if (ids.length === current.length && ids.every(id => current.includes(id))) continue;
+
+      quest.activeBuffs = ids;
+      quest.updatedAt = new Date().toISOString();
+      await this.db.quests.put(quest);
+      await this.db.queueSync({
+        operation: 'update',
+        collection: 'quests',
+        documentId: quest.questId,
+        data: quest,
+        priority: 7,
+        userId: user.userId,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
+      });
+    }
+  }
+
+  private getActiveBuffs(user: UserProfile, now: number): Buff[] {
+    return (user.activeBuffs ?? []).filter(b => isActive(b.expiresAt, now));
+  }
+
+  private getDebuffSeverity(user: UserProfile, questId: string, now: number): number {
+    const total = (user.activeDebuffs ?? [])
+      .filter(d => isActive(d.expiresAt, now) && (!d.questId || d.questId === questId))
+      .reduce((sum, d) => sum + d.severity, 0);
+    return Math.min(MAX_DEBUFF_SEVERITY, total);
+  }
+}
+
+function isActive(expiresAt: string | null, now: number): boolean {
+  return expiresAt === null || new Date(expiresAt).getTime() > now;
+}
+
+// Singleton
+let _buffService: BuffService | null = null;
+
+export function getBuffService() {
+  if (!_buffService) _buffService = new BuffService();
+  return _buffService;
+}
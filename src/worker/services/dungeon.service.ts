@@ -0,0 +1,334 @@
+/**
+ * DungeonService
+ * Multi-member DungeonQuests: membership, per-member contribution and resolution
+ *
+ * Every member has a DungeonMemberProgress row. Session stats are rebuilt
+ * from the member's own sessions on the dungeon; subtask completions are
+ * attributed to whoever ticked them. At the due date the dungeon is cleared
+ * (all subtasks done) or failed, and a clear splits a bonus XP pool by
+ * contribution.
+ */
+
+import { getDB } from '../db/indexed-db';
+import type { Quest } from '../models/Quest';
+import type { DungeonMemberProgress } from '../models/DungeonMemberProgress';
+import { ActivityFeedService } from './activity-feed.service';
+import { NotificationService } from './notification.service';
+import { currentLevelFromExp } from '../utils/level-and-xp-converters';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A completed subtask counts like this many minutes of focused time toward contribution
+const SUBTASK_CONTRIBUTION_MIN = 25;
+
+// Clear reward: a flat base plus this share of the XP the party earned in the dungeon
+const CLEAR_REWARD_BASE = 100;
+const CLEAR_REWARD_SHARE = 0.5;
+
+export class DungeonService {
+  private db = getDB();
+
+  /**
+   * Add a member to a dungeon and create their progress row
+   */
+  async joinDungeon(userId: string, questId: string): Promise<{ quest: Quest; progress: DungeonMemberProgress }> {
+    const quest = await this.db.quests.get(questId);
+    if (!quest) throw new Error('Quest not found');
+    if (!quest.isDungeon) throw new Error('DUNGEON_INVALID: Quest is not a dungeon');
+    if (quest.dungeonStatus && quest.dungeonStatus !== 'active') {
+      throw new Error(`DUNGEON_RESOLVED: Dungeon already ${quest.dungeonStatus}`);
+    }
+
+    if (!quest.members.includes(userId)) {
+      quest.members.push(userId);
+      quest.updatedAt = new Date().toISOString();
+      await this.db.quests.put(quest);
+      await this.db.queueSync({
+        operation: 'update',
+        collection: 'quests',
+        documentId: questId,
+        data: quest,
+        priority: 7,
+        userId: quest.ownerId,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
+      });
+    }
+
+    const progress = await this.ensureMemberProgress(questId, userId);
+    await this.refreshDungeon(questId);
+    return { quest, progress };
+  }
+
+  /**
+   * Progress row for a member, created on first use
+   */
+  async ensureMemberProgress(dungeonId: string, userId: string): Promise<DungeonMemberProgress> {
+    const progressId = getProgressId(dungeonId, userId);
+    const existing = await this.db.dungeonProgress.get(progressId);
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    const progress: DungeonMemberProgress = {
+      progressId,
+      dungeonId,
+      userId,
+      completedSubtasks: [],
+      pomodorosCompleted: 0,
+      sessionsCompleted: 0,
+      totalTimeSpentMin: 0,
+      expEarned: 0,
+      contributionPercent: 0,
+      status: 'active',
+      joinedAt: now,
+      lastUpdated: now,
+      performance: {
+        averageSessionQuality: 0,
+        consistencyScore: 0,
+        velocityRank: 0,
+      },
+    };
+    await this.saveProgress(progress);
+    return progress;
+  }
+
+  /**
+   * Refresh stats after a member completed a session on the dungeon
+   */
+  async recordSession(dungeonId: string, userId: string): Promise<void> {
+    await this.ensureMemberProgress(dungeonId, userId);
+    await this.refreshDungeon(dungeonId);
+  }
+
+  /**
+   * Attribute a subtask toggle to the member who made it
+   */
+  async recordSubtaskCompletion(dungeonId: string, subtaskId: string, userId: string, isComplete: boolean): Promise<void> {
+    const progress = await this.ensureMemberProgress(dungeonId, userId);
+    const others = progress.completedSubtasks.filter(id => id !== subtaskId);
+    progress.completedSubtasks = isComplete ? [...others, subtaskId] : others;
+
+    // Unchecking undoes whoever had ticked it
+    if (!isComplete) {
+      const members = await this.db.dungeonProgress.where('dungeonId').equals(dungeonId).toArray();
+      for (const member of members) {
+        if (member.userId === userId || !member.completedSubtasks.includes(subtaskId)) continue;
+        member.completedSubtasks = member.completedSubtasks.filter(id => id !== subtaskId);
+        await this.saveProgress(member);
+      }
+    }
+
+    await this.saveProgress(progress);
+    await this.refreshDungeon(dungeonId);
+  }
+
+  /**
+   * Rebuild session stats, contribution percentages and velocity ranks for all members
+   */
+  async refreshDungeon(dungeonId: string): Promise<DungeonMemberProgress[]> {
+    // Members who joined before progress rows existed get one now
+    const quest = await this.db.quests.get(dungeonId);
+    for (const userId of quest?.members ?? []) {
+      await this.ensureMemberProgress(dungeonId, userId);
+    }
+
+    const members = await this.db.dungeonProgress.where('dungeonId').equals(dungeonId).toArray();
+    if (members.length === 0) return [];
+
+    const sessions = await this.db.sessions
+      .where('questId')
+      .equals(dungeonId)
+      .filter(s => s.status === 'completed')
+      .toArray();
+    const now = Date.now();
+
+    for (const member of members) {
+      const own = sessions.filter(s => s.userId === member.userId);
+      const activeDays = new Set(own.map(s => s.startTime.split('T')[0])).size;
+      const daysSinceJoin = Math.max(1, Math.ceil((now - new Date(member.joinedAt).getTime()) / DAY_MS));
+
+      member.pomodorosCompleted = own.filter(s => s.sessionType === 'pomodoro').length;
+      member.sessionsCompleted = own.length;
+      member.totalTimeSpentMin = own.reduce((sum, s) => sum + (s.actualDurationMin || 0), 0);
+      member.expEarned = own.reduce((sum, s) => sum + (s.xpEarned || 0), 0);
+      member.performance.averageSessionQuality = own.length > 0
+        ? Math.round(own.reduce((sum, s) => sum + (s.quality?.score ?? 0), 0) / own.length)
+        : 0;
+      member.performance.consistencyScore = Math.min(100, Math.round((activeDays / daysSinceJoin) * 100));
+    }
+
+    const score = (m: DungeonMemberProgress) =>
+      m.totalTimeSpentMin + m.completedSubtasks.length * SUBTASK_CONTRIBUTION_MIN;
+    const total = members.reduce((sum, m) => sum + score(m), 0);
+    const velocity = (m: DungeonMemberProgress) =>
+      m.expEarned / Math.max(1, (now - new Date(m.joinedAt).getTime()) / DAY_MS);
+    const byVelocity = [...members].sort((a, b) => velocity(b) - velocity(a));
+
+    const updatedAt = new Date(now).toISOString();
+    for (const member of members) {
+      member.contributionPercent = total > 0 ? Math.round((score(member) / total) * 1000) / 10 : 0;
+      member.performance.velocityRank = byVelocity.indexOf(member) + 1;
+      member.lastUpdated = updatedAt;
+      await this.saveProgress(member);
+    }
+
+    return members;
+  }
+
+  /**
+   * Members of a dungeon, highest contribution first
+   */
+  async getDungeonProgress(dungeonId: string): Promise<DungeonMemberProgress[]> {
+    const members = await this.db.dungeonProgress.where('dungeonId').equals(dungeonId).toArray();
+    return members.sort((a, b) => b.contributionPercent - a.contributionPercent);
+  }
+
+  /**
+   * Resolve every active dungeon whose due date has passed
+   */
+  async resolveDueDungeons(): Promise<number> {
+    const now = Date.now();
+    const due = await this.db.quests
+      .filter(q =>
+        q.isDungeon &&
+        (q.dungeonStatus ?? 'active') === 'active' &&
+        !!q.dueDate &&
+        getDueEnd(q.dueDate) <= now
+      )
+      .toArray();
+
+    for (const quest of due) {
+      await this.resolveDungeon(quest);
+    }
+    return due.length;
+  }
+
+  /**
+   * Mark the dungeon cleared or failed and split the clear reward by contribution
+   */
+  private async resolveDungeon(quest: Quest): Promise<void> {
+    const members = await this.refreshDungeon(quest.questId);
+    const cleared = quest.subtasks.length > 0 && quest.subtasks.every(st => st.isComplete);
+    const now = new Date().toISOString();
+
+    const pool = cleared
+      ? CLEAR_REWARD_BASE + Math.round(members.reduce((sum, m) => sum + m.expEarned, 0) * CLEAR_REWARD_SHARE)
+      : 0;
+
+    for (const member of members) {
+      member.status = cleared ? 'completed' : 'failed';
+      member.rewardXP = Math.floor((pool * member.contributionPercent) / 100);
+      member.lastUpdated = now;
+      await this.saveProgress(member);
+      await this.awardMember(quest, member, cleared, members.map(m => m.userId));
+    }
+
+    quest.dungeonStatus = cleared ? 'cleared' : 'failed';
+    quest.dungeonResolvedAt = now;
+    quest.updatedAt = now;
+    await this.db.quests.put(quest);
+    await this.db.queueSync({
+      operation: 'update',
+      collection: 'quests',
+      documentId: quest.questId,
+      data: quest,
+      priority: 7,
+      userId: quest.ownerId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
+
+    console.log(`[DungeonService] "${quest.title}" ${quest.dungeonStatus}, reward pool ${pool} XP across ${members.length} members`);
+  }
+
+  /**
+   * Credit a member's reward and tell them, if their profile lives on this device
+   * Remote members pick their share up from their synced progress row.
+   */
+  private async awardMember(quest: Quest, member: DungeonMemberProgress, cleared: boolean, participants: string[]): Promise<void> {
+    const user = await this.db.users.get(member.userId);
+    if (!user) return;
+
+    if (cleared && member.rewardXP) {
+      user.experiencePoints += member.rewardXP;
+      user.totalLevel = currentLevelFromExp(user.experiencePoints);
+      await this.db.users.put(user);
+      await this.db.queueSync({
+        operation: 'update',
+        collection: 'users',
+        documentId: user.userId,
+        data: user,
+        priority: 8,
+        userId: user.userId,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
+      });
+
+      await new ActivityFeedService().addActivity({
+        activityId: `dungeon_clear_${quest.questId}_${user.userId}`,
+        type: 'dungeon_clear',
+        userId: user.userId,
+        username: user.username,
+        timestamp: new Date().toISOString(),
+        data: {
+          dungeonId: quest.questId,
+          questTitle: quest.title,
+          participants,
+          xpEarned: member.rewardXP,
+        },
+      });
+    }
+
+    await new NotificationService().createNotification(
+      user.userId,
+      'milestone',
+      cleared ? `Dungeon cleared: ${quest.title}` : `Dungeon failed: ${quest.title}`,
+      cleared
+        ? `Your ${member.contributionPercent}% contribution earned ${member.rewardXP} XP.`
+        : 'The due date passed with subtasks still open.',
+      quest.questId,
+      cleared ? 'normal' : 'high'
+    );
+  }
+
+  private async saveProgress(progress: DungeonMemberProgress): Promise<void> {
+    await this.db.dungeonProgress.put(progress);
+    await this.db.queueSync({
+      operation: 'update',
+      collection: 'dungeonProgress',
+      documentId: progress.progressId,
+      data: progress,
+      priority: 7,
+      userId: progress.userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getProgressId(dungeonId: string, userId: string): string {
+  return `${dungeonId}_${userId}`;
+}
+
+/**
+ * End of the due day (UTC); due dates are stored as midnight of that day
+ */
+function getDueEnd(dueDate: string): number {
+  return Date.parse(dueDate.split('T')[0]) + DAY_MS;
+}
+
+// Singleton
+let _dungeonService: DungeonService | null = null;
+
+export function getDungeonService() {
+  if (!_dungeonService) _dungeonService = new DungeonService();
+  return _dungeonService;
+}
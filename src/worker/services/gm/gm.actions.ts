@@ -0,0 +1,325 @@
+/**
+ * GM Actions
+ * Executable suggestion actions and the accept/dismiss/expire feedback loop
+ *
+ * GM_ACTIONS maps an action name from GMSuggestion.actions to the change it
+ * makes. Every time a suggestion is shown a SuggestionOutcome row is written,
+ * then closed as accepted, dismissed or expired. Acceptance rates per category
+ * rank future suggestions and are summarized in
+ * AgentState.motivationalProfile.respondsWellTo.
+ */
+
+import { getDB } from "../../db/indexed-db";
+import type { Quest, DifficultyTier } from "../../models/Quest";
+import type { GMSuggestionAction, SuggestionOutcome } from "../../models/GMSuggestion";
+import type { GMSuggestion } from "./gm.service";
+import { XP_PER_POMODORO } from "./gm.validator";
+import { getGMPersonaService } from "./gm.persona";
+import { getRescheduleService, RescheduleProposal } from "./gm.rescheduler";
+
+export type GMActionName =
+  | "adjust_schedule"
+  | "reduce_difficulty"
+  | "add_subtask"
+  | "take_break"
+  | "apply_reschedule"
+  | "apply_calibration";
+
+// Returns a short confirmation for the UI
+type GMActionHandler = (userId: string, params: Record<string, any>) => Promise<string>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Suggestions that set no expiresAt stay up for this long
+const SUGGESTION_TTL_MS = 3 * DAY_MS;
+
+// Responses in a category before it can count toward respondsWellTo
+const MIN_RESPONSES = 3;
+const RESPONDS_WELL_RATE = 0.5;
+
+const DIFFICULTY_ORDER: DifficultyTier[] = ["Trivial", "Easy", "Medium", "Hard", "Epic"];
+
+export const GM_ACTIONS: Record<GMActionName, GMActionHandler> = {
+  /**
+   * params: questId, plus any of breakDurationMin, pomodoroDurationMin,
+   * targetCompletionsPerCycle (only ever raised), preferredTimeSlots, latestStartHour
+   */
+  adjust_schedule: async (userId, params) => {
+    const quest = await updateOwnedQuest(userId, params.questId, q => {
+      const schedule = { ...q.schedule };
+      if (params.breakDurationMin) schedule.breakDurationMin = params.breakDurationMin;
+      if (params.pomodoroDurationMin) schedule.pomodoroDurationMin = params.pomodoroDurationMin;
+      if (params.targetCompletionsPerCycle) {
+        schedule.targetCompletionsPerCycle = Math.max(schedule.targetCompletionsPerCycle, params.targetCompletionsPerCycle);
+      }
+      if (Array.isArray(params.preferredTimeSlots)) schedule.preferredTimeSlots = params.preferredTimeSlots;
+      if (params.latestStartHour !== undefined) {
+        const latest = `${String(params.latestStartHour).padStart(2, "0")}:00`;
+        const earlier = schedule.preferredTimeSlots.filter(slot => slot <= latest);
+        schedule.preferredTimeSlots = earlier.length > 0 ? earlier : [latest];
+      }
+      return { ...q, schedule };
+    });
+    return `Updated the schedule for '${quest.title}'.`;
+  },
+
+  /**
+   * params: questId. Drops one tier; the GM's own call, so it applies over the lock.
+   */
+  reduce_difficulty: async (userId, params) => {
+    let tier: DifficultyTier = "Trivial";
+    const quest = await updateOwnedQuest(userId, params.questId, q => {
+      const current = (q.difficulty.gmValidated ?? q.difficulty.userAssigned) as DifficultyTier;
+      tier = DIFFICULTY_ORDER[Math.max(0, DIFFICULTY_ORDER.indexOf(current) - 1)];
+      return {
+        ...q,
+        difficulty: {
+          ...q.difficulty,
+          userAssigned: tier,
+          gmValidated: q.difficulty.gmValidated ? tier : q.difficulty.gmValidated,
+          xpPerPomodoro: XP_PER_POMODORO[tier],
+        },
+      };
+    });
+    return `'${quest.title}' is now ${tier}.`;
+  },
+
+  /**
+   * params: questId, title, estimatePomodoros?
+   */
+  add_subtask: async (userId, params) => {
+    if (!params.title?.trim()) throw new Error("INVALID_PARAMS: add_subtask needs a title");
+    const quest = await updateOwnedQuest(userId, params.questId, q => ({
+      ...q,
+      subtasks: [
+        ...q.subtasks,
+        {
+          id: `subtask_${q.questId}_${Date.now()}`,
+          title: params.title.trim(),
+          estimatePomodoros: params.estimatePomodoros || 1,
+          isComplete: false,
+          completedAt: null,
+          revisionCount: 0,
+        },
+      ],
+    }));
+    return `Added '${params.title.trim()}' to '${quest.title}'.`;
+  },
+
+  /**
+   * params: questId, days? (default 1). Sets the quest's open subtasks aside for a rest.
+   */
+  take_break: async (userId, params) => {
+    const days = params.days || 1;
+    const until = new Date(Date.now() + days * DAY_MS).toISOString().split("T")[0];
+    const quest = await updateOwnedQuest(userId, params.questId, q => ({
+      ...q,
+      subtasks: q.subtasks.map(st => (st.isComplete ? st : { ...st, deferredUntil: until })),
+    }));
+    return `'${quest.title}' is set aside until ${until}.`;
+  },
+
+  /**
+   * params: a RescheduleProposal
+   */
+  apply_reschedule: async (userId, params) => {
+    const proposal = params as RescheduleProposal;
+    await getRescheduleService().applyRescheduleProposal(userId, proposal);
+    return `'${proposal.questTitle}': ${proposal.change}.`;
+  },
+
+  /**
+   * params: questId, xpPerPomodoro. Rate for future sessions from calibration; applies over the lock.
+   */
+  apply_calibration: async (userId, params) => {
+    if (!(params.xpPerPomodoro > 0)) throw new Error("INVALID_PARAMS: apply_calibration needs xpPerPomodoro");
+    const quest = await updateOwnedQuest(userId, params.questId, q => ({
+      ...q,
+      difficulty: { ...q.difficulty, xpPerPomodoro: params.xpPerPomodoro },
+    }));
+    return `'${quest.title}' now earns ${params.xpPerPomodoro} XP per pomodoro.`;
+  },
+};
+
+export class GMActionService {
+  private db = getDB();
+
+  /**
+   * Run one of a suggestion's actions and record it as accepted
+   */
+  async executeSuggestionAction(userId: string, suggestion: GMSuggestion, action: GMSuggestionAction): Promise<string> {
+    const handler = GM_ACTIONS[action.action as GMActionName];
+    if (!handler) throw new Error(`UNKNOWN_ACTION: No GM action named '${action.action}'`);
+
+    const message = await handler(userId, action.params ?? {});
+    await this.recordSuggestionOutcome(userId, suggestion, "accepted");
+    console.log(`[GMActions] ${userId} ran ${action.action} from ${suggestion.id}`);
+    return message;
+  }
+
+  /**
+   * Close the current showing of a suggestion; accept/dismiss also teach the persona
+   */
+  async recordSuggestionOutcome(
+    userId: string,
+    suggestion: GMSuggestion,
+    outcome: "accepted" | "dismissed"
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const shown = (await this.db.suggestionOutcomes
+      .where("[userId+suggestionId]")
+      .equals([userId, suggestion.id])
+      .toArray())
+      .filter(r => r.outcome === "shown")
+      .sort((a, b) => b.shownAt.localeCompare(a.shownAt))[0];
+
+    await this.db.suggestionOutcomes.put({
+      ...(shown ?? newOutcome(userId, suggestion, new Date())),
+      outcome,
+      respondedAt: now,
+    });
+
+    if (suggestion.tone) {
+      await getGMPersonaService().recordFeedback(userId, suggestion.tone, outcome === "accepted");
+    }
+    await this.refreshRespondsWellTo(userId);
+  }
+
+  /**
+   * Record a showing of each suggestion, expire stale ones, hide what the user
+   * already answered, and rank the rest by what this user acts on
+   */
+  async trackSuggestions(userId: string, suggestions: GMSuggestion[], now = new Date()): Promise<GMSuggestion[]> {
+    const records = await this.db.suggestionOutcomes.where("userId").equals(userId).toArray();
+    const nowIso = now.toISOString();
+
+    const expired = records
+      .filter(r => r.outcome === "shown" && r.expiresAt <= nowIso)
+      .map(r => ({ ...r, outcome: "expired" as const, respondedAt: nowIso }));
+
+    // Only the showing that is still live matters for visibility
+    const live = new Map<string, SuggestionOutcome>();
+    for (const r of records) {
+      if (r.expiresAt <= nowIso) continue;
+      const existing = live.get(r.suggestionId);
+      if (!existing || r.shownAt > existing.shownAt) live.set(r.suggestionId, r);
+    }
+
+    const visible = suggestions.filter(s => {
+      const record = live.get(s.id);
+      return !record || record.outcome === "shown";
+    });
+    const added = visible.filter(s => !live.has(s.id)).map(s => newOutcome(userId, s, now));
+
+    if (expired.length > 0 || added.length > 0) {
+      await this.db.suggestionOutcomes.bulkPut([...expired, ...added]);
+    }
+    if (expired.length > 0) await this.refreshRespondsWellTo(userId);
+
+    const expiredIds = new Set(expired.map(r => r.id));
+    return rankSuggestions(visible, [...records.filter(r => !expiredIds.has(r.id)), ...expired]);
+  }
+
+  private async refreshRespondsWellTo(userId: string): Promise<void> {
+    const agentState = await this.db.agentStates.get(userId);
+    if (!agentState) return;
+
+    const records = await this.db.suggestionOutcomes.where("userId").equals(userId).toArray();
+    agentState.motivationalProfile = {
+      ...agentState.motivationalProfile,
+      respondsWellTo: computeRespondsWellTo(records),
+    };
+    await this.db.agentStates.put(agentState);
+  }
+}
+
+/**
+ * Order suggestions by their category's smoothed acceptance rate, keeping the
+ * original order among equals (untried categories start at 50%)
+ */
+export function rankSuggestions(suggestions: GMSuggestion[], records: SuggestionOutcome[]): GMSuggestion[] {
+  const rates = getAcceptanceRates(records);
+  const rate = (s: GMSuggestion) => rates.get(getSuggestionCategory(s))?.smoothed ?? 0.5;
+  return suggestions
+    .map((suggestion, index) => ({ suggestion, index, rate: rate(suggestion) }))
+    .sort((a, b) => b.rate - a.rate || a.index - b.index)
+    .map(({ suggestion }) => suggestion);
+}
+
+/**
+ * Categories the user accepts at least half the time, best first
+ */
+export function computeRespondsWellTo(records: SuggestionOutcome[]): string[] {
+  return [...getAcceptanceRates(records).entries()]
+    .filter(([, r]) => r.responses >= MIN_RESPONSES && r.rate >= RESPONDS_WELL_RATE)
+    .sort((a, b) => b[1].rate - a[1].rate)
+    .map(([category]) => category);
+}
+
+export function getSuggestionCategory(suggestion: GMSuggestion): string {
+  return suggestion.actions?.[0]?.action ?? suggestion.type;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getAcceptanceRates(records: SuggestionOutcome[]) {
+  const counts = new Map<string, { accepted: number; responses: number }>();
+  for (const r of records) {
+    if (r.outcome === "shown") continue;
+    const entry = counts.get(r.category) ?? { accepted: 0, responses: 0 };
+    entry.responses++;
+    if (r.outcome === "accepted") entry.accepted++;
+    counts.set(r.category, entry);
+  }
+
+  const rates = new Map<string, { responses: number; rate: number; smoothed: number }>();
+  for (const [category, { accepted, responses }] of counts) {
+    rates.set(category, { responses, rate: accepted / responses, smoothed: (accepted + 1) / (responses + 2) });
+  }
+  return rates;
+}
+
+function newOutcome(userId: string, suggestion: GMSuggestion, now: Date): SuggestionOutcome {
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    suggestionId: suggestion.id,
+    category: getSuggestionCategory(suggestion),
+    outcome: "shown",
+    shownAt: now.toISOString(),
+    expiresAt: suggestion.expiresAt ?? new Date(now.getTime() + SUGGESTION_TTL_MS).toISOString(),
+    respondedAt: null,
+  };
+}
+
+async function updateOwnedQuest(userId: string, questId: string, change: (quest: Quest) => Quest): Promise<Quest> {
+  const db = getDB();
+  const quest = await db.quests.get(questId);
+  if (!quest) throw new Error("Quest not found");
+  if (quest.ownerId !== userId) throw new Error("ACCESS_DENIED: Only the owner can change this quest");
+
+  const updated = { ...change(quest), updatedAt: new Date().toISOString() };
+  await db.quests.put(updated);
+  await db.queueSync({
+    operation: "update",
+    collection: "quests",
+    documentId: questId,
+    data: updated,
+    priority: 7,
+    userId,
+    retryCount: 0,
+    nextRetryTime: null,
+    error: null,
+  });
+  return updated;
+}
+
+// Singleton
+let _gmActionService: GMActionService | null = null;
+
+export function getGMActionService() {
+  if (!_gmActionService) _gmActionService = new GMActionService();
+  return _gmActionService;
+}
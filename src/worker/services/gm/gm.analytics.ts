@@ -0,0 +1,401 @@
+/**
+ * GM Analytics
+ * Behavior pattern detection over recent sessions and quests
+ *
+ * Each detector looks at the last 28 days and either returns nothing or a
+ * Pattern with concrete QuestAdjustments. GMService persists the results on
+ * AgentState.detectedPatterns / recommendedQuestAdjustments and turns the
+ * adjustments into home suggestions.
+ */
+
+import { getDB } from "../../db/indexed-db";
+import type { Quest } from "../../models/Quest";
+import type { Session } from "../../models/Session";
+import type { Pattern, QuestAdjustment } from "../../models/AgentState";
+
+export interface PatternDetection {
+  pattern: Pattern;
+  adjustments: QuestAdjustment[];
+}
+
+export interface DetectionContext {
+  sessions: Session[]; // every status, oldest first
+  quests: Quest[]; // includes completed quests and AntiQuests
+  now: number;
+}
+
+type PatternDetector = (ctx: DetectionContext) => PatternDetection | null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_DAYS = 28;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Sessions starting in [LATE_NIGHT_START_HOUR, 24) or [0, LATE_NIGHT_END_HOUR) local time
+const LATE_NIGHT_START_HOUR = 22;
+const LATE_NIGHT_END_HOUR = 4;
+
+// Days without a completed session before an AntiQuest occurrence that count as a long break
+const LONG_BREAK_DAYS = 2;
+
+export class GMAnalyticsService {
+  private db = getDB();
+
+  /**
+   * Run every detector for a user over the detection window
+   */
+  async detectPatterns(userId: string, now = Date.now()): Promise<PatternDetection[]> {
+    const start = new Date(now - WINDOW_DAYS * DAY_MS).toISOString();
+    const end = new Date(now).toISOString();
+
+    const [sessions, quests] = await Promise.all([
+      this.db.sessions
+        .where("[userId+startTime]")
+        .between([userId, start], [userId, `${end}\uffff`])
+        .toArray(),
+      this.db.quests.where("ownerId").equals(userId).toArray(),
+    ]);
+
+    const detections = runDetectors({ sessions, quests, now });
+    console.log(`[GMAnalytics] ${userId}: ${detections.map(d => d.pattern.name).join(", ") || "no patterns"}`);
+    return detections;
+  }
+}
+
+/**
+ * Pure entry point over an already-loaded window
+ */
+export function runDetectors(ctx: DetectionContext): PatternDetection[] {
+  return PATTERN_DETECTORS.map(detect => detect(ctx)).filter((d): d is PatternDetection => d !== null);
+}
+
+// ============================================================================
+// DETECTORS
+// ============================================================================
+
+/**
+ * Abandons at the same point in a day's pomodoro run, e.g. always after the 2nd
+ */
+const detectEarlyAbandonment: PatternDetector = ({ sessions, quests, now }) => {
+  const byDay = groupBy(
+    sessions.filter(s => s.sessionType === "pomodoro" && (s.status === "completed" || s.status === "abandoned")),
+    s => s.startTime.split("T")[0]
+  );
+
+  // Completed pomodoros earlier that day, for every abandoned one
+  const abandonedAfter: { completedBefore: number; questId: string }[] = [];
+  for (const daySessions of byDay.values()) {
+    let completed = 0;
+    for (const s of sortByStart(daySessions)) {
+      if (s.status === "abandoned") abandonedAfter.push({ completedBefore: completed, questId: s.questId });
+      else completed++;
+    }
+  }
+  if (abandonedAfter.length < 3) return null;
+
+  const [position, count] = mostCommon(abandonedAfter.map(a => a.completedBefore));
+  const share = count / abandonedAfter.length;
+  if (position < 1 || share < 0.6) return null;
+
+  const questId = mostCommon(abandonedAfter.filter(a => a.completedBefore === position).map(a => a.questId))[0];
+  const quest = quests.find(q => q.questId === questId);
+  const detectedAt = new Date(now).toISOString();
+
+  return {
+    pattern: {
+      name: `abandons_after_pomodoro_${position}`,
+      category: "behavior",
+      confidence: confidenceFrom(count, share),
+      detail: `${Math.round(share * 100)}% of abandoned pomodoros come right after your ${ordinal(position)} of the day.`,
+      detectedAt,
+      severity: count >= 6 ? "warning" : "info",
+      suggestedAction: {
+        type: "adjust_schedule",
+        questId,
+        reason: `Plan ${position}-pomodoro blocks with a long break between them.`,
+      },
+    },
+    adjustments: quest && !quest.isCompleted ? [{
+      questId,
+      suggestionText: `Work on '${quest.title}' in blocks of ${position} pomodoro${position === 1 ? "" : "s"}, then take a 15-minute break.`,
+      actionType: "adjust_schedule",
+      params: { pomodorosPerBlock: position, breakDurationMin: 15 },
+      priority: 2,
+      createdAt: detectedAt,
+    }] : [],
+  };
+};
+
+/**
+ * One weekday carries far less focus time than the others, e.g. a Monday slump
+ */
+const detectWeekdaySlump: PatternDetector = ({ sessions, quests, now }) => {
+  const completed = sessions.filter(s => s.status === "completed");
+  if (completed.length < 8) return null;
+
+  const minutes = new Array(7).fill(0);
+  for (const s of completed) minutes[new Date(s.startTime).getDay()] += s.actualDurationMin || 0;
+
+  // Compare working days only; weekends are allowed to be quiet
+  const workdays = [1, 2, 3, 4, 5];
+  const slumpDay = workdays.reduce((low, d) => (minutes[d] < minutes[low] ? d : low), workdays[0]);
+  const others = workdays.filter(d => d !== slumpDay);
+  const othersAvg = others.reduce((sum, d) => sum + minutes[d], 0) / others.length;
+  if (othersAvg === 0 || minutes[slumpDay] >= othersAvg * 0.5) return null;
+
+  const dayName = WEEKDAYS[slumpDay];
+  const drop = 1 - minutes[slumpDay] / othersAvg;
+  const lightest = getActiveQuests(quests).sort((a, b) => difficultyRank(a) - difficultyRank(b))[0];
+  const detectedAt = new Date(now).toISOString();
+
+  return {
+    pattern: {
+      name: `${dayName.toLowerCase()}_slump`,
+      category: "productivity",
+      confidence: confidenceFrom(completed.length / 4, drop),
+      detail: `${dayName}s get ${Math.round(drop * 100)}% less focus time than your other weekdays.`,
+      detectedAt,
+      severity: drop > 0.8 ? "warning" : "info",
+      suggestedAction: lightest ? {
+        type: "adjust_schedule",
+        questId: lightest.questId,
+        reason: `Start ${dayName}s with a light quest to build momentum.`,
+      } : undefined,
+    },
+    adjustments: lightest ? [{
+      questId: lightest.questId,
+      suggestionText: `Open ${dayName}s with one session on '${lightest.title}', a lighter quest, to get moving.`,
+      actionType: "adjust_schedule",
+      params: { weekday: slumpDay, sessions: 1 },
+      priority: 3,
+      createdAt: detectedAt,
+    }] : [],
+  };
+};
+
+/**
+ * Several active Epic quests at once, most of them getting no time
+ */
+const detectOvercommittedEpics: PatternDetector = ({ sessions, quests, now }) => {
+  const epics = getActiveQuests(quests).filter(q => getDifficulty(q) === "Epic");
+  if (epics.length < 2) return null;
+
+  const recentStart = new Date(now - 14 * DAY_MS).toISOString();
+  const recentMinutes = (questId: string) =>
+    sessions
+      .filter(s => s.questId === questId && s.status === "completed" && s.startTime >= recentStart)
+      .reduce((sum, s) => sum + (s.actualDurationMin || 0), 0);
+
+  const ranked = epics
+    .map(quest => ({ quest, minutes: recentMinutes(quest.questId) }))
+    .sort((a, b) => b.minutes - a.minutes);
+  // The most-worked Epic is fine; the rest are stalled if they got under an hour in two weeks
+  const stalled = ranked.slice(1).filter(e => e.minutes < 60);
+  if (stalled.length === 0) return null;
+
+  const focus = ranked[0].quest;
+  const detectedAt = new Date(now).toISOString();
+
+  return {
+    pattern: {
+      name: "overcommitted_epics",
+      category: "risk",
+      confidence: confidenceFrom(epics.length, stalled.length / (epics.length - 1)),
+      detail: `${epics.length} Epic quests are active, and ${stalled.length} got less than an hour in the last two weeks.`,
+      detectedAt,
+      severity: stalled.length >= 2 ? "critical" : "warning",
+      suggestedAction: {
+        type: "reduce_difficulty",
+        questId: stalled[0].quest.questId,
+        reason: `Focus on '${focus.title}' and park or split the rest.`,
+      },
+    },
+    adjustments: stalled.map(({ quest }) => quest.subtasks.length < 3
+      ? {
+          questId: quest.questId,
+          suggestionText: `'${quest.title}' has stalled. Break it into concrete subtasks before picking it back up.`,
+          actionType: "create_subtask" as const,
+          params: { minSubtasks: 3 },
+          priority: 2,
+          createdAt: detectedAt,
+        }
+      : {
+          questId: quest.questId,
+          suggestionText: `Park '${quest.title}' until '${focus.title}' is done.`,
+          actionType: "adjust_schedule" as const,
+          params: { defer: true, afterQuestId: focus.questId },
+          priority: 2,
+          createdAt: detectedAt,
+        }),
+  };
+};
+
+/**
+ * Late-night sessions scoring well below daytime ones
+ */
+const detectLateNightLowQuality: PatternDetector = ({ sessions, quests, now }) => {
+  const completed = sessions.filter(s => s.status === "completed");
+  const isLate = (s: Session) => {
+    const hour = new Date(s.startTime).getHours();
+    return hour >= LATE_NIGHT_START_HOUR || hour < LATE_NIGHT_END_HOUR;
+  };
+  const late = completed.filter(isLate);
+  const day = completed.filter(s => !isLate(s));
+  if (late.length < 3 || day.length < 3) return null;
+
+  const lateQuality = average(late.map(s => s.quality?.score ?? 0));
+  const dayQuality = average(day.map(s => s.quality?.score ?? 0));
+  const gap = dayQuality - lateQuality;
+  if (gap < 15) return null;
+
+  const questId = mostCommon(late.map(s => s.questId))[0];
+  const quest = quests.find(q => q.questId === questId);
+  const detectedAt = new Date(now).toISOString();
+
+  return {
+    pattern: {
+      name: "late_night_low_quality",
+      category: "productivity",
+      confidence: confidenceFrom(late.length, Math.min(1, gap / 40)),
+      detail: `Sessions after ${LATE_NIGHT_START_HOUR}:00 average ${Math.round(lateQuality)} quality versus ${Math.round(dayQuality)} earlier in the day.`,
+      detectedAt,
+      severity: gap >= 30 ? "warning" : "info",
+      suggestedAction: {
+        type: "adjust_schedule",
+        questId,
+        reason: `Move late sessions before ${LATE_NIGHT_START_HOUR}:00.`,
+      },
+    },
+    adjustments: quest && !quest.isCompleted ? [{
+      questId,
+      suggestionText: `Schedule '${quest.title}' before ${LATE_NIGHT_START_HOUR}:00; your late sessions on it score lower.`,
+      actionType: "adjust_schedule",
+      params: { latestStartHour: LATE_NIGHT_START_HOUR - 1 },
+      priority: 3,
+      createdAt: detectedAt,
+    }] : [],
+  };
+};
+
+/**
+ * AntiQuest occurrences that follow days without any focus session
+ */
+const detectRelapseAfterBreaks: PatternDetector = ({ sessions, quests, now }) => {
+  const windowStart = new Date(now - WINDOW_DAYS * DAY_MS).toISOString();
+  const occurrences = quests
+    .filter(q => q.type === "AntiQuest" && !q.hidden)
+    .flatMap(q => (q.antiEvents ?? []).filter(e => e.timestamp >= windowStart).map(e => ({ antiQuest: q, at: e.timestamp })));
+  if (occurrences.length < 3) return null;
+
+  const sessionEnds = sessions
+    .filter(s => s.status === "completed")
+    .map(s => new Date(s.endTime ?? s.startTime).getTime());
+  const afterBreak = occurrences.filter(o => {
+    const at = new Date(o.at).getTime();
+    return !sessionEnds.some(end => end <= at && at - end < LONG_BREAK_DAYS * DAY_MS);
+  });
+  const share = afterBreak.length / occurrences.length;
+  if (share < 0.6) return null;
+
+  const antiQuestId = mostCommon(afterBreak.map(o => o.antiQuest.questId))[0];
+  const antiQuest = quests.find(q => q.questId === antiQuestId)!;
+  // Anchor the fix on the quest the user works on most
+  const anchorId = mostCommon(sessions.filter(s => s.status === "completed").map(s => s.questId))[0];
+  const anchor = getActiveQuests(quests).find(q => q.questId === anchorId);
+  const detectedAt = new Date(now).toISOString();
+
+  return {
+    pattern: {
+      name: "antiquest_after_breaks",
+      category: "risk",
+      confidence: confidenceFrom(occurrences.length, share),
+      detail: `${afterBreak.length} of ${occurrences.length} '${antiQuest.title}' occurrences came after ${LONG_BREAK_DAYS}+ days without a focus session.`,
+      detectedAt,
+      severity: afterBreak.length >= 5 ? "critical" : "warning",
+      suggestedAction: {
+        type: "adjust_schedule",
+        questId: anchor?.questId,
+        reason: "Keep one short session going on rest days.",
+      },
+    },
+    adjustments: anchor ? [{
+      questId: anchor.questId,
+      suggestionText: `Even on breaks, do one short session on '${anchor.title}'; '${antiQuest.title}' tends to follow idle days.`,
+      actionType: "adjust_schedule",
+      params: { minDailySessions: 1, guardsAntiQuestId: antiQuestId },
+      priority: 1,
+      createdAt: detectedAt,
+    }] : [],
+  };
+};
+
+const PATTERN_DETECTORS: PatternDetector[] = [
+  detectEarlyAbandonment,
+  detectWeekdaySlump,
+  detectOvercommittedEpics,
+  detectLateNightLowQuality,
+  detectRelapseAfterBreaks,
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * More evidence and a stronger effect both raise confidence; capped below certainty
+ */
+function confidenceFrom(samples: number, strength: number): number {
+  const evidence = samples / (samples + 3);
+  return Math.round(Math.min(0.95, evidence * Math.max(0, Math.min(1, strength))) * 100) / 100;
+}
+
+function getActiveQuests(quests: Quest[]): Quest[] {
+  return quests.filter(q => q.type !== "AntiQuest" && !q.isCompleted && !q.hidden);
+}
+
+function getDifficulty(quest: Quest): string {
+  return quest.difficulty.gmValidated ?? quest.difficulty.userAssigned;
+}
+
+function difficultyRank(quest: Quest): number {
+  return ["Trivial", "Easy", "Medium", "Hard", "Epic"].indexOf(getDifficulty(quest));
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+function sortByStart(sessions: Session[]): Session[] {
+  return [...sessions].sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * Most frequent value and its count
+ */
+function mostCommon<T>(values: T[]): [T, number] {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n % 100 !== 11 ? "st" : n % 10 === 2 && n % 100 !== 12 ? "nd" : n % 10 === 3 && n % 100 !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+}
+
+// Singleton
+let _gmAnalyticsService: GMAnalyticsService | null = null;
+
+export function getGMAnalyticsService() {
+  if (!_gmAnalyticsService) _gmAnalyticsService = new GMAnalyticsService();
+  return _gmAnalyticsService;
+}
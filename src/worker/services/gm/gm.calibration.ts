@@ -0,0 +1,203 @@
+/**
+ * GM Calibration
+ * Checks validated difficulty against how quests actually went
+ *
+ * For every validated, progressive quest the tracked hours (projected to
+ * completion for open quests from the share of estimated pomodoros done),
+ * session count and days active are compared with the validated tier and
+ * the effort estimate. Open quests whose effort fits another tier get a
+ * proposed XP-per-pomodoro for their future sessions; completed ones feed
+ * the per-user calibration factor that LocalQuestValidator scales
+ * estimates by. The result is kept on AgentState.calibration.
+ */
+
+import { getDB } from "../../db/indexed-db";
+import type { Quest, DifficultyTier } from "../../models/Quest";
+import type { Session } from "../../models/Session";
+import type { DifficultyCalibration, QuestCalibration } from "../../models/AgentState";
+import { XP_PER_POMODORO, estimateMinutes, getTier } from "./gm.validator";
+
+export interface CalibrationInput {
+  quests: Quest[];
+  sessions: Session[]; // sessions of those quests
+  now: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Completed quests older than this no longer say much about current estimates
+const LOOKBACK_DAYS = 90;
+
+// Share of estimated pomodoros an open quest needs done before it is projected
+const MIN_PROGRESS = 0.25;
+
+// Completed quests needed before the factor moves away from 1
+const MIN_SAMPLES = 3;
+const FACTOR_RANGE: [number, number] = [0.5, 2];
+
+export class CalibrationService {
+  private db = getDB();
+
+  /**
+   * Recompute the user's calibration and store it on their AgentState
+   */
+  async recalibrate(userId: string, now = new Date()): Promise<DifficultyCalibration> {
+    const quests = await this.db.quests.where("ownerId").equals(userId).toArray();
+    const questIds = quests.filter(isCalibratable).map(q => q.questId);
+    const sessions = questIds.length > 0
+      ? await this.db.sessions.where("questId").anyOf(questIds).toArray()
+      : [];
+
+    const calibration = buildCalibration({ quests, sessions, now });
+
+    const agentState = await this.db.agentStates.get(userId);
+    if (agentState) {
+      await this.db.agentStates.put({ ...agentState, calibration });
+    } else {
+      console.log(`[Calibration] ${userId} has no AgentState yet; not stored`);
+    }
+
+    const proposals = calibration.quests.filter(q => q.proposedXpPerPomodoro !== null).length;
+    console.log(`[Calibration] ${userId}: factor ${calibration.factor} from ${calibration.sampleSize} quests, ${proposals} XP proposals`);
+    return calibration;
+  }
+}
+
+/**
+ * Pure calibration step over already-loaded data
+ */
+export function buildCalibration(input: CalibrationInput): DifficultyCalibration {
+  const { quests, sessions, now } = input;
+  const since = new Date(now.getTime() - LOOKBACK_DAYS * DAY_MS).toISOString();
+
+  const sessionCounts = new Map<string, number>();
+  for (const s of sessions) {
+    if (s.status !== "completed") continue;
+    sessionCounts.set(s.questId, (sessionCounts.get(s.questId) ?? 0) + 1);
+  }
+
+  const calibrated: QuestCalibration[] = [];
+  for (const quest of quests) {
+    if (!isCalibratable(quest)) continue;
+    if (quest.isCompleted && (quest.completedAt ?? "") < since) continue;
+
+    const estimatedMin = estimateMinutes(quest).minutes;
+    const trackedMin = quest.tracking.totalTrackedTime;
+    if (estimatedMin === 0) continue;
+
+    // Open quests: project from progress, or take what's tracked once it already overruns
+    let actualMin = trackedMin;
+    if (!quest.isCompleted) {
+      const progress = getProgress(quest);
+      if (progress >= MIN_PROGRESS) {
+        actualMin = Math.max(trackedMin, trackedMin / progress);
+      } else if (trackedMin <= estimatedMin) {
+        continue;
+      }
+    }
+
+    const validatedTier = quest.difficulty.gmValidated as DifficultyTier;
+    const actualTier = getTier(actualMin / 60);
+    const sessionCount = sessionCounts.get(quest.questId) ?? 0;
+    const started = Date.parse(quest.registeredAt ?? quest.createdAt);
+    const ended = quest.isCompleted && quest.completedAt ? Date.parse(quest.completedAt) : now.getTime();
+    const daysActive = Math.max(1, Math.ceil((ended - started) / DAY_MS));
+
+    const proposedXp = XP_PER_POMODORO[actualTier];
+    const shouldPropose = !quest.isCompleted && actualTier !== validatedTier && proposedXp !== quest.difficulty.xpPerPomodoro;
+
+    calibrated.push({
+      questId: quest.questId,
+      title: quest.title,
+      isCompleted: quest.isCompleted,
+      validatedTier,
+      actualTier,
+      estimatedHours: roundTo(estimatedMin / 60, 1),
+      actualHours: roundTo(actualMin / 60, 1),
+      sessions: sessionCount,
+      daysActive,
+      effortRatio: roundTo(actualMin / estimatedMin, 2),
+      xpPerPomodoro: quest.difficulty.xpPerPomodoro,
+      proposedXpPerPomodoro: shouldPropose ? proposedXp : null,
+      reason: describe(quest, validatedTier, actualTier, estimatedMin, actualMin, sessionCount, daysActive),
+    });
+  }
+
+  const ratios = calibrated.filter(q => q.isCompleted).map(q => q.effortRatio);
+  const factor = ratios.length >= MIN_SAMPLES
+    ? roundTo(Math.min(FACTOR_RANGE[1], Math.max(FACTOR_RANGE[0], median(ratios))), 2)
+    : 1;
+
+  return {
+    factor,
+    sampleSize: ratios.length,
+    quests: calibrated,
+    calibratedAt: now.toISOString(),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isCalibratable(quest: Quest): boolean {
+  return (
+    quest.type !== "AntiQuest" &&
+    quest.behavior !== "repeating" &&
+    !!quest.difficulty.gmValidated &&
+    quest.tracking.totalTrackedTime > 0
+  );
+}
+
+/**
+ * Share of the estimated pomodoros that are done (0 without estimates)
+ */
+function getProgress(quest: Quest): number {
+  const total = quest.subtasks.reduce((sum, st) => sum + (st.estimatePomodoros || 0), 0);
+  if (total === 0) return 0;
+  const done = quest.subtasks.filter(st => st.isComplete).reduce((sum, st) => sum + (st.estimatePomodoros || 0), 0);
+  return done / total;
+}
+
+function describe(
+  quest: Quest,
+  validatedTier: DifficultyTier,
+  actualTier: DifficultyTier,
+  estimatedMin: number,
+  actualMin: number,
+  sessions: number,
+  days: number
+): string {
+  const effort = quest.isCompleted
+    ? `took ${formatHours(actualMin)} over ${plural(sessions, "session")} in ${plural(days, "day")}`
+    : `is heading for ${formatHours(actualMin)} after ${plural(sessions, "session")} in ${plural(days, "day")}`;
+  const verdict = actualTier === validatedTier ? `as ${validatedTier} expects` : `which fits ${actualTier}`;
+  return `Rated ${validatedTier} at ${formatHours(estimatedMin)}, it ${effort}, ${verdict}.`;
+}
+
+function formatHours(minutes: number): string {
+  return minutes < 60 ? `${Math.round(minutes)} min` : `${(minutes / 60).toFixed(1)}h`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function roundTo(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+// Singleton
+let _calibrationService: CalibrationService | null = null;
+
+export function getCalibrationService() {
+  if (!_calibrationService) _calibrationService = new CalibrationService();
+  return _calibrationService;
+}
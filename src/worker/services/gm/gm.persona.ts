@@ -0,0 +1,291 @@
+/**
+ * GM Persona
+ * Renders every local GM message from templates keyed by message type and tone
+ *
+ * Tone comes from UserSettings.ai.tone. 'mild' and 'tough' are explicit
+ * choices and always win; 'standard' defers to the learned
+ * UserProfile.agentProfile.motivationalStyle, which drifts toward whichever
+ * tone the user acts on most. Each template has several variants that rotate
+ * daily so messages don't repeat verbatim.
+ */
+
+import { getDB } from "../../db/indexed-db";
+import type { UserProfile } from "../../models/UserProfile";
+import type { UserSettings } from "../../models/UserSettings";
+import { getSettingsService } from "../settings.service";
+
+export type GMTone = UserSettings["ai"]["tone"];
+export type MotivationalStyle = UserProfile["agentProfile"]["motivationalStyle"];
+
+export type GMMessageType =
+  | "validation_summary" // {title}, {difficulty}, {confidence}
+  | "burnout_warning"
+  | "consistency_declining"
+  | "high_performer"
+  | "streak_milestone" // {days}
+  | "pattern_adjustment" // {action}
+  | "reschedule_proposal" // {title}, {change}, {reason}
+  | "calibration_proposal"; // {title}, {reason}, {xp}
+
+export type GMMessageVars = Record<string, string | number>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STYLE_TONES: Record<MotivationalStyle, GMTone> = {
+  gentle: "mild",
+  neutral: "standard",
+  firm: "tough",
+};
+
+const TONE_STYLES: Record<GMTone, MotivationalStyle> = {
+  mild: "gentle",
+  standard: "neutral",
+  tough: "firm",
+};
+
+const TEMPLATES: Record<GMMessageType, Record<GMTone, string[]>> = {
+  validation_summary: {
+    mild: [
+      "I took a look at '{title}' and think it's {difficulty}.{confidence}",
+      "'{title}' feels like a {difficulty} quest to me.{confidence}",
+      "Quick note: '{title}' is now rated {difficulty}.{confidence}",
+    ],
+    standard: [
+      "GM updated '{title}' to {difficulty}.{confidence}",
+      "'{title}' validated as {difficulty}.{confidence}",
+      "Difficulty for '{title}' set to {difficulty}.{confidence}",
+    ],
+    tough: [
+      "'{title}' is {difficulty}. Plan accordingly.{confidence}",
+      "Verdict on '{title}': {difficulty}. No excuses.{confidence}",
+      "'{title}' rated {difficulty}. Now earn it.{confidence}",
+    ],
+  },
+  burnout_warning: {
+    mild: [
+      "You've been carrying a lot lately. It's okay to **rest** or set a quest aside for a bit.",
+      "Your burnout risk is **high**. A short break today would do you good.",
+      "Be kind to yourself: deferring one quest now keeps you going longer.",
+    ],
+    standard: [
+      "⚠️ Burnout Risk is **HIGH**. The Grandmaster advises you to defer a non-critical quest or take a short break.",
+      "⚠️ Burnout risk is **high**. Drop one non-critical quest from today's plan.",
+      "⚠️ Your load is unsustainable. Take a break before your next session.",
+    ],
+    tough: [
+      "⚠️ Burnout risk is **HIGH**. Cut a quest now, or the streak cuts itself later.",
+      "⚠️ You're redlining. Defer something non-critical today. That's an order.",
+      "⚠️ Grinding through burnout is not discipline. Take the break.",
+    ],
+  },
+  consistency_declining: {
+    mild: [
+      "Things have been a little quieter lately. Even **one session** today helps.",
+      "No pressure, but a single focus session today would steady your rhythm.",
+      "Your consistency dipped a bit. One small session is a great way back in.",
+    ],
+    standard: [
+      "Your focus consistency is declining. Complete **one session** today to stabilize your metrics.",
+      "Consistency is trending down. **One session** today turns it around.",
+      "Your rhythm is slipping. Log **one session** today.",
+    ],
+    tough: [
+      "Your consistency is sliding. **One session** today. No negotiation.",
+      "You're drifting. Sit down and finish **one session** before the day ends.",
+      "Declining focus is a choice. Choose differently: **one session**, today.",
+    ],
+  },
+  high_performer: {
+    mild: [
+      "You're doing wonderfully! Maybe try a 'Hard' quest when you feel ready.",
+      "Your velocity is excellent. A 'Hard' quest could be a fun next step.",
+      "Great momentum! You've earned a bigger challenge if you want one.",
+    ],
+    standard: [
+      "You're tracking at an **Elite Velocity**! Keep challenging yourself with 'Hard' quests.",
+      "**Elite Velocity** reached. Time to take on 'Hard' quests.",
+      "Your velocity is in the top tier. Raise the stakes with a 'Hard' quest.",
+    ],
+    tough: [
+      "**Elite Velocity**. Don't coast; pick up a 'Hard' quest.",
+      "You're fast. Prove it on a 'Hard' quest.",
+      "Comfort is the enemy. Your velocity says you're ready for 'Hard'.",
+    ],
+  },
+  streak_milestone: {
+    mild: [
+      "A **{days}-day streak**! That's lovely, keep it gentle and steady.",
+      "**{days} days** in a row. You should be proud of that.",
+      "Look at you, **{days} days** running! Well done.",
+    ],
+    standard: [
+      "Congratulations on a **{days}-day streak**! Keep that focus going!",
+      "**{days}-day streak** reached. Keep it alive.",
+      "Streak milestone: **{days} days**. Nice work.",
+    ],
+    tough: [
+      "**{days} days**. Good. Now do it again tomorrow.",
+      "**{days}-day streak**. The next milestone is the one that counts.",
+      "**{days} days** down. Don't let it end on a lazy day.",
+    ],
+  },
+  pattern_adjustment: {
+    mild: [
+      "I noticed a pattern that might help: {action}",
+      "Something that could make things easier: {action}",
+      "A gentle idea based on your recent sessions: {action}",
+    ],
+    standard: [
+      "Pattern spotted. {action}",
+      "Based on your recent sessions: {action}",
+      "GM recommendation: {action}",
+    ],
+    tough: [
+      "Your data doesn't lie. {action}",
+      "Same pattern again. {action}",
+      "Fix this now: {action}",
+    ],
+  },
+  reschedule_proposal: {
+    mild: [
+      "'{title}' looks tight for its due date. {reason} Maybe {change}?",
+      "No stress about '{title}': {reason} One option is to {change}.",
+      "'{title}' could use a little breathing room. {reason} How about we {change}?",
+    ],
+    standard: [
+      "'{title}' is slipping. {reason} Suggestion: {change}.",
+      "'{title}' won't make its due date at this pace. {reason} Proposed: {change}.",
+      "Reschedule '{title}'? {reason} GM proposes: {change}.",
+    ],
+    tough: [
+      "'{title}' is going to miss. {reason} Either {change} or pick up the pace.",
+      "The math on '{title}' doesn't work. {reason} Fix it: {change}.",
+      "'{title}' is behind. {reason} Decide: {change}.",
+    ],
+  },
+  calibration_proposal: {
+    mild: [
+      "'{title}' turned out differently than expected. {reason} Want to earn {xp} XP per pomodoro from now on?",
+      "A small tune-up for '{title}': {reason} {xp} XP per pomodoro would fit it better.",
+      "I've been watching '{title}'. {reason} Shall we make it {xp} XP per pomodoro?",
+    ],
+    standard: [
+      "'{title}' was rated wrong. {reason} Proposed: {xp} XP per pomodoro.",
+      "Recalibration for '{title}': {reason} New rate: {xp} XP per pomodoro.",
+      "The numbers on '{title}' are in. {reason} GM proposes {xp} XP per pomodoro.",
+    ],
+    tough: [
+      "'{title}' isn't what you said it was. {reason} It's worth {xp} XP per pomodoro. Accept it.",
+      "Reality check on '{title}': {reason} Set it to {xp} XP per pomodoro.",
+      "'{title}' has been measured. {reason} {xp} XP per pomodoro, no more, no less.",
+    ],
+  },
+};
+
+// Feedback samples per tone before the style can move away from it
+const MIN_FEEDBACK_SAMPLES = 3;
+
+export class GMPersonaService {
+  private db = getDB();
+
+  /**
+   * Tone to speak in for this user
+   */
+  async getTone(userId: string): Promise<GMTone> {
+    const settings = await getSettingsService().getUserSettings(userId);
+    const user = await this.db.users.get(userId);
+    return resolveTone(settings.ai.tone, user?.agentProfile?.motivationalStyle);
+  }
+
+  /**
+   * Record whether the user acted on or dismissed a message, and re-learn their style
+   */
+  async recordFeedback(userId: string, tone: GMTone, acted: boolean): Promise<MotivationalStyle | null> {
+    const user = await this.db.users.get(userId);
+    if (!user) return null;
+
+    const engagement = { ...(user.agentProfile.toneEngagement ?? {}) };
+    const entry = engagement[tone] ?? { acted: 0, dismissed: 0 };
+    engagement[tone] = {
+      acted: entry.acted + (acted ? 1 : 0),
+      dismissed: entry.dismissed + (acted ? 0 : 1),
+    };
+
+    const style = adaptMotivationalStyle(user.agentProfile.motivationalStyle, engagement);
+    user.agentProfile = { ...user.agentProfile, toneEngagement: engagement, motivationalStyle: style };
+    await this.db.users.put(user);
+    await this.db.queueSync({
+      operation: "update",
+      collection: "users",
+      documentId: userId,
+      data: user,
+      priority: 5,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
+
+    return style;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function resolveTone(settingsTone: GMTone, style?: MotivationalStyle): GMTone {
+  if (settingsTone !== "standard" || !style) return settingsTone;
+  return STYLE_TONES[style];
+}
+
+/**
+ * Render a message. The variant is stable for a key within a day and changes the next day.
+ */
+export function renderMessage(
+  type: GMMessageType,
+  tone: GMTone,
+  vars: GMMessageVars = {},
+  key: string = type,
+  now = Date.now()
+): string {
+  const variants = TEMPLATES[type][tone];
+  const variant = variants[(hashKey(key) + Math.floor(now / DAY_MS)) % variants.length];
+  return variant.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+}
+
+/**
+ * Pick the tone the user acts on most, smoothing so untried tones start at 50%.
+ * Stays put until the current tone has enough samples to judge.
+ */
+export function adaptMotivationalStyle(
+  current: MotivationalStyle,
+  engagement: NonNullable<UserProfile["agentProfile"]["toneEngagement"]>
+): MotivationalStyle {
+  const currentTone = STYLE_TONES[current];
+  const samples = (tone: GMTone) => (engagement[tone]?.acted ?? 0) + (engagement[tone]?.dismissed ?? 0);
+  if (samples(currentTone) < MIN_FEEDBACK_SAMPLES) return current;
+
+  const rate = (tone: GMTone) => ((engagement[tone]?.acted ?? 0) + 1) / (samples(tone) + 2);
+  let best = currentTone;
+  for (const tone of Object.keys(TONE_STYLES) as GMTone[]) {
+    if (rate(tone) > rate(best)) best = tone;
+  }
+  return TONE_STYLES[best];
+}
+
+function hashKey(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+// Singleton
+let _gmPersonaService: GMPersonaService | null = null;
+
+export function getGMPersonaService() {
+  if (!_gmPersonaService) _gmPersonaService = new GMPersonaService();
+  return _gmPersonaService;
+}
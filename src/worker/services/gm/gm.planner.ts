@@ -0,0 +1,263 @@
+/**
+ * GM Daily Planner
+ * Builds a concrete plan for today behind ai.suggestions.dailyPlan
+ *
+ * Today's open subtasks are ranked by quest priority and due date, then laid
+ * out as pomodoro blocks from now, honoring each quest's preferredTimeSlots.
+ * The day's budget is the user's typical daily focus time, cut back when
+ * burnout risk is elevated; whatever doesn't fit is deferred with a reason.
+ * Accepting a plan writes it as today's home task order.
+ */
+
+import { getDB } from "../../db/indexed-db";
+import type { Quest } from "../../models/Quest";
+import type { PerformanceMetrics } from "../../models/AgentState";
+import type { TaskOrderItem } from "../../models/TaskOrder";
+import { calculateTaskPriority } from "../../utils/task-sorting.util";
+import { toLocalDate, startOfLocalDate } from "../../utils/local-date";
+import { AnalyticsService } from "../analytics.service";
+import { getSettingsService } from "../settings.service";
+import { getTaskService } from "../task.service";
+
+export interface PlanBlock {
+  questId: string;
+  subtaskId: string;
+  title: string;
+  questTitle: string;
+  pomodoros: number;
+  startTime: string; // ISO8601
+  endTime: string; // ISO8601, estimated finish
+}
+
+export interface PlanDeferral {
+  questId: string;
+  subtaskId: string;
+  title: string;
+  questTitle: string;
+  reason: string;
+}
+
+export interface DailyPlan {
+  userId: string;
+  date: string; // YYYY-MM-DD
+  capacityMin: number; // focus minutes budgeted for the rest of today
+  plannedMin: number;
+  burnoutRisk: PerformanceMetrics["burnoutRisk"];
+  blocks: PlanBlock[];
+  deferrals: PlanDeferral[];
+  generatedAt: string; // ISO8601
+}
+
+export interface PlannerInput {
+  quests: Quest[];
+  historyDailyMinutes: number[]; // focus minutes on each recent active day
+  doneTodayMin: number;
+  burnoutRisk: PerformanceMetrics["burnoutRisk"];
+  now: Date;
+}
+
+const HISTORY_DAYS = 14;
+
+// With no history, plan a modest day
+const DEFAULT_DAILY_CAPACITY_MIN = 120;
+
+// Nothing is scheduled to end after this local hour
+const DAY_END_HOUR = 23;
+
+const BURNOUT_CAPACITY: Record<PerformanceMetrics["burnoutRisk"], number> = {
+  Low: 1,
+  Medium: 0.85,
+  High: 0.6,
+  Critical: 0.4,
+};
+
+const PRIORITY_WEIGHT: Record<Quest["priority"], number> = { A: 3, B: 2, C: 1 };
+
+export class DailyPlannerService {
+  private db = getDB();
+  private analyticsService = new AnalyticsService();
+
+  /**
+   * Plan the rest of today, or null when the user has daily plans turned off
+   */
+  async generateDailyPlan(userId: string): Promise<DailyPlan | null> {
+    const settings = await getSettingsService().getUserSettings(userId);
+    if (!settings.ai.suggestions.dailyPlan) return null;
+
+    const now = new Date();
+    const today = toLocalDate(now);
+    // Local days, so "today" matches the dayEnd cutoff in buildDailyPlan
+    const historyStart = startOfLocalDate(today, -HISTORY_DAYS).toISOString();
+    const tomorrowStart = startOfLocalDate(today, 1).toISOString();
+
+    const [quests, sessions, burnoutRisk] = await Promise.all([
+      getTaskService().getTodaysTasks(userId),
+      this.db.sessions
+        .where("[userId+startTime]")
+        .between([userId, historyStart], [userId, tomorrowStart], true, false)
+        .filter(s => s.status === "completed")
+        .toArray(),
+      this.analyticsService.assessBurnoutRisk(userId),
+    ]);
+
+    const minutesByDay = new Map<string, number>();
+    for (const s of sessions) {
+      const day = toLocalDate(new Date(s.startTime));
+      minutesByDay.set(day, (minutesByDay.get(day) ?? 0) + (s.actualDurationMin || 0));
+    }
+    const doneTodayMin = minutesByDay.get(today) ?? 0;
+    minutesByDay.delete(today);
+
+    const plan = buildDailyPlan(userId, {
+      quests,
+      historyDailyMinutes: [...minutesByDay.values()],
+      doneTodayMin,
+      burnoutRisk,
+      now,
+    });
+    console.log(`[DailyPlanner] ${userId}: ${plan.blocks.length} blocks, ${plan.deferrals.length} deferred, ${plan.plannedMin}/${plan.capacityMin} min`);
+    return plan;
+  }
+
+  /**
+   * Write the plan as today's home task order: planned blocks first, then deferrals
+   */
+  async acceptDailyPlan(userId: string, plan: DailyPlan): Promise<TaskOrderItem[]> {
+    const items: TaskOrderItem[] = [...plan.blocks, ...plan.deferrals].map(item => ({
+      taskId: item.subtaskId,
+      questId: item.questId,
+    }));
+    await getTaskService().updateTaskOrder(userId, items);
+    console.log(`[DailyPlanner] ${userId} accepted plan for ${plan.date}`);
+    return items;
+  }
+}
+
+/**
+ * Pure planning step over already-loaded data
+ */
+export function buildDailyPlan(userId: string, input: PlannerInput): DailyPlan {
+  const { quests, historyDailyMinutes, doneTodayMin, burnoutRisk, now } = input;
+  const today = toLocalDate(now);
+
+  const typical = historyDailyMinutes.length > 0 ? median(historyDailyMinutes) : DEFAULT_DAILY_CAPACITY_MIN;
+  const capacityMin = Math.max(0, Math.round(typical * BURNOUT_CAPACITY[burnoutRisk] - doneTodayMin));
+
+  const dayEnd = new Date(now);
+  dayEnd.setHours(DAY_END_HOUR, 0, 0, 0);
+
+  // Highest-value quests first; subtasks keep their order within a quest
+  const candidates = quests
+    .filter(q => q.type !== "AntiQuest")
+    .map((quest, index) => ({ quest, index, score: PRIORITY_WEIGHT[quest.priority] + calculateTaskPriority(quest) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .flatMap(({ quest }) =>
+      quest.subtasks
+        .filter(st => !st.isComplete && !(st.deferredUntil && st.deferredUntil > today))
+        .map(st => ({
+          quest,
+          subtask: st,
+          pomodoros: Math.max(1, st.estimatePomodoros || 1),
+          notBefore: getNextSlot(quest, now),
+        }))
+    );
+
+  const blocks: PlanBlock[] = [];
+  const deferrals: PlanDeferral[] = [];
+  let plannedMin = 0;
+  let cursor = roundUpToFiveMinutes(now);
+  const pending = [...candidates];
+
+  while (pending.length > 0) {
+    // Take the best candidate that can start now; otherwise jump to the earliest preferred slot
+    let start = cursor;
+    let pick = pending.findIndex(c => !c.notBefore || c.notBefore <= cursor);
+    if (pick === -1) {
+      const next = Math.min(...pending.map(c => c.notBefore!.getTime()));
+      start = new Date(next);
+      pick = pending.findIndex(c => c.notBefore!.getTime() === next);
+    }
+    const [candidate] = pending.splice(pick, 1);
+    const { quest, subtask, pomodoros } = candidate;
+    const pomodoroMin = quest.schedule?.pomodoroDurationMin || 25;
+    const breakMin = quest.schedule?.breakDurationMin || 5;
+    const focusMin = pomodoros * pomodoroMin;
+    const end = new Date(start.getTime() + (focusMin + (pomodoros - 1) * breakMin) * 60000);
+
+    const defer = (reason: string) =>
+      deferrals.push({ questId: quest.questId, subtaskId: subtask.id, title: subtask.title, questTitle: quest.title, reason });
+
+    if (plannedMin + focusMin > capacityMin) {
+      defer(burnoutRisk === "Low"
+        ? "Beyond your usual daily focus time"
+        : `Beyond today's reduced budget (${burnoutRisk.toLowerCase()} burnout risk)`);
+      continue;
+    }
+    if (end > dayEnd) {
+      defer("Not enough time left today");
+      continue;
+    }
+
+    blocks.push({
+      questId: quest.questId,
+      subtaskId: subtask.id,
+      title: subtask.title,
+      questTitle: quest.title,
+      pomodoros,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+    });
+    plannedMin += focusMin;
+    cursor = new Date(end.getTime() + breakMin * 60000);
+  }
+
+  return {
+    userId,
+    date: today,
+    capacityMin,
+    plannedMin,
+    burnoutRisk,
+    blocks,
+    deferrals,
+    generatedAt: now.toISOString(),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Earliest preferred slot (local HH:MM) still ahead today, if any
+ */
+function getNextSlot(quest: Quest, now: Date): Date | null {
+  const upcoming = (quest.schedule?.preferredTimeSlots ?? [])
+    .map(slot => {
+      const [h, m] = slot.split(":").map(Number);
+      const at = new Date(now);
+      at.setHours(h, m || 0, 0, 0);
+      return at;
+    })
+    .filter(at => !isNaN(at.getTime()) && at > now)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return upcoming[0] ?? null;
+}
+
+function roundUpToFiveMinutes(date: Date): Date {
+  const step = 5 * 60000;
+  return new Date(Math.ceil(date.getTime() / step) * step);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Singleton
+let _dailyPlannerService: DailyPlannerService | null = null;
+
+export function getDailyPlannerService() {
+  if (!_dailyPlannerService) _dailyPlannerService = new DailyPlannerService();
+  return _dailyPlannerService;
+}
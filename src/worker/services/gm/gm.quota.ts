@@ -0,0 +1,111 @@
+/**
+ * GM Validation Quota
+ * Daily budget of remote GM validations, kept in UserSettings.gmValidationQuota
+ *
+ * Only successful remote validations count against dailyLimit. The count goes
+ * back to zero on the first read after resetTimestamp, which then moves to
+ * the next local midnight. With no budget left GMService validates locally;
+ * while it's tight, what remains is kept for Epic and Hard quests.
+ */
+
+import type { Quest, DifficultyTier } from "../../models/Quest";
+import { DEFAULT_USER_SETTINGS, UserSettings } from "../../models/UserSettings";
+import { getSettingsService } from "../settings.service";
+
+export type ValidationQuota = UserSettings["gmValidationQuota"];
+
+export interface ValidationQuotaStatus {
+  dailyLimit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string; // ISO8601
+}
+
+// Quests that get the remote GM first and keep the last of the budget
+const PRIORITY_TIERS: DifficultyTier[] = ["Epic", "Hard"];
+
+// At or below this many remote validations left, only priority quests use them
+export const PRIORITY_RESERVE = 2;
+
+export class GMQuotaService {
+  /**
+   * Today's budget, after any due reset
+   */
+  async getQuota(userId: string): Promise<ValidationQuotaStatus> {
+    return toStatus(await this.loadQuota(userId, new Date()));
+  }
+
+  /**
+   * Count one successful remote validation
+   */
+  async recordSuccessfulValidation(userId: string): Promise<ValidationQuotaStatus> {
+    const quota = await this.loadQuota(userId, new Date());
+    const updated = { ...quota, successfulValidationsToday: quota.successfulValidationsToday + 1 };
+    await getSettingsService().updateSection(userId, "gmValidationQuota", updated);
+
+    const status = toStatus(updated);
+    console.log(`[GMQuota] ${userId}: ${status.used}/${status.dailyLimit} remote validations used`);
+    return status;
+  }
+
+  private async loadQuota(userId: string, now: Date): Promise<ValidationQuota> {
+    const settings = await getSettingsService().getUserSettings(userId);
+    const quota = settings.gmValidationQuota ?? DEFAULT_USER_SETTINGS.gmValidationQuota;
+
+    const current = applyQuotaReset(quota, now);
+    if (current !== quota) {
+      await getSettingsService().updateSection(userId, "gmValidationQuota", current);
+    }
+    return current;
+  }
+}
+
+/**
+ * The quota with today's count cleared once its reset time has passed
+ * (returns the same object when nothing changed)
+ */
+export function applyQuotaReset(quota: ValidationQuota, now: Date): ValidationQuota {
+  if (now.getTime() < Date.parse(quota.resetTimestamp)) return quota;
+  return {
+    ...quota,
+    successfulValidationsToday: 0,
+    resetTimestamp: getNextLocalMidnight(now).toISOString(),
+  };
+}
+
+export function isPriorityQuest(quest: Quest): boolean {
+  return PRIORITY_TIERS.includes(quest.difficulty.userAssigned);
+}
+
+/**
+ * Whether a quest may spend a remote validation with this many left
+ */
+export function canValidateRemotely(quest: Quest, remaining: number): boolean {
+  if (remaining <= 0) return false;
+  return remaining > PRIORITY_RESERVE || isPriorityQuest(quest);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toStatus(quota: ValidationQuota): ValidationQuotaStatus {
+  return {
+    dailyLimit: quota.dailyLimit,
+    used: quota.successfulValidationsToday,
+    remaining: Math.max(0, quota.dailyLimit - quota.successfulValidationsToday),
+    resetsAt: quota.resetTimestamp,
+  };
+}
+
+function getNextLocalMidnight(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+}
+
+// Singleton
+let _gmQuotaService: GMQuotaService | null = null;
+
+export function getGMQuotaService() {
+  if (!_gmQuotaService) _gmQuotaService = new GMQuotaService();
+  return _gmQuotaService;
+}
@@ -0,0 +1,423 @@
+/**
+ * GM Weekly Reports
+ * Weekly analysis behind ai.suggestions.weeklyAnalysis
+ *
+ * A report covers one Monday–Sunday (UTC) week: XP and focus time per quest,
+ * consistency and quality against the previous week, AntiQuest impact, overdue
+ * quests, and the GM's detected patterns and recommendations. Reports are
+ * stored in weeklyReports so past weeks can be browsed, compared and exported.
+ */
+
+import { getDB } from "../../db/indexed-db";
+import type { PerformanceMetricsSnapshot } from "../../db/indexed-db";
+import type { Quest } from "../../models/Quest";
+import type { Session } from "../../models/Session";
+import type { AgentState, PerformanceMetrics } from "../../models/AgentState";
+import type { Trend, WeeklyQuestStat, WeeklyReport } from "../../models/WeeklyReport";
+import { AnalyticsService } from "../analytics.service";
+import { NotificationService } from "../notification.service";
+import { getSettingsService } from "../settings.service";
+
+export interface WeeklyReportInput {
+  sessions: Session[]; // the report week
+  previousSessions: Session[]; // the week before
+  quests: Quest[]; // includes completed quests and AntiQuests
+  snapshots: PerformanceMetricsSnapshot[]; // taken during the report week
+  agentState?: AgentState;
+  burnoutRisk: PerformanceMetrics["burnoutRisk"] | null;
+  now: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Average quality has to move this many points before it counts as a trend
+const QUALITY_TREND_MARGIN = 5;
+
+const MAX_RECOMMENDATIONS = 6;
+
+export class WeeklyReportService {
+  private db = getDB();
+  private analyticsService = new AnalyticsService();
+
+  /**
+   * Compile and store the report for the week starting at weekStart (defaults to this week)
+   */
+  async generateWeeklyReport(userId: string, weekStart?: string): Promise<WeeklyReport> {
+    const now = new Date();
+    const start = getWeekStart(weekStart ? new Date(weekStart) : now);
+    const end = addDays(start, 6);
+    const previousStart = addDays(start, -7);
+
+    // Burnout risk is a point-in-time assessment, so only the current week gets one.
+    // This also refreshes the velocity/consistency snapshots read below.
+    const isCurrentWeek = start === getWeekStart(now);
+    const burnoutRisk = isCurrentWeek
+      ? (await this.analyticsService.generateAgentState(userId)).burnoutRisk
+      : null;
+
+    const [sessions, quests, snapshots, agentState] = await Promise.all([
+      this.db.sessions
+        .where("[userId+startTime]")
+        .between([userId, previousStart], [userId, `${end}\uffff`])
+        .toArray(),
+      this.db.quests.where("ownerId").equals(userId).toArray(),
+      this.db.performanceSnapshots
+        .where("userId")
+        .equals(userId)
+        .filter(s => s.timestamp >= start && s.timestamp <= `${end}\uffff`)
+        .toArray(),
+      this.db.agentStates.get(userId),
+    ]);
+
+    const report = buildWeeklyReport(userId, start, {
+      sessions: sessions.filter(s => s.startTime >= start),
+      previousSessions: sessions.filter(s => s.startTime < start),
+      quests,
+      snapshots,
+      agentState,
+      burnoutRisk,
+      now,
+    });
+
+    await this.db.weeklyReports.put(report);
+    console.log(`[WeeklyReports] ${userId} week of ${start}: ${report.totals.sessionsCompleted} sessions, +${report.totals.xp} XP`);
+    return report;
+  }
+
+  /**
+   * Generate last week's report once it's over, if the user wants weekly analysis
+   * Called by the background job; safe to run as often as it likes.
+   */
+  async processUser(userId: string): Promise<WeeklyReport | null> {
+    const settings = await getSettingsService().getUserSettings(userId);
+    if (!settings.ai.suggestions.weeklyAnalysis) return null;
+
+    const lastWeek = addDays(getWeekStart(new Date()), -7);
+    if (await this.db.weeklyReports.get(`${userId}-${lastWeek}`)) return null;
+
+    const report = await this.generateWeeklyReport(userId, lastWeek);
+    await new NotificationService().createNotification(
+      userId,
+      "weekly_report",
+      "Your weekly report is ready",
+      `Week of ${lastWeek}: ${report.totals.sessionsCompleted} sessions, ${report.totals.focusMinutes} min focused, +${report.totals.xp} XP.`
+    );
+    return report;
+  }
+
+  /**
+   * Stored reports, newest week first
+   */
+  async getWeeklyReports(userId: string): Promise<WeeklyReport[]> {
+    const reports = await this.db.weeklyReports.where("userId").equals(userId).toArray();
+    return reports.sort((a, b) => b.weekStart.localeCompare(a.weekStart));
+  }
+
+  async getWeeklyReport(userId: string, weekStart: string): Promise<WeeklyReport | null> {
+    return (await this.db.weeklyReports.get(`${userId}-${getWeekStart(new Date(weekStart))}`)) ?? null;
+  }
+
+  /**
+   * Markdown export of a stored report
+   */
+  async exportWeeklyReportMarkdown(userId: string, weekStart: string): Promise<string> {
+    const report = await this.getWeeklyReport(userId, weekStart);
+    if (!report) {
+      throw new Error(`REPORT_NOT_FOUND: No weekly report for the week of ${weekStart}`);
+    }
+    return formatWeeklyReportMarkdown(report);
+  }
+}
+
+/**
+ * Pure report compilation over already-loaded data
+ */
+export function buildWeeklyReport(userId: string, weekStart: string, input: WeeklyReportInput): WeeklyReport {
+  const { sessions, previousSessions, quests, snapshots, agentState, burnoutRisk, now } = input;
+  const weekEnd = addDays(weekStart, 6);
+  const questsById = new Map(quests.map(q => [q.questId, q]));
+
+  const completed = sessions.filter(s => s.status === "completed");
+  const previousCompleted = previousSessions.filter(s => s.status === "completed");
+
+  // Per-quest breakdown
+  const byQuest = new Map<string, Session[]>();
+  for (const s of completed) {
+    byQuest.set(s.questId, [...(byQuest.get(s.questId) ?? []), s]);
+  }
+  const questStats: WeeklyQuestStat[] = [...byQuest.entries()]
+    .map(([questId, questSessions]) => ({
+      questId,
+      title: questsById.get(questId)?.title ?? "Deleted quest",
+      xp: Math.round(sum(questSessions, s => s.xpEarned || 0)),
+      minutes: Math.round(sum(questSessions, s => s.actualDurationMin || 0)),
+      sessions: questSessions.length,
+      averageQuality: Math.round(averageQuality(questSessions)),
+    }))
+    .sort((a, b) => b.minutes - a.minutes || b.xp - a.xp);
+
+  // Consistency
+  const activeDays = countActiveDays(completed);
+  const previousActiveDays = countActiveDays(previousCompleted);
+
+  // Quality
+  const average = Math.round(averageQuality(completed));
+  const previousAverage = Math.round(averageQuality(previousCompleted));
+  const byDay = Array.from({ length: 7 }, (_, i) => {
+    const date = addDays(weekStart, i);
+    const daySessions = completed.filter(s => s.startTime.startsWith(date));
+    return { date, average: daySessions.length > 0 ? Math.round(averageQuality(daySessions)) : null };
+  });
+
+  // AntiQuest occurrences logged during the week
+  const antiQuests = quests
+    .filter(q => q.type === "AntiQuest")
+    .map(q => {
+      const events = (q.antiEvents ?? []).filter(e => isInWeek(e.timestamp, weekStart, weekEnd));
+      return {
+        antiQuestId: q.questId,
+        title: q.title,
+        occurrences: events.length,
+        xpLost: Math.round(sum(events, e => e.actualPenalty ?? e.xpPenalty)),
+      };
+    })
+    .filter(a => a.occurrences > 0)
+    .sort((a, b) => b.xpLost - a.xpLost);
+
+  // Overdue as of the end of the week, or now for the current week
+  const asOf = Math.min(now.getTime(), Date.parse(addDays(weekEnd, 1)));
+  const overdue = quests
+    .filter(q => q.type !== "AntiQuest" && !q.isCompleted && q.dueDate && Date.parse(q.dueDate) < asOf)
+    .map(q => ({
+      questId: q.questId,
+      title: q.title,
+      dueDate: q.dueDate!,
+      daysOverdue: Math.floor((asOf - Date.parse(q.dueDate!)) / DAY_MS),
+    }))
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+  // Only patterns the GM had already seen by the end of the week
+  const patterns = (agentState?.detectedPatterns ?? [])
+    .filter(p => p.detectedAt < addDays(weekEnd, 1))
+    .map(p => ({ name: p.name, detail: p.detail, severity: p.severity }));
+
+  const report: WeeklyReport = {
+    id: `${userId}-${weekStart}`,
+    userId,
+    weekStart,
+    weekEnd,
+    generatedAt: now.toISOString(),
+    totals: {
+      xp: Math.round(sum(completed, s => s.xpEarned || 0)),
+      focusMinutes: Math.round(sum(completed, s => s.actualDurationMin || 0)),
+      sessionsCompleted: completed.length,
+      sessionsAbandoned: sessions.filter(s => s.status === "abandoned").length,
+    },
+    quests: questStats,
+    consistency: {
+      activeDays,
+      previousActiveDays,
+      monthlyConsistency: getLatestSnapshot(snapshots, "monthlyConsistency"),
+      trend: getTrend(activeDays, previousActiveDays, 0),
+    },
+    quality: {
+      average,
+      previousAverage,
+      trend: completed.length > 0 && previousCompleted.length > 0
+        ? getTrend(average, previousAverage, QUALITY_TREND_MARGIN)
+        : "stable",
+      byDay,
+    },
+    velocity: {
+      xpPerHour: getLatestSnapshot(snapshots, "weeklyVelocity"),
+      burnoutRisk,
+    },
+    antiQuests,
+    overdue,
+    patterns,
+    recommendations: [],
+  };
+
+  report.recommendations = buildRecommendations(report, agentState);
+  return report;
+}
+
+/**
+ * Render a report as a standalone Markdown document
+ */
+export function formatWeeklyReportMarkdown(report: WeeklyReport): string {
+  const lines: string[] = [
+    `# Weekly Report: ${report.weekStart} to ${report.weekEnd}`,
+    "",
+    `_Generated ${report.generatedAt.split("T")[0]}_`,
+    "",
+    "## Summary",
+    "",
+    `- XP earned: ${report.totals.xp}`,
+    `- Focus time: ${formatMinutes(report.totals.focusMinutes)}`,
+    `- Sessions: ${report.totals.sessionsCompleted} completed, ${report.totals.sessionsAbandoned} abandoned`,
+    `- Active days: ${report.consistency.activeDays}/7 (previous week ${report.consistency.previousActiveDays}/7, ${report.consistency.trend})`,
+    `- Average quality: ${report.quality.average} (previous week ${report.quality.previousAverage}, ${report.quality.trend})`,
+  ];
+  if (report.consistency.monthlyConsistency !== null) {
+    lines.push(`- Monthly consistency: ${Math.round(report.consistency.monthlyConsistency)}/100`);
+  }
+  if (report.velocity.xpPerHour !== null) {
+    lines.push(`- Velocity: ${Math.round(report.velocity.xpPerHour)} XP/hour`);
+  }
+  if (report.velocity.burnoutRisk) {
+    lines.push(`- Burnout risk: ${report.velocity.burnoutRisk}`);
+  }
+
+  lines.push("", "## Quests", "");
+  if (report.quests.length === 0) {
+    lines.push("No completed sessions this week.");
+  } else {
+    lines.push("| Quest | Sessions | Time | XP | Avg quality |", "| --- | ---: | ---: | ---: | ---: |");
+    for (const q of report.quests) {
+      lines.push(`| ${escapeCell(q.title)} | ${q.sessions} | ${formatMinutes(q.minutes)} | ${q.xp} | ${q.averageQuality} |`);
+    }
+  }
+
+  lines.push("", "## Quality by Day", "");
+  for (const day of report.quality.byDay) {
+    lines.push(`- ${day.date}: ${day.average ?? "no sessions"}`);
+  }
+
+  if (report.antiQuests.length > 0) {
+    lines.push("", "## AntiQuests", "");
+    for (const a of report.antiQuests) {
+      lines.push(`- ${a.title}: ${a.occurrences} occurrence${a.occurrences === 1 ? "" : "s"}, -${a.xpLost} XP`);
+    }
+  }
+
+  if (report.overdue.length > 0) {
+    lines.push("", "## Overdue", "");
+    for (const o of report.overdue) {
+      lines.push(`- ${o.title}: due ${o.dueDate.split("T")[0]}, ${o.daysOverdue} day${o.daysOverdue === 1 ? "" : "s"} overdue`);
+    }
+  }
+
+  if (report.patterns.length > 0) {
+    lines.push("", "## Patterns", "");
+    for (const p of report.patterns) {
+      lines.push(`- **${p.name}** (${p.severity}): ${p.detail}`);
+    }
+  }
+
+  if (report.recommendations.length > 0) {
+    lines.push("", "## Recommendations", "");
+    for (const r of report.recommendations) {
+      lines.push(`- ${r}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * GM adjustments first, then advice derived from the week's numbers
+ */
+function buildRecommendations(report: WeeklyReport, agentState?: AgentState): string[] {
+  const recommendations = (agentState?.recommendedQuestAdjustments ?? [])
+    .filter(a => a.createdAt < addDays(report.weekEnd, 1))
+    .sort((a, b) => b.priority - a.priority)
+    .map(a => a.suggestionText);
+
+  if (report.velocity.burnoutRisk === "High" || report.velocity.burnoutRisk === "Critical") {
+    recommendations.push("Burnout risk is elevated; plan a lighter week and defer non-critical quests.");
+  }
+  if (report.consistency.trend === "declining") {
+    recommendations.push(
+      `You were active on ${report.consistency.activeDays} day${report.consistency.activeDays === 1 ? "" : "s"} versus ${report.consistency.previousActiveDays} the week before; aim for one short session every day.`
+    );
+  }
+  if (report.quality.trend === "declining") {
+    recommendations.push("Session quality dropped; cut interruptions and keep sessions to your usual length.");
+  }
+  const worstAntiQuest = report.antiQuests[0];
+  if (worstAntiQuest) {
+    recommendations.push(`'${worstAntiQuest.title}' cost you ${worstAntiQuest.xpLost} XP this week; plan around its triggers.`);
+  }
+  if (report.overdue.length > 0) {
+    recommendations.push(
+      `${report.overdue.length} quest${report.overdue.length === 1 ? " is" : "s are"} overdue; reschedule or break ${report.overdue.length === 1 ? "it" : "them"} down.`
+    );
+  }
+  if (report.totals.sessionsCompleted === 0) {
+    recommendations.push("No sessions completed this week; start with a single pomodoro on your top quest.");
+  }
+
+  return [...new Set(recommendations)].slice(0, MAX_RECOMMENDATIONS);
+}
+
+function getTrend(current: number, previous: number, margin: number): Trend {
+  if (current > previous + margin) return "improving";
+  if (current < previous - margin) return "declining";
+  return "stable";
+}
+
+function getLatestSnapshot(
+  snapshots: PerformanceMetricsSnapshot[],
+  metricType: PerformanceMetricsSnapshot["metricType"]
+): number | null {
+  const latest = snapshots
+    .filter(s => s.metricType === metricType)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+  return latest ? latest.value : null;
+}
+
+function countActiveDays(sessions: Session[]): number {
+  return new Set(sessions.map(s => s.startTime.split("T")[0])).size;
+}
+
+function averageQuality(sessions: Session[]): number {
+  return sessions.length > 0 ? sum(sessions, s => s.quality?.score || 0) / sessions.length : 0;
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+function isInWeek(timestamp: string, weekStart: string, weekEnd: string): boolean {
+  const date = timestamp.split("T")[0];
+  return date >= weekStart && date <= weekEnd;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(date) + days * DAY_MS));
+}
+
+/**
+ * Monday (UTC) of the week containing `date`
+ */
+function getWeekStart(date: Date): string {
+  const day = date.getUTCDay(); // 0 = Sunday
+  return addDays(toDateString(date), -((day + 6) % 7));
+}
+
+// Singleton
+let _weeklyReportService: WeeklyReportService | null = null;
+
+export function getWeeklyReportService() {
+  if (!_weeklyReportService) _weeklyReportService = new WeeklyReportService();
+  return _weeklyReportService;
+}
@@ -0,0 +1,260 @@
+/**
+ * GM Rescheduler
+ * Proposes fixes for quests that won't make their due date, behind ai.suggestions.reschedules
+ *
+ * Remaining work is the pomodoro estimate of open, non-deferred subtasks. The
+ * pace is the quest's own focus time over the last two weeks, or the user's
+ * overall pace split across their dated quests when the quest has none. A
+ * quest is slipping when that pace finishes it after its due date; it then
+ * gets up to three alternative proposals: a later due date, a daily pomodoro
+ * commitment that still makes the date, or deferring the subtasks that don't fit.
+ */
+
+import { getDB } from "../../db/indexed-db";
+import type { Quest } from "../../models/Quest";
+import type { Session } from "../../models/Session";
+import { toLocalDate, startOfLocalDate } from "../../utils/local-date";
+import { getSettingsService } from "../settings.service";
+
+export type RescheduleKind = "extend_due_date" | "adjust_schedule" | "defer_subtasks";
+
+export interface RescheduleProposal {
+  id: string; // `reschedule_${kind}_${questId}`, stable across refreshes
+  questId: string;
+  questTitle: string;
+  kind: RescheduleKind;
+  change: string; // short imperative description, e.g. "move the due date to 2026-11-02"
+  reason: string;
+  dueDate?: string; // extend_due_date: new ISO8601 due date
+  pomodorosPerDay?: number; // adjust_schedule: new daily target
+  deferSubtaskIds?: string[]; // defer_subtasks
+  deferUntil?: string; // defer_subtasks: YYYY-MM-DD
+}
+
+export interface RescheduleInput {
+  quests: Quest[];
+  sessions: Session[]; // completed sessions over the pace window
+  now: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PACE_WINDOW_DAYS = 14;
+
+// Extra room on a proposed due date so it isn't immediately at risk again
+const DUE_DATE_BUFFER = 1.2;
+
+// Daily commitments above this aren't proposed
+const MAX_POMODOROS_PER_DAY = 8;
+
+export class RescheduleService {
+  private db = getDB();
+
+  /**
+   * Proposals for every slipping quest, or none when the user has reschedules turned off
+   */
+  async getRescheduleProposals(userId: string): Promise<RescheduleProposal[]> {
+    const settings = await getSettingsService().getUserSettings(userId);
+    if (!settings.ai.suggestions.reschedules) return [];
+
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - PACE_WINDOW_DAYS * DAY_MS).toISOString();
+
+    const [quests, sessions] = await Promise.all([
+      this.db.getActiveQuests(userId),
+      this.db.sessions
+        .where("[userId+startTime]")
+        .between([userId, windowStart], [userId, `${now.toISOString()}\uffff`])
+        .filter(s => s.status === "completed")
+        .toArray(),
+    ]);
+
+    const proposals = buildRescheduleProposals({ quests, sessions, now });
+    console.log(`[Rescheduler] ${userId}: ${proposals.length} proposals`);
+    return proposals;
+  }
+
+  /**
+   * Apply one proposal to its quest
+   */
+  async applyRescheduleProposal(userId: string, proposal: RescheduleProposal): Promise<Quest> {
+    const quest = await this.db.quests.get(proposal.questId);
+    if (!quest) throw new Error("Quest not found");
+    if (quest.ownerId !== userId) throw new Error("ACCESS_DENIED: Only the owner can reschedule a quest");
+
+    const updated = applyProposal(quest, proposal);
+    updated.updatedAt = new Date().toISOString();
+
+    await this.db.quests.put(updated);
+    await this.db.queueSync({
+      operation: "update",
+      collection: "quests",
+      documentId: updated.questId,
+      data: updated,
+      priority: 7,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
+
+    console.log(`[Rescheduler] Applied ${proposal.kind} to ${quest.questId}: ${proposal.change}`);
+    return updated;
+  }
+}
+
+/**
+ * Pure detection step over already-loaded data
+ */
+export function buildRescheduleProposals(input: RescheduleInput): RescheduleProposal[] {
+  const { quests, sessions, now } = input;
+  const today = toLocalDate(now);
+
+  const dated = quests.filter(q =>
+    q.type !== "AntiQuest" &&
+    !q.isCompleted &&
+    q.dueDate &&
+    getRemainingSubtasks(q, today).length > 0
+  );
+  if (dated.length === 0) return [];
+
+  const userDailyMin = sum(sessions, s => s.actualDurationMin || 0) / PACE_WINDOW_DAYS;
+  const proposals: RescheduleProposal[] = [];
+
+  for (const quest of dated) {
+    const pomodoroMin = quest.schedule?.pomodoroDurationMin || 25;
+    const remaining = getRemainingSubtasks(quest, today);
+    const remainingPomodoros = sum(remaining, st => Math.max(1, st.estimatePomodoros || 1));
+
+    // Own pace first; otherwise an even share of the user's pace; at least one pomodoro a day
+    const questDailyMin = sum(sessions.filter(s => s.questId === quest.questId), s => s.actualDurationMin || 0) / PACE_WINDOW_DAYS;
+    const dailyMin = Math.max(pomodoroMin, questDailyMin > 0 ? questDailyMin : userDailyMin / dated.length);
+    const dailyPomodoros = dailyMin / pomodoroMin;
+
+    const daysNeeded = Math.ceil(remainingPomodoros / dailyPomodoros);
+    // Days left including today, 0 once the due date has passed
+    const daysLeft = Math.max(0, daysBetween(today, toLocalDate(new Date(quest.dueDate!))) + 1);
+    if (daysNeeded <= daysLeft) continue;
+
+    const base = { questId: quest.questId, questTitle: quest.title };
+    const pace = `${formatNumber(dailyPomodoros)} pomodoro${dailyPomodoros === 1 ? "" : "s"}/day`;
+    const reason = daysLeft === 0
+      ? `${remainingPomodoros} pomodoros left and the due date has passed.`
+      : `${remainingPomodoros} pomodoros left at ${pace} needs ${daysNeeded} days, but only ${daysLeft} remain.`;
+
+    // 1. Move the due date to when the current pace gets there
+    const newDue = addDays(today, Math.ceil(daysNeeded * DUE_DATE_BUFFER) - 1);
+    const newDueEnd = startOfLocalDate(newDue);
+    newDueEnd.setHours(23, 59, 59, 0);
+    proposals.push({
+      ...base,
+      id: `reschedule_extend_due_date_${quest.questId}`,
+      kind: "extend_due_date",
+      change: `move the due date to ${newDue}`,
+      reason,
+      dueDate: newDueEnd.toISOString(),
+    });
+
+    if (daysLeft === 0) continue;
+
+    // 2. Commit to enough pomodoros a day to still make the date
+    const pomodorosPerDay = Math.ceil(remainingPomodoros / daysLeft);
+    if (pomodorosPerDay <= MAX_POMODOROS_PER_DAY && pomodorosPerDay > quest.schedule.targetCompletionsPerCycle) {
+      proposals.push({
+        ...base,
+        id: `reschedule_adjust_schedule_${quest.questId}`,
+        kind: "adjust_schedule",
+        change: `commit to ${pomodorosPerDay} pomodoros a day`,
+        reason,
+        pomodorosPerDay,
+      });
+    }
+
+    // 3. Keep what fits before the due date (in subtask order) and defer the rest
+    const budget = Math.floor(dailyPomodoros * daysLeft);
+    let used = 0;
+    const deferred: string[] = [];
+    for (const st of remaining) {
+      const cost = Math.max(1, st.estimatePomodoros || 1);
+      if (deferred.length === 0 && used + cost <= budget) {
+        used += cost;
+      } else {
+        deferred.push(st.id);
+      }
+    }
+    if (used > 0 && deferred.length > 0) {
+      proposals.push({
+        ...base,
+        id: `reschedule_defer_subtasks_${quest.questId}`,
+        kind: "defer_subtasks",
+        change: `defer ${deferred.length} subtask${deferred.length === 1 ? "" : "s"} past the due date`,
+        reason,
+        deferSubtaskIds: deferred,
+        deferUntil: addDays(toLocalDate(new Date(quest.dueDate!)), 1),
+      });
+    }
+  }
+
+  return proposals;
+}
+
+/**
+ * The quest with the proposal's change applied (the input is not modified)
+ */
+export function applyProposal(quest: Quest, proposal: RescheduleProposal): Quest {
+  switch (proposal.kind) {
+    case "extend_due_date":
+      return { ...quest, dueDate: proposal.dueDate ?? quest.dueDate };
+    case "adjust_schedule":
+      return {
+        ...quest,
+        schedule: {
+          ...quest.schedule,
+          targetCompletionsPerCycle: proposal.pomodorosPerDay ?? quest.schedule.targetCompletionsPerCycle,
+        },
+      };
+    case "defer_subtasks": {
+      const ids = new Set(proposal.deferSubtaskIds ?? []);
+      // Deferred subtasks move to the end so the list reads in working order
+      const subtasks = quest.subtasks.map(st =>
+        ids.has(st.id) && !st.isComplete ? { ...st, deferredUntil: proposal.deferUntil ?? null } : st
+      );
+      return {
+        ...quest,
+        subtasks: [...subtasks.filter(st => !ids.has(st.id)), ...subtasks.filter(st => ids.has(st.id))],
+      };
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getRemainingSubtasks(quest: Quest, today: string): Quest["subtasks"] {
+  return quest.subtasks.filter(st => !st.isComplete && !(st.deferredUntil && st.deferredUntil > today));
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+// Dates are local days (see utils/local-date); rounding absorbs DST shifts
+function addDays(date: string, days: number): string {
+  return toLocalDate(startOfLocalDate(date, days));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((startOfLocalDate(to).getTime() - startOfLocalDate(from).getTime()) / DAY_MS);
+}
+
+// Singleton
+let _rescheduleService: RescheduleService | null = null;
+
+export function getRescheduleService() {
+  if (!_rescheduleService) _rescheduleService = new RescheduleService();
+  return _rescheduleService;
+}
@@ -1,15 +1,24 @@
 // Imports - adding necessary types and services
-import type { Quest, GMFeedback, DifficultyTier } from "../../models/Quest"; // ADDED GMFeedback, DifficultyTier
+import type { Quest, GMFeedback } from "../../models/Quest"; // ADDED GMFeedback
 import type { AgentState, PerformanceMetrics } from "../../models/AgentState"; // ADDED PerformanceMetrics
 import { getDB, IndexedDb } from "../../db/indexed-db"; // ADDED IndexedDb
-import {
-  RemoteAPI,
-  ValidationResult,
-  MinimalAgentMetrics,
-  GMValidationContext,
-} from "../../api/remote-client"; // Existing
 import { AnalyticsService } from "../analytics.service"; // ADDED
 import type { SyncOperation } from "../../models/SyncOperation"; // ADDED
+import { RetryScheduler } from "../../sync/retry-scheduler";
+import {
+  QuestValidator,
+  QuestValidationResult,
+  RemoteQuestValidator,
+  LocalQuestValidator,
+} from "./gm.validator";
+import { GMTone, getGMPersonaService, renderMessage } from "./gm.persona";
+import { getGMAnalyticsService } from "./gm.analytics";
+import { getRescheduleService } from "./gm.rescheduler";
+import { getGMActionService } from "./gm.actions";
+import { getGMQuotaService, canValidateRemotely, isPriorityQuest } from "./gm.quota";
+import { RemoteAPI } from "../../api/remote-client";
+import type { GMSuggestion as RemoteGMSuggestion, GMSuggestionAction } from "../../models/GMSuggestion";
+import type { QuestAdjustment } from "../../models/AgentState";
 
 // --- Dependency Interfaces (Minimal, since QuestService was not provided) ---
 interface IQuestService {
@@ -17,14 +26,26 @@ interface IQuestService {
   saveQuest(quest: Quest): Promise<void>;
 }
 
-// --- GM Validation Mock API Response Type ---
-interface GMValidationResult {
-  validatedDifficulty: DifficultyTier;
-  reasoning: string;
-  recommendations: string[];
-  confidence: number;
-  suggestedXPPerPomodoro: number;
-  subtaskComplexity: string;
+export interface GMSuggestion {
+  id: string;
+  text: string;
+  type: "recommendation" | "coaching" | "challenge" | "milestone" | "tip";
+  tone?: GMTone; // set on persona-rendered messages, used to learn from feedback
+  actions?: GMSuggestionAction[]; // executable via GM_ACTIONS (see gm.actions)
+  expiresAt?: string; // ISO8601; defaults to a few days after first shown
+}
+
+const BURNOUT_RISK_SCORES: Record<PerformanceMetrics["burnoutRisk"], number> = {
+  Low: 15,
+  Medium: 40,
+  High: 70,
+  Critical: 90,
+};
+
+// Validators can be swapped (e.g. in tests); defaults are the remote GM and local scoring
+interface GMValidators {
+  remote?: QuestValidator;
+  local?: QuestValidator;
 }
 
 /**
@@ -34,40 +55,71 @@ interface GMValidationResult {
  */
 export class GMService {
   private db: IndexedDb;
-  private remoteApi: RemoteAPI;
+  private remoteValidator: QuestValidator;
+  private localValidator: QuestValidator;
   private analyticsService: AnalyticsService; // ADDED
   private questService: IQuestService; // ADDED (Assumes injection)
+  private retryScheduler: RetryScheduler;
   private static QUEUE_PROCESSING_INTERVAL = 60000; // 60 seconds
 
-  constructor(analyticsService: AnalyticsService, questService: IQuestService) {
+  constructor(analyticsService: AnalyticsService, questService: IQuestService, validators: GMValidators = {}) {
     // ADDED dependencies
     this.db = getDB();
-    this.remoteApi = new RemoteAPI(); // Existing
+    this.remoteValidator = validators.remote ?? new RemoteQuestValidator(analyticsService);
+    this.localValidator = validators.local ?? new LocalQuestValidator(analyticsService, this.db);
     this.analyticsService = analyticsService; // INITIALIZED
     this.questService = questService; // INITIALIZED
+    this.retryScheduler = new RetryScheduler(this.db);
   }
 
   /**
    * Retrieves or GENERATES the current agent state based on analytics.
-   * MODIFIED: Uses AnalyticsService for real-time generation (Phase 2).
+   * Metrics and detected patterns are recomputed; coaching state is carried over.
    */
   async getAgentState(userId: string): Promise<AgentState | null> {
-    // 1. Generate fresh metrics using AnalyticsService
+    // 1. Generate fresh metrics and patterns
     const metrics: PerformanceMetrics =
       await this.analyticsService.generateAgentState(userId);
+    const detections = await getGMAnalyticsService().detectPatterns(userId);
 
-    // 2. Fetch the existing AgentState (contains historical patterns/actions)
+    // 2. Fetch the existing AgentState (contains coaching state)
     const existingState = await this.db.agentStates.get(userId);
-
-    // 3. Merge fresh metrics into the existing state or create a new one
+    const user = await this.db.users.get(userId);
+
+    // Keep the first detection time of patterns that are still present
+    const firstSeen = new Map(
+      (existingState?.detectedPatterns || []).map((p) => [p.name, p.detectedAt])
+    );
+    const detectedPatterns = detections.map(({ pattern }) => ({
+      ...pattern,
+      detectedAt: firstSeen.get(pattern.name) ?? pattern.detectedAt,
+    }));
+
+    // 3. Merge fresh metrics and patterns into the existing state or create a new one
     const agentState: AgentState = {
       userId,
       metrics,
-      detectedPatterns: existingState?.detectedPatterns || [],
+      detectedPatterns,
       lastUpdated: new Date().toISOString(),
-    } as AgentState;
+      recommendedQuestAdjustments: detections
+        .flatMap((d) => d.adjustments)
+        .sort((a, b) => a.priority - b.priority),
+      motivationalProfile: existingState?.motivationalProfile || {
+        tone: user?.agentProfile?.motivationalStyle || "neutral",
+        preferredFeedbackFrequency: "medium",
+        respondsWellTo: [],
+      },
+      pendingActions: existingState?.pendingActions || [],
+      calibration: existingState?.calibration,
+      performanceMetrics: {
+        weeklyVelocity: metrics.weeklyVelocity,
+        monthlyConsistency: metrics.monthlyConsistency,
+        burnoutRisk: BURNOUT_RISK_SCORES[metrics.burnoutRisk],
+        optimizationOpportunities: detectedPatterns.map((p) => p.detail),
+      },
+    };
 
-    // 4. Save the new state for later pattern detection/coaching
+    // 4. Save the new state for coaching
     await this.db.agentStates.put(agentState);
 
     return agentState;
@@ -104,9 +156,10 @@ export class GMService {
       collection: "gm_validation" as "gm_validation",
       documentId: questId,
       userId: userId,
-      priority: 2, // High priority
+      priority: isPriorityQuest(quest) ? 1 : 2, // High priority; Epic/Hard quests jump the line
       operation: "validate",
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     } as SyncOperation);
     console.log(`[GMService] Validation operation queued successfully in syncQueue`);
@@ -121,96 +174,66 @@ export class GMService {
    */
   async validateQuestRemote(userId: string, quest: Quest): Promise<void> {
     console.log('[GM Service] validateQuestRemote called');
-    // 1. Gather Context (Required by the RemoteAPI signature)
-    const metrics: PerformanceMetrics =
-      await this.analyticsService.generateAgentState(userId);
-
-    // 2. Get user settings for GM tone
-    const settingsService = await import('../settings.service').then(m => m.getSettingsService());
-    const userSettings = await settingsService.getUserSettings(userId);
-    const gmTone = userSettings.ai.tone;
-
-    console.log('[GM Service] User GM tone:', gmTone);
-
-    // Construct the context expected by RemoteAPI.validateQuest(quest, userContext)
-    // Remove calculatedAt from metrics before sending to backend
-    const { calculatedAt, ...minimalMetrics } = metrics;
-
-    console.log('[GM Service] Metrics after removing calculatedAt:', minimalMetrics);
 
-    const userContext: GMValidationContext = {
-      userId: userId,
-      metrics: minimalMetrics,
-      gmTone: gmTone,
-    };
-
-    // 2. Call Remote API
-    const validationResult: ValidationResult =
-      await this.remoteApi.validateQuest(quest, userContext);
-
-    console.log('[GM Service] Remote validation result:', validationResult);
-
-    // 3. Process Response
-    // Check if validation succeeded (either has status="validated" OR has suggestedDifficulty)
-    const isValidated =
-      (validationResult.status === "validated" || !validationResult.status) &&
-      validationResult.suggestedDifficulty;
-
-    if (isValidated) {
-      console.log('[GM Service] Validation successful, updating quest...');
-
-      // Update quest difficulty fields
-      const oldDifficulty = quest.difficulty.userAssigned;
-      const oldXP = quest.difficulty.xpPerPomodoro;
-
-      quest.difficulty.gmValidated = validationResult.suggestedDifficulty;
-      quest.difficulty.isLocked = true;
-      quest.difficulty.validatedAt = new Date().toISOString();
-      quest.validationStatus = "validated";
-
-      if (validationResult.suggestedXpPerPomodoro) {
-        quest.difficulty.xpPerPomodoro =
-          validationResult.suggestedXpPerPomodoro;
+    let validationResult: QuestValidationResult;
+    try {
+      validationResult = await this.remoteValidator.validate(userId, quest);
+    } catch (error) {
+      // A rejection is a verdict on the quest; network errors leave the status alone
+      if (error instanceof Error && error.message.startsWith("GM_REJECTED")) {
+        console.error('[GM Service] Validation failed:', error.message);
+        quest.validationStatus = "failed";
+        await this.db.quests.put(quest);
       }
+      throw error;
+    }
 
-      // Update GM Feedback (assuming ValidationResult contains necessary fields)
-      quest.gmFeedback = {
-        reasoning: validationResult.reasoning || "Validated remotely.",
-        recommendations: validationResult.recommendations || [],
-        confidence: validationResult.confidence || 1.0,
-        suggestedDifficulty: validationResult.suggestedDifficulty,
-        validatedAt: quest.difficulty.validatedAt,
-      } as GMFeedback;
-
-      console.log('[GM Service] ✅ Quest updated with GM validation:', {
-        questId: quest.questId,
-        questTitle: quest.title,
-        userAssigned: oldDifficulty,
-        gmValidated: quest.difficulty.gmValidated,
-        oldXP: oldXP,
-        newXP: quest.difficulty.xpPerPomodoro,
-        confidence: quest.gmFeedback.confidence,
-        isLocked: quest.difficulty.isLocked,
-        validationStatus: quest.validationStatus
-      });
+    console.log('[GM Service] Validation successful, updating quest...');
 
-      await this.db.quests.put(quest);
-      console.log('[GM Service] ✅ Quest saved to database successfully');
+    // Update quest difficulty fields
+    const oldDifficulty = quest.difficulty.userAssigned;
+    const oldXP = quest.difficulty.xpPerPomodoro;
 
-      // Verify the save
-      const verifyQuest = await this.db.quests.get(quest.questId);
-      console.log('[GM Service] 🔍 Verification - Quest in DB:', {
-        gmValidated: verifyQuest?.difficulty.gmValidated,
-        isLocked: verifyQuest?.difficulty.isLocked,
-        xpPerPomodoro: verifyQuest?.difficulty.xpPerPomodoro
-      });
-    } else {
-      // Treat remote failure (not just error) as a failure status
-      console.error('[GM Service] Validation failed, status:', validationResult.status);
-      quest.validationStatus = "failed";
-      await this.db.quests.put(quest);
-      throw new Error(`Remote validation failed: ${validationResult.status || 'No status provided'}`);
+    quest.difficulty.gmValidated = validationResult.validatedDifficulty;
+    quest.difficulty.isLocked = true;
+    quest.difficulty.validatedAt = new Date().toISOString();
+    quest.validationStatus = "validated";
+
+    if (validationResult.suggestedXPPerPomodoro) {
+      quest.difficulty.xpPerPomodoro =
+        validationResult.suggestedXPPerPomodoro;
     }
+
+    quest.gmFeedback = {
+      reasoning: validationResult.reasoning,
+      recommendations: validationResult.recommendations,
+      confidence: validationResult.confidence,
+      suggestedDifficulty: validationResult.validatedDifficulty,
+      validatedAt: quest.difficulty.validatedAt,
+    } as GMFeedback;
+
+    console.log('[GM Service] ✅ Quest updated with GM validation:', {
+      questId: quest.questId,
+      questTitle: quest.title,
+      userAssigned: oldDifficulty,
+      gmValidated: quest.difficulty.gmValidated,
+      oldXP: oldXP,
+      newXP: quest.difficulty.xpPerPomodoro,
+      confidence: quest.gmFeedback.confidence,
+      isLocked: quest.difficulty.isLocked,
+      validationStatus: quest.validationStatus
+    });
+
+    await this.db.quests.put(quest);
+    console.log('[GM Service] ✅ Quest saved to database successfully');
+
+    // Verify the save
+    const verifyQuest = await this.db.quests.get(quest.questId);
+    console.log('[GM Service] 🔍 Verification - Quest in DB:', {
+      gmValidated: verifyQuest?.difficulty.gmValidated,
+      isLocked: verifyQuest?.difficulty.isLocked,
+      xpPerPomodoro: verifyQuest?.difficulty.xpPerPomodoro
+    });
   }
 
   // --- NEW: Local Validation Pipeline (Step 3.2 - Offline Fallback) ---
@@ -226,45 +249,29 @@ export class GMService {
     if (!quest) throw new Error("Quest not found for local validation.");
 
     try {
-      // 1. Gather Context
-      const agentState: PerformanceMetrics =
-        await this.analyticsService.generateAgentState(userId);
-      const userLevel = (await this.db.users.get(userId))?.totalLevel || 1;
-
-      const validationContext = {
-        questTitle: quest.title,
-        userAssignedDifficulty: quest.difficulty.userAssigned,
-        subtaskCount: quest.subtasks.length,
-        estimatedHours: quest.timeEstimateHours || 0,
-        agentState: agentState,
-        userLevel: userLevel,
-      };
+      // 1. Score the quest on-device
+      const validationResult = await this.localValidator.validate(userId, quest);
 
-      // 2. Local Mock GM Reasoning
-      const validationResult = this.mockGMValidation(validationContext);
-
-      // 3. Update Quest Model
+      // 2. Update Quest Model
       const gmFeedback: GMFeedback = {
         reasoning: validationResult.reasoning,
         recommendations: validationResult.recommendations,
-        confidence: validationResult.confidence * 0.9, // Lower confidence for local reasoning
+        confidence: validationResult.confidence,
         suggestedDifficulty: validationResult.validatedDifficulty,
         validatedAt: new Date().toISOString(),
-        context: {
-          userLevel: userLevel,
-          subtaskComplexity: validationResult.subtaskComplexity,
-          estimatedHours: validationContext.estimatedHours,
-        },
+        context: validationResult.context,
       };
 
       quest.gmFeedback = gmFeedback;
       quest.validationStatus = "validated"; // Locally validated, ready for sync
       quest.difficulty.gmValidated = validationResult.validatedDifficulty;
-      quest.difficulty.xpPerPomodoro = validationResult.suggestedXPPerPomodoro;
+      if (validationResult.suggestedXPPerPomodoro) {
+        quest.difficulty.xpPerPomodoro = validationResult.suggestedXPPerPomodoro;
+      }
       quest.difficulty.validatedAt = gmFeedback.validatedAt;
       quest.difficulty.confidence = gmFeedback.confidence;
 
-      // 4. Save the updated Quest (using QuestService for consistency)
+      // 3. Save the updated Quest (using QuestService for consistency)
       await this.questService.saveQuest(quest);
     } catch (error) {
       console.error(`GM Local Validation failed for Quest ${questId}:`, error);
@@ -278,14 +285,18 @@ export class GMService {
 
   /**
    * Periodically processes pending GM validation requests from the sync queue.
-   * Tries remote validation first, falls back to local reasoning if remote fails.
+   * Tries remote validation first, falls back to local reasoning if remote fails
+   * or the user's daily remote quota doesn't cover the quest.
    */
   async processPendingQueue(): Promise<void> {
     console.log("[GMService] processPendingQueue() called - ENTRY POINT");
 
     try {
       console.log("[GMService] Fetching pending sync operations...");
-      const pendingOps: SyncOperation[] = await this.db.getPendingSyncOps(10);
+      const pendingOps: SyncOperation[] = await this.db.getPendingSyncOps(
+        10,
+        (op) => op.collection === "gm_validation"
+      );
       console.log(`[GMService] Found ${pendingOps.length} total pending operations:`,
         pendingOps.map(op => ({ collection: op.collection, operation: op.operation, documentId: op.documentId }))
       );
@@ -304,6 +315,10 @@ export class GMService {
         `GMService: Processing ${gmOps.length} pending validation requests.`
       );
 
+    // Remote validations left per user, read once per run
+    const quotaService = getGMQuotaService();
+    const remaining = new Map<string, number>();
+
     for (const op of gmOps) {
       const quest = await this.questService.getQuest(op.documentId);
       if (!quest) {
@@ -311,142 +326,62 @@ export class GMService {
         continue;
       }
 
-      try {
-        // 1. Attempt Remote Validation (Online path)
-        await this.validateQuestRemote(op.userId, quest);
-
-        // If successful, remove from queue
-        await this.db.removeSyncOp(op.id);
-        continue;
-      } catch (remoteError) {
-        // 2. Remote call failed (Network or Server Error) - Fallback to Local
-        console.warn(
-          `GM Remote Validation failed for ${op.documentId}. Falling back to local reasoning.`
-        );
+      if (!remaining.has(op.userId)) {
+        remaining.set(op.userId, (await quotaService.getQuota(op.userId)).remaining);
+      }
 
+      if (canValidateRemotely(quest, remaining.get(op.userId)!)) {
         try {
-          // 3. Run Local Validation (Offline path)
-          await this.runValidationPipelineLocal(op.userId, op.documentId);
+          // 1. Attempt Remote Validation (Online path)
+          await this.validateQuestRemote(op.userId, quest);
+          const quota = await quotaService.recordSuccessfulValidation(op.userId);
+          remaining.set(op.userId, quota.remaining);
 
-          // Local validation succeeded, remove op.
+          // If successful, remove from queue
           await this.db.removeSyncOp(op.id);
-        } catch (localError) {
-          // 4. Local validation also failed (Leave in queue for retry)
-          console.error(
-            `GM Local Validation also failed for ${op.documentId}.`,
-            localError
+          continue;
+        } catch (remoteError) {
+          // 2. Remote call failed (Network or Server Error) - Fallback to Local
+          console.warn(
+            `GM Remote Validation failed for ${op.documentId}. Falling back to local reasoning.`
           );
         }
+      } else {
+        console.log(
+          `[GMService] Remote quota left (${remaining.get(op.userId)}) doesn't cover ${op.documentId}. Validating locally.`
+        );
       }
-    }
-    } catch (error) {
-      console.error("[GMService] processPendingQueue() FATAL ERROR:", error);
-      throw error;
-    }
-  }
-
-  // --- NEW: Mock Logic for Validation (Simulating GM Brain) ---
 
-  /**
-   * Mocks the external Grandmaster API call and reasoning.
-   * Used for the offline fallback mechanism.
-   */
-  private mockGMValidation(context: any): GMValidationResult {
-    const { userAssignedDifficulty, subtaskCount, estimatedHours, agentState } =
-      context;
-    let validatedDifficulty: DifficultyTier = userAssignedDifficulty;
-    let confidence = 0.5;
-    let suggestedXPPerPomodoro = 50; // Base XP
-
-    let reasoning = `Initial assessment of quest "${context.questTitle}" assigned as ${userAssignedDifficulty}. `;
-    let recommendations: string[] = [];
-
-    // Rule 1: User consistently overestimating difficulty (low velocity, high quality)
-    if (
-      agentState.weeklyVelocity < 30 &&
-      agentState.averageSessionQuality > 85
-    ) {
-      if (validatedDifficulty !== "Trivial") {
-        validatedDifficulty = "Trivial";
-        confidence += 0.3;
-        reasoning +=
-          "User profile suggests consistent overestimation of task difficulty. ";
-        recommendations.push("Increase quest difficulty for higher XP gain.");
-      }
-    }
+      try {
+        // 3. Run Local Validation (Offline path)
+        await this.runValidationPipelineLocal(op.userId, op.documentId);
 
-    // Rule 2: User underestimating large quests (High difficulty, low consistency, many subtasks)
-    if (
-      subtaskCount > 25 &&
-      estimatedHours > 10 &&
-      userAssignedDifficulty !== "Epic"
-    ) {
-      if (agentState.monthlyConsistency < 60) {
-        validatedDifficulty = "Hard";
-        suggestedXPPerPomodoro = 75;
-        confidence += 0.2;
-        reasoning +=
-          "Quest size is excessive (25+ subtasks) and user consistency is low. Difficulty adjusted to Hard to reflect scope. ";
-        recommendations.push(
-          "Break this quest into smaller, manageable sub-quests."
+        // Local validation succeeded, remove op.
+        await this.db.removeSyncOp(op.id);
+      } catch (localError) {
+        // 4. Local validation also failed (Back off and retry, dead-letter when exhausted)
+        console.error(
+          `GM Local Validation also failed for ${op.documentId}.`,
+          localError
         );
+        await this.retryScheduler.recordFailure(op, localError);
       }
     }
-
-    // Rule 3: Burnout risk adjustment
-    if (
-      agentState.burnoutRisk === "High" ||
-      agentState.burnoutRisk === "Critical"
-    ) {
-      if (validatedDifficulty !== "Trivial") {
-        validatedDifficulty = "Easy";
-        confidence += 0.1;
-        reasoning += `User is currently at ${agentState.burnoutRisk} burnout risk. Difficulty temporarily lowered to Easy to reduce pressure.`;
-        recommendations.push(
-          "Consider taking a short break or reducing your active quest count."
-        );
-      }
+    } catch (error) {
+      console.error("[GMService] processPendingQueue() FATAL ERROR:", error);
+      throw error;
     }
-
-    // Final XP adjustment based on validated difficulty
-    const xpMultiplier: Record<DifficultyTier, number> = {
-      Trivial: 30,
-      Easy: 45,
-      Medium: 60,
-      Hard: 90,
-      Epic: 120,
-    };
-    suggestedXPPerPomodoro = xpMultiplier[validatedDifficulty];
-
-    return {
-      validatedDifficulty,
-      reasoning: reasoning.trim(),
-      recommendations,
-      confidence: Math.min(1.0, confidence),
-      suggestedXPPerPomodoro,
-      subtaskComplexity:
-        subtaskCount > 20 ? "High" : subtaskCount > 5 ? "Medium" : "Low",
-    };
   }
 
   /**
    * Generates a list of actionable suggestions and coaching tips for the Home View.
    * Aggregates recommendations from recent quest validations and proactive coaching.
    */
-  async getHomeSuggestions(userId: string): Promise<
-    Array<{
-      id: string;
-      text: string;
-      type: "recommendation" | "coaching" | "challenge" | "milestone" | "tip";
-    }>
-  > {
+  async getHomeSuggestions(userId: string): Promise<GMSuggestion[]> {
     const db = getDB();
     const quests = await db.quests.where("ownerId").equals(userId).toArray();
-    const suggestions: Array<{
-      id: string;
-      text: string;
-      type: "recommendation" | "coaching" | "challenge" | "milestone" | "tip";
-    }> = [];
+    const suggestions: GMSuggestion[] = [];
+    const tone = await getGMPersonaService().getTone(userId);
 
     // Threshold for recent quest validations (e.g., suggestions stay for 7 days)
     const recentValidationThreshold = new Date(
@@ -464,14 +399,17 @@ export class GMService {
         // Only show confidence if it's a valid number
         const confidenceSuffix = quest.difficulty.confidence != null
           ? ` Confidence: ${(quest.difficulty.confidence * 100).toFixed(0)}%.`
-          : ".";
-        const summaryText = `GM updated '${quest.title}' to ${
-          quest.difficulty.gmValidated
-        }${confidenceSuffix}`;
+          : "";
+        const id = `gm_summary_${quest.questId}`;
         suggestions.push({
-          id: `gm_summary_${quest.questId}`,
-          text: summaryText,
+          id,
+          text: renderMessage("validation_summary", tone, {
+            title: quest.title,
+            difficulty: quest.difficulty.gmValidated ?? quest.difficulty.userAssigned,
+            confidence: confidenceSuffix,
+          }, id),
           type: "recommendation",
+          tone,
         });
 
         // Include specific recommendations
@@ -491,15 +429,20 @@ export class GMService {
     if (agentState?.metrics) {
       const metrics = agentState.metrics;
 
-      // Burnout warning (Coaching)
+      // Burnout warning (Coaching), offering to set the least pressing quest aside
       if (
         metrics.burnoutRisk === "High" ||
         metrics.burnoutRisk === "Critical"
       ) {
+        const restQuest = getRestCandidate(quests);
         suggestions.push({
           id: "gm_coaching_burnout",
-          text: "⚠️ Burnout Risk is **HIGH**. The Grandmaster advises you to defer a non-critical quest or take a short break.",
+          text: renderMessage("burnout_warning", tone, {}, "gm_coaching_burnout"),
           type: "coaching",
+          tone,
+          actions: restQuest
+            ? [{ label: `Rest '${restQuest.title}' today`, action: "take_break", params: { questId: restQuest.questId, days: 1 } }]
+            : undefined,
         });
       }
 
@@ -510,8 +453,9 @@ export class GMService {
       ) {
         suggestions.push({
           id: "gm_coaching_declining",
-          text: `Your focus consistency is declining. Complete **one session** today to stabilize your metrics.`,
+          text: renderMessage("consistency_declining", tone, {}, "gm_coaching_declining"),
           type: "challenge",
+          tone,
         });
       }
 
@@ -522,23 +466,161 @@ export class GMService {
       ) {
         suggestions.push({
           id: "gm_milestone_high_performer",
-          text: `You're tracking at an **Elite Velocity**! Keep challenging yourself with 'Hard' quests.`,
+          text: renderMessage("high_performer", tone, {}, "gm_milestone_high_performer"),
           type: "milestone",
+          tone,
         });
       }
 
       // Streak Milestone (Milestone)
       if (metrics.streakDays > 0 && metrics.streakDays % 7 === 0) {
+        const id = `gm_milestone_streak_${metrics.streakDays}`;
         suggestions.push({
-          id: `gm_milestone_streak_${metrics.streakDays}`,
-          text: `Congratulations on a **${metrics.streakDays}-day streak**! Keep that focus going!`,
+          id,
+          text: renderMessage("streak_milestone", tone, { days: metrics.streakDays }, id),
           type: "milestone",
+          tone,
         });
       }
     }
 
-    // Deduplicate suggestions based on text if necessary (optional for this phase)
+    // 3. Concrete adjustments from detected behavior patterns
+    for (const adjustment of agentState?.recommendedQuestAdjustments || []) {
+      const id = `gm_pattern_${adjustment.actionType}_${adjustment.questId}`;
+      if (suggestions.some((s) => s.id === id)) continue;
+      suggestions.push({
+        id,
+        text: renderMessage("pattern_adjustment", tone, { action: adjustment.suggestionText }, id),
+        type: "coaching",
+        tone,
+        actions: toSuggestionActions(adjustment, quests.find((q) => q.questId === adjustment.questId)),
+      });
+    }
 
-    return suggestions;
+    // 4. XP rate proposals for open quests whose tracked effort fits another tier
+    for (const entry of agentState?.calibration?.quests || []) {
+      if (entry.proposedXpPerPomodoro === null) continue;
+      const id = `gm_calibration_${entry.questId}`;
+      suggestions.push({
+        id,
+        text: renderMessage("calibration_proposal", tone, {
+          title: entry.title,
+          reason: entry.reason,
+          xp: entry.proposedXpPerPomodoro,
+        }, id),
+        type: "recommendation",
+        tone,
+        actions: [{
+          label: `Use ${entry.proposedXpPerPomodoro} XP/pomodoro`,
+          action: "apply_calibration",
+          params: { questId: entry.questId, xpPerPomodoro: entry.proposedXpPerPomodoro },
+        }],
+      });
+    }
+
+    // 5. Reschedule proposals for quests that won't make their due date.
+    // These lead the list: they're the only suggestions that can be applied in one click.
+    const proposals = await getRescheduleService().getRescheduleProposals(userId);
+    suggestions.unshift(
+      ...proposals.map((proposal) => ({
+        id: proposal.id,
+        text: renderMessage("reschedule_proposal", tone, {
+          title: proposal.questTitle,
+          change: proposal.change,
+          reason: proposal.reason,
+        }, proposal.id),
+        type: "recommendation" as const,
+        tone,
+        actions: [{ label: "Apply", action: "apply_reschedule", params: proposal }],
+      }))
+    );
+
+    // 6. Suggestions from the remote GM, when reachable
+    suggestions.push(...(await this.getRemoteSuggestions(userId)));
+
+    // Record what's shown, hide what's been answered, rank by what this user acts on
+    return getGMActionService().trackSuggestions(userId, suggestions);
+  }
+
+  private async getRemoteSuggestions(userId: string): Promise<GMSuggestion[]> {
+    try {
+      const remote = await new RemoteAPI().getGMSuggestions(userId);
+      return remote.map(fromRemoteSuggestion);
+    } catch (error) {
+      console.warn("[GMService] Remote suggestions unavailable:", error);
+      return [];
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const REMOTE_SUGGESTION_TYPES: Record<RemoteGMSuggestion["type"], GMSuggestion["type"]> = {
+  recommendation: "recommendation",
+  nudge: "tip",
+  milestone: "milestone",
+  warning: "coaching",
+};
+
+function fromRemoteSuggestion(remote: RemoteGMSuggestion): GMSuggestion {
+  return {
+    id: `gm_remote_${remote.suggestionId}`,
+    text: remote.title ? `${remote.title}: ${remote.message}` : remote.message,
+    type: REMOTE_SUGGESTION_TYPES[remote.type] ?? "recommendation",
+    actions: remote.actions,
+    expiresAt: remote.expiresAt ?? undefined,
+  };
+}
+
+/**
+ * The executable form of a pattern adjustment, when it maps onto a GM action
+ */
+function toSuggestionActions(adjustment: QuestAdjustment, quest?: Quest): GMSuggestionAction[] | undefined {
+  const { questId, params } = adjustment;
+  switch (adjustment.actionType) {
+    case "adjust_schedule":
+      if (params.breakDurationMin) {
+        return [{ label: `Use ${params.breakDurationMin}-min breaks`, action: "adjust_schedule", params: { questId, breakDurationMin: params.breakDurationMin } }];
+      }
+      if (params.latestStartHour !== undefined) {
+        return [{ label: `Schedule before ${params.latestStartHour + 1}:00`, action: "adjust_schedule", params: { questId, latestStartHour: params.latestStartHour } }];
+      }
+      if (params.minDailySessions) {
+        return [{ label: `${params.minDailySessions} session${params.minDailySessions === 1 ? "" : "s"} a day`, action: "adjust_schedule", params: { questId, targetCompletionsPerCycle: params.minDailySessions } }];
+      }
+      if (params.defer) {
+        return [{ label: "Park it for a week", action: "take_break", params: { questId, days: 7 } }];
+      }
+      return undefined;
+    case "create_subtask":
+      return quest
+        ? [{ label: "Add a planning step", action: "add_subtask", params: { questId, title: `Break '${quest.title}' into concrete steps` } }]
+        : undefined;
+    case "reduce_difficulty":
+      return [{ label: "Lower difficulty", action: "reduce_difficulty", params: { questId } }];
+    case "rest_recommendation":
+      return [{ label: "Take a rest day", action: "take_break", params: { questId, days: 1 } }];
+    default:
+      return undefined;
   }
 }
+
+/**
+ * Lowest-priority active quest with open work and no due date in the next two days
+ */
+function getRestCandidate(quests: Quest[]): Quest | undefined {
+  const soon = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString();
+  const priorityRank = { A: 0, B: 1, C: 2 };
+  return quests
+    .filter((q) =>
+      q.type !== "AntiQuest" &&
+      !q.isCompleted &&
+      !q.isDungeon &&
+      !q.hidden &&
+      q.subtasks.some((st) => !st.isComplete) &&
+      !(q.dueDate && q.dueDate < soon)
+    )
+    .sort((a, b) => priorityRank[b.priority] - priorityRank[a.priority])[0];
+}
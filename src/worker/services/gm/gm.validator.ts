@@ -0,0 +1,318 @@
+/**
+ * GM Validators
+ * Interchangeable quest difficulty validators behind one interface
+ *
+ * RemoteQuestValidator asks the GM provider picked in the AI settings (the
+ * Ascend backend or an OpenAI-compatible model); LocalQuestValidator scores the
+ * quest on-device from its effort estimates, the user's history on similar
+ * quests (or their overall calibration factor) and their level. GMService
+ * tries remote first and falls back to local.
+ */
+
+import type { Quest, DifficultyTier, GMFeedback } from "../../models/Quest";
+import type { PerformanceMetrics } from "../../models/AgentState";
+import { getDB, IndexedDb } from "../../db/indexed-db";
+import type { GMValidationContext } from "../../api/remote-client";
+import { createGMProvider, getProviderApiKey, GMProvider } from "../../api/gm-provider";
+import type { AnalyticsService } from "../analytics.service";
+
+export interface QuestValidationResult {
+  validatedDifficulty: DifficultyTier;
+  reasoning: string;
+  recommendations: string[];
+  confidence: number; // 0-1
+  suggestedXPPerPomodoro?: number; // omitted: keep the quest's current rate
+  context?: GMFeedback["context"];
+}
+
+export interface QuestValidator {
+  readonly source: "remote" | "local";
+  validate(userId: string, quest: Quest): Promise<QuestValidationResult>;
+}
+
+type MetricsSource = Pick<AnalyticsService, "generateAgentState">;
+
+// Matches the rates QuestService assigns at creation
+export const XP_PER_POMODORO: Record<DifficultyTier, number> = {
+  Trivial: 20,
+  Easy: 40,
+  Medium: 80,
+  Hard: 150,
+  Epic: 300,
+};
+
+// Upper bound (hours of adjusted effort) for each tier; Epic is everything above Hard
+const TIER_MAX_HOURS: [DifficultyTier, number][] = [
+  ["Trivial", 1],
+  ["Easy", 3],
+  ["Medium", 8],
+  ["Hard", 20],
+];
+
+// Local reasoning never claims the certainty of the full GM
+const LOCAL_CONFIDENCE_CAP = 0.9;
+
+const LARGE_QUEST_SUBTASKS = 25;
+
+// ============================================================================
+// REMOTE
+// ============================================================================
+
+export class RemoteQuestValidator implements QuestValidator {
+  readonly source = "remote" as const;
+
+  constructor(
+    private analyticsService: MetricsSource,
+    // Fixed provider; otherwise the one in the user's AI settings
+    private provider?: GMProvider
+  ) {}
+
+  async validate(userId: string, quest: Quest): Promise<QuestValidationResult> {
+    const metrics = await this.analyticsService.generateAgentState(userId);
+    const settingsService = await import("../settings.service").then(m => m.getSettingsService());
+    const { ai } = await settingsService.getUserSettings(userId);
+    const gmTone = ai.tone;
+
+    // The backend does not accept calculatedAt
+    const { calculatedAt, ...minimalMetrics } = metrics;
+    const userContext: GMValidationContext = { userId, metrics: minimalMetrics, gmTone };
+
+    const provider = this.provider ?? createGMProvider(ai.provider, await getProviderApiKey(userId));
+    const result = await provider.validateQuest(quest, userContext);
+    console.log("[GM Validator] Remote validation result:", result);
+
+    const isValidated = (result.status === "validated" || !result.status) && result.suggestedDifficulty;
+    if (!isValidated || !result.suggestedDifficulty) {
+      throw new Error(`GM_REJECTED: Remote validation failed: ${result.status || "No status provided"}`);
+    }
+
+    return {
+      validatedDifficulty: result.suggestedDifficulty,
+      reasoning: result.reasoning || "Validated remotely.",
+      recommendations: result.recommendations || [],
+      confidence: result.confidence || 1.0,
+      suggestedXPPerPomodoro: result.suggestedXpPerPomodoro,
+    };
+  }
+}
+
+// ============================================================================
+// LOCAL
+// ============================================================================
+
+export interface LocalScoringInput {
+  quest: Quest;
+  userLevel: number;
+  metrics: Pick<PerformanceMetrics, "burnoutRisk">;
+  // Tracked time divided by estimated time, one per similar completed quest
+  historyRatios: number[];
+  // Same ratio across all recently completed quests (AgentState.calibration)
+  calibrationFactor?: number;
+}
+
+export class LocalQuestValidator implements QuestValidator {
+  readonly source = "local" as const;
+
+  constructor(
+    private analyticsService: MetricsSource,
+    private db: IndexedDb = getDB()
+  ) {}
+
+  async validate(userId: string, quest: Quest): Promise<QuestValidationResult> {
+    const metrics = await this.analyticsService.generateAgentState(userId);
+    const userLevel = (await this.db.users.get(userId))?.totalLevel || 1;
+    const historyRatios = await this.getHistoryRatios(userId, quest);
+    const calibrationFactor = (await this.db.agentStates.get(userId))?.calibration?.factor;
+
+    return scoreQuest({ quest, userLevel, metrics, historyRatios, calibrationFactor });
+  }
+
+  /**
+   * How long the user's completed quests sharing a tag actually took versus their estimate
+   */
+  private async getHistoryRatios(userId: string, quest: Quest): Promise<number[]> {
+    const tags = new Set(quest.tags);
+    if (tags.size === 0) return [];
+
+    const completed = await this.db.quests
+      .where("ownerId")
+      .equals(userId)
+      .filter(q =>
+        q.questId !== quest.questId &&
+        q.type !== "AntiQuest" &&
+        q.isCompleted &&
+        q.tags.some(tag => tags.has(tag))
+      )
+      .toArray();
+
+    const ratios: number[] = [];
+    for (const similar of completed) {
+      const estimated = estimateMinutes(similar).minutes;
+      if (estimated > 0 && similar.tracking.totalTrackedTime > 0) {
+        ratios.push(similar.tracking.totalTrackedTime / estimated);
+      }
+    }
+    return ratios;
+  }
+}
+
+/**
+ * Deterministic difficulty scoring used by LocalQuestValidator
+ */
+export function scoreQuest(input: LocalScoringInput): QuestValidationResult {
+  const { quest, userLevel, metrics, historyRatios, calibrationFactor = 1 } = input;
+  const estimate = estimateMinutes(quest);
+  const subtaskComplexity = getSubtaskComplexity(quest);
+  const reasoning: string[] = [];
+  const recommendations: string[] = [];
+
+  if (estimate.minutes === 0) {
+    // Nothing to measure: keep the user's call with low confidence
+    recommendations.push("Add subtasks with pomodoro estimates or a time estimate so the GM can judge scope.");
+    return {
+      validatedDifficulty: quest.difficulty.userAssigned,
+      reasoning: `"${quest.title}" has no effort estimates, so the assigned ${quest.difficulty.userAssigned} difficulty was kept.`,
+      recommendations,
+      confidence: 0.3,
+      suggestedXPPerPomodoro: XP_PER_POMODORO[quest.difficulty.userAssigned],
+      context: { userLevel, subtaskComplexity, estimatedHours: 0 },
+    };
+  }
+
+  reasoning.push(`Estimated effort is ${formatHours(estimate.minutes)} (${estimate.basis}).`);
+
+  // Historical velocity: scale the estimate by how long similar quests really took,
+  // or by how the user's quests in general compare to their estimates
+  const velocityRatio = clamp(historyRatios.length > 0 ? median(historyRatios) : calibrationFactor, 0.5, 2);
+  if (historyRatios.length > 0) {
+    reasoning.push(
+      `${historyRatios.length} similar completed quest${historyRatios.length === 1 ? "" : "s"} took ${velocityRatio.toFixed(1)}× their estimate.`
+    );
+  } else if (velocityRatio !== 1) {
+    reasoning.push(`Your recent quests took ${velocityRatio.toFixed(1)}× their estimate.`);
+  }
+  if (velocityRatio >= 1.3) {
+    recommendations.push(`${historyRatios.length > 0 ? "Similar quests" : "Your quests"} ran ${Math.round((velocityRatio - 1) * 100)}% over estimate; budget extra sessions.`);
+  }
+
+  // Experience: the same scope weighs less on a seasoned user
+  const levelFactor = clamp(1.2 - userLevel * 0.01, 0.8, 1.2);
+  const adjustedHours = (estimate.minutes * velocityRatio * levelFactor) / 60;
+  const validatedDifficulty = getTier(adjustedHours);
+
+  reasoning.push(
+    `Adjusted for level ${userLevel}, that is about ${adjustedHours.toFixed(1)}h of work, which fits ${validatedDifficulty}.`
+  );
+  if (validatedDifficulty !== quest.difficulty.userAssigned) {
+    reasoning.push(`Changed from the assigned ${quest.difficulty.userAssigned}.`);
+  }
+
+  if (quest.subtasks.length === 0) {
+    recommendations.push("Break this quest into subtasks to track progress.");
+  } else if (quest.subtasks.length > LARGE_QUEST_SUBTASKS || validatedDifficulty === "Epic") {
+    recommendations.push("Break this quest into smaller, manageable sub-quests.");
+  }
+  if (estimate.agreement !== null && estimate.agreement < 0.5) {
+    recommendations.push("Your subtask estimates and time estimate disagree; revisit one of them.");
+  }
+  if (metrics.burnoutRisk === "High" || metrics.burnoutRisk === "Critical") {
+    recommendations.push("Consider taking a short break or reducing your active quest count.");
+  }
+
+  // Confidence grows with the evidence available and shrinks near a tier boundary
+  let confidence = 0.3;
+  if (estimate.hasSubtaskEstimates) confidence += 0.2;
+  if (estimate.hasHoursEstimate) confidence += 0.15;
+  confidence += Math.min(0.2, historyRatios.length * 0.05);
+  if (estimate.agreement !== null) confidence *= 0.6 + 0.4 * estimate.agreement;
+  confidence *= 0.75 + 0.25 * getBoundaryMargin(adjustedHours);
+
+  return {
+    validatedDifficulty,
+    reasoning: reasoning.join(" "),
+    recommendations,
+    confidence: Math.round(Math.min(LOCAL_CONFIDENCE_CAP, confidence) * 100) / 100,
+    suggestedXPPerPomodoro: XP_PER_POMODORO[validatedDifficulty],
+    context: { userLevel, subtaskComplexity, estimatedHours: Math.round((estimate.minutes / 60) * 10) / 10 },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Effort in minutes from subtask pomodoro estimates and/or timeEstimateHours.
+ * With neither, each subtask counts as one pomodoro.
+ */
+export function estimateMinutes(quest: Quest): {
+  minutes: number;
+  basis: string;
+  hasSubtaskEstimates: boolean;
+  hasHoursEstimate: boolean;
+  agreement: number | null; // min/max of the two estimates when both exist
+} {
+  const pomodoroMin = quest.schedule?.pomodoroDurationMin || 25;
+  const pomodoros = quest.subtasks.reduce((sum, st) => sum + (st.estimatePomodoros || 0), 0);
+  const fromSubtasks = pomodoros * pomodoroMin;
+  const fromHours = (quest.timeEstimateHours || 0) * 60;
+  const hasSubtaskEstimates = fromSubtasks > 0;
+  const hasHoursEstimate = fromHours > 0;
+
+  if (hasSubtaskEstimates && hasHoursEstimate) {
+    return {
+      minutes: (fromSubtasks + fromHours) / 2,
+      basis: `${pomodoros} estimated pomodoros and ${quest.timeEstimateHours}h estimate`,
+      hasSubtaskEstimates,
+      hasHoursEstimate,
+      agreement: Math.min(fromSubtasks, fromHours) / Math.max(fromSubtasks, fromHours),
+    };
+  }
+  if (hasSubtaskEstimates) {
+    return { minutes: fromSubtasks, basis: `${pomodoros} estimated pomodoros`, hasSubtaskEstimates, hasHoursEstimate, agreement: null };
+  }
+  if (hasHoursEstimate) {
+    return { minutes: fromHours, basis: `${quest.timeEstimateHours}h estimate`, hasSubtaskEstimates, hasHoursEstimate, agreement: null };
+  }
+  return {
+    minutes: quest.subtasks.length * pomodoroMin,
+    basis: `${quest.subtasks.length} subtasks at one pomodoro each`,
+    hasSubtaskEstimates,
+    hasHoursEstimate,
+    agreement: null,
+  };
+}
+
+export function getTier(hours: number): DifficultyTier {
+  for (const [tier, maxHours] of TIER_MAX_HOURS) {
+    if (hours < maxHours) return tier;
+  }
+  return "Epic";
+}
+
+/**
+ * 0 on a tier boundary, 1 once the effort is 1.5× away from the nearest one
+ */
+function getBoundaryMargin(hours: number): number {
+  const nearest = Math.min(...TIER_MAX_HOURS.map(([, max]) => Math.abs(Math.log(hours / max))));
+  return Math.min(1, nearest / Math.log(1.5));
+}
+
+function getSubtaskComplexity(quest: Quest): "Low" | "Medium" | "High" {
+  const count = quest.subtasks.length;
+  return count > 20 ? "High" : count > 5 ? "Medium" : "Low";
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function formatHours(minutes: number): string {
+  return minutes < 60 ? `${Math.round(minutes)} min` : `${(minutes / 60).toFixed(1)}h`;
+}
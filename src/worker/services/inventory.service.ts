@@ -0,0 +1,314 @@
+/**
+ * InventoryService
+ * Loot drops, artifact equipment and runes backed by UserProfile.inventory
+ *
+ * Artifacts sit in one of three slots and boost XP while equipped, losing
+ * durability with every session until they break. Runes are armed and
+ * consumed one use per session. SessionService applies both through
+ * applySessionEffects() and records them in session.xpMultipliers.
+ */
+
+import { getDB } from '../db/indexed-db';
+import type { UserProfile, InventoryItem } from '../models/UserProfile';
+import type { Session, XPMultiplier } from '../models/Session';
+
+export type ItemRarity = InventoryItem['rarity'];
+export type ArtifactSlot = NonNullable<InventoryItem['slotType']>;
+export type LootSource = 'level_up' | 'quest_complete';
+
+export interface ItemTemplate {
+  templateId: string;
+  name: string;
+  type: InventoryItem['type'];
+  rarity: ItemRarity;
+  slotType: ArtifactSlot | null;
+  xpMultiplier: number;
+  uses: number | null; // Runes only
+  effect: string;
+}
+
+/**
+ * Slot decides what an artifact boosts:
+ * Weapon → pomodoro XP, Armor → deep focus XP, Accessory → all XP
+ */
+export const ITEM_CATALOG: ItemTemplate[] = [
+  { templateId: 'worn-quill', name: 'Worn Quill', type: 'Artifact', rarity: 'Common', slotType: 'Weapon', xpMultiplier: 1.05, uses: null, effect: '+5% pomodoro XP' },
+  { templateId: 'scholars-stylus', name: "Scholar's Stylus", type: 'Artifact', rarity: 'Rare', slotType: 'Weapon', xpMultiplier: 1.1, uses: null, effect: '+10% pomodoro XP' },
+  { templateId: 'chrono-blade', name: 'Chrono Blade', type: 'Artifact', rarity: 'Epic', slotType: 'Weapon', xpMultiplier: 1.15, uses: null, effect: '+15% pomodoro XP' },
+  { templateId: 'ascendants-edge', name: "Ascendant's Edge", type: 'Artifact', rarity: 'Legendary', slotType: 'Weapon', xpMultiplier: 1.25, uses: null, effect: '+25% pomodoro XP' },
+
+  { templateId: 'padded-cloak', name: 'Padded Cloak', type: 'Artifact', rarity: 'Common', slotType: 'Armor', xpMultiplier: 1.05, uses: null, effect: '+5% deep focus XP' },
+  { templateId: 'focus-mantle', name: 'Focus Mantle', type: 'Artifact', rarity: 'Rare', slotType: 'Armor', xpMultiplier: 1.1, uses: null, effect: '+10% deep focus XP' },
+  { templateId: 'aegis-of-stillness', name: 'Aegis of Stillness', type: 'Artifact', rarity: 'Epic', slotType: 'Armor', xpMultiplier: 1.15, uses: null, effect: '+15% deep focus XP' },
+  { templateId: 'deepwatch-plate', name: 'Deepwatch Plate', type: 'Artifact', rarity: 'Legendary', slotType: 'Armor', xpMultiplier: 1.25, uses: null, effect: '+25% deep focus XP' },
+
+  { templateId: 'copper-ring', name: 'Copper Ring', type: 'Artifact', rarity: 'Common', slotType: 'Accessory', xpMultiplier: 1.03, uses: null, effect: '+3% XP' },
+  { templateId: 'lucky-charm', name: 'Lucky Charm', type: 'Artifact', rarity: 'Rare', slotType: 'Accessory', xpMultiplier: 1.05, uses: null, effect: '+5% XP' },
+  { templateId: 'amulet-of-momentum', name: 'Amulet of Momentum', type: 'Artifact', rarity: 'Epic', slotType: 'Accessory', xpMultiplier: 1.08, uses: null, effect: '+8% XP' },
+  { templateId: 'crown-of-flow', name: 'Crown of Flow', type: 'Artifact', rarity: 'Legendary', slotType: 'Accessory', xpMultiplier: 1.12, uses: null, effect: '+12% XP' },
+
+  { templateId: 'rune-of-spark', name: 'Rune of Spark', type: 'Rune', rarity: 'Common', slotType: null, xpMultiplier: 1.1, uses: 3, effect: '+10% XP for 3 sessions' },
+  { templateId: 'rune-of-focus', name: 'Rune of Focus', type: 'Rune', rarity: 'Rare', slotType: null, xpMultiplier: 1.2, uses: 3, effect: '+20% XP for 3 sessions' },
+  { templateId: 'rune-of-fury', name: 'Rune of Fury', type: 'Rune', rarity: 'Epic', slotType: null, xpMultiplier: 1.35, uses: 2, effect: '+35% XP for 2 sessions' },
+  { templateId: 'rune-of-ascension', name: 'Rune of Ascension', type: 'Rune', rarity: 'Legendary', slotType: null, xpMultiplier: 1.5, uses: 3, effect: '+50% XP for 3 sessions' },
+];
+
+/**
+ * Drop chance and rarity weights per loot source
+ */
+export const LOOT_TABLES: Record<LootSource, { dropChance: number; weights: Record<ItemRarity, number> }> = {
+  level_up: { dropChance: 1, weights: { Common: 60, Rare: 28, Epic: 10, Legendary: 2 } },
+  quest_complete: { dropChance: 0.5, weights: { Common: 70, Rare: 22, Epic: 7, Legendary: 1 } },
+};
+
+// Durability lost per session while equipped; rarer artifacts last longer
+const DURABILITY_WEAR: Record<ItemRarity, number> = {
+  Common: 4,
+  Rare: 3,
+  Epic: 2,
+  Legendary: 1,
+};
+
+const MAX_INVENTORY_SIZE = 50;
+const MAX_LOOT_SOURCES = 500;
+
+const SLOT_KEYS: Record<ArtifactSlot, keyof UserProfile['equippedArtifacts']> = {
+  Weapon: 'weapon',
+  Armor: 'armor',
+  Accessory: 'accessory',
+};
+
+export function getItemTemplate(item: InventoryItem): ItemTemplate | undefined {
+  return ITEM_CATALOG.find(t => t.templateId === item.templateId);
+}
+
+export class InventoryService {
+  private db = getDB();
+
+  constructor(private random: () => number = Math.random) {}
+
+  async getInventory(userId: string): Promise<{
+    items: InventoryItem[];
+    equippedArtifacts: UserProfile['equippedArtifacts'];
+  }> {
+    const user = await this.getUser(userId);
+    return { items: user.inventory, equippedArtifacts: user.equippedArtifacts };
+  }
+
+  /**
+   * Equip an artifact, replacing whatever occupies its slot
+   */
+  async equipItem(userId: string, itemId: string): Promise<UserProfile> {
+    const user = await this.getUser(userId);
+    const item = this.getItem(user, itemId);
+
+    if (item.type !== 'Artifact' || !item.slotType) {
+      throw new Error('INVALID_ITEM: Only artifacts can be equipped');
+    }
+    if (item.durability !== null && item.durability <= 0) {
+      throw new Error('ITEM_BROKEN: This artifact is broken');
+    }
+
+    const slot = SLOT_KEYS[item.slotType];
+    const previous = user.equippedArtifacts[slot];
+    if (previous) {
+      const previousItem = user.inventory.find(i => i.itemId === previous);
+      if (previousItem) previousItem.isEquipped = false;
+    }
+
+    item.isEquipped = true;
+    user.equippedArtifacts[slot] = item.itemId;
+    return await this.saveUser(user);
+  }
+
+  async unequipItem(userId: string, itemId: string): Promise<UserProfile> {
+    const user = await this.getUser(userId);
+    const item = this.getItem(user, itemId);
+    this.unequip(user, item);
+    return await this.saveUser(user);
+  }
+
+  /**
+   * Arm a rune so it applies to upcoming sessions; only one rune can be armed
+   */
+  async activateRune(userId: string, itemId: string): Promise<UserProfile> {
+    const user = await this.getUser(userId);
+    const item = this.getItem(user, itemId);
+
+    if (item.type !== 'Rune') {
+      throw new Error('INVALID_ITEM: Only runes can be activated');
+    }
+
+    user.inventory.forEach(i => {
+      if (i.type === 'Rune') i.isEquipped = false;
+    });
+    item.isEquipped = true;
+    return await this.saveUser(user);
+  }
+
+  async discardItem(userId: string, itemId: string): Promise<UserProfile> {
+    const user = await this.getUser(userId);
+    const item = this.getItem(user, itemId);
+    this.unequip(user, item);
+    user.inventory = user.inventory.filter(i => i.itemId !== itemId);
+    return await this.saveUser(user);
+  }
+
+  /**
+   * Roll for loot, load and save the profile (quest completion outside a session)
+   */
+  async grantLoot(userId: string, source: LootSource, sourceRef: string): Promise<InventoryItem | null> {
+    const user = await this.db.users.get(userId);
+    if (!user || user.lootSources?.includes(sourceRef)) return null;
+
+    const item = this.rollLoot(user, source, sourceRef);
+    await this.saveUser(user); // Persist the rolled sourceRef even without a drop
+    return item;
+  }
+
+  /**
+   * Roll for loot on an in-memory profile; the caller saves it
+   * Each sourceRef is rolled at most once per user.
+   */
+  rollLoot(user: UserProfile, source: LootSource, sourceRef: string): InventoryItem | null {
+    const lootSources = user.lootSources ?? [];
+    if (lootSources.includes(sourceRef)) return null;
+    user.lootSources = [...lootSources, sourceRef].slice(-MAX_LOOT_SOURCES);
+
+    const table = LOOT_TABLES[source];
+    if (this.random() >= table.dropChance) return null;
+
+    user.inventory = user.inventory ?? [];
+    if (user.inventory.length >= MAX_INVENTORY_SIZE) {
+      console.log(`[InventoryService] Inventory full, no drop for ${sourceRef}`);
+      return null;
+    }
+
+    const rarity = this.rollRarity(table.weights);
+    const candidates = ITEM_CATALOG.filter(t => t.rarity === rarity);
+    const template = candidates[Math.floor(this.random() * candidates.length)];
+
+    const item: InventoryItem = {
+      itemId: `item_${crypto.randomUUID()}`,
+      templateId: template.templateId,
+      name: template.name,
+      type: template.type,
+      effect: template.effect,
+      rarity: template.rarity,
+      usesRemaining: template.uses,
+      durability: template.type === 'Artifact' ? 100 : null,
+      slotType: template.slotType,
+      isEquipped: false,
+      acquiredAt: new Date().toISOString(),
+    };
+
+    user.inventory.push(item);
+    console.log(`[InventoryService] ${sourceRef} dropped ${item.rarity} ${item.name}`);
+    return item;
+  }
+
+  /**
+   * XP multipliers from equipped artifacts and the armed rune for one session
+   * Wears artifacts and consumes a rune use on the in-memory profile; the caller saves it.
+   * Artifacts are recorded with source 'buff' (they are permanent buffs, Buff.source 'artifact').
+   */
+  applySessionEffects(user: UserProfile, sessionType: Session['sessionType']): XPMultiplier[] {
+    const multipliers: XPMultiplier[] = [];
+    const inventory = user.inventory ?? [];
+
+    for (const slot of Object.values(SLOT_KEYS)) {
+      const itemId = user.equippedArtifacts?.[slot];
+      const item = inventory.find(i => i.itemId === itemId);
+      const template = item && getItemTemplate(item);
+      if (!item || !template) continue;
+      if (item.durability !== null && item.durability <= 0) continue;
+
+      const applies =
+        template.slotType === 'Accessory' ||
+        (template.slotType === 'Weapon' && sessionType === 'pomodoro') ||
+        (template.slotType === 'Armor' && sessionType === 'deep_focus');
+      if (!applies) continue;
+
+      multipliers.push({ source: 'buff', value: template.xpMultiplier });
+
+      if (item.durability !== null) {
+        item.durability = Math.max(0, item.durability - DURABILITY_WEAR[item.rarity]);
+        if (item.durability === 0) {
+          console.log(`[InventoryService] ${item.name} broke`);
+          this.unequip(user, item);
+        }
+      }
+    }
+
+    const rune = inventory.find(i => i.type === 'Rune' && i.isEquipped);
+    const runeTemplate = rune && getItemTemplate(rune);
+    if (rune && runeTemplate) {
+      multipliers.push({ source: 'rune', value: runeTemplate.xpMultiplier });
+
+      rune.usesRemaining = Math.max(0, (rune.usesRemaining ?? 1) - 1);
+      if (rune.usesRemaining === 0) {
+        user.inventory = inventory.filter(i => i.itemId !== rune.itemId);
+      }
+    }
+
+    return multipliers;
+  }
+
+  private rollRarity(weights: Record<ItemRarity, number>): ItemRarity {
+    const entries = Object.entries(weights) as [ItemRarity, number][];
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = this.random() * total;
+
+    for (const [rarity, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return rarity;
+    }
+    return entries[0][0];
+  }
+
+  private unequip(user: UserProfile, item: InventoryItem): void {
+    item.isEquipped = false;
+    if (item.slotType) {
+      const slot = SLOT_KEYS[item.slotType];
+      if (user.equippedArtifacts[slot] === item.itemId) {
+        user.equippedArtifacts[slot] = null;
+      }
+    }
+  }
+
+  private getItem(user: UserProfile, itemId: string): InventoryItem {
+    const item = user.inventory.find(i => i.itemId === itemId);
+    if (!item) throw new Error('ITEM_NOT_FOUND: Item not in inventory');
+    return item;
+  }
+
+  private async getUser(userId: string): Promise<UserProfile> {
+    const user = await this.db.users.get(userId);
+    if (!user) throw new Error('User not found');
+    return user;
+  }
+
+  private async saveUser(user: UserProfile): Promise<UserProfile> {
+    await this.db.users.put(user);
+    await this.db.queueSync({
+      operation: 'update',
+      collection: 'users',
+      documentId: user.userId,
+      data: user,
+      priority: 8,
+      userId: user.userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
+    return user;
+  }
+}
+
+// Singleton
+let _inventoryService: InventoryService | null = null;
+
+export function getInventoryService() {
+  if (!_inventoryService) _inventoryService = new InventoryService();
+  return _inventoryService;
+}
@@ -76,7 +76,8 @@ export class NotificationService {
       data: notification,
       priority: 6, 
       userId: notification.userId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -0,0 +1,477 @@
+/**
+ * QuestImportService
+ * Turns Markdown checklists, Todoist exports and Trello boards into quests
+ *
+ * Import is two-step: previewImport() parses the file into drafts (nothing is
+ * written) and flags titles that already exist; importQuests() creates the
+ * drafts the user kept through QuestService.createQuest, so imported quests
+ * get the same defaults and enter the GM validation queue like hand-made ones.
+ */
+
+import { getDB } from '../db/indexed-db';
+import type { Quest, DifficultyTier } from '../models/Quest';
+import { QuestService } from './quest.service';
+
+export type QuestImportSource = 'markdown' | 'todoist-csv' | 'todoist-json' | 'trello-json';
+
+export interface QuestDraft {
+  draftId: string;
+  title: string;
+  description: string;
+  tags: string[];
+  dueDate: string | null; // ISO8601
+  priority: Quest['priority'];
+  difficulty: DifficultyTier; // Suggested from size; the user may change it
+  subtasks: { title: string; estimatePomodoros: number }[];
+  duplicateOf: string | null; // questId of an existing quest with the same title, or 'import' for a repeat within the file
+  selected: boolean;
+}
+
+export interface QuestImportPreview {
+  source: QuestImportSource;
+  drafts: QuestDraft[];
+  warnings: string[];
+}
+
+export interface QuestImportResult {
+  created: string[]; // questIds
+  skipped: number;
+  failed: { title: string; error: string }[];
+}
+
+// Parsed item before it becomes a draft
+interface ParsedQuest {
+  title: string;
+  description?: string;
+  tags?: string[];
+  dueDate?: string | null;
+  priority?: Quest['priority'];
+  subtasks: string[];
+}
+
+interface ParseResult {
+  quests: ParsedQuest[];
+  completedSkipped: number;
+}
+
+// Imports can't propose Epic: it is rate-limited (see QuestService.checkEpicQuestLimits)
+function suggestDifficulty(subtaskCount: number): DifficultyTier {
+  if (subtaskCount <= 1) return 'Easy';
+  if (subtaskCount <= 4) return 'Medium';
+  return 'Hard';
+}
+
+export class QuestImportService {
+  private db = getDB();
+  private questService = new QuestService();
+
+  /**
+   * Parse a file into quest drafts; duplicates of existing quests start deselected
+   */
+  async previewImport(userId: string, source: QuestImportSource, content: string): Promise<QuestImportPreview> {
+    const { quests, completedSkipped } = parseImport(source, content);
+    const warnings: string[] = [];
+
+    if (quests.length === 0) {
+      throw new Error('IMPORT_EMPTY: No tasks found in the file');
+    }
+    if (completedSkipped > 0) {
+      warnings.push(`${completedSkipped} completed item${completedSkipped === 1 ? ' was' : 's were'} left out.`);
+    }
+
+    const existing = await this.db.quests.where('ownerId').equals(userId).toArray();
+    const existingByTitle = new Map(existing.map(q => [normalizeTitle(q.title), q.questId]));
+    const seenInFile = new Set<string>();
+
+    const drafts = quests.map((parsed, index): QuestDraft => {
+      const key = normalizeTitle(parsed.title);
+      const duplicateOf = existingByTitle.get(key) ?? (seenInFile.has(key) ? 'import' : null);
+      seenInFile.add(key);
+
+      return {
+        draftId: `draft_${index}`,
+        title: parsed.title,
+        description: parsed.description ?? '',
+        tags: parsed.tags ?? [],
+        dueDate: parsed.dueDate ?? null,
+        priority: parsed.priority ?? 'B',
+        difficulty: suggestDifficulty(parsed.subtasks.length),
+        subtasks: parsed.subtasks.map(title => ({ title, estimatePomodoros: 1 })),
+        duplicateOf,
+        selected: duplicateOf === null,
+      };
+    });
+
+    const duplicates = drafts.filter(d => d.duplicateOf).length;
+    if (duplicates > 0) {
+      warnings.push(`${duplicates} quest${duplicates === 1 ? '' : 's'} already exist and won't be imported unless selected.`);
+    }
+
+    return { source, drafts, warnings };
+  }
+
+  /**
+   * Create the selected drafts as quests
+   * Each quest is created independently, so one failure (e.g. the Epic limit)
+   * doesn't stop the rest.
+   */
+  async importQuests(userId: string, drafts: QuestDraft[]): Promise<QuestImportResult> {
+    const settings = await this.db.settings.get(userId);
+    const pomodoro = settings?.productivity.pomodoro;
+    const result: QuestImportResult = { created: [], skipped: 0, failed: [] };
+
+    for (const draft of drafts) {
+      if (!draft.selected || !draft.title.trim()) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const quest = await this.questService.createQuest({
+          title: draft.title.trim(),
+          description: draft.description,
+          type: 'Quest',
+          difficulty: draft.difficulty,
+          priority: draft.priority,
+          isPublic: false,
+          behavior: 'progressive', // Imported projects are finite checklists
+          dueDate: draft.dueDate ?? undefined,
+          tags: draft.tags,
+          schedule: {
+            frequency: 'Daily',
+            pomodoroDurationMin: pomodoro?.focusDuration ?? 25,
+            breakDurationMin: pomodoro?.breakDuration ?? 5,
+          },
+          subtasks: draft.subtasks,
+        });
+        result.created.push(quest.questId);
+      } catch (error) {
+        result.failed.push({ title: draft.title, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    console.log(`[QuestImportService] Created ${result.created.length} quests, skipped ${result.skipped}, failed ${result.failed.length}`);
+    return result;
+  }
+}
+
+// ============================================================================
+// PARSERS
+// ============================================================================
+
+export function parseImport(source: QuestImportSource, content: string): ParseResult {
+  switch (source) {
+    case 'markdown':
+      return parseMarkdown(content);
+    case 'todoist-csv':
+      return parseTodoistCsv(content);
+    case 'todoist-json':
+      return parseTodoistJson(parseJson(content));
+    case 'trello-json':
+      return parseTrelloJson(parseJson(content));
+    default:
+      throw new Error(`IMPORT_UNSUPPORTED: ${source}`);
+  }
+}
+
+/**
+ * Headings start a quest; checklist items under them are its subtasks
+ *
+ *   ## Launch blog #writing due:2025-06-01
+ *   Notes become the description
+ *   - [ ] Pick a theme
+ *   - [x] Register domain      (completed, left out)
+ */
+function parseMarkdown(content: string): ParseResult {
+  const quests: ParsedQuest[] = [];
+  let current: ParsedQuest | null = null;
+  let completedSkipped = 0;
+
+  const ensureQuest = () => {
+    if (!current) {
+      current = { title: 'Imported checklist', subtasks: [] };
+      quests.push(current);
+    }
+    return current;
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) {
+      const { text, tags, dueDate } = extractInlineMeta(heading[1]);
+      current = { title: text, tags, dueDate, subtasks: [] };
+      quests.push(current);
+      continue;
+    }
+
+    const item = line.match(/^[-*+]\s+\[( |x|X)\]\s+(.+)$/) ?? line.match(/^\d+[.)]\s+\[( |x|X)\]\s+(.+)$/);
+    if (item) {
+      if (item[1].toLowerCase() === 'x') {
+        completedSkipped++;
+      } else {
+        ensureQuest().subtasks.push(item[2].trim());
+      }
+      continue;
+    }
+
+    // Plain bullets count as open items; other text is description
+    const bullet = line.match(/^[-*+]\s+(.+)$/);
+    if (bullet) {
+      ensureQuest().subtasks.push(bullet[1].trim());
+    } else {
+      const quest = ensureQuest();
+      quest.description = quest.description ? `${quest.description}\n${line}` : line;
+    }
+  }
+
+  return { quests: quests.filter(q => q.subtasks.length > 0 || q.description), completedSkipped };
+}
+
+/**
+ * Todoist project CSV (TYPE, CONTENT, DESCRIPTION, PRIORITY, INDENT, ..., DATE)
+ * Indent-1 tasks become quests and deeper tasks their subtasks. CSV priority
+ * 1 is the highest (p1).
+ */
+function parseTodoistCsv(content: string): ParseResult {
+  const rows = parseCsv(content);
+  if (rows.length === 0) return { quests: [], completedSkipped: 0 };
+
+  const header = rows[0].map(h => h.trim().toUpperCase());
+  const col = (name: string) => header.indexOf(name);
+  if (col('TYPE') < 0 || col('CONTENT') < 0) {
+    throw new Error('IMPORT_INVALID: Not a Todoist CSV export (missing TYPE/CONTENT columns)');
+  }
+
+  const tasks = rows.slice(1)
+    .filter(row => row[col('TYPE')]?.trim().toLowerCase() === 'task')
+    .map(row => {
+      const { text, tags } = extractInlineMeta(row[col('CONTENT')] ?? '', '@');
+      return {
+        title: text,
+        description: col('DESCRIPTION') >= 0 ? row[col('DESCRIPTION')]?.trim() : '',
+        priority: Number(row[col('PRIORITY')]) || 4,
+        indent: Number(row[col('INDENT')]) || 1,
+        tags,
+        dueDate: col('DATE') >= 0 ? toIsoDate(row[col('DATE')]) : null,
+      };
+    });
+
+  const quests: ParsedQuest[] = [];
+  for (const task of tasks) {
+    if (task.indent <= 1 || quests.length === 0) {
+      quests.push({
+        title: task.title,
+        description: task.description,
+        tags: task.tags,
+        dueDate: task.dueDate,
+        priority: mapTodoistPriority(5 - task.priority), // CSV 1..4 → API 4..1
+        subtasks: [],
+      });
+    } else {
+      quests[quests.length - 1].subtasks.push(task.title);
+    }
+  }
+
+  return { quests: withSelfSubtask(quests), completedSkipped: 0 };
+}
+
+/**
+ * Todoist REST (array of tasks) or Sync API ({ items }) JSON
+ * Parent tasks become quests and their children subtasks. API priority 4 is p1.
+ */
+function parseTodoistJson(data: any): ParseResult {
+  const items: any[] = Array.isArray(data) ? data : data?.items ?? data?.tasks;
+  if (!Array.isArray(items)) {
+    throw new Error('IMPORT_INVALID: Not a Todoist JSON export (expected a task list)');
+  }
+
+  let completedSkipped = 0;
+  const open = items.filter(item => {
+    const done = item.checked === true || item.checked === 1 || item.is_completed === true;
+    if (done) completedSkipped++;
+    return !done && typeof item.content === 'string';
+  });
+
+  const childrenOf = new Map<string, string[]>();
+  for (const item of open) {
+    if (!item.parent_id) continue;
+    const siblings = childrenOf.get(String(item.parent_id)) ?? [];
+    siblings.push(item.content.trim());
+    childrenOf.set(String(item.parent_id), siblings);
+  }
+
+  const quests: ParsedQuest[] = open
+    .filter(item => !item.parent_id)
+    .map(item => ({
+      title: item.content.trim(),
+      description: item.description ?? '',
+      tags: Array.isArray(item.labels) ? item.labels.map(String) : [],
+      dueDate: toIsoDate(item.due?.datetime ?? item.due?.date),
+      priority: mapTodoistPriority(Number(item.priority) || 1),
+      subtasks: childrenOf.get(String(item.id)) ?? [],
+    }));
+
+  return { quests: withSelfSubtask(quests), completedSkipped };
+}
+
+/**
+ * Trello board JSON export: each open card becomes a quest, its checklist
+ * items the subtasks and its labels the tags
+ */
+function parseTrelloJson(data: any): ParseResult {
+  if (!data || !Array.isArray(data.cards)) {
+    throw new Error('IMPORT_INVALID: Not a Trello board export (missing cards)');
+  }
+
+  const closedLists = new Set<string>((data.lists ?? []).filter((l: any) => l.closed).map((l: any) => l.id));
+  const checklistsByCard = new Map<string, any[]>();
+  for (const checklist of data.checklists ?? []) {
+    const list = checklistsByCard.get(checklist.idCard) ?? [];
+    list.push(checklist);
+    checklistsByCard.set(checklist.idCard, list);
+  }
+
+  let completedSkipped = 0;
+  const quests: ParsedQuest[] = [];
+
+  for (const card of data.cards) {
+    if (card.closed || closedLists.has(card.idList) || typeof card.name !== 'string') continue;
+    if (card.dueComplete) {
+      completedSkipped++;
+      continue;
+    }
+
+    const subtasks: string[] = [];
+    for (const checklist of checklistsByCard.get(card.id) ?? []) {
+      const items = [...(checklist.checkItems ?? [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0));
+      for (const item of items) {
+        if (item.state === 'complete') {
+          completedSkipped++;
+        } else {
+          subtasks.push(String(item.name).trim());
+        }
+      }
+    }
+
+    quests.push({
+      title: card.name.trim(),
+      description: card.desc ?? '',
+      tags: (card.labels ?? []).map((l: any) => l.name || l.color).filter(Boolean),
+      dueDate: toIsoDate(card.due),
+      subtasks,
+    });
+  }
+
+  return { quests: withSelfSubtask(quests), completedSkipped };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseJson(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error('IMPORT_INVALID: File is not valid JSON');
+  }
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (inQuotes) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(cell => cell.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim())) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Pull #tags (or @labels) and due:YYYY-MM-DD out of a title
+ */
+function extractInlineMeta(raw: string, tagPrefix: '#' | '@' = '#'): { text: string; tags: string[]; dueDate: string | null } {
+  const tags: string[] = [];
+  let dueDate: string | null = null;
+
+  const text = raw
+    .replace(/\bdue:(\d{4}-\d{2}-\d{2})\b/i, (_m, date) => {
+      dueDate = toIsoDate(date);
+      return '';
+    })
+    .replace(new RegExp(`(^|\\s)\\${tagPrefix}([\\w-]+)`, 'g'), (_m, space, tag) => {
+      tags.push(tag);
+      return space;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { text: text || raw.trim(), tags, dueDate };
+}
+
+// Only absolute dates: Todoist CSV also holds recurrence text like "every day"
+function toIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value.trim())) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Todoist API priority: 4 = p1 (urgent) … 1 = p4 (default)
+function mapTodoistPriority(apiPriority: number): Quest['priority'] {
+  if (apiPriority >= 4) return 'A';
+  if (apiPriority >= 2) return 'B';
+  return 'C';
+}
+
+// A single task with no children still needs something to work on
+function withSelfSubtask(quests: ParsedQuest[]): ParsedQuest[] {
+  return quests
+    .filter(q => q.title)
+    .map(q => (q.subtasks.length > 0 ? q : { ...q, subtasks: [q.title] }));
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Singleton
+let _questImportService: QuestImportService | null = null;
+
+export function getQuestImportService() {
+  if (!_questImportService) _questImportService = new QuestImportService();
+  return _questImportService;
+}
@@ -10,6 +10,10 @@ import { AuthService } from "./auth.service";
 import { GMService } from "./gm/gm.service"; //
 import { AnalyticsService } from "./analytics.service"; //
 import { ActivityFeedService } from "./activity-feed.service";
+import { getInventoryService } from "./inventory.service";
+import { getTrackService } from "./track.service";
+import { getAchievementService } from "./achievement.service";
+import { getDungeonService } from "./dungeon.service";
 
 export class QuestService {
   private db = getDB();
@@ -91,7 +95,8 @@ export class QuestService {
       data: quest, // Sending the full object for consistency
       priority: 7,
       userId: quest.ownerId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
   }
@@ -147,6 +152,18 @@ export class QuestService {
         };
     }
 
+    // Re-classify track alignment when the text, tags or the user's override changed
+    if (
+      updatedQuest.type !== 'AntiQuest' &&
+      (updates.title !== undefined || updates.description !== undefined ||
+        updates.tags !== undefined || updates.trackAlignmentOverride !== undefined)
+    ) {
+      const userProfile = await this.db.users.get(quest.ownerId);
+      if (userProfile) {
+        updatedQuest.isTrackAligned = getTrackService().isAligned(updatedQuest, userProfile.specializationTrack);
+      }
+    }
+
     // Save the updated quest locally and queue for sync
     await this.saveQuest(updatedQuest);
 
@@ -211,7 +228,8 @@ export class QuestService {
       data: quest,
       priority: 6,
       userId: quest.ownerId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -263,7 +281,8 @@ export class QuestService {
       data: comment,
       priority: 6,
       userId: comment.userId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -283,10 +302,16 @@ export class QuestService {
 
   /**
    * Join a guild/dungeon quest
+   * Dungeons also get a progress row for the new member (see DungeonService)
+   */
   async joinQuest(userId: string, questId: string): Promise<Quest> {
     const quest = await this.db.quests.get(questId);
     if (!quest) throw new Error("Quest not found");
 
+    if (quest.isDungeon) {
+      return (await getDungeonService().joinDungeon(userId, questId)).quest;
+    }
+
     if (!quest.members.includes(userId)) {
       quest.members.push(userId);
     }
@@ -301,13 +326,13 @@ export class QuestService {
       data: quest,
       priority: 7,
       userId: quest.ownerId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
     return quest;
   }
-  }
 
   /**
    * Create a new quest with full configuration
@@ -480,7 +505,7 @@ export class QuestService {
     // Check track alignment
     const userProfile = await this.db.users.get(userId);
     if (userProfile) {
-      quest.isTrackAligned = this.isQuestAlignedWithTrack(
+      quest.isTrackAligned = getTrackService().isAligned(
         quest,
         userProfile.specializationTrack
       );
@@ -491,6 +516,10 @@ export class QuestService {
     await this.db.quests.add(quest);
     console.log(`[QuestService] Quest saved to database: ${questId}`);
 
+    if (isDungeon) {
+      await getDungeonService().ensureMemberProgress(questId, userId);
+    }
+
     // Create sync operation
     console.log(`[QuestService] Creating sync operation...`);
     await this.db.queueSync({
@@ -500,7 +529,8 @@ export class QuestService {
       data: quest,
       priority: 7,
       userId: quest.ownerId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
     console.log(`[QuestService] Sync operation queued`);
@@ -556,28 +586,6 @@ export class QuestService {
     return xpMap[difficulty as keyof typeof xpMap] || 100;
   }
 
-  /**
-   * Check if quest aligns with user's specialization track
-   */
-  private isQuestAlignedWithTrack(
-    quest: Quest,
-    track: "Architect" | "Scholar" | "Vanguard"
-  ): boolean {
-    // Simple heuristic based on tags
-    const trackKeywords = {
-      Architect: ["build", "design", "create", "develop", "code", "system"],
-      Scholar: ["learn", "study", "research", "read", "analyze", "understand"],
-      Vanguard: ["lead", "manage", "organize", "plan", "coordinate", "execute"],
-    };
-
-    const keywords = trackKeywords[track];
-    const questText = `${quest.title} ${quest.description} ${quest.tags.join(
-      " "
-    )}`.toLowerCase();
-
-    return keywords.some((keyword) => questText.includes(keyword));
-  }
-
   /**
    * Toggle subtask completion and check if quest should be marked complete
    */
@@ -651,10 +659,21 @@ export class QuestService {
       data: quest,
       priority: 7,
       userId: quest.ownerId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
+    if (quest.isDungeon) {
+      const userId = await this.authService.getCurrentUserId();
+      await getDungeonService().recordSubtaskCompletion(questId, subtaskId, userId, !wasComplete);
+    }
+
+    if (questJustCompleted) {
+      await getInventoryService().grantLoot(quest.ownerId, 'quest_complete', `quest_complete:${questId}`);
+      await getAchievementService().evaluate(quest.ownerId, 'quest_complete');
+    }
+
     return { quest, questJustCompleted };
   }
 
@@ -693,7 +712,8 @@ export class QuestService {
       data: { subtasks: quest.subtasks },
       priority: 7,
       userId: quest.ownerId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -744,7 +764,8 @@ export class QuestService {
       data: null,
       priority: 9,
       userId: quest.ownerId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
   }
@@ -780,7 +801,8 @@ export class QuestService {
       data: { hidden: updatedQuest.hidden },
       priority: 7,
       userId: quest.ownerId,
-      retries: 0,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
@@ -0,0 +1,321 @@
+/**
+ * RankService
+ * Rank points (RP) and the Bronze I → Ascendant grade ladder
+ *
+ * Sessions award RP by type and quality, RP decays after a few inactive
+ * days, and the grade only moves at the weekly evaluation: at most one
+ * step per week, recorded in rankHistory.
+ */
+
+import { getDB } from '../db/indexed-db';
+import type { UserProfile } from '../models/UserProfile';
+import type { Session } from '../models/Session';
+import type { RankHistoryEntry } from '../models/RankHistory';
+import { NotificationService } from './notification.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Grades from lowest to highest with the RP needed to be promoted into them
+ */
+export const GRADES: { name: string; minRP: number }[] = [
+  { name: 'Bronze I', minRP: 0 },
+  { name: 'Bronze II', minRP: 100 },
+  { name: 'Bronze III', minRP: 250 },
+  { name: 'Silver I', minRP: 450 },
+  { name: 'Silver II', minRP: 700 },
+  { name: 'Silver III', minRP: 1000 },
+  { name: 'Gold I', minRP: 1400 },
+  { name: 'Gold II', minRP: 1900 },
+  { name: 'Gold III', minRP: 2500 },
+  { name: 'Platinum I', minRP: 3200 },
+  { name: 'Platinum II', minRP: 4000 },
+  { name: 'Platinum III', minRP: 5000 },
+  { name: 'Ascendant', minRP: 6500 },
+];
+
+// RP for a full-quality pomodoro; deep focus earns the same per-minute rate × rpRateMultiplier
+const POMODORO_RP = 10;
+const POMODORO_MINUTES = 25;
+const MIN_SESSION_MINUTES = 2;
+
+// Demotion only once RP drops this far below the current grade's threshold
+const DEMOTION_BUFFER = 0.1;
+
+// Inactive days before decay starts, and the share of RP lost per further day
+const DECAY_GRACE_DAYS = 3;
+const DECAY_RATE = 0.02;
+
+export interface RankSummary {
+  grade: string;
+  rankPoints: number;
+  currentMinRP: number;
+  nextGrade: string | null;
+  nextMinRP: number | null;
+  weekRpEarned: number;
+  weekRpDecayed: number;
+  history: RankHistoryEntry[]; // newest first
+}
+
+export class RankService {
+  private db = getDB();
+
+  /**
+   * Award RP for a completed session; mutates the profile and returns the RP
+   */
+  awardSessionRP(
+    user: UserProfile,
+    session: Pick<Session, 'sessionType'>,
+    actualDurationMin: number,
+    qualityScore: number,
+    rpRateMultiplier: number
+  ): number {
+    const rp = calculateSessionRP(session.sessionType, actualDurationMin, qualityScore, rpRateMultiplier);
+    if (rp <= 0) return 0;
+
+    const state = rollWeek(user, new Date());
+    user.rankPoints = (user.rankPoints ?? 0) + rp;
+    user.rankState = { ...state, weekRpEarned: state.weekRpEarned + rp };
+    return rp;
+  }
+
+  /**
+   * Apply inactivity decay up to `today`; mutates the profile and returns the RP lost
+   * Idempotent per day: days already decayed are tracked in rankState.lastDecayDate.
+   */
+  applyDecay(user: UserProfile, today = toDateString(new Date())): number {
+    const lastActive = user.streakData?.lastActivityDate;
+    if (!lastActive) return 0;
+
+    const state = rollWeek(user, new Date(Date.parse(today)));
+
+    const decayFrom = maxDate(addDays(lastActive, DECAY_GRACE_DAYS), state.lastDecayDate ?? '');
+    let days = Math.round((Date.parse(today) - Date.parse(decayFrom)) / DAY_MS);
+    if (days <= 0) return 0;
+
+    let rp = user.rankPoints ?? 0;
+    const before = rp;
+    while (days-- > 0 && rp > 0) {
+      rp -= Math.max(1, Math.floor(rp * DECAY_RATE));
+    }
+    rp = Math.max(0, rp);
+
+    user.rankPoints = rp;
+    user.rankState = { ...state, lastDecayDate: today, weekRpDecayed: state.weekRpDecayed + (before - rp) };
+    return before - rp;
+  }
+
+  /**
+   * Apply decay and, once per week, evaluate last week's grade change
+   * Called by the background rank job; safe to run as often as it likes.
+   */
+  async processUser(userId: string): Promise<RankHistoryEntry | null> {
+    const user = await this.db.users.get(userId);
+    if (!user) return null;
+
+    const now = new Date();
+    user.rankState = rollWeek(user, now);
+    const decayed = this.applyDecay(user);
+
+    const weekStart = addDays(getWeekStart(now), -7);
+    const entryId = `${userId}-${weekStart}`;
+    const entry = (await this.db.rankHistory.get(entryId)) ? null : this.evaluateWeek(user, weekStart);
+
+    if (decayed === 0 && !entry) return null;
+
+    await this.db.users.put(user);
+    await this.db.queueSync({
+      operation: 'update',
+      collection: 'users',
+      documentId: userId,
+      data: user,
+      priority: 8,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
+
+    if (entry) {
+      await this.db.rankHistory.put(entry);
+      console.log(`[RankService] ${userId} week of ${weekStart}: ${entry.change} (${entry.fromGrade} → ${entry.toGrade})`);
+      if (entry.change !== 'held') {
+        await new NotificationService().createNotification(
+          userId,
+          'milestone',
+          entry.change === 'promoted' ? `Promoted to ${entry.toGrade}` : `Demoted to ${entry.toGrade}`,
+          `You finished last week with ${entry.rankPoints} RP (+${entry.rpEarned} earned, -${entry.rpDecayed} decayed).`,
+          undefined,
+          entry.change === 'promoted' ? 'normal' : 'high'
+        );
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Grade, RP progress and evaluation history for the progress views
+   */
+  async getRankSummary(userId: string): Promise<RankSummary> {
+    const user = await this.db.users.get(userId);
+    if (!user) throw new Error('User not found');
+
+    const index = getGradeIndex(user.grade);
+    const next = GRADES[index + 1] ?? null;
+    const state = rollWeek(user, new Date());
+    const history = await this.db.rankHistory
+      .where('[userId+weekStart]')
+      .between([userId, ''], [userId, '\uffff'])
+      .reverse()
+      .toArray();
+
+    return {
+      grade: GRADES[index].name,
+      rankPoints: user.rankPoints ?? 0,
+      currentMinRP: GRADES[index].minRP,
+      nextGrade: next?.name ?? null,
+      nextMinRP: next?.minRP ?? null,
+      weekRpEarned: state.weekRpEarned,
+      weekRpDecayed: state.weekRpDecayed,
+      history,
+    };
+  }
+
+  /**
+   * Move the grade at most one step based on the week's snapshot; mutates the profile
+   * Counters of the current week are left alone, so sessions completed before
+   * the job runs still count towards next week's evaluation.
+   */
+  private evaluateWeek(user: UserProfile, weekStart: string): RankHistoryEntry {
+    const lastWeek = getRankState(user).lastWeek;
+    const week = lastWeek?.weekStart === weekStart
+      ? lastWeek
+      : { weekStart, rpEarned: 0, rpDecayed: 0, rankPoints: user.rankPoints ?? 0 };
+    const fromGrade = GRADES[getGradeIndex(user.grade)].name;
+    const toGrade = evaluateGrade(fromGrade, week.rankPoints);
+    const fromIndex = getGradeIndex(fromGrade);
+    const toIndex = getGradeIndex(toGrade);
+
+    user.grade = toGrade;
+
+    return {
+      id: `${user.userId}-${weekStart}`,
+      userId: user.userId,
+      weekStart,
+      evaluatedAt: new Date().toISOString(),
+      fromGrade,
+      toGrade,
+      change: toIndex > fromIndex ? 'promoted' : toIndex < fromIndex ? 'demoted' : 'held',
+      rankPoints: week.rankPoints,
+      rpEarned: week.rpEarned,
+      rpDecayed: week.rpDecayed,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * RP for one session: quality ≥ 80 earns a bonus, below 50 earns half
+ */
+export function calculateSessionRP(
+  sessionType: Session['sessionType'],
+  actualDurationMin: number,
+  qualityScore: number,
+  rpRateMultiplier: number
+): number {
+  if (actualDurationMin < MIN_SESSION_MINUTES) return 0;
+
+  const base = sessionType === 'pomodoro'
+    ? POMODORO_RP
+    : actualDurationMin * (POMODORO_RP / POMODORO_MINUTES) * rpRateMultiplier;
+  const qualityFactor = qualityScore >= 80 ? 1.25 : qualityScore >= 50 ? 1 : 0.5;
+  return Math.round(base * qualityFactor);
+}
+
+/**
+ * The grade after a weekly evaluation: one step up if RP reaches the next
+ * threshold, one step down if RP fell below the current one minus the buffer
+ */
+export function evaluateGrade(grade: string, rankPoints: number): string {
+  const index = getGradeIndex(grade);
+  const next = GRADES[index + 1];
+  if (next && rankPoints >= next.minRP) return next.name;
+  if (index > 0 && rankPoints < GRADES[index].minRP * (1 - DEMOTION_BUFFER)) return GRADES[index - 1].name;
+  return GRADES[index].name;
+}
+
+/**
+ * Ladder position of a grade; legacy values ('Bronze') map to their first tier
+ */
+function getGradeIndex(grade: string): number {
+  const exact = GRADES.findIndex(g => g.name === grade);
+  if (exact >= 0) return exact;
+  const tier = GRADES.findIndex(g => g.name.split(' ')[0] === grade?.split(' ')[0]);
+  return Math.max(0, tier);
+}
+
+type RankState = NonNullable<UserProfile['rankState']>;
+
+function getRankState(user: UserProfile): RankState {
+  return user.rankState ?? { lastDecayDate: null, weekRpEarned: 0, weekRpDecayed: 0 };
+}
+
+/**
+ * Rank state with its counters moved to the week containing `now`
+ * Crossing a week boundary freezes the finished week in lastWeek, keyed by its
+ * weekStart, so the weekly evaluation sees the same numbers whenever it runs
+ */
+function rollWeek(user: UserProfile, now: Date): RankState {
+  const state = getRankState(user);
+  const weekStart = getWeekStart(now);
+  if (state.weekStart === weekStart) return state;
+
+  // Counters saved before weekStart was tracked belong to the last unevaluated week
+  const previousWeekStart = addDays(weekStart, -7);
+  const endsPreviousWeek = (state.weekStart ?? previousWeekStart) === previousWeekStart;
+
+  return {
+    ...state,
+    weekStart,
+    weekRpEarned: 0,
+    weekRpDecayed: 0,
+    lastWeek: {
+      weekStart: previousWeekStart,
+      rpEarned: endsPreviousWeek ? state.weekRpEarned : 0,
+      rpDecayed: endsPreviousWeek ? state.weekRpDecayed : 0,
+      rankPoints: user.rankPoints ?? 0,
+    },
+  };
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(date) + days * DAY_MS));
+}
+
+function maxDate(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+/**
+ * Monday (UTC) of the week containing `date`
+ */
+function getWeekStart(date: Date): string {
+  const day = date.getUTCDay(); // 0 = Sunday
+  return addDays(toDateString(date), -((day + 6) % 7));
+}
+
+// Singleton
+let _rankService: RankService | null = null;
+
+export function getRankService() {
+  if (!_rankService) _rankService = new RankService();
+  return _rankService;
+}
@@ -83,7 +83,7 @@ export class SeedService {
       isPublic: true,
       joinDate: new Date().toISOString(), // new Date(Date.now() - 30 * 86400000).toISOString(), // 30 days ago
       specializationTrack: 'Architect',
-      grade: 'Bronze',
+      grade: 'Bronze I',
       rankPoints: 0, // 1250,
       
       inventory: [],
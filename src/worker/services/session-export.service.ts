@@ -0,0 +1,220 @@
+/**
+ * SessionExportService
+ * Exports session history as CSV (spreadsheets) or iCalendar (calendar apps)
+ */
+
+import { getDB } from '../db/indexed-db';
+import { toLocalDate, startOfLocalDate } from '../utils/local-date';
+import type { Session } from '../models/Session';
+import type { Quest } from '../models/Quest';
+
+export interface SessionExportOptions {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  questIds?: string[]; // Empty or omitted = all quests
+  tags?: string[]; // Matches quest or session tags; empty or omitted = all
+}
+
+interface ExportRow {
+  session: Session;
+  quest: Quest | undefined;
+  subtaskTitle: string;
+}
+
+const CSV_COLUMNS = [
+  'Date',
+  'Start',
+  'End',
+  'Quest',
+  'Subtask',
+  'Type',
+  'Status',
+  'Planned (min)',
+  'Actual (min)',
+  'Pauses',
+  'Paused (min)',
+  'Interruptions',
+  'Quality',
+  'XP',
+  'Tags',
+];
+
+export class SessionExportService {
+  private db = getDB();
+
+  /**
+   * Finished sessions (completed or abandoned) as CSV, oldest first
+   */
+  async exportCsv(userId: string, options: SessionExportOptions): Promise<string> {
+    const rows = await this.getExportRows(userId, options);
+    const lines = [CSV_COLUMNS.map(toCsvCell).join(',')];
+
+    for (const { session, quest, subtaskTitle } of rows) {
+      const pausedSec = session.pauseEvents.reduce((sum, p) => sum + (p.durationSec || 0), 0);
+      lines.push([
+        toLocalDate(new Date(session.startTime)),
+        session.startTime,
+        getEndTime(session),
+        quest?.title ?? 'Unknown Quest',
+        subtaskTitle,
+        session.sessionType,
+        session.status,
+        session.sessionType === 'pomodoro' ? session.plannedDurationMin : '',
+        Math.round(session.actualDurationMin * 10) / 10,
+        session.pauseEvents.length,
+        Math.round(pausedSec / 6) / 10,
+        session.interruptions.length,
+        session.quality?.score ?? '',
+        session.xpEarned,
+        getTags(session, quest).join('; '),
+      ].map(toCsvCell).join(','));
+    }
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Completed sessions as an iCalendar file, one VEVENT per pomodoro or deep-focus block
+   */
+  async exportIcs(userId: string, options: SessionExportOptions): Promise<string> {
+    const rows = (await this.getExportRows(userId, options))
+      .filter(({ session }) => session.status === 'completed');
+    const stamp = toIcsDate(new Date().toISOString());
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Ascend//Session Export//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+    ];
+
+    for (const { session, quest, subtaskTitle } of rows) {
+      const questTitle = quest?.title ?? 'Unknown Quest';
+      const typeLabel = session.sessionType === 'deep_focus' ? 'Deep focus' : 'Pomodoro';
+      const description = [
+        `${typeLabel}: ${Math.round(session.actualDurationMin)} min`,
+        session.sessionType === 'pomodoro' ? `Planned: ${session.plannedDurationMin} min` : null,
+        `Pauses: ${session.pauseEvents.length}`,
+        `Quality: ${session.quality?.score ?? 0}`,
+        `XP: +${session.xpEarned}`,
+        session.notes ? `Notes: ${session.notes}` : null,
+      ].filter(Boolean).join('\n');
+      const tags = getTags(session, quest);
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${session.sessionId}@ascend`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${toIcsDate(session.startTime)}`,
+        `DTEND:${toIcsDate(getEndTime(session))}`,
+        `SUMMARY:${escapeIcsText(subtaskTitle ? `${questTitle}: ${subtaskTitle}` : questTitle)}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        ...(tags.length > 0 ? [`CATEGORIES:${tags.map(escapeIcsText).join(',')}`] : []),
+        'TRANSP:OPAQUE',
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Finished sessions in range matching the quest/tag filters, with their quest
+   */
+  private async getExportRows(userId: string, options: SessionExportOptions): Promise<ExportRow[]> {
+    const { startDate, endDate, questIds = [], tags = [] } = options;
+    if (startDate > endDate) {
+      throw new Error('INVALID_RANGE: startDate must not be after endDate');
+    }
+
+    // The dates are local days; UTC start times sort naturally between their
+    // local-midnight bounds, with the day after endDate excluded
+    const from = startOfLocalDate(startDate).toISOString();
+    const until = startOfLocalDate(endDate, 1).toISOString();
+    const sessions = await this.db.sessions
+      .where('[userId+startTime]')
+      .between([userId, from], [userId, until], true, false)
+      .filter(s => s.status === 'completed' || s.status === 'abandoned')
+      .toArray();
+
+    const questCache = new Map<string, Quest | undefined>();
+    const rows: ExportRow[] = [];
+
+    for (const session of sessions) {
+      if (questIds.length > 0 && !questIds.includes(session.questId)) continue;
+
+      if (!questCache.has(session.questId)) {
+        questCache.set(session.questId, await this.db.quests.get(session.questId));
+      }
+      const quest = questCache.get(session.questId);
+
+      if (tags.length > 0 && !getTags(session, quest).some(tag => tags.includes(tag))) continue;
+
+      const subtask = quest?.subtasks.find(st => st.id === session.subtaskId);
+      rows.push({ session, quest, subtaskTitle: subtask?.title ?? session.notes ?? '' });
+    }
+
+    return rows.sort((a, b) => a.session.startTime.localeCompare(b.session.startTime));
+  }
+}
+
+// ============================================================================
+// FORMAT HELPERS
+// ============================================================================
+
+function getTags(session: Session, quest: Quest | undefined): string[] {
+  return Array.from(new Set([...(quest?.tags ?? []), ...(session.tags ?? [])]));
+}
+
+function getEndTime(session: Session): string {
+  if (session.endTime) return session.endTime;
+  const start = new Date(session.startTime).getTime();
+  return new Date(start + session.actualDurationMin * 60 * 1000).toISOString();
+}
+
+/**
+ * Quote a CSV cell (RFC 4180); text starting with a formula character is
+ * prefixed with ' so spreadsheets don't evaluate it
+ */
+function toCsvCell(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * ISO8601 → iCalendar UTC date-time (20250115T093000Z)
+ */
+function toIcsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 characters (RFC 5545 §3.1)
+ */
+function foldIcsLine(line: string): string {
+  if (line.length <= 75) return line;
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(' ' + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+}
+
+// Singleton
+let _sessionExportService: SessionExportService | null = null;
+
+export function getSessionExportService() {
+  if (!_sessionExportService) _sessionExportService = new SessionExportService();
+  return _sessionExportService;
+}
@@ -4,11 +4,17 @@
  */
 
 import { getDB } from '../db/indexed-db';
-import type { Session, PauseEvent } from '../models/Session';
-import type { UserProfile } from '../models/UserProfile';
+import type { Session, PauseEvent, XPMultiplier } from '../models/Session';
+import type { UserProfile, InventoryItem } from '../models/UserProfile';
 import type { Quest } from '../models/Quest';
 import { currentLevelFromExp } from '../utils/level-and-xp-converters';
 import { ActivityFeedService } from './activity-feed.service';
+import { getInventoryService } from './inventory.service';
+import { getBuffService } from './buff.service';
+import { getRankService } from './rank.service';
+import { getTrackService } from './track.service';
+import { getAchievementService } from './achievement.service';
+import { getDungeonService } from './dungeon.service';
 
 export class SessionService {
   private db = getDB();
@@ -65,7 +71,11 @@ export class SessionService {
       collection: 'sessions',
       documentId: session.sessionId,
       data: session,
-      priority: 9
+      priority: 9,
+      userId: session.userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
     });
 
     return session;
@@ -169,6 +179,10 @@ export class SessionService {
         documentId: deepFocusSession.sessionId,
         data: deepFocusSession,
         priority: 9,
+        userId: deepFocusSession.userId,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
       });
 
       return deepFocusSession;
@@ -188,6 +202,10 @@ export class SessionService {
       documentId: sessionId,
       data: session,
       priority: 9,
+      userId: session.userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
     });
 
     return session;
@@ -235,7 +253,11 @@ export class SessionService {
       collection: 'sessions',
       documentId: sessionId,
       data: session,
-      priority: 9
+      priority: 9,
+      userId: session.userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
     });
 
     return session;
@@ -279,7 +301,11 @@ export class SessionService {
       collection: 'sessions',
       documentId: sessionId,
       data: session,
-      priority: 9
+      priority: 9,
+      userId: session.userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
     });
 
     return session;
@@ -297,6 +323,7 @@ export class SessionService {
     xpAwarded: number;
     qualityScore: number;
     levelUp: boolean | { newLevel: number; questId: string };
+    loot: InventoryItem[];
     shouldStartBreak?: boolean; // NEW
     breakDurationMin?: number; // NEW
   }> {
@@ -322,6 +349,7 @@ export class SessionService {
 
     // Calculate XP based on session type
     let xpEarned = 0;
+    const xpMultipliers: XPMultiplier[] = [];
 
     // Anti-abuse: No XP for sessions under 2 minutes (reduced for testing)
     const isValidSession = actualDurationMin >= 2;
@@ -333,10 +361,13 @@ export class SessionService {
 
       // Apply additional multipliers
       if (quest.isTrackAligned) {
-        xpEarned = Math.floor(xpEarned * 1.1);
+        const alignedMultiplier = getTrackService().getAlignedMultiplier(userProfile);
+        xpEarned = Math.floor(xpEarned * alignedMultiplier);
+        xpMultipliers.push({ source: 'track_aligned', value: alignedMultiplier });
       }
       if (quest.isDungeon) {
         xpEarned = Math.floor(xpEarned * 1.5);
+        xpMultipliers.push({ source: 'dungeon', value: 1.5 });
       }
     } else if (session.sessionType === 'deep_focus' && isValidSession) {
       // Deep focus XP calculation
@@ -347,15 +378,39 @@ export class SessionService {
       // Apply dungeon multiplier only (no track alignment for deep focus)
       if (quest.isDungeon) {
         xpEarned = Math.floor(xpEarned * 1.5);
+        xpMultipliers.push({ source: 'dungeon', value: 1.5 });
       }
     }
     // Break sessions don't earn XP
 
+    // Track perks, equipped artifacts and the armed rune (wears/consumes them
+    // on userProfile), then active buffs and the debuffs that apply to this quest
+    const inventoryService = getInventoryService();
+    if (xpEarned > 0) {
+      const modifiers = [
+        ...getTrackService().getPerkModifiers(userProfile, session.sessionType),
+        ...inventoryService.applySessionEffects(userProfile, session.sessionType),
+        ...getBuffService().getXPModifiers(userProfile, quest.questId),
+      ];
+      for (const multiplier of modifiers) {
+        xpEarned = Math.floor(xpEarned * multiplier.value);
+        xpMultipliers.push(multiplier);
+      }
+    }
+
     // Update session
     session.status = 'completed';
     session.endTime = new Date().toISOString();
     session.actualDurationMin = actualDurationMin;
     session.xpEarned = xpEarned;
+    session.xpMultipliers = xpMultipliers;
+    session.rpEarned = getRankService().awardSessionRP(
+      userProfile,
+      session,
+      actualDurationMin,
+      qualityScore,
+      settings.productivity.deepFocus.rpRateMultiplier
+    );
     session.notes = notes || null;
     session.quality = {
       score: qualityScore,
@@ -392,6 +447,17 @@ export class SessionService {
     userProfile.experiencePoints += xpEarned;
     userProfile.totalLevel = currentLevelFromExp(userProfile.experiencePoints);
 
+    // Loot drops for quest and user level-ups
+    const loot: InventoryItem[] = [];
+    if (levelUp && typeof levelUp === 'object') {
+      const item = inventoryService.rollLoot(userProfile, 'level_up', `quest_level:${quest.questId}:${levelUp.newLevel}`);
+      if (item) loot.push(item);
+    }
+    for (let level = oldLevel + 1; level <= userProfile.totalLevel; level++) {
+      const item = inventoryService.rollLoot(userProfile, 'level_up', `user_level:${level}`);
+      if (item) loot.push(item);
+    }
+
     console.log('[SessionService] Updating user profile:', {
       userId: userProfile.userId,
       oldXP,
@@ -420,6 +486,10 @@ export class SessionService {
       documentId: userProfile.userId,
       data: userProfile,
       priority: 10,  // Critical - matches session priority
+      userId: userProfile.userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
     });
     console.log('[SessionService] ✅ User profile queued for sync');
 
@@ -434,6 +504,18 @@ export class SessionService {
       streakUpdated = true;
     }
 
+    // Attribute dungeon work to this member and re-rank the party
+    if (quest.isDungeon) {
+      await getDungeonService().recordSession(quest.questId, session.userId);
+    }
+
+    // Achievements run after the streak update so streak rules see today
+    try {
+      await getAchievementService().evaluate(session.userId, 'session');
+    } catch (error) {
+      console.error('[SessionService] ❌ Achievement evaluation failed:', error);
+    }
+
     // Queue for sync
     await this.db.queueSync({
       operation: 'update',
@@ -441,6 +523,10 @@ export class SessionService {
       documentId: sessionId,
       data: session,
       priority: 10,
+      userId: session.userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
     });
 
     await this.db.queueSync({
@@ -449,6 +535,10 @@ export class SessionService {
       documentId: quest.questId,
       data: quest,
       priority: 9,
+      userId: quest.ownerId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
     });
 
     // Determine if break should auto-start
@@ -495,6 +585,7 @@ export class SessionService {
       xpAwarded: xpEarned,
       qualityScore,
       levelUp,
+      loot,
       shouldStartBreak,
       breakDurationMin: quest.schedule.breakDurationMin, // Use quest-specific break duration
     };
@@ -1,6 +1,7 @@
 import { getDB } from '../db/indexed-db';
 import { UserSettings, DEFAULT_USER_SETTINGS } from '../models/UserSettings';
 import { AuthService } from './auth.service';
+import { getProviderApiKey, setProviderApiKey } from '../api/gm-provider';
 
 export class SettingsService {
   private db = getDB();
@@ -49,7 +50,9 @@ export class SettingsService {
       documentId: userId,
       data: updated,
       priority: 6,
-      retries: 0,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
     
@@ -67,6 +70,17 @@ export class SettingsService {
     return this.updateSettings(userId, { [section]: data } as any);
   }
 
+  /**
+   * GM provider API key (device-local, not part of the synced settings row)
+   */
+  async getProviderApiKey(userId: string): Promise<string> {
+    return getProviderApiKey(userId);
+  }
+
+  async setProviderApiKey(userId: string, apiKey: string): Promise<void> {
+    await setProviderApiKey(userId, apiKey);
+  }
+
   /**
    * Reset all settings to defaults
    */
@@ -2,21 +2,163 @@
 
 /**
  * SyncService
- * Handles core network connectivity, authentication, and communication 
+ * Handles core network connectivity, authentication, and communication
  * with the external backend API for data synchronization.
+ *
+ * A sync cycle pushes every pending op in db.syncQueue, then pulls remote
+ * changes for each local user that has cloud sync enabled. Fields edited
+ * differently on two devices are surfaced as SyncConflicts with a notification.
  */
+
+import { getDB, IndexedDb } from '../db/indexed-db';
+import { RemoteAPI } from '../api/remote-client';
+import { SyncQueue } from '../sync/sync-queue';
+import { RetryScheduler } from '../sync/retry-scheduler';
+import { NotificationService } from './notification.service';
+import type { SyncConflict } from '../models/SyncOperation';
+
+export interface SyncCycleResult {
+    skipped: boolean;
+    pushed: number;
+    failed: number;
+    deadLettered: number;
+    pulled: number;
+    conflicts: number;
+}
+
 export class SyncService {
-    
-    // Placeholder for the service that manages cloud synchronization and network events.
-    private authToken: string | null = null;
+    private db: IndexedDb;
+    private remoteApi: RemoteAPI;
+    private syncQueue: SyncQueue;
+    private retryScheduler: RetryScheduler;
+    private isSyncing = false;
+    private syncInterval: ReturnType<typeof setInterval> | null = null;
+    private static SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+    constructor(remoteApi: RemoteAPI = new RemoteAPI(), db: IndexedDb = getDB()) {
+        this.db = db;
+        this.remoteApi = remoteApi;
+        this.syncQueue = new SyncQueue(remoteApi, db);
+        this.retryScheduler = new RetryScheduler(db);
+    }
 
+    /**
+     * Start the periodic sync loop and sync on network reconnection
+     */
     start(): void {
+        if (this.syncInterval) return;
         console.log("SyncService started. Cloud synchronization loop active.");
-        // Conceptual: Here would be logic for network listeners, periodic sync, etc.
+
+        this.syncInterval = setInterval(() => {
+            this.syncNow().catch(e => console.error("[SyncService] Periodic sync failed:", e));
+        }, SyncService.SYNC_INTERVAL);
+
+        globalThis.addEventListener?.('online', () => {
+            this.syncNow().catch(e => console.error("[SyncService] Reconnect sync failed:", e));
+        });
+
+        this.syncNow().catch(e => console.error("[SyncService] Initial sync failed:", e));
+    }
+
+    /**
+     * Stop the periodic sync loop
+     */
+    stop(): void {
+        if (this.syncInterval) {
+            clearInterval(this.syncInterval);
+            this.syncInterval = null;
+        }
+    }
+
+    /**
+     * Run one push + pull cycle
+     * Skipped when offline, already syncing, or no user has cloud sync enabled
+     */
+    async syncNow(): Promise<SyncCycleResult> {
+        const result: SyncCycleResult = { skipped: true, pushed: 0, failed: 0, deadLettered: 0, pulled: 0, conflicts: 0 };
+        if (this.isSyncing || !this.isOnline()) return result;
+
+        const userIds = await this.getCloudSyncUserIds();
+        if (userIds.length === 0) return result;
+
+        this.isSyncing = true;
+        try {
+            result.skipped = false;
+
+            const pushResult = await this.syncQueue.processQueue();
+            result.pushed = pushResult.pushed;
+            result.failed = pushResult.failed;
+            result.deadLettered = pushResult.deadLettered;
+
+            for (const userId of userIds) {
+                const state = await this.db.getSyncState(userId);
+                await this.db.saveSyncState({ ...state, lastPushAt: new Date().toISOString() });
+
+                const pullResult = await this.syncQueue.pullChanges(userId);
+                result.pulled += pullResult.applied;
+                result.conflicts += pullResult.conflicts;
+
+                if (pullResult.conflicts > 0) {
+                    await this.notifyConflicts(userId, pullResult.conflicts);
+                }
+            }
+
+            console.log("[SyncService] Sync cycle complete:", result);
+        } finally {
+            this.isSyncing = false;
+        }
+
+        return result;
+    }
+
+    /**
+     * Number of local operations waiting to be pushed
+     */
+    async getPendingCount(): Promise<number> {
+        return this.syncQueue.getPendingCount();
+    }
+
+    /**
+     * Pending ops for a user and how many redundant ops coalescing has saved
+     */
+    async getQueueStats(userId: string): Promise<{ pending: number; coalesced: number }> {
+        return this.db.getSyncQueueStats(userId);
+    }
+
+    /**
+     * Number of ops for a user that failed too many times to retry automatically
+     */
+    async getFailedSyncCount(userId: string): Promise<number> {
+        return this.retryScheduler.getDeadLetterCount(userId);
+    }
+
+    /**
+     * Re-queue a user's failed ops and try them right away
+     */
+    async retryFailedSyncs(userId: string): Promise<number> {
+        const requeued = await this.retryScheduler.retryDeadLetters(userId);
+        if (requeued > 0) {
+            this.syncNow().catch(e => console.error("[SyncService] Retry sync failed:", e));
+        }
+        return requeued;
+    }
+
+    /**
+     * Unresolved conflicts from concurrent edits on another device
+     */
+    async getOpenConflicts(userId: string): Promise<SyncConflict[]> {
+        return this.db.getOpenSyncConflicts(userId);
+    }
+
+    /**
+     * Keep this device's value or take the other device's value for a conflicted field
+     */
+    async resolveConflict(conflictId: string, choice: 'local' | 'remote'): Promise<void> {
+        await this.syncQueue.resolveConflict(conflictId, choice);
     }
 
     setAuthToken(token: string): void {
-        this.authToken = token;
+        this.remoteApi.setAuthToken(token);
     }
 
     isOnline(): boolean {
@@ -24,6 +166,32 @@ export class SyncService {
         return navigator.onLine;
     }
 
-    // Future: async processQueue(): Promise<void> - would process the general sync queue
+    private async notifyConflicts(userId: string, count: number): Promise<void> {
+        const notificationService = new NotificationService();
+        await notificationService.createNotification(
+            userId,
+            'sync_conflict',
+            'Sync conflict',
+            `${count} change${count === 1 ? ' was' : 's were'} made on two devices at once. Review ${count === 1 ? 'it' : 'them'} in Settings → Data.`,
+            undefined,
+            'high'
+        );
+    }
+
+    /**
+     * Local users whose settings opt into cloud sync
+     */
+    private async getCloudSyncUserIds(): Promise<string[]> {
+        const users = await this.db.users.toArray();
+        const userIds: string[] = [];
 
-}
\ No newline at end of file
+        for (const user of users) {
+            const settings = await this.db.settings.get(user.userId);
+            if (settings?.storage.cloudSync) {
+                userIds.push(user.userId);
+            }
+        }
+
+        return userIds;
+    }
+}
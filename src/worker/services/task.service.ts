@@ -10,6 +10,9 @@ import type { TaskOrder, TaskOrderItem } from "../models/TaskOrder";
 import { AuthService } from "./auth.service";
 import { Task } from "../../App";
 import { ActivityFeedService } from "./activity-feed.service";
+import { getInventoryService } from "./inventory.service";
+import { getAchievementService } from "./achievement.service";
+import { getDungeonService } from "./dungeon.service";
 
 export class TaskService {
   private db = getDB();
@@ -118,7 +121,9 @@ export class TaskService {
             documentId: quest.questId,
             data: quest,
             priority: 7,
-            retries: 0,
+            userId: quest.ownerId,
+            retryCount: 0,
+            nextRetryTime: null,
             error: null,
           });
         }
@@ -265,7 +270,11 @@ export class TaskService {
         collection: "taskOrders",
         documentId: docId,
         data: taskOrderDoc,
-        priority: 8
+        priority: 8,
+        userId,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
       });
     }
 
@@ -318,7 +327,9 @@ export class TaskService {
     subtaskId: string
   ): Promise<Quest> {
     const quest = await this.db.quests.get(questId);
-    if (!quest || quest.ownerId !== userId) {
+    // Any dungeon member may tick off its subtasks
+    const isMember = quest?.isDungeon && quest.members.includes(userId);
+    if (!quest || (quest.ownerId !== userId && !isMember)) {
       throw new Error("Quest not found or access denied");
     }
 
@@ -339,7 +350,8 @@ export class TaskService {
       quest.subtasks.every(st => st.isComplete);
 
     // If all subtasks complete and quest wasn't already completed, mark it complete
-    if (allSubtasksComplete && !quest.isCompleted) {
+    const questJustCompleted = allSubtasksComplete && !quest.isCompleted;
+    if (questJustCompleted) {
       quest.isCompleted = true;
       quest.completedAt = new Date().toISOString();
 
@@ -377,10 +389,21 @@ export class TaskService {
       documentId: questId,
       data: quest,
       priority: 7,
-      retries: 0,
+      userId: quest.ownerId,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
 
+    if (quest.isDungeon) {
+      await getDungeonService().recordSubtaskCompletion(questId, subtaskId, userId, subtask.isComplete);
+    }
+
+    if (questJustCompleted) {
+      await getInventoryService().grantLoot(userId, 'quest_complete', `quest_complete:${questId}`);
+      await getAchievementService().evaluate(userId, 'quest_complete');
+    }
+
     // Log activity for task completion (only when marking complete, not unchecking)
     if (!wasComplete && subtask.isComplete) {
       const userProfile = await this.db.users.get(userId);
@@ -457,7 +480,9 @@ export class TaskService {
       documentId: key,
       data: taskOrder,
       priority: 8,
-      retries: 0,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
       error: null,
     });
   }
@@ -0,0 +1,266 @@
+/**
+ * TrackService
+ * Specialization tracks: quest alignment, level-gated perks and track switching
+ *
+ * A quest is aligned with the user's track when its tags or text hit the
+ * track's affinities, unless the user overrode it (Quest.trackAlignmentOverride).
+ * Aligned pomodoros earn the track's aligned multiplier; perks unlocked by
+ * totalLevel raise it or boost a session type.
+ */
+
+import { getDB } from '../db/indexed-db';
+import type { UserProfile } from '../models/UserProfile';
+import type { Quest } from '../models/Quest';
+import type { Session, XPMultiplier } from '../models/Session';
+
+export type Track = UserProfile['specializationTrack'];
+
+export type TrackPerkEffect =
+  | { kind: 'aligned_xp'; value: number } // replaces the base aligned multiplier
+  | { kind: 'session_xp'; sessionType: Session['sessionType']; value: number };
+
+export interface TrackPerk {
+  perkId: string;
+  name: string;
+  description: string;
+  unlockLevel: number; // UserProfile.totalLevel
+  effect: TrackPerkEffect;
+}
+
+export interface TrackDefinition {
+  track: Track;
+  description: string;
+  tagAffinities: string[]; // matched against quest tags
+  keywords: string[]; // matched as word prefixes in title/description
+  perks: TrackPerk[]; // ordered by unlockLevel
+}
+
+export const TRACKS: Record<Track, TrackDefinition> = {
+  Architect: {
+    track: 'Architect',
+    description: 'Builders and makers: code, design, systems',
+    tagAffinities: ['code', 'coding', 'dev', 'engineering', 'design', 'build', 'project', 'architecture', 'art', 'writing'],
+    keywords: ['build', 'design', 'create', 'develop', 'code', 'system', 'implement', 'prototype', 'refactor', 'ship'],
+    perks: [
+      { perkId: 'architect-blueprint', name: 'Blueprint', description: 'Aligned quests earn 1.15× XP', unlockLevel: 3, effect: { kind: 'aligned_xp', value: 1.15 } },
+      { perkId: 'architect-master-builder', name: 'Master Builder', description: '+5% XP on pomodoros', unlockLevel: 8, effect: { kind: 'session_xp', sessionType: 'pomodoro', value: 1.05 } },
+      { perkId: 'architect-grand-design', name: 'Grand Design', description: 'Aligned quests earn 1.25× XP', unlockLevel: 15, effect: { kind: 'aligned_xp', value: 1.25 } },
+    ],
+  },
+  Scholar: {
+    track: 'Scholar',
+    description: 'Learners and researchers: study, reading, analysis',
+    tagAffinities: ['study', 'learning', 'school', 'university', 'research', 'reading', 'language', 'course', 'math', 'science'],
+    keywords: ['learn', 'study', 'research', 'read', 'analyze', 'understand', 'practice', 'review', 'revise', 'exam'],
+    perks: [
+      { perkId: 'scholar-focused-mind', name: 'Focused Mind', description: '+10% XP on deep focus', unlockLevel: 3, effect: { kind: 'session_xp', sessionType: 'deep_focus', value: 1.1 } },
+      { perkId: 'scholar-annotator', name: 'Annotator', description: 'Aligned quests earn 1.15× XP', unlockLevel: 8, effect: { kind: 'aligned_xp', value: 1.15 } },
+      { perkId: 'scholar-polymath', name: 'Polymath', description: '+20% XP on deep focus', unlockLevel: 15, effect: { kind: 'session_xp', sessionType: 'deep_focus', value: 1.2 } },
+    ],
+  },
+  Vanguard: {
+    track: 'Vanguard',
+    description: 'Leaders and operators: planning, people, execution',
+    tagAffinities: ['work', 'management', 'leadership', 'team', 'business', 'planning', 'fitness', 'health', 'admin', 'finance'],
+    keywords: ['lead', 'manage', 'organize', 'plan', 'coordinate', 'execute', 'launch', 'train', 'meet', 'hire'],
+    perks: [
+      { perkId: 'vanguard-rally', name: 'Rally', description: '+5% XP on pomodoros', unlockLevel: 3, effect: { kind: 'session_xp', sessionType: 'pomodoro', value: 1.05 } },
+      { perkId: 'vanguard-field-command', name: 'Field Command', description: 'Aligned quests earn 1.15× XP', unlockLevel: 8, effect: { kind: 'aligned_xp', value: 1.15 } },
+      { perkId: 'vanguard-charge', name: "Vanguard's Charge", description: 'Aligned quests earn 1.25× XP', unlockLevel: 15, effect: { kind: 'aligned_xp', value: 1.25 } },
+    ],
+  },
+};
+
+const BASE_ALIGNED_MULTIPLIER = 1.1;
+export const TRACK_SWITCH_COOLDOWN_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrackAnalytics {
+  track: Track;
+  switchAvailableAt: string | null; // ISO8601, null when switching is allowed now
+  alignedQuests: number;
+  totalQuests: number;
+  alignedMinutes: number;
+  totalMinutes: number;
+  alignedXP: number;
+  totalXP: number;
+  alignedMultiplier: number;
+  unlockedPerks: TrackPerk[];
+  nextPerk: TrackPerk | null;
+}
+
+export class TrackService {
+  private db = getDB();
+
+  /**
+   * Whether the quest counts as aligned with the track (user override wins)
+   */
+  isAligned(quest: Pick<Quest, 'title' | 'description' | 'tags' | 'trackAlignmentOverride'>, track: Track): boolean {
+    if (typeof quest.trackAlignmentOverride === 'boolean') return quest.trackAlignmentOverride;
+    return classifyQuest(quest, track);
+  }
+
+  /**
+   * Perks unlocked at the user's current level
+   */
+  getUnlockedPerks(user: UserProfile): TrackPerk[] {
+    return getTrack(user).perks.filter(perk => perk.unlockLevel <= user.totalLevel);
+  }
+
+  /**
+   * XP multiplier for aligned pomodoros: the best unlocked aligned_xp perk or the base 1.1×
+   */
+  getAlignedMultiplier(user: UserProfile): number {
+    return this.getUnlockedPerks(user).reduce(
+      (best, perk) => perk.effect.kind === 'aligned_xp' ? Math.max(best, perk.effect.value) : best,
+      BASE_ALIGNED_MULTIPLIER
+    );
+  }
+
+  /**
+   * Session-type perk multiplier (tiers replace each other, they don't stack)
+   */
+  getPerkModifiers(user: UserProfile, sessionType: Session['sessionType']): XPMultiplier[] {
+    const value = this.getUnlockedPerks(user).reduce(
+      (best, perk) => perk.effect.kind === 'session_xp' && perk.effect.sessionType === sessionType
+        ? Math.max(best, perk.effect.value)
+        : best,
+      1
+    );
+    return value > 1 ? [{ source: 'perk', value }] : [];
+  }
+
+  /**
+   * Change track, subject to the cooldown, and re-classify the user's quests
+   */
+  async switchTrack(userId: string, track: Track): Promise<{ user: UserProfile; realignedQuests: number }> {
+    if (!TRACKS[track]) throw new Error(`TRACK_INVALID: Unknown track ${track}`);
+
+    const user = await this.db.users.get(userId);
+    if (!user) throw new Error('User not found');
+    if (user.specializationTrack === track) return { user, realignedQuests: 0 };
+
+    const availableAt = getSwitchAvailableAt(user);
+    if (availableAt) {
+      throw new Error(`TRACK_COOLDOWN: Track can be changed again on ${availableAt.split('T')[0]}`);
+    }
+
+    const now = new Date().toISOString();
+    user.specializationTrack = track;
+    user.trackChangedAt = now;
+    await this.db.users.put(user);
+    await this.db.queueSync({
+      operation: 'update',
+      collection: 'users',
+      documentId: userId,
+      data: user,
+      priority: 8,
+      userId,
+      retryCount: 0,
+      nextRetryTime: null,
+      error: null,
+    });
+
+    let realignedQuests = 0;
+    const quests = await this.db.quests.where('ownerId').equals(userId).toArray();
+    for (const quest of quests) {
+      if (quest.type === 'AntiQuest') continue;
+      const aligned = this.isAligned(quest, track);
+      if (aligned === quest.isTrackAligned) continue;
+
+      quest.isTrackAligned = aligned;
+      quest.updatedAt = now;
+      await this.db.quests.put(quest);
+      await this.db.queueSync({
+        operation: 'update',
+        collection: 'quests',
+        documentId: quest.questId,
+        data: quest,
+        priority: 7,
+        userId,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
+      });
+      realignedQuests++;
+    }
+
+    console.log(`[TrackService] ${userId} switched to ${track}, ${realignedQuests} quests realigned`);
+    return { user, realignedQuests };
+  }
+
+  /**
+   * How much of the user's effort went into track-aligned quests between two dates (YYYY-MM-DD)
+   */
+  async getTrackAnalytics(userId: string, startDate: string, endDate: string): Promise<TrackAnalytics> {
+    const user = await this.db.users.get(userId);
+    if (!user) throw new Error('User not found');
+
+    const quests = (await this.db.quests.where('ownerId').equals(userId).toArray())
+      .filter(q => q.type !== 'AntiQuest' && !q.hidden);
+    const aligned = new Set(quests.filter(q => q.isTrackAligned).map(q => q.questId));
+
+    const sessions = await this.db.sessions
+      .where('[userId+startTime]')
+      .between([userId, startDate], [userId, `${endDate}\uffff`])
+      .filter(s => s.status === 'completed')
+      .toArray();
+
+    const unlockedPerks = this.getUnlockedPerks(user);
+    const availableAt = getSwitchAvailableAt(user);
+
+    return {
+      track: user.specializationTrack,
+      switchAvailableAt: availableAt,
+      alignedQuests: aligned.size,
+      totalQuests: quests.length,
+      alignedMinutes: sum(sessions.filter(s => aligned.has(s.questId)), s => s.actualDurationMin),
+      totalMinutes: sum(sessions, s => s.actualDurationMin),
+      alignedXP: sum(sessions.filter(s => aligned.has(s.questId)), s => s.xpEarned),
+      totalXP: sum(sessions, s => s.xpEarned),
+      alignedMultiplier: this.getAlignedMultiplier(user),
+      unlockedPerks,
+      nextPerk: getTrack(user).perks.find(perk => perk.unlockLevel > user.totalLevel) ?? null,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Automatic alignment: any tag in the track's affinities, or a keyword in the text
+ */
+export function classifyQuest(quest: Pick<Quest, 'title' | 'description' | 'tags'>, track: Track): boolean {
+  const definition = TRACKS[track];
+  if (!definition) return false;
+
+  const tags = (quest.tags ?? []).map(tag => tag.toLowerCase().replace(/^#/, ''));
+  if (tags.some(tag => definition.tagAffinities.includes(tag))) return true;
+
+  const text = `${quest.title ?? ''} ${quest.description ?? ''}`.toLowerCase();
+  return definition.keywords.some(keyword => new RegExp(`\\b${keyword}`).test(text));
+}
+
+function getTrack(user: UserProfile): TrackDefinition {
+  return TRACKS[user.specializationTrack] ?? TRACKS.Architect;
+}
+
+function getSwitchAvailableAt(user: UserProfile): string | null {
+  if (!user.trackChangedAt) return null;
+  const availableAt = new Date(user.trackChangedAt).getTime() + TRACK_SWITCH_COOLDOWN_DAYS * DAY_MS;
+  return availableAt > Date.now() ? new Date(availableAt).toISOString() : null;
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + (value(item) || 0), 0);
+}
+
+// Singleton
+let _trackService: TrackService | null = null;
+
+export function getTrackService() {
+  if (!_trackService) _trackService = new TrackService();
+  return _trackService;
+}
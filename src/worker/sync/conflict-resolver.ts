@@ -0,0 +1,419 @@
+/**
+ * Conflict Resolver
+ * Three-way merge of documents edited on two devices between syncs
+ *
+ * Vector clocks decide whether a pulled document is newer, older or concurrent.
+ * Concurrent edits are merged against the last synced base:
+ * - counters (XP, tracked time) are additive
+ * - completion and history are unions
+ * - settings sections are last-writer-wins by lastModified
+ * - "hard" fields changed differently on both sides become SyncConflicts
+ */
+
+import type { Quest, Subtask, ProgressHistoryEntry, AntiQuestOccurrence } from '../models/Quest';
+import type { UserProfile } from '../models/UserProfile';
+import type { UserSettings } from '../models/UserSettings';
+import type { VectorClock } from '../models/SyncOperation';
+import { currentLevelFromExp } from '../utils/level-and-xp-converters';
+
+export type ClockOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+export interface FieldConflict {
+  field: string;
+  localValue: any;
+  remoteValue: any;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: FieldConflict[];
+}
+
+// Quest fields the user must pick a side for when both devices changed them
+const QUEST_HARD_FIELDS = ['title', 'description', 'dueDate', 'difficulty', 'schedule'];
+const PROFILE_HARD_FIELDS = ['username', 'specializationTrack'];
+
+/**
+ * Order of the local clock relative to the remote one
+ * 'before' means remote has seen every local edit (remote is newer)
+ */
+export function compareClocks(local: VectorClock = {}, remote: VectorClock = {}): ClockOrder {
+  let localAhead = false;
+  let remoteAhead = false;
+
+  for (const deviceId of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+    const l = local[deviceId] ?? 0;
+    const r = remote[deviceId] ?? 0;
+    if (l > r) localAhead = true;
+    if (r > l) remoteAhead = true;
+  }
+
+  if (localAhead && remoteAhead) return 'concurrent';
+  if (localAhead) return 'after';
+  if (remoteAhead) return 'before';
+  return 'equal';
+}
+
+/**
+ * Pointwise max of two clocks
+ */
+export function mergeClocks(a: VectorClock = {}, b: VectorClock = {}): VectorClock {
+  const merged: VectorClock = { ...a };
+  for (const [deviceId, count] of Object.entries(b)) {
+    merged[deviceId] = Math.max(merged[deviceId] ?? 0, count);
+  }
+  return merged;
+}
+
+/**
+ * Merge a concurrently edited document of any clocked collection
+ * Returns null for collections without merge rules
+ */
+export function mergeDocument(collection: string, base: any, local: any, remote: any): MergeResult<any> | null {
+  switch (collection) {
+    case 'quests':
+      return mergeQuest(base, local, remote);
+    case 'users':
+      return mergeUserProfile(base, local, remote);
+    case 'settings':
+      return mergeUserSettings(base, local, remote);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Merge two concurrent edits of a quest
+ */
+export function mergeQuest(base: Quest | undefined, local: Quest, remote: Quest): MergeResult<Quest> {
+  const conflicts: FieldConflict[] = [];
+  const localIsNewer = timeOf(local.updatedAt) >= timeOf(remote.updatedAt);
+  const merged: any = { ...local };
+
+  for (const field of Object.keys({ ...local, ...remote })) {
+    if (field === 'syncClock') continue;
+
+    const l = (local as any)[field];
+    const r = (remote as any)[field];
+    if (isEqual(l, r)) continue;
+
+    const b = base ? (base as any)[field] : undefined;
+    if (base && isEqual(l, b)) {
+      merged[field] = r;
+      continue;
+    }
+    if (base && isEqual(r, b)) continue;
+
+    // Both sides changed the field
+    switch (field) {
+      case 'gamification':
+        merged.gamification = mergeQuestExp(base?.gamification, local.gamification, remote.gamification);
+        break;
+      case 'tracking':
+        merged.tracking = mergeTracking(base?.tracking, local.tracking, remote.tracking);
+        break;
+      case 'subtasks':
+        merged.subtasks = mergeSubtasks(base?.subtasks ?? [], local.subtasks ?? [], remote.subtasks ?? []);
+        break;
+      case 'progressHistory':
+        merged.progressHistory = unionBy<ProgressHistoryEntry>(
+          local.progressHistory ?? [],
+          remote.progressHistory ?? [],
+          entry => JSON.stringify(entry)
+        );
+        break;
+      case 'antiEvents':
+        merged.antiEvents = unionBy<AntiQuestOccurrence>(local.antiEvents ?? [], remote.antiEvents ?? [], e => e.id)
+          .sort((a, b) => timeOf(b.timestamp) - timeOf(a.timestamp));
+        break;
+      case 'antiTracking':
+        merged.antiTracking = (remote.antiTracking?.totalOccurrences ?? 0) > (local.antiTracking?.totalOccurrences ?? 0)
+          ? remote.antiTracking
+          : local.antiTracking;
+        break;
+      case 'tags':
+      case 'watchers':
+      case 'members':
+      case 'activeBuffs':
+        merged[field] = Array.from(new Set([...(l ?? []), ...(r ?? [])]));
+        break;
+      case 'isCompleted':
+        merged.isCompleted = Boolean(l || r);
+        break;
+      case 'completedAt':
+        merged.completedAt = earliest(l, r);
+        break;
+      case 'updatedAt':
+        merged.updatedAt = localIsNewer ? l : r;
+        break;
+      default:
+        if (QUEST_HARD_FIELDS.includes(field)) {
+          // Keep local until the user resolves it
+          conflicts.push({ field, localValue: l, remoteValue: r });
+        } else if (!localIsNewer) {
+          merged[field] = r;
+        }
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Merge two concurrent edits of a user profile
+ */
+export function mergeUserProfile(
+  base: UserProfile | undefined,
+  local: UserProfile,
+  remote: UserProfile
+): MergeResult<UserProfile> {
+  const conflicts: FieldConflict[] = [];
+  const merged: any = { ...local };
+
+  for (const field of Object.keys({ ...local, ...remote })) {
+    if (field === 'syncClock' || field === 'totalLevel') continue;
+
+    const l = (local as any)[field];
+    const r = (remote as any)[field];
+    if (isEqual(l, r)) continue;
+
+    const b = base ? (base as any)[field] : undefined;
+    if (base && isEqual(l, b)) {
+      merged[field] = r;
+      continue;
+    }
+    if (base && isEqual(r, b)) continue;
+
+    switch (field) {
+      case 'experiencePoints':
+      case 'rankPoints':
+        merged[field] = base
+          ? Math.max(0, b + (l - b) + (r - b))
+          : Math.max(l, r);
+        break;
+      case 'achievements':
+      case 'lootSources':
+        merged[field] = Array.from(new Set([...(l ?? []), ...(r ?? [])]));
+        break;
+      case 'achievementUnlocks':
+        merged.achievementUnlocks = mergeEarliest(l ?? {}, r ?? {});
+        break;
+      case 'inventory':
+        merged.inventory = unionBy(l ?? [], r ?? [], (item: any) => item.itemId);
+        break;
+      case 'activeBuffs':
+        merged.activeBuffs = unionBy(l ?? [], r ?? [], (buff: any) => buff.buffId);
+        break;
+      case 'activeDebuffs':
+        merged.activeDebuffs = unionBy(l ?? [], r ?? [], (debuff: any) => debuff.debuffId);
+        break;
+      case 'streakData': {
+        const latest = (r?.lastActivityDate ?? '') > (l?.lastActivityDate ?? '') ? r : l;
+        merged.streakData = {
+          ...latest,
+          longestStreak: Math.max(l?.longestStreak ?? 0, r?.longestStreak ?? 0),
+        };
+        break;
+      }
+      default:
+        if (PROFILE_HARD_FIELDS.includes(field)) {
+          conflicts.push({ field, localValue: l, remoteValue: r });
+        }
+      // Everything else keeps the local value
+    }
+  }
+
+  merged.totalLevel = currentLevelFromExp(merged.experiencePoints);
+  return { merged, conflicts };
+}
+
+/**
+ * Merge two concurrent edits of user settings
+ * Each section is last-writer-wins: changed on one side takes that side,
+ * changed on both takes the side with the newer lastModified.
+ */
+export function mergeUserSettings(
+  base: UserSettings | undefined,
+  local: UserSettings,
+  remote: UserSettings
+): MergeResult<UserSettings> {
+  const localIsNewer = timeOf(local.lastModified) >= timeOf(remote.lastModified);
+  const merged: any = { ...local };
+
+  for (const field of Object.keys({ ...local, ...remote })) {
+    if (field === 'syncClock') continue;
+
+    const l = (local as any)[field];
+    const r = (remote as any)[field];
+    if (isEqual(l, r)) continue;
+
+    const b = base ? (base as any)[field] : undefined;
+    if (base && isEqual(l, b)) {
+      merged[field] = r;
+    } else if (base && isEqual(r, b)) {
+      merged[field] = l;
+    } else {
+      merged[field] = localIsNewer ? l : r;
+    }
+  }
+
+  merged.lastModified = localIsNewer ? local.lastModified : remote.lastModified;
+  return { merged, conflicts: [] };
+}
+
+// ============================================================================
+// FIELD MERGERS
+// ============================================================================
+
+/**
+ * Quest XP earned on both devices is added together, then re-leveled
+ */
+function mergeQuestExp(
+  base: Quest['gamification'] | undefined,
+  local: Quest['gamification'],
+  remote: Quest['gamification']
+): Quest['gamification'] {
+  if (!base) {
+    const remoteAhead = remote.currentLevel > local.currentLevel ||
+      (remote.currentLevel === local.currentLevel && remote.currentExp > local.currentExp);
+    return remoteAhead ? remote : local;
+  }
+
+  const gained = questExpGained(base, local) + questExpGained(base, remote);
+
+  let { currentLevel, currentExp, expToNextLevel } = base;
+  currentExp += Math.max(0, gained);
+
+  while (expToNextLevel > 0 && currentExp >= expToNextLevel) {
+    currentExp -= expToNextLevel;
+    currentLevel += 1;
+    expToNextLevel = questExpRequirement(currentLevel);
+  }
+
+  return { currentLevel, currentExp, expToNextLevel };
+}
+
+/**
+ * Quest XP earned since the base, walking the level curve used by
+ * SessionService.checkQuestLevelUp
+ */
+function questExpGained(base: Quest['gamification'], side: Quest['gamification']): number {
+  if (side.currentLevel <= base.currentLevel) {
+    return side.currentExp - base.currentExp;
+  }
+
+  let gained = base.expToNextLevel - base.currentExp;
+  for (let level = base.currentLevel + 1; level < side.currentLevel; level++) {
+    gained += questExpRequirement(level);
+  }
+  return gained + side.currentExp;
+}
+
+function questExpRequirement(level: number): number {
+  return Math.floor(500 * Math.pow(1.5, level));
+}
+
+/**
+ * Tracked time is additive; quality stats come from whichever side saw the latest session
+ */
+function mergeTracking(
+  base: Quest['tracking'] | undefined,
+  local: Quest['tracking'],
+  remote: Quest['tracking']
+): Quest['tracking'] {
+  const latest = timeOf(remote.lastSessionAt) > timeOf(local.lastSessionAt) ? remote : local;
+  const totalTrackedTime = base
+    ? base.totalTrackedTime + (local.totalTrackedTime - base.totalTrackedTime) + (remote.totalTrackedTime - base.totalTrackedTime)
+    : Math.max(local.totalTrackedTime, remote.totalTrackedTime);
+
+  return { ...latest, totalTrackedTime };
+}
+
+/**
+ * Subtasks are merged by id: completion is a union, a subtask removed on
+ * one side stays removed unless the other side edited it.
+ */
+function mergeSubtasks(base: Subtask[], local: Subtask[], remote: Subtask[]): Subtask[] {
+  const baseById = new Map(base.map(s => [s.id, s]));
+  const remoteById = new Map(remote.map(s => [s.id, s]));
+  const localIds = new Set(local.map(s => s.id));
+  const result: Subtask[] = [];
+
+  for (const l of local) {
+    const r = remoteById.get(l.id);
+    const b = baseById.get(l.id);
+
+    if (!r) {
+      // Removed remotely: keep only if it is new or was edited locally
+      if (!b || !isEqual(l, b)) result.push(l);
+      continue;
+    }
+
+    const titleSource = b && isEqual(l.title, b.title) ? r : l;
+    const estimateSource = b && l.estimatePomodoros === b.estimatePomodoros ? r : l;
+    result.push({
+      ...l,
+      title: titleSource.title,
+      estimatePomodoros: estimateSource.estimatePomodoros,
+      isComplete: l.isComplete || r.isComplete,
+      completedAt: l.isComplete || r.isComplete ? earliest(l.completedAt, r.completedAt) : null,
+      revisionCount: Math.max(l.revisionCount, r.revisionCount),
+    });
+  }
+
+  for (const r of remote) {
+    if (localIds.has(r.id)) continue;
+    const b = baseById.get(r.id);
+    // Removed locally: keep only if it is new or was edited remotely
+    if (!b || !isEqual(r, b)) result.push(r);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function unionBy<T>(local: T[], remote: T[], keyOf: (item: T) => string): T[] {
+  const seen = new Set(local.map(keyOf));
+  return [...local, ...remote.filter(item => !seen.has(keyOf(item)))];
+}
+
+function earliest(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return timeOf(a) <= timeOf(b) ? a : b;
+}
+
+/**
+ * Union of two id → timestamp maps, keeping the earlier time for shared ids
+ */
+function mergeEarliest(local: Record<string, string>, remote: Record<string, string>): Record<string, string> {
+  const merged = { ...remote, ...local };
+  for (const key of Object.keys(merged)) {
+    merged[key] = earliest(local[key] ?? null, remote[key] ?? null) as string;
+  }
+  return merged;
+}
+
+function timeOf(value: string | null | undefined): number {
+  const time = value ? new Date(value).getTime() : 0;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Structural equality for JSON-like values (key order independent)
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return a === b || (a == null && b == null);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a).filter(k => a[k] !== undefined);
+  const keysB = Object.keys(b).filter(k => b[k] !== undefined);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(k => isEqual(a[k], b[k]));
+}
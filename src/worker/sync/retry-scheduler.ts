@@ -0,0 +1,89 @@
+/**
+ * RetryScheduler
+ * Exponential backoff with jitter for failed sync queue operations
+ *
+ * A failed op gets retryCount + 1 and a nextRetryTime; getPendingSyncOps
+ * skips it until then. After MAX_RETRIES failures the op moves to the
+ * deadLetters table, where the user can re-queue it from Settings → Data.
+ */
+
+import { getDB, IndexedDb } from '../db/indexed-db';
+import type { SyncOperation, DeadLetterOperation } from '../models/SyncOperation';
+
+export const MAX_RETRIES = 5;
+const BASE_DELAY_MS = 30 * 1000; // 30 seconds
+const MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+
+export class RetryScheduler {
+  private db: IndexedDb;
+  private random: () => number;
+
+  constructor(db: IndexedDb = getDB(), random: () => number = Math.random) {
+    this.db = db;
+    this.random = random;
+  }
+
+  /**
+   * Delay before the given retry attempt (1-based)
+   * Doubles each attempt up to MAX_DELAY_MS, jittered to 50-100% so
+   * ops that failed together don't retry together
+   */
+  getRetryDelay(retryCount: number): number {
+    const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, Math.max(0, retryCount - 1)));
+    return Math.round(exponential / 2 + this.random() * (exponential / 2));
+  }
+
+  /**
+   * Record a failed attempt: schedule the next retry or dead-letter the op
+   * Returns true when the op was moved to the dead-letter table
+   */
+  async recordFailure(op: SyncOperation, error: unknown): Promise<boolean> {
+    const retryCount = (op.retryCount ?? 0) + 1;
+    const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+
+    if (retryCount >= MAX_RETRIES) {
+      console.error(`[RetryScheduler] Max retries reached for operation ${op.id}, moving to dead letters`);
+      const deadLetter: DeadLetterOperation = {
+        ...op,
+        retryCount,
+        nextRetryTime: null,
+        error: message,
+        deadLetteredAt: new Date().toISOString(),
+      };
+      await this.db.deadLetters.put(deadLetter);
+      await this.db.removeSyncOp(op.id);
+      return true;
+    }
+
+    const nextRetryTime = Date.now() + this.getRetryDelay(retryCount);
+    await this.db.syncQueue.update(op.id, { retryCount, nextRetryTime, error: message });
+    return false;
+  }
+
+  /**
+   * Move a user's dead-lettered ops back into the sync queue with a fresh retry budget
+   * Skips documents that already have a newer op queued (it pushes the latest state anyway)
+   */
+  async retryDeadLetters(userId: string): Promise<number> {
+    const deadLetters = await this.db.deadLetters.where('userId').equals(userId).toArray();
+    let requeued = 0;
+
+    for (const { deadLetteredAt, ...op } of deadLetters) {
+      const existing = await this.db.syncQueue.get(op.id);
+      if (!existing) {
+        await this.db.syncQueue.put({ ...op, retryCount: 0, nextRetryTime: null, error: null });
+        requeued++;
+      }
+      await this.db.deadLetters.delete(op.id);
+    }
+
+    return requeued;
+  }
+
+  /**
+   * Number of ops that exhausted their retries for a user
+   */
+  async getDeadLetterCount(userId: string): Promise<number> {
+    return await this.db.deadLetters.where('userId').equals(userId).count();
+  }
+}
@@ -1,110 +1,369 @@
 /**
  * SyncQueue Manager
- * Handles offline operation queueing and background sync
+ * Handles offline operation queueing and sync with the backend
+ * Scheduling lives in SyncService and jobs/background-jobs.ts
+ *
+ * Push: drains db.syncQueue, sending the latest local snapshot of each document
+ * Pull: fetches remote changes since the stored cursor and merges them into Dexie
+ *
+ * Quests, users and settings carry a vector clock (syncClock). Concurrent edits
+ * are three-way merged against the last synced base (see conflict-resolver.ts);
+ * fields that cannot be merged are stored in db.syncConflicts for the user.
  */
 
-import { getDB } from '../db/indexed-db';
-import { RemoteAPI } from '../api/remote-client';
-import type { SyncOperation } from '../models/SyncOperation';
+import type { Table } from 'dexie';
+import { getDB, IndexedDb, CLOCKED_COLLECTIONS } from '../db/indexed-db';
+import { RemoteAPI, RemoteChange } from '../api/remote-client';
+import type { SyncOperation, SyncConflict } from '../models/SyncOperation';
+import { compareClocks, mergeClocks, mergeDocument, FieldConflict } from './conflict-resolver';
+import { RetryScheduler } from './retry-scheduler';
 
-export class SyncQueue {
-  private db = getDB();
-  private remoteAPI: RemoteAPI;
-  private isProcessing = false;
-  private syncInterval: number | null = null;
+/**
+ * Collections that are mirrored to the backend, mapped to their Dexie table.
+ * taskOrders are local-only; gm_validation ops belong to the GMService.
+ */
+const SYNCED_TABLES = {
+  users: 'users',
+  quests: 'quests',
+  sessions: 'sessions',
+  notifications: 'notifications',
+  settings: 'settings',
+  comments: 'comments',
+  dungeonProgress: 'dungeonProgress',
+} as const;
 
-  constructor(remoteAPI: RemoteAPI) {
-    this.remoteAPI = remoteAPI;
-  }
+const LOCAL_ONLY_COLLECTIONS = ['taskOrders'];
+const GM_COLLECTION = 'gm_validation';
 
-  /**
-   * Start background sync (every 5 minutes when online)
-   */
-  startBackgroundSync(): void {
-    if (this.syncInterval) return;
+type SyncedCollection = keyof typeof SYNCED_TABLES;
 
-    this.syncInterval = window.setInterval(() => {
-      if (navigator.onLine && !this.isProcessing) {
-        this.processQueue();
-      }
-    }, 5 * 60 * 1000); // 5 minutes
+export interface PushResult {
+  pushed: number;
+  failed: number;
+  deadLettered: number;
+}
 
-    // Also sync on network reconnection
-    window.addEventListener('online', () => {
-      this.processQueue();
-    });
-  }
+export interface PullResult {
+  applied: number;
+  skipped: number;
+  conflicts: number;
+}
 
-  /**
-   * Stop background sync
-   */
-  stopBackgroundSync(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-      this.syncInterval = null;
-    }
+export class SyncQueue {
+  private db: IndexedDb;
+  private remoteAPI: RemoteAPI;
+  private retryScheduler: RetryScheduler;
+  private isProcessing = false;
+
+  constructor(remoteAPI: RemoteAPI, db: IndexedDb = getDB()) {
+    this.remoteAPI = remoteAPI;
+    this.db = db;
+    this.retryScheduler = new RetryScheduler(db);
   }
 
   /**
-   * Process sync queue
+   * Process sync queue (push local changes)
    */
-  async processQueue(): Promise<void> {
-    if (this.isProcessing) return;
-    if (!navigator.onLine) return;
+  async processQueue(): Promise<PushResult> {
+    const result: PushResult = { pushed: 0, failed: 0, deadLettered: 0 };
+    if (this.isProcessing) return result;
+    if (!navigator.onLine) return result;
 
     this.isProcessing = true;
 
     try {
-      const operations = await this.db.getPendingSyncOps(50);
+      // Only ops whose nextRetryTime has passed
+      // GM validation ops are drained by GMService.processPendingQueue
+      const operations = await this.db.getPendingSyncOps(50, op => op.collection !== GM_COLLECTION);
 
       for (const op of operations) {
         try {
           await this.syncOperation(op);
-          await this.db.removeSyncOp(op.id);
+          await this.removePushedOp(op);
+          result.pushed++;
         } catch (error) {
           console.error(`Sync failed for operation ${op.id}:`, error);
-          
-          // Increment retry count
-          op.retries += 1;
-          op.error = error instanceof Error ? error.message : 'Unknown error';
-          
-          if (op.retries >= 5) {
-            // Max retries reached, log and remove
-            console.error(`Max retries reached for operation ${op.id}`);
-            await this.db.removeSyncOp(op.id);
-          } else {
-            // Update with error info
-            await this.db.syncQueue.update(op.id, op);
+          result.failed++;
+
+          // Back off, or dead-letter once retries are exhausted
+          if (await this.retryScheduler.recordFailure(op, error)) {
+            result.deadLettered++;
           }
         }
       }
     } finally {
       this.isProcessing = false;
     }
+
+    return result;
+  }
+
+  /**
+   * Remove a pushed op unless a newer edit was coalesced into it mid-push
+   */
+  private async removePushedOp(op: SyncOperation): Promise<void> {
+    const current = await this.db.syncQueue.get(op.id);
+    if (current && (current.coalescedCount ?? 0) !== (op.coalescedCount ?? 0)) {
+      return;
+    }
+    await this.db.removeSyncOp(op.id);
   }
 
   /**
    * Sync single operation to remote
    */
   private async syncOperation(op: SyncOperation): Promise<void> {
-    switch (op.collection) {
-      case 'sessions':
-        await this.remoteAPI.syncSession(op.data);
-        break;
-      
-      case 'quests':
-        await this.remoteAPI.syncQuest(op.data);
-        break;
-      
-      case 'taskOrders':
-        // Task orders are local-only for now
-        break;
-      
-      default:
-        console.warn(`Unknown collection: ${op.collection}`);
+    if (LOCAL_ONLY_COLLECTIONS.includes(op.collection)) {
+      return;
+    }
+
+    const table = this.getTable(op.collection);
+    if (!table) {
+      throw new Error(`Unknown collection: ${op.collection}`);
+    }
+
+    if (op.operation === 'delete') {
+      await this.remoteAPI.deleteDocument(op.collection, op.documentId);
+      if (CLOCKED_COLLECTIONS.includes(op.collection)) {
+        await this.db.deleteSyncBase(op.collection, op.documentId);
+      }
+      return;
+    }
+
+    // Always push the current local document: op.data may be a stale
+    // snapshot or a partial patch (e.g. { hidden } from archiveQuest)
+    const snapshot = (await table.get(op.documentId)) ?? op.data;
+    if (!snapshot) {
+      console.warn(`[SyncQueue] No data to push for ${op.collection}/${op.documentId}, dropping op`);
+      return;
+    }
+
+    await this.remoteAPI.pushDocument(op.collection, op.documentId, snapshot);
+
+    // Remote now has this version: it is the ancestor for the next merge
+    if (CLOCKED_COLLECTIONS.includes(op.collection)) {
+      await this.db.saveSyncBase(op.collection, op.documentId, snapshot);
+    }
+  }
+
+  /**
+   * Pull remote changes since the stored cursor and merge them locally
+   */
+  async pullChanges(userId: string): Promise<PullResult> {
+    const result: PullResult = { applied: 0, skipped: 0, conflicts: 0 };
+    if (!navigator.onLine) return result;
+
+    const state = await this.db.getSyncState(userId);
+    let cursor = state.cursor;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await this.remoteAPI.pullChanges(userId, cursor);
+
+      for (const change of response.changes) {
+        const applied = await this.applyRemoteChange(change, userId, result);
+        if (applied) result.applied++;
+        else result.skipped++;
+      }
+
+      // Persist the cursor per page so an interrupted pull resumes where it stopped
+      cursor = response.cursor;
+      await this.db.saveSyncState({
+        ...state,
+        cursor,
+        lastPullAt: new Date().toISOString(),
+      });
+
+      hasMore = response.hasMore && response.changes.length > 0;
+    }
+
+    return result;
+  }
+
+  /**
+   * Merge one remote change into the local table
+   * Returns false when the change was ignored
+   */
+  private async applyRemoteChange(change: RemoteChange, userId: string, result: PullResult): Promise<boolean> {
+    const table = this.getTable(change.collection);
+    if (!table) {
+      console.warn(`[SyncQueue] Ignoring remote change for unknown collection: ${change.collection}`);
+      return false;
+    }
+
+    const isClocked = CLOCKED_COLLECTIONS.includes(change.collection);
+    const hasPending = await this.hasPendingOp(change.collection, change.documentId);
+
+    if (change.operation === 'delete') {
+      // A pending local edit recreates the document on the next push
+      if (hasPending) return false;
+
+      await table.delete(change.documentId);
+      if (isClocked) {
+        await this.db.deleteSyncBase(change.collection, change.documentId);
+      }
+      return true;
+    }
+
+    if (!change.data) return false;
+
+    const local = await table.get(change.documentId);
+    if (!local) {
+      // A pending op on a missing row is a local delete that has not been pushed
+      if (hasPending) return false;
+
+      await table.put(change.data);
+      if (isClocked) {
+        await this.db.saveSyncBase(change.collection, change.documentId, change.data);
+      }
+      return true;
+    }
+
+    if (isClocked && (local.syncClock || change.data.syncClock)) {
+      return this.applyClockedChange(change, table, local, userId, result);
+    }
+
+    // Unclocked documents: local edits that have not been pushed yet win,
+    // otherwise the newer timestamp wins
+    if (hasPending) return false;
+    if (getDocumentTimestamp(local) > getDocumentTimestamp(change.data, change.updatedAt)) {
+      return false;
+    }
+
+    await table.put(change.data);
+    return true;
+  }
+
+  /**
+   * Apply a remote version of a clocked document using its vector clock
+   */
+  private async applyClockedChange(
+    change: RemoteChange,
+    table: Table<any, string>,
+    local: any,
+    userId: string,
+    result: PullResult
+  ): Promise<boolean> {
+    const remote = change.data;
+
+    switch (compareClocks(local.syncClock, remote.syncClock)) {
+      case 'equal':
+      case 'after':
+        // Local already contains every remote edit
+        return false;
+
+      case 'before':
+        await table.put(remote);
+        await this.db.saveSyncBase(change.collection, change.documentId, remote);
+        return true;
+
+      case 'concurrent': {
+        const base = await this.db.getSyncBase(change.collection, change.documentId);
+        const { merged, conflicts } = mergeDocument(change.collection, base?.data, local, remote)!;
+        merged.syncClock = mergeClocks(local.syncClock, remote.syncClock);
+
+        await table.put(merged);
+        await this.db.saveSyncBase(change.collection, change.documentId, remote);
+
+        // Queueing bumps the clock past both sides, so the merge wins on the next push
+        await this.db.queueSync({
+          operation: 'update',
+          collection: change.collection,
+          documentId: change.documentId,
+          data: merged,
+          priority: 7,
+          userId,
+          retryCount: 0,
+          nextRetryTime: null,
+          error: null,
+        });
+
+        await this.recordConflicts(change, userId, conflicts);
+        result.conflicts += conflicts.length;
+        return true;
+      }
     }
   }
 
+  /**
+   * Store unmerged fields for the user to resolve
+   * One open conflict per document field; a newer one replaces it
+   */
+  private async recordConflicts(change: RemoteChange, userId: string, conflicts: FieldConflict[]): Promise<void> {
+    const createdAt = new Date().toISOString();
+
+    for (const conflict of conflicts) {
+      const record: SyncConflict = {
+        conflictId: `${change.collection}:${change.documentId}:${conflict.field}`,
+        userId,
+        collection: change.collection,
+        documentId: change.documentId,
+        field: conflict.field,
+        localValue: conflict.localValue,
+        remoteValue: conflict.remoteValue,
+        status: 'open',
+        resolution: null,
+        createdAt,
+        resolvedAt: null,
+      };
+      await this.db.syncConflicts.put(record);
+    }
+  }
+
+  /**
+   * Resolve a conflict by keeping the local value or taking the remote one
+   */
+  async resolveConflict(conflictId: string, choice: 'local' | 'remote'): Promise<void> {
+    const conflict = await this.db.syncConflicts.get(conflictId);
+    if (!conflict || conflict.status !== 'open') {
+      throw new Error(`Sync conflict not found: ${conflictId}`);
+    }
+
+    const table = this.getTable(conflict.collection);
+    const doc = table ? await table.get(conflict.documentId) : undefined;
+
+    if (choice === 'remote' && table && doc) {
+      const updated = { ...doc, [conflict.field]: conflict.remoteValue };
+      if (conflict.collection === 'quests') {
+        updated.updatedAt = new Date().toISOString();
+      }
+      await table.put(updated);
+      await this.db.queueSync({
+        operation: 'update',
+        collection: conflict.collection,
+        documentId: conflict.documentId,
+        data: updated,
+        priority: 7,
+        userId: conflict.userId,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
+      });
+    }
+
+    await this.db.syncConflicts.update(conflictId, {
+      status: 'resolved',
+      resolution: choice,
+      resolvedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Whether a local op is still waiting to be pushed for this document
+   */
+  private async hasPendingOp(collection: string, documentId: string): Promise<boolean> {
+    const count = await this.db.syncQueue
+      .where('[collection+documentId]')
+      .equals([collection, documentId])
+      .count();
+    return count > 0;
+  }
+
+  private getTable(collection: string): Table<any, string> | null {
+    if (!(collection in SYNCED_TABLES)) return null;
+    return this.db[SYNCED_TABLES[collection as SyncedCollection]] as Table<any, string>;
+  }
+
   /**
    * Get pending operation count
    */
@@ -119,3 +378,12 @@ export class SyncQueue {
     await this.db.syncQueue.clear();
   }
 }
+
+/**
+ * Best-effort modification time of a synced document (ms since epoch)
+ */
+function getDocumentTimestamp(doc: any, fallback?: string): number {
+  const value = doc.updatedAt ?? doc.lastModified ?? doc.endTime ?? doc.createdAt ?? fallback;
+  const time = value ? new Date(value).getTime() : 0;
+  return Number.isNaN(time) ? 0 : time;
+}
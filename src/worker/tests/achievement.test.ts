@@ -0,0 +1,103 @@
+// FILE: src/worker/tests/achievement.test.ts
+
+import { AchievementService, getCleanDays } from '../services/achievement.service';
+
+// --- MOCK SETUP ---
+
+const mockUsers = new Map<string, any>();
+const mockSessions: any[] = [];
+const mockQuests: any[] = [];
+const mockAddActivity = jest.fn();
+const mockCreateNotification = jest.fn();
+
+const mockQuery = (rows: any[], field: string) => ({
+    equals: (value: string) => {
+        let result = rows.filter(row => row[field] === value);
+        const chain = {
+            filter: (fn: (row: any) => boolean) => { result = result.filter(fn); return chain; },
+            toArray: async () => result,
+        };
+        return chain;
+    },
+});
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => ({
+        users: {
+            get: async (id: string) => mockUsers.get(id),
+            put: async (user: any) => { mockUsers.set(user.userId, user); },
+        },
+        sessions: { where: (field: string) => mockQuery(mockSessions, field) },
+        quests: { where: (field: string) => mockQuery(mockQuests, field) },
+        queueSync: jest.fn(),
+    }),
+}));
+
+jest.mock('../services/activity-feed.service', () => ({
+    ActivityFeedService: jest.fn(() => ({ addActivity: mockAddActivity })),
+}));
+
+jest.mock('../services/notification.service', () => ({
+    NotificationService: jest.fn(() => ({ createNotification: mockCreateNotification })),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+
+// --- TEST SUITE ---
+describe('AchievementService', () => {
+
+    beforeEach(() => {
+        mockUsers.clear();
+        mockSessions.length = 0;
+        mockQuests.length = 0;
+        jest.clearAllMocks();
+        mockUsers.set(MOCK_USER_ID, {
+            userId: MOCK_USER_ID,
+            username: 'tester',
+            totalLevel: 1,
+            achievements: [],
+            streakData: { currentStreak: 7, longestStreak: 7 },
+        });
+    });
+
+    it('should unlock session achievements once, with a timestamp, feed item and notification', async () => {
+        // Arrange
+        const service = new AchievementService();
+        mockSessions.push({ userId: MOCK_USER_ID, status: 'completed', sessionType: 'pomodoro', actualDurationMin: 25 });
+
+        // Act
+        const first = await service.evaluate(MOCK_USER_ID, 'session');
+        const again = await service.evaluate(MOCK_USER_ID, 'session');
+
+        // Assert
+        expect(first.map(a => a.achievementId)).toEqual(['first-focus', 'streak-7']);
+        expect(again).toEqual([]);
+        const user = mockUsers.get(MOCK_USER_ID);
+        expect(user.achievements).toEqual(['first-focus', 'streak-7']);
+        expect(Object.keys(user.achievementUnlocks)).toEqual(['first-focus', 'streak-7']);
+        expect(mockAddActivity).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'achievement_unlock',
+            data: { achievementName: 'First Focus' },
+        }));
+        expect(mockCreateNotification).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report progress toward locked achievements and match quest difficulty', async () => {
+        // Arrange
+        const service = new AchievementService();
+        mockQuests.push(
+            { ownerId: MOCK_USER_ID, type: 'Quest', isCompleted: true, difficulty: { userAssigned: 'Hard', gmValidated: 'Epic' } },
+            { ownerId: MOCK_USER_ID, type: 'Quest', isCompleted: false, difficulty: { userAssigned: 'Epic', gmValidated: null } },
+        );
+
+        // Act
+        const unlocked = await service.evaluate(MOCK_USER_ID, 'quest_complete');
+        const progress = await service.getAchievementProgress(MOCK_USER_ID);
+
+        // Assert: the GM-validated difficulty counts
+        expect(unlocked.map(a => a.achievementId)).toEqual(['first-quest', 'first-epic']);
+        const quests10 = progress.find(p => p.achievement.achievementId === 'quests-10');
+        expect(quests10).toEqual(expect.objectContaining({ current: 1, unlocked: false, unlockedAt: null }));
+        expect(getCleanDays({ createdAt: '2025-01-01T00:00:00.000Z', antiTracking: undefined }, Date.parse('2025-01-31T12:00:00.000Z'))).toBe(30);
+    });
+});
@@ -0,0 +1,121 @@
+// FILE: src/worker/tests/background-jobs.test.ts
+
+import { ALARMS, registerBackgroundJobs, runAlarm } from '../jobs/background-jobs';
+
+// --- MOCK SETUP ---
+
+const MOCK_USER_ID = "test_user_123";
+
+function createMockTable(rows: any[] = []) {
+    return {
+        rows,
+        get: jest.fn(async (id: string) => rows.find(r => r.userId === id)),
+        toArray: jest.fn(async () => rows),
+        where: (_index: string) => ({
+            equals: (value: string) => {
+                const matching = () => rows.filter(r => r.userId === value);
+                return {
+                    toArray: async () => matching(),
+                    filter: (fn: (row: any) => boolean) => ({ toArray: async () => matching().filter(fn) }),
+                };
+            },
+        }),
+    };
+}
+
+const mockDb: any = {};
+const mockProcessRank = jest.fn();
+const mockRecalibrate = jest.fn();
+const mockCreateNotification = jest.fn();
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => mockDb,
+}));
+
+jest.mock('../services/rank.service', () => ({
+    getRankService: () => ({ processUser: mockProcessRank }),
+}));
+
+jest.mock('../services/gm/gm.calibration', () => ({
+    getCalibrationService: () => ({ recalibrate: mockRecalibrate }),
+}));
+
+jest.mock('../services/notification.service', () => ({
+    NotificationService: jest.fn().mockImplementation(() => ({ createNotification: mockCreateNotification })),
+}));
+
+jest.mock('../services/quest.service', () => ({ QuestService: jest.fn() }));
+jest.mock('../services/sync.service', () => ({ SyncService: jest.fn() }));
+jest.mock('../services/analytics.service', () => ({ AnalyticsService: jest.fn() }));
+jest.mock('../services/buff.service', () => ({ getBuffService: jest.fn() }));
+jest.mock('../services/dungeon.service', () => ({ getDungeonService: jest.fn() }));
+jest.mock('../services/gm/gm.reports', () => ({ getWeeklyReportService: jest.fn() }));
+
+const localDay = (offset: number, hour: number) => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, hour).toISOString();
+};
+
+// --- TEST SUITE ---
+describe('Background jobs', () => {
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockDb.users = createMockTable([{ userId: MOCK_USER_ID, streakData: { currentStreak: 4 } }]);
+        mockDb.settings = createMockTable([{ userId: MOCK_USER_ID, displayName: 'Ada', notifications: { dailySummary: true, dailySummaryTime: '08:00' } }]);
+        mockDb.notifications = createMockTable();
+        mockDb.sessions = createMockTable();
+        mockDb.getActiveQuests = jest.fn(async () => []);
+    });
+
+    afterEach(() => {
+        delete (globalThis as any).chrome;
+    });
+
+    it('should register an onAlarm listener that dispatches each alarm to its job', async () => {
+        // Arrange
+        const addListener = jest.fn();
+        (globalThis as any).chrome = {
+            alarms: { onAlarm: { addListener }, get: jest.fn(async () => ({})), create: jest.fn(), clear: jest.fn() },
+        };
+
+        // Act
+        registerBackgroundJobs();
+        const listener = addListener.mock.calls[0][0];
+        listener({ name: ALARMS.RANK });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        await runAlarm(ALARMS.CALIBRATION);
+        await runAlarm('unknown-alarm');
+
+        // Assert
+        expect(addListener).toHaveBeenCalledTimes(1);
+        expect(mockProcessRank).toHaveBeenCalledWith(MOCK_USER_ID);
+        expect(mockRecalibrate).toHaveBeenCalledWith(MOCK_USER_ID);
+        expect(mockRecalibrate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should summarize yesterday by local date and send at most one summary per local day', async () => {
+        // Arrange
+        mockDb.sessions.rows.push(
+            { userId: MOCK_USER_ID, status: 'completed', startTime: localDay(-1, 12), actualDurationMin: 25, xpEarned: 60 },
+            { userId: MOCK_USER_ID, status: 'abandoned', startTime: localDay(-1, 13), actualDurationMin: 10, xpEarned: 0 },
+            { userId: MOCK_USER_ID, status: 'completed', startTime: localDay(-2, 12), actualDurationMin: 50, xpEarned: 120 },
+            { userId: MOCK_USER_ID, status: 'completed', startTime: localDay(0, 0), actualDurationMin: 25, xpEarned: 60 },
+        );
+        const alarm = `${ALARMS.DAILY_SUMMARY}:${MOCK_USER_ID}`;
+
+        // Act
+        await runAlarm(alarm);
+        mockDb.notifications.rows.push({ userId: MOCK_USER_ID, type: 'daily_summary', createdAt: localDay(0, 0) });
+        await runAlarm(alarm);
+
+        // Assert
+        expect(mockCreateNotification).toHaveBeenCalledTimes(1);
+        expect(mockCreateNotification).toHaveBeenCalledWith(
+            MOCK_USER_ID,
+            'daily_summary',
+            'Daily summary',
+            'Yesterday: 1 session, 25 min focused, +60 XP. Streak: 4 days.'
+        );
+    });
+});
@@ -0,0 +1,167 @@
+// FILE: src/worker/tests/backup.test.ts
+
+import { BackupService, BACKUP_FORMAT } from '../services/backup.service';
+import type { BackupFile } from '../services/backup.service';
+import type { UserProfile } from '../models';
+import { makeUserProfile } from './fixtures';
+
+// --- MOCK SETUP ---
+
+const MOCK_USER_ID = "test_user_123";
+
+function createMockTable(key: string, rows: any[] = []) {
+    const store = new Map<string, any>(rows.map(r => [r[key], r]));
+    return {
+        store,
+        schema: { primKey: { keyPath: key } },
+        get: jest.fn(async (id: string) => store.get(id)),
+        filter: (fn: (row: any) => boolean) => ({
+            toArray: async () => Array.from(store.values()).filter(fn),
+        }),
+        bulkPut: jest.fn(async (items: any[]) => { items.forEach(item => store.set(item[key], item)); }),
+        bulkDelete: jest.fn(async (ids: string[]) => { ids.forEach(id => store.delete(id)); }),
+    };
+}
+
+let mockDb: any;
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => mockDb,
+}));
+
+const makeProfile = (overrides: Partial<UserProfile> = {}): UserProfile => makeUserProfile({
+    username: 'ada',
+    experiencePoints: 900,
+    streakData: { currentStreak: 3, longestStreak: 5, lastActivityDate: '2026-10-10', streakStartDate: '2026-10-08' },
+    ...overrides,
+});
+
+// Tables the backup leaves out are treated as empty by the importer
+const makeBackup = (tables: Partial<BackupFile['tables']>): Omit<BackupFile, 'tables'> & { tables: Partial<BackupFile['tables']> } => ({
+    format: BACKUP_FORMAT,
+    formatVersion: 2,
+    exportedAt: '2026-10-12T00:00:00.000Z',
+    userId: MOCK_USER_ID,
+    tables,
+});
+
+// --- TEST SUITE ---
+describe('BackupService', () => {
+
+    beforeEach(() => {
+        mockDb = {
+            users: createMockTable('userId', [makeProfile()]),
+            settings: createMockTable('userId'),
+            quests: createMockTable('questId', [
+                { questId: 'q1', ownerId: MOCK_USER_ID, title: 'Local title', updatedAt: '2026-01-02T00:00:00.000Z' },
+                { questId: 'q_local', ownerId: MOCK_USER_ID, title: 'Only here', updatedAt: '2026-01-01T00:00:00.000Z' },
+            ]),
+            sessions: createMockTable('sessionId'),
+            taskOrders: createMockTable('id'),
+            activityFeed: createMockTable('id'),
+            agentStates: createMockTable('userId'),
+            comments: createMockTable('id'),
+            notifications: createMockTable('id'),
+            performanceSnapshots: createMockTable('id'),
+            rankHistory: createMockTable('id'),
+            dungeonProgress: createMockTable('id'),
+            weeklyReports: createMockTable('id'),
+            suggestionOutcomes: createMockTable('id'),
+            transaction: jest.fn(async (_mode: string, _tables: any[], fn: () => Promise<void>) => fn()),
+            queueSync: jest.fn(),
+        };
+    });
+
+    it('should migrate a v1 export and preview it without writing anything', async () => {
+        // Arrange
+        const v1 = {
+            exportVersion: '1.0',
+            exportedAt: '2025-06-01T00:00:00.000Z',
+            user: { userId: MOCK_USER_ID, username: 'ada', totalLevel: 4, experiencePoints: 450, streakData: null },
+            quests: [{ questId: 'q_v1', title: 'From v1', difficulty: { userAssigned: 'Hard' } }],
+            sessions: [{ sessionId: 's1', userId: MOCK_USER_ID, endTime: '2025-05-31T10:00:00.000Z' }],
+            settings: { displayName: 'Ada' },
+        };
+        const service = new BackupService();
+
+        // Act
+        const report = await service.previewImport(v1, MOCK_USER_ID, 'merge');
+
+        // Assert
+        expect(report.dryRun).toBe(true);
+        expect(report.sourceVersion).toBe(1);
+        expect(report.warnings[0]).toContain('Migrated from a v1 export');
+        expect(report.tables.quests).toEqual({ added: 1, updated: 0, skipped: 0, removed: 0 });
+        expect(report.tables.users.updated).toBe(1);
+        expect(report.tables.sessions.added).toBe(1);
+        expect(report.tables.settings.added).toBe(1);
+        expect(mockDb.quests.bulkPut).not.toHaveBeenCalled();
+        expect(mockDb.queueSync).not.toHaveBeenCalled();
+    });
+
+    it('should merge only newer rows and take the profile with the later activity date', async () => {
+        // Arrange: q1 is older in the backup, q2 is new, the profile saw activity later
+        const backup = makeBackup({
+            users: [makeProfile({ experiencePoints: 800, streakData: { currentStreak: 5, longestStreak: 5, lastActivityDate: '2026-10-12', streakStartDate: '2026-10-08' } })],
+            quests: [
+                { questId: 'q1', ownerId: MOCK_USER_ID, title: 'Stale title', updatedAt: '2026-01-01T00:00:00.000Z' },
+                { questId: 'q2', ownerId: MOCK_USER_ID, title: 'New quest', updatedAt: '2026-01-01T00:00:00.000Z' },
+            ],
+        });
+        const service = new BackupService();
+
+        // Act
+        const report = await service.importBackup(backup, MOCK_USER_ID, 'merge');
+
+        // Assert
+        expect(report.tables.quests).toEqual({ added: 1, updated: 0, skipped: 1, removed: 0 });
+        expect(report.tables.users).toEqual({ added: 0, updated: 1, skipped: 0, removed: 0 });
+        expect(mockDb.quests.store.get('q1').title).toBe('Local title');
+        expect(mockDb.quests.store.has('q_local')).toBe(true);
+        expect(mockDb.users.store.get(MOCK_USER_ID).streakData.currentStreak).toBe(5);
+        expect(mockDb.queueSync).not.toHaveBeenCalledWith(expect.objectContaining({ operation: 'delete' }));
+    });
+
+    it('should skip rows whose key already belongs to another user, in the preview and the import', async () => {
+        // Arrange: q_other is another user's quest on this device
+        mockDb.quests.store.set('q_other', { questId: 'q_other', ownerId: 'other_user', title: 'Theirs', updatedAt: '2026-01-01T00:00:00.000Z' });
+        const backup = makeBackup({
+            quests: [{ questId: 'q_other', ownerId: MOCK_USER_ID, title: 'Mine', updatedAt: '2026-06-01T00:00:00.000Z' }],
+        });
+        const service = new BackupService();
+
+        // Act
+        const preview = await service.previewImport(backup, MOCK_USER_ID, 'merge');
+        const report = await service.importBackup(backup, MOCK_USER_ID, 'replace');
+
+        // Assert
+        expect(preview.tables.quests).toEqual({ added: 0, updated: 0, skipped: 1, removed: 0 });
+        expect(preview.warnings).toContain('quests: 1 row(s) already belong to another user and were skipped.');
+        expect(report.tables.quests.skipped).toBe(1);
+        expect(mockDb.quests.store.get('q_other').title).toBe('Theirs');
+        expect(mockDb.queueSync).not.toHaveBeenCalledWith(expect.objectContaining({ documentId: 'q_other' }));
+    });
+
+    it('should replace the user\'s rows and queue deletes for rows the backup does not have', async () => {
+        // Arrange
+        const backup = makeBackup({
+            users: [makeProfile()],
+            quests: [{ questId: 'q1', ownerId: MOCK_USER_ID, title: 'Backup title', updatedAt: '2025-12-01T00:00:00.000Z' }],
+        });
+        const service = new BackupService();
+
+        // Act
+        const report = await service.importBackup(backup, MOCK_USER_ID, 'replace');
+
+        // Assert
+        expect(report.tables.quests).toEqual({ added: 0, updated: 1, skipped: 0, removed: 1 });
+        expect(mockDb.quests.store.get('q1').title).toBe('Backup title');
+        expect(mockDb.quests.store.has('q_local')).toBe(false);
+        expect(mockDb.queueSync).toHaveBeenCalledWith(expect.objectContaining({
+            operation: 'delete', collection: 'quests', documentId: 'q_local', data: null,
+        }));
+        expect(mockDb.queueSync).toHaveBeenCalledWith(expect.objectContaining({
+            operation: 'update', collection: 'quests', documentId: 'q1',
+        }));
+    });
+});
@@ -0,0 +1,57 @@
+// FILE: src/worker/tests/buff.test.ts
+
+import { BuffService } from '../services/buff.service';
+import { makeUserProfile as makeUser } from './fixtures';
+
+// --- MOCK SETUP ---
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => ({}),
+}));
+
+const FUTURE = '2999-01-01T00:00:00.000Z';
+const PAST = '2000-01-01T00:00:00.000Z';
+
+// --- TEST SUITE ---
+describe('BuffService', () => {
+
+    it('should grant a streak buff only on milestone days and refresh instead of stacking', () => {
+        // Arrange
+        const service = new BuffService();
+        const user = makeUser({ streakData: { currentStreak: 7, longestStreak: 7, lastActivityDate: '2025-01-01', streakStartDate: '2024-12-26' } });
+
+        // Act
+        const first = service.grantStreakBuff(user);
+        const again = service.grantStreakBuff(user);
+        user.streakData.currentStreak = 8;
+        const none = service.grantStreakBuff(user);
+
+        // Assert
+        expect(first).toEqual(expect.objectContaining({ buffId: 'buff_streak_7', source: 'streak', multiplier: 1.1 }));
+        expect(again?.buffId).toBe('buff_streak_7');
+        expect(none).toBeNull();
+        expect(user.activeBuffs).toHaveLength(1);
+    });
+
+    it('should apply only unexpired debuffs scoped to the quest, capped at 50%', () => {
+        // Arrange
+        const service = new BuffService();
+        const user = makeUser({
+            activeBuffs: [{ buffId: 'b', name: 'B', source: 'streak', effect: {}, multiplier: 1.2, expiresAt: FUTURE }],
+            activeDebuffs: [
+                { debuffId: 'g', name: 'Global', effect: '', severity: 40, expiresAt: FUTURE },
+                { debuffId: 'q1', name: 'Quest 1', effect: '', severity: 20, expiresAt: FUTURE, questId: 'q1' },
+                { debuffId: 'q2', name: 'Quest 2', effect: '', severity: 5, expiresAt: FUTURE, questId: 'q2' },
+                { debuffId: 'old', name: 'Expired', effect: '', severity: 25, expiresAt: PAST },
+            ],
+        });
+
+        // Act
+        const onQ1 = service.getXPModifiers(user, 'q1');
+        const onQ2 = service.getXPModifiers(user, 'q2');
+
+        // Assert
+        expect(onQ1).toEqual([{ source: 'buff', value: 1.2 }, { source: 'debuff', value: 0.5 }]);
+        expect(onQ2).toEqual([{ source: 'buff', value: 1.2 }, { source: 'debuff', value: 0.55 }]);
+    });
+});
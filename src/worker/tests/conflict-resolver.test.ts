@@ -0,0 +1,102 @@
+// FILE: src/worker/tests/conflict-resolver.test.ts
+
+import { compareClocks, mergeQuest, mergeUserSettings } from '../sync/conflict-resolver';
+import { DEFAULT_USER_SETTINGS } from '../models';
+import type { Quest, UserSettings } from '../models';
+import { makeQuest as buildQuest, makeSubtask } from './fixtures';
+
+// --- MOCK SETUP ---
+
+const makeQuest = (overrides: Partial<Quest> = {}): Quest => buildQuest({
+    questId: 'q1',
+    title: 'Learn Rust',
+    description: 'Work through the book',
+    tags: ['code'],
+    subtasks: [
+        makeSubtask({ id: 's1', title: 'Chapter 1', estimatePomodoros: 2 }),
+        makeSubtask({ id: 's2', title: 'Chapter 2', estimatePomodoros: 3 }),
+    ],
+    gamification: { currentLevel: 1, currentExp: 10, expToNextLevel: 22 },
+    tracking: { totalTrackedTime: 50, velocity: 0, averageSessionQuality: 0, lastSessionAt: null },
+    ...overrides,
+});
+
+const makeSettings = (overrides: Partial<UserSettings> = {}): UserSettings => ({
+    ...DEFAULT_USER_SETTINGS,
+    userId: 'u',
+    lastModified: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+// --- TEST SUITE ---
+describe('ConflictResolver', () => {
+
+    it('should order vector clocks', () => {
+        expect(compareClocks({ a: 1 }, { a: 1 })).toBe('equal');
+        expect(compareClocks({ a: 1 }, { a: 2 })).toBe('before');
+        expect(compareClocks({ a: 2, b: 1 }, { a: 2 })).toBe('after');
+        expect(compareClocks({ a: 2 }, { a: 1, b: 1 })).toBe('concurrent');
+    });
+
+    it('should add XP and union subtask completion from both devices', () => {
+        // Arrange: each device completes a different subtask and earns XP
+        const base = makeQuest();
+        const local = makeQuest({
+            gamification: { currentLevel: 1, currentExp: 20, expToNextLevel: 22 },
+            subtasks: [{ ...base.subtasks[0], isComplete: true, completedAt: '2025-01-02T00:00:00.000Z' }, base.subtasks[1]],
+            tracking: { ...base.tracking, totalTrackedTime: 75 },
+            updatedAt: '2025-01-02T00:00:00.000Z',
+        });
+        const remote = makeQuest({
+            gamification: { currentLevel: 1, currentExp: 18, expToNextLevel: 22 },
+            subtasks: [base.subtasks[0], { ...base.subtasks[1], isComplete: true, completedAt: '2025-01-03T00:00:00.000Z' }],
+            tracking: { ...base.tracking, totalTrackedTime: 100 },
+            updatedAt: '2025-01-03T00:00:00.000Z',
+        });
+
+        // Act
+        const { merged, conflicts } = mergeQuest(base, local, remote);
+
+        // Assert: 10 + 10 + 8 = 28 XP crosses the 22 XP threshold
+        expect(conflicts).toEqual([]);
+        expect(merged.gamification).toEqual({ currentLevel: 2, currentExp: 6, expToNextLevel: 1125 });
+        expect(merged.subtasks.map(s => s.isComplete)).toEqual([true, true]);
+        expect(merged.tracking.totalTrackedTime).toBe(125);
+        expect(merged.updatedAt).toBe('2025-01-03T00:00:00.000Z');
+    });
+
+    it('should report hard fields edited on both devices and keep the local value', () => {
+        // Arrange
+        const base = makeQuest();
+        const local = makeQuest({ title: 'Learn Rust properly', tags: ['code', 'systems'] });
+        const remote = makeQuest({ title: 'Rust in 30 days', description: 'New plan' });
+
+        // Act
+        const { merged, conflicts } = mergeQuest(base, local, remote);
+
+        // Assert
+        expect(conflicts).toEqual([{ field: 'title', localValue: 'Learn Rust properly', remoteValue: 'Rust in 30 days' }]);
+        expect(merged.title).toBe('Learn Rust properly');
+        expect(merged.description).toBe('New plan');
+        expect(merged.tags).toEqual(['code', 'systems']);
+    });
+
+    it('should merge settings sections last-writer-wins', () => {
+        // Arrange
+        const base = makeSettings();
+        const local = makeSettings({
+            appearance: { ...base.appearance, theme: 'light' },
+            ai: { ...base.ai, tone: 'mild' },
+            lastModified: '2025-01-02T00:00:00.000Z',
+        });
+        const remote = makeSettings({ ai: { ...base.ai, tone: 'tough' }, lastModified: '2025-01-03T00:00:00.000Z' });
+
+        // Act
+        const { merged } = mergeUserSettings(base, local, remote);
+
+        // Assert
+        expect(merged.appearance.theme).toBe('light');
+        expect(merged.ai.tone).toBe('tough');
+        expect(merged.lastModified).toBe('2025-01-03T00:00:00.000Z');
+    });
+});
@@ -0,0 +1,126 @@
+// FILE: src/worker/tests/dungeon.test.ts
+
+import { DungeonService } from '../services/dungeon.service';
+
+// --- MOCK SETUP ---
+
+const mockUsers = new Map<string, any>();
+const mockQuests = new Map<string, any>();
+const mockProgress = new Map<string, any>();
+const mockSessions: any[] = [];
+const mockCreateNotification = jest.fn();
+
+const mockQuery = (rows: () => any[], field: string) => ({
+    equals: (value: string) => {
+        let result = rows().filter(row => row[field] === value);
+        const chain = {
+            filter: (fn: (row: any) => boolean) => { result = result.filter(fn); return chain; },
+            toArray: async () => result,
+        };
+        return chain;
+    },
+});
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => ({
+        users: {
+            get: async (id: string) => mockUsers.get(id),
+            put: async (user: any) => { mockUsers.set(user.userId, user); },
+        },
+        quests: {
+            get: async (id: string) => mockQuests.get(id),
+            put: async (quest: any) => { mockQuests.set(quest.questId, quest); },
+            filter: (fn: (row: any) => boolean) => ({
+                toArray: async () => [...mockQuests.values()].filter(fn),
+            }),
+        },
+        dungeonProgress: {
+            get: async (id: string) => mockProgress.get(id),
+            put: async (row: any) => { mockProgress.set(row.progressId, row); },
+            where: (field: string) => mockQuery(() => [...mockProgress.values()], field),
+        },
+        sessions: { where: (field: string) => mockQuery(() => mockSessions, field) },
+        queueSync: jest.fn(),
+    }),
+}));
+
+jest.mock('../services/activity-feed.service', () => ({
+    ActivityFeedService: jest.fn(() => ({ addActivity: jest.fn() })),
+}));
+
+jest.mock('../services/notification.service', () => ({
+    NotificationService: jest.fn(() => ({ createNotification: mockCreateNotification })),
+}));
+
+const DUNGEON_ID = 'dungeon_1';
+
+const session = (userId: string, minutes: number, xp: number) => ({
+    userId,
+    questId: DUNGEON_ID,
+    status: 'completed',
+    sessionType: 'pomodoro',
+    startTime: '2026-10-01T10:00:00.000Z',
+    actualDurationMin: minutes,
+    xpEarned: xp,
+});
+
+// --- TEST SUITE ---
+describe('DungeonService', () => {
+
+    beforeEach(() => {
+        mockUsers.clear();
+        mockQuests.clear();
+        mockProgress.clear();
+        mockSessions.length = 0;
+        jest.clearAllMocks();
+        mockQuests.set(DUNGEON_ID, {
+            questId: DUNGEON_ID,
+            title: 'Launch Week',
+            ownerId: 'alice',
+            isDungeon: true,
+            members: ['alice'],
+            dueDate: '2026-01-01T00:00:00.000Z',
+            subtasks: [{ id: 'st_1', isComplete: false }],
+        });
+        mockUsers.set('alice', { userId: 'alice', username: 'alice', experiencePoints: 0, totalLevel: 1 });
+    });
+
+    it('should attribute time and subtasks to each member and rank contribution', async () => {
+        // Arrange
+        const service = new DungeonService();
+        await service.joinDungeon('bob', DUNGEON_ID);
+        mockSessions.push(session('alice', 75, 40), session('bob', 25, 80));
+
+        // Act
+        await service.recordSubtaskCompletion(DUNGEON_ID, 'st_1', 'bob', true);
+        const members = await service.getDungeonProgress(DUNGEON_ID);
+
+        // Assert
+        expect(mockQuests.get(DUNGEON_ID).members).toEqual(['alice', 'bob']);
+        // alice: 75 min; bob: 25 min + one subtask (25)
+        expect(members.map(m => [m.userId, m.contributionPercent])).toEqual([['alice', 60], ['bob', 40]]);
+        expect(members.find(m => m.userId === 'bob')!.performance.velocityRank).toBe(1);
+    });
+
+    it('should clear a finished dungeon after its due date and split the reward by contribution', async () => {
+        // Arrange
+        const service = new DungeonService();
+        await service.joinDungeon('bob', DUNGEON_ID);
+        mockSessions.push(session('alice', 75, 100), session('bob', 25, 100));
+        mockQuests.get(DUNGEON_ID).subtasks[0].isComplete = true;
+
+        // Act
+        const resolved = await service.resolveDueDungeons();
+
+        // Assert
+        expect(resolved).toBe(1);
+        expect(mockQuests.get(DUNGEON_ID).dungeonStatus).toBe('cleared');
+        // Pool: 100 base + 50% of 200 XP earned, split 75/25
+        expect(mockProgress.get(`${DUNGEON_ID}_alice`).rewardXP).toBe(150);
+        expect(mockProgress.get(`${DUNGEON_ID}_bob`).rewardXP).toBe(50);
+        // Only alice's profile lives on this device
+        expect(mockUsers.get('alice').experiencePoints).toBe(150);
+        expect(mockCreateNotification).toHaveBeenCalledTimes(1);
+        expect(await service.resolveDueDungeons()).toBe(0);
+    });
+});
@@ -0,0 +1,88 @@
+// FILE: src/worker/tests/fixtures.ts
+
+import type { Quest, Subtask, UserProfile, InventoryItem } from '../models';
+
+// Typed builders for the model fixtures shared by the test suites. Each suite
+// layers its own defaults on top via `overrides`, so the fixtures stay checked
+// against the models as they change.
+
+export const FIXTURE_USER_ID = "test_user_123";
+export const FIXTURE_TIMESTAMP = '2025-01-01T00:00:00.000Z';
+
+export const makeQuest = (overrides: Partial<Quest> = {}): Quest => ({
+    questId: 'quest_1',
+    ownerId: FIXTURE_USER_ID,
+    title: 'Test quest',
+    description: '',
+    type: 'Quest',
+    isDungeon: false,
+    isPublic: false,
+    tags: [],
+    hidden: false,
+    priority: 'B',
+    color: '#4A90D9',
+    behavior: 'repeating',
+    difficulty: { userAssigned: 'Medium', gmValidated: null, isLocked: false, validatedAt: null, xpPerPomodoro: 50 },
+    schedule: { frequency: 'Daily', targetCompletionsPerCycle: 1, pomodoroDurationMin: 25, breakDurationMin: 5, preferredTimeSlots: [] },
+    subtasks: [],
+    watchers: [],
+    members: [],
+    isTrackAligned: false,
+    dueDate: null,
+    isCompleted: false,
+    completedAt: null,
+    activeBuffs: [],
+    gamification: { currentLevel: 1, currentExp: 0, expToNextLevel: 22 },
+    progressHistory: [],
+    tracking: { totalTrackedTime: 0, velocity: 0, averageSessionQuality: 0, lastSessionAt: null },
+    registeredAt: null,
+    createdAt: FIXTURE_TIMESTAMP,
+    updatedAt: FIXTURE_TIMESTAMP,
+    validationStatus: 'validated',
+    ...overrides,
+});
+
+export const makeSubtask = (overrides: Partial<Subtask> = {}): Subtask => ({
+    id: 'st_1',
+    title: 'Step',
+    estimatePomodoros: 1,
+    isComplete: false,
+    completedAt: null,
+    revisionCount: 0,
+    ...overrides,
+});
+
+export const makeUserProfile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+    userId: FIXTURE_USER_ID,
+    username: 'tester',
+    totalLevel: 1,
+    experiencePoints: 0,
+    isPublic: false,
+    joinDate: FIXTURE_TIMESTAMP,
+    specializationTrack: 'Scholar',
+    grade: 'Bronze I',
+    rankPoints: 0,
+    inventory: [],
+    equippedArtifacts: { weapon: null, armor: null, accessory: null },
+    activeBuffs: [],
+    activeDebuffs: [],
+    agentProfile: { motivationalStyle: 'neutral', preferredDifficulty: 'medium', trustLevel: 50 },
+    streakData: { currentStreak: 0, longestStreak: 0, lastActivityDate: '2025-01-01', streakStartDate: '2025-01-01' },
+    consistencyScore: 0,
+    achievements: [],
+    ...overrides,
+});
+
+export const makeInventoryItem = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+    itemId: 'item_1',
+    name: 'Test',
+    type: 'Artifact',
+    effect: '',
+    rarity: 'Common',
+    usesRemaining: null,
+    durability: 100,
+    slotType: 'Weapon',
+    isEquipped: true,
+    acquiredAt: FIXTURE_TIMESTAMP,
+    ...overrides,
+});
@@ -0,0 +1,131 @@
+// FILE: src/worker/tests/gm.actions.test.ts
+
+import { computeRespondsWellTo, GMActionService } from '../services/gm/gm.actions';
+
+// --- MOCK SETUP ---
+
+let mockOutcomes: any[] = [];
+const mockRecordFeedback = jest.fn();
+
+const mockDb = {
+    quests: { get: jest.fn(), put: jest.fn() },
+    queueSync: jest.fn(),
+    agentStates: { get: jest.fn(), put: jest.fn() },
+    suggestionOutcomes: {
+        where: (index: string) => ({
+            equals: (value: any) => ({
+                toArray: async () => mockOutcomes.filter(r => index === 'userId'
+                    ? r.userId === value
+                    : r.userId === value[0] && r.suggestionId === value[1]),
+            }),
+        }),
+        put: jest.fn(async (record: any) => {
+            mockOutcomes = [...mockOutcomes.filter(r => r.id !== record.id), record];
+        }),
+        bulkPut: jest.fn(async (records: any[]) => {
+            const ids = new Set(records.map(r => r.id));
+            mockOutcomes = [...mockOutcomes.filter(r => !ids.has(r.id)), ...records];
+        }),
+    },
+};
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => mockDb,
+}));
+
+jest.mock('../services/gm/gm.persona', () => ({
+    getGMPersonaService: () => ({ recordFeedback: mockRecordFeedback }),
+}));
+
+jest.mock('../services/settings.service', () => ({
+    getSettingsService: jest.fn(),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+const NOW = new Date('2026-10-15T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const outcome = (suggestionId: string, category: string, result: string, shownHoursAgo: number, expiresInHours: number): any => ({
+    id: `${suggestionId}-${shownHoursAgo}`,
+    userId: MOCK_USER_ID,
+    suggestionId,
+    category,
+    outcome: result,
+    shownAt: new Date(NOW.getTime() - shownHoursAgo * HOUR_MS).toISOString(),
+    expiresAt: new Date(NOW.getTime() + expiresInHours * HOUR_MS).toISOString(),
+    respondedAt: result === 'shown' ? null : NOW.toISOString(),
+});
+
+// --- TEST SUITE ---
+describe('GMActionService', () => {
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockOutcomes = [];
+    });
+
+    it('should expire stale showings, hide answered suggestions and rank by acceptance', async () => {
+        // Arrange: the user accepts take_break but dismisses adjust_schedule
+        mockOutcomes = [
+            outcome('old_break_1', 'take_break', 'accepted', 200, -100),
+            outcome('old_break_2', 'take_break', 'accepted', 150, -50),
+            outcome('old_schedule_1', 'adjust_schedule', 'dismissed', 200, -100),
+            outcome('old_schedule_2', 'adjust_schedule', 'dismissed', 150, -50),
+            outcome('stale', 'tip', 'shown', 80, -8),
+            outcome('answered', 'coaching', 'dismissed', 2, 70),
+        ];
+        const suggestions: any[] = [
+            { id: 'schedule', text: 'Shorter breaks', type: 'coaching', actions: [{ label: 'Go', action: 'adjust_schedule', params: {} }] },
+            { id: 'answered', text: 'Already dismissed', type: 'coaching' },
+            { id: 'break', text: 'Rest today', type: 'coaching', actions: [{ label: 'Rest', action: 'take_break', params: {} }] },
+        ];
+
+        // Act
+        const result = await new GMActionService().trackSuggestions(MOCK_USER_ID, suggestions, NOW);
+
+        // Assert
+        expect(result.map(s => s.id)).toEqual(['break', 'schedule']);
+        expect(mockOutcomes.find(r => r.suggestionId === 'stale').outcome).toBe('expired');
+        expect(mockOutcomes.filter(r => r.outcome === 'shown').map(r => r.suggestionId).sort()).toEqual(['break', 'schedule']);
+        expect(computeRespondsWellTo(mockOutcomes)).toEqual([]);
+        expect(computeRespondsWellTo([...mockOutcomes, outcome('old_break_3', 'take_break', 'accepted', 100, -10)])).toEqual(['take_break']);
+    });
+
+    it('should execute a registered action, record the acceptance and refresh respondsWellTo', async () => {
+        // Arrange
+        mockDb.quests.get.mockResolvedValue({
+            questId: 'q1',
+            ownerId: MOCK_USER_ID,
+            title: 'Ship the app',
+            difficulty: { userAssigned: 'Hard', gmValidated: 'Hard', isLocked: true, xpPerPomodoro: 150 },
+        });
+        mockDb.agentStates.get.mockResolvedValue({ userId: MOCK_USER_ID, motivationalProfile: { respondsWellTo: [] } });
+        mockOutcomes = [
+            outcome('earlier_1', 'reduce_difficulty', 'accepted', 300, -200),
+            outcome('earlier_2', 'reduce_difficulty', 'accepted', 250, -150),
+            outcome('epic', 'reduce_difficulty', 'shown', 1, 71),
+        ];
+        const suggestion: any = { id: 'epic', text: 'Too big', type: 'coaching', tone: 'standard' };
+        const service = new GMActionService();
+
+        // Act
+        const message = await service.executeSuggestionAction(MOCK_USER_ID, suggestion, {
+            label: 'Lower difficulty',
+            action: 'reduce_difficulty',
+            params: { questId: 'q1' },
+        });
+
+        // Assert
+        expect(message).toBe("'Ship the app' is now Medium.");
+        expect(mockDb.quests.put).toHaveBeenCalledWith(expect.objectContaining({
+            difficulty: expect.objectContaining({ userAssigned: 'Medium', gmValidated: 'Medium', xpPerPomodoro: 80 }),
+        }));
+        expect(mockOutcomes.find(r => r.suggestionId === 'epic').outcome).toBe('accepted');
+        expect(mockRecordFeedback).toHaveBeenCalledWith(MOCK_USER_ID, 'standard', true);
+        expect(mockDb.agentStates.put).toHaveBeenCalledWith(expect.objectContaining({
+            motivationalProfile: { respondsWellTo: ['reduce_difficulty'] },
+        }));
+        await expect(service.executeSuggestionAction(MOCK_USER_ID, suggestion, { label: 'x', action: 'launch_rocket', params: {} }))
+            .rejects.toThrow('UNKNOWN_ACTION');
+    });
+});
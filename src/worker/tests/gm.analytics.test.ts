@@ -0,0 +1,87 @@
+// FILE: src/worker/tests/gm.analytics.test.ts
+
+import { runDetectors } from '../services/gm/gm.analytics';
+
+// --- MOCK SETUP ---
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: jest.fn(),
+}));
+
+const NOW = new Date(2026, 9, 15, 12, 0).getTime(); // local time, so hours line up with the detectors
+
+const at = (daysAgo: number, hour: number, minute = 0) => {
+    const d = new Date(NOW - daysAgo * 24 * 60 * 60 * 1000);
+    d.setHours(hour, minute, 0, 0);
+    return d.toISOString();
+};
+
+const session = (overrides: any) => ({
+    userId: 'u1',
+    questId: 'q_main',
+    sessionType: 'pomodoro',
+    status: 'completed',
+    actualDurationMin: 25,
+    quality: { score: 85 },
+    ...overrides,
+});
+
+const quest = (overrides: any) => ({
+    questId: 'q_main',
+    title: 'Thesis',
+    type: 'Quest',
+    hidden: false,
+    isCompleted: false,
+    subtasks: [],
+    difficulty: { userAssigned: 'Medium', gmValidated: null },
+    ...overrides,
+});
+
+// --- TEST SUITE ---
+describe('GM pattern detectors', () => {
+
+    it('should detect abandoning after the 2nd pomodoro and suggest 2-pomodoro blocks', () => {
+        // Arrange: three days of complete, complete, abandoned, on Tue/Wed/Thu mornings
+        const sessions = [2, 3, 4].flatMap(daysAgo => [
+            session({ startTime: at(daysAgo, 9, 0) }),
+            session({ startTime: at(daysAgo, 9, 30) }),
+            session({ startTime: at(daysAgo, 10, 0), status: 'abandoned', actualDurationMin: 8 }),
+        ]);
+
+        // Act
+        const detections = runDetectors({ sessions: sessions as any, quests: [quest({})] as any, now: NOW });
+
+        // Assert
+        const abandonment = detections.find(d => d.pattern.name === 'abandons_after_pomodoro_2');
+        expect(abandonment).toBeDefined();
+        expect(abandonment!.pattern.category).toBe('behavior');
+        expect(abandonment!.pattern.confidence).toBeGreaterThan(0);
+        expect(abandonment!.adjustments).toEqual([expect.objectContaining({
+            questId: 'q_main',
+            actionType: 'adjust_schedule',
+            params: { pomodorosPerBlock: 2, breakDurationMin: 15 },
+        })]);
+    });
+
+    it('should flag stalled Epics and late-night sessions that score lower', () => {
+        // Arrange
+        const quests = [
+            quest({ questId: 'epic_a', title: 'Novel', difficulty: { userAssigned: 'Epic', gmValidated: null } }),
+            quest({ questId: 'epic_b', title: 'Startup', difficulty: { userAssigned: 'Medium', gmValidated: 'Epic' } }),
+        ];
+        const sessions = [
+            ...[1, 2, 3].map(d => session({ questId: 'epic_a', startTime: at(d, 10) })),
+            ...[1, 2, 3].map(d => session({ questId: 'epic_a', startTime: at(d, 23), quality: { score: 50 } })),
+        ];
+
+        // Act
+        const detections = runDetectors({ sessions: sessions as any, quests: quests as any, now: NOW });
+
+        // Assert
+        const epics = detections.find(d => d.pattern.name === 'overcommitted_epics')!;
+        expect(epics.adjustments).toEqual([expect.objectContaining({ questId: 'epic_b', actionType: 'create_subtask' })]);
+        const lateNight = detections.find(d => d.pattern.name === 'late_night_low_quality')!;
+        expect(lateNight.adjustments[0].questId).toBe('epic_a');
+        expect(detections.map(d => d.pattern.name)).not.toContain('abandons_after_pomodoro_2');
+    });
+});
@@ -0,0 +1,87 @@
+// FILE: src/worker/tests/gm.calibration.test.ts
+
+import { buildCalibration } from '../services/gm/gm.calibration';
+import { scoreQuest } from '../services/gm/gm.validator';
+
+// --- MOCK SETUP ---
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: jest.fn(),
+}));
+
+const NOW = new Date('2026-10-15T12:00:00Z');
+
+// Subtasks are 2-pomodoro steps (25 min each); `done` of them complete
+const quest = (questId: string, tier: string, steps: number, done: number, trackedMin: number, extra: any = {}): any => ({
+    questId,
+    title: `Quest ${questId}`,
+    type: 'Quest',
+    behavior: 'progressive',
+    isCompleted: false,
+    completedAt: null,
+    registeredAt: '2026-10-01T12:00:00Z',
+    createdAt: '2026-10-01T12:00:00Z',
+    tags: [],
+    schedule: { pomodoroDurationMin: 25 },
+    difficulty: { userAssigned: tier, gmValidated: tier, isLocked: true, xpPerPomodoro: 80 },
+    subtasks: Array.from({ length: steps }, (_, i) => ({ id: `${questId}-s${i}`, title: `Step ${i}`, estimatePomodoros: 2, isComplete: i < done })),
+    tracking: { totalTrackedTime: trackedMin },
+    ...extra,
+});
+
+const completed = (questId: string, trackedMin: number) =>
+    quest(questId, 'Medium', 6, 6, trackedMin, { isCompleted: true, completedAt: '2026-10-10T12:00:00Z' });
+
+// --- TEST SUITE ---
+describe('CalibrationService', () => {
+
+    it('should derive the factor from completed quests and propose XP for open quests that fit another tier', () => {
+        // Arrange: completed quests estimated at 5h took 7.5h, 6h and 10h; q1 is half done after 8h
+        const quests = [
+            completed('c1', 450),
+            completed('c2', 360),
+            completed('c3', 600),
+            quest('q1', 'Medium', 6, 3, 480),
+            quest('q2', 'Medium', 6, 3, 150),
+            quest('q3', 'Hard', 6, 0, 30),
+            quest('old', 'Medium', 6, 6, 900, { isCompleted: true, completedAt: '2026-05-01T12:00:00Z' }),
+        ];
+        const sessions: any[] = [
+            ...Array.from({ length: 3 }, () => ({ questId: 'q1', status: 'completed' })),
+            { questId: 'q1', status: 'abandoned' },
+        ];
+
+        // Act
+        const calibration = buildCalibration({ quests, sessions, now: NOW });
+
+        // Assert
+        expect(calibration.factor).toBe(1.5);
+        expect(calibration.sampleSize).toBe(3);
+        expect(calibration.quests.map(q => q.questId)).toEqual(['c1', 'c2', 'c3', 'q1', 'q2']);
+        const q1 = calibration.quests.find(q => q.questId === 'q1')!;
+        expect(q1).toEqual(expect.objectContaining({ actualHours: 16, actualTier: 'Hard', sessions: 3, daysActive: 14, proposedXpPerPomodoro: 150 }));
+        expect(q1.reason).toBe('Rated Medium at 5.0h, it is heading for 16.0h after 3 sessions in 14 days, which fits Hard.');
+        expect(calibration.quests.find(q => q.questId === 'q2')!.proposedXpPerPomodoro).toBeNull();
+        expect(calibration.quests.find(q => q.questId === 'c3')!.proposedXpPerPomodoro).toBeNull();
+    });
+
+    it('should scale local scoring by the calibration factor when there is no similar-quest history', () => {
+        // Arrange: 6h of estimated work is Medium on its own
+        const input: any = {
+            quest: quest('new', 'Medium', 6, 0, 0, { subtasks: [{ id: 's', title: 'All of it', estimatePomodoros: 14, isComplete: false }] }),
+            userLevel: 20,
+            metrics: { burnoutRisk: 'Low' },
+            historyRatios: [],
+        };
+
+        // Act
+        const uncalibrated = scoreQuest(input);
+        const calibrated = scoreQuest({ ...input, calibrationFactor: 1.8 });
+
+        // Assert
+        expect(uncalibrated.validatedDifficulty).toBe('Medium');
+        expect(calibrated.validatedDifficulty).toBe('Hard');
+        expect(calibrated.reasoning).toContain('Your recent quests took 1.8× their estimate.');
+        expect(calibrated.recommendations).toContain('Your quests ran 80% over estimate; budget extra sessions.');
+    });
+});
@@ -0,0 +1,48 @@
+// FILE: src/worker/tests/gm.persona.test.ts
+
+import { adaptMotivationalStyle, renderMessage, resolveTone } from '../services/gm/gm.persona';
+
+// --- MOCK SETUP ---
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: jest.fn(),
+}));
+
+jest.mock('../services/settings.service', () => ({
+    getSettingsService: jest.fn(),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-01T12:00:00.000Z');
+
+// --- TEST SUITE ---
+describe('GM Persona', () => {
+
+    it('should honor explicit tones, learn within standard, and vary wording day to day', () => {
+        // Arrange / Act
+        const today = renderMessage('streak_milestone', 'tough', { days: 14 }, 'gm_milestone_streak_14', NOW);
+        const sameDay = renderMessage('streak_milestone', 'tough', { days: 14 }, 'gm_milestone_streak_14', NOW + 60 * 1000);
+        const tomorrow = renderMessage('streak_milestone', 'tough', { days: 14 }, 'gm_milestone_streak_14', NOW + DAY_MS);
+
+        // Assert
+        expect(resolveTone('mild', 'firm')).toBe('mild');
+        expect(resolveTone('standard', 'firm')).toBe('tough');
+        expect(resolveTone('standard')).toBe('standard');
+        expect(today).toContain('14');
+        expect(today).not.toContain('{days}');
+        expect(sameDay).toBe(today);
+        expect(tomorrow).not.toBe(today);
+    });
+
+    it('should drift toward the tone the user acts on once there is enough feedback', () => {
+        // Arrange
+        const ignoredNeutral = { standard: { acted: 0, dismissed: 4 } };
+        const tooFewSamples = { standard: { acted: 0, dismissed: 2 } };
+        const respondsToTough = { standard: { acted: 1, dismissed: 4 }, tough: { acted: 4, dismissed: 0 } };
+
+        // Act / Assert: untried tones start at 50%, so an ignored tone gives way
+        expect(adaptMotivationalStyle('neutral', tooFewSamples)).toBe('neutral');
+        expect(adaptMotivationalStyle('neutral', ignoredNeutral)).toBe('gentle');
+        expect(adaptMotivationalStyle('gentle', { ...respondsToTough, mild: { acted: 1, dismissed: 3 } })).toBe('firm');
+    });
+});
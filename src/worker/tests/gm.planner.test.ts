@@ -0,0 +1,125 @@
+// FILE: src/worker/tests/gm.planner.test.ts
+
+import { buildDailyPlan, DailyPlannerService } from '../services/gm/gm.planner';
+import { getDB } from '../db/indexed-db';
+import { getSettingsService } from '../services/settings.service';
+
+// --- MOCK SETUP ---
+
+const mockUpdateTaskOrder = jest.fn();
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: jest.fn(),
+}));
+
+jest.mock('../services/analytics.service', () => ({
+    AnalyticsService: jest.fn(() => ({ assessBurnoutRisk: async () => 'Low' })),
+}));
+
+jest.mock('../services/settings.service', () => ({
+    getSettingsService: jest.fn(),
+}));
+
+jest.mock('../services/task.service', () => ({
+    getTaskService: () => ({ updateTaskOrder: mockUpdateTaskOrder, getTodaysTasks: async () => [] }),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+const NOW = new Date(2026, 9, 15, 9, 0); // local 09:00
+
+const quest = (questId: string, priority: string, subtasks: [string, number][], preferredTimeSlots: string[] = []): any => ({
+    questId,
+    title: `Quest ${questId}`,
+    type: 'Quest',
+    priority,
+    schedule: { frequency: 'Daily', pomodoroDurationMin: 25, breakDurationMin: 5, preferredTimeSlots },
+    subtasks: subtasks.map(([id, estimatePomodoros]) => ({ id, title: id, estimatePomodoros, isComplete: false })),
+});
+
+// --- TEST SUITE ---
+describe('DailyPlannerService', () => {
+
+    it('should order blocks by priority and preferred slots, deferring what exceeds capacity', () => {
+        // Arrange: ~100 min typical day; 'b' prefers 11:00
+        const quests = [
+            quest('c', 'C', [['c1', 2]]),
+            quest('a', 'A', [['a1', 1], ['a2', 2]]),
+            quest('b', 'B', [['b1', 1]], ['11:00']),
+        ];
+
+        // Act
+        const plan = buildDailyPlan(MOCK_USER_ID, {
+            quests,
+            historyDailyMinutes: [90, 100, 110],
+            doneTodayMin: 0,
+            burnoutRisk: 'Low',
+            now: NOW,
+        });
+
+        // Assert
+        expect(plan.date).toBe('2026-10-15');
+        expect(plan.capacityMin).toBe(100);
+        expect(plan.blocks.map(b => b.subtaskId)).toEqual(['a1', 'a2', 'b1']);
+        expect(new Date(plan.blocks[0].startTime).getHours()).toBe(9);
+        // a1 09:00-09:25, a2 09:30-10:25, then b1 waits for its 11:00 slot
+        expect(new Date(plan.blocks[1].endTime).getMinutes()).toBe(25);
+        expect(new Date(plan.blocks[2].startTime).getHours()).toBe(11);
+        expect(plan.plannedMin).toBe(100);
+        expect(plan.deferrals).toEqual([expect.objectContaining({ subtaskId: 'c1', reason: 'Beyond your usual daily focus time' })]);
+    });
+
+    it('should shrink the day under burnout risk and write the accepted plan as the task order', async () => {
+        // Arrange
+        const plan = buildDailyPlan(MOCK_USER_ID, {
+            quests: [quest('a', 'A', [['a1', 1], ['a2', 1], ['a3', 1]])],
+            historyDailyMinutes: [100],
+            doneTodayMin: 0,
+            burnoutRisk: 'High',
+            now: NOW,
+        });
+
+        // Act
+        const items = await new DailyPlannerService().acceptDailyPlan(MOCK_USER_ID, plan);
+
+        // Assert: 60 of 100 min budgeted, so two pomodoros fit
+        expect(plan.capacityMin).toBe(60);
+        expect(plan.blocks.map(b => b.subtaskId)).toEqual(['a1', 'a2']);
+        expect(plan.deferrals[0].reason).toContain('high burnout risk');
+        expect(items.map(i => i.taskId)).toEqual(['a1', 'a2', 'a3']);
+        expect(mockUpdateTaskOrder).toHaveBeenCalledWith(MOCK_USER_ID, items);
+    });
+
+    it('should bucket session history by local day when budgeting today', async () => {
+        // Arrange: 25 min after local midnight today, 50 min late yesterday evening
+        const now = new Date();
+        const localTime = (offsetDays: number, hour: number, minute: number) =>
+            new Date(now.getFullYear(), now.getMonth(), now.getDate() + offsetDays, hour, minute).toISOString();
+        const sessions = [
+            { userId: MOCK_USER_ID, status: 'completed', startTime: localTime(0, 0, 5), actualDurationMin: 25 },
+            { userId: MOCK_USER_ID, status: 'completed', startTime: localTime(-1, 23, 30), actualDurationMin: 50 },
+            { userId: MOCK_USER_ID, status: 'completed', startTime: localTime(-20, 12, 0), actualDurationMin: 500 },
+        ];
+        (getDB as jest.Mock).mockReturnValue({
+            sessions: {
+                where: () => ({
+                    between: (lower: [string, string], upper: [string, string], _includeLower = true, includeUpper = false) => ({
+                        filter: (fn: (s: any) => boolean) => ({
+                            toArray: async () => sessions.filter(s =>
+                                s.startTime >= lower[1] && (includeUpper ? s.startTime <= upper[1] : s.startTime < upper[1]) && fn(s)
+                            ),
+                        }),
+                    }),
+                }),
+            },
+        });
+        (getSettingsService as jest.Mock).mockReturnValue({
+            getUserSettings: async () => ({ ai: { suggestions: { dailyPlan: true } } }),
+        });
+
+        // Act
+        const plan = await new DailyPlannerService().generateDailyPlan(MOCK_USER_ID);
+
+        // Assert: yesterday's 50 min is the typical day, today's 25 min is already done
+        expect(plan?.capacityMin).toBe(25);
+    });
+});
@@ -0,0 +1,136 @@
+// FILE: src/worker/tests/gm.provider.test.ts
+
+import {
+    OpenAICompatibleProvider,
+    StubGMProvider,
+    buildValidationPrompt,
+    createGMProvider,
+    getProviderApiKey,
+    setProviderApiKey,
+} from '../api/gm-provider';
+import { RemoteQuestValidator } from '../services/gm/gm.validator';
+import { DEFAULT_USER_SETTINGS } from '../models/UserSettings';
+
+// --- MOCK SETUP ---
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as any;
+
+jest.mock('../services/settings.service', () => ({
+    getSettingsService: () => ({
+        getUserSettings: async () => ({ ai: { tone: 'tough' } }),
+    }),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+
+const METRICS: any = {
+    weeklyVelocity: 120,
+    monthlyConsistency: 80,
+    burnoutRisk: 'Low',
+    averageSessionQuality: 75,
+    streakDays: 4,
+    activeQuestCount: 3,
+    overdueQuestCount: 0,
+    velocityTrend: 'stable',
+    consistencyTrend: 'improving',
+};
+
+const QUEST: any = {
+    questId: 'q1',
+    title: 'Write thesis',
+    description: 'Chapter 3',
+    subtasks: [{ title: 'Outline', estimatePomodoros: 2 }],
+    difficulty: { userAssigned: 'Hard', gmValidated: null, isLocked: false, xpPerPomodoro: 150 },
+    timeEstimateHours: 10,
+};
+
+const chatReply = (content: string) => ({
+    ok: true,
+    json: async () => ({ choices: [{ message: { role: 'assistant', content } }] }),
+});
+
+// --- TEST SUITE ---
+describe('GM providers', () => {
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should prompt an OpenAI-compatible endpoint and retry until the reply passes the schema', async () => {
+        // Arrange: prose, then a bad tier, then a valid fenced reply
+        mockFetch
+            .mockResolvedValueOnce(chatReply('Looks hard to me!'))
+            .mockResolvedValueOnce(chatReply('{"status": "validated", "suggestedDifficulty": "Legendary"}'))
+            .mockResolvedValueOnce(chatReply('```json\n{"status": "validated", "suggestedDifficulty": "Medium", "confidence": 0.7, "reasoning": "Two pomodoros is not Hard.", "recommendations": ["Add subtasks"]}\n```'));
+        const provider = new OpenAICompatibleProvider({ endpoint: 'http://localhost:11434/v1/', model: 'llama3' });
+        const context: any = { userId: MOCK_USER_ID, metrics: METRICS, gmTone: 'mild' };
+
+        // Act
+        const result = await provider.validateQuest(QUEST, context);
+
+        // Assert
+        expect(result).toEqual(expect.objectContaining({ status: 'validated', suggestedDifficulty: 'Medium', confidence: 0.7 }));
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+        const [url, init] = mockFetch.mock.calls[2];
+        expect(url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(init.headers.Authorization).toBeUndefined();
+        const body = JSON.parse(init.body);
+        expect(body.model).toBe('llama3');
+        expect(body.messages).toHaveLength(6);
+        expect(body.messages[5].content).toContain('"suggestedDifficulty" must be one of');
+        expect(buildValidationPrompt(QUEST, context)[1].content).toContain('"userAssignedDifficulty": "Hard"');
+
+        mockFetch.mockResolvedValue(chatReply('no json here'));
+        await expect(provider.validateQuest(QUEST, context)).rejects.toThrow('GM_PROVIDER_INVALID_REPLY');
+    });
+
+    it('should validate through an injected stub provider with the user\'s tone', async () => {
+        // Arrange
+        const stub = new StubGMProvider({ suggestedDifficulty: 'Epic', suggestedXpPerPomodoro: 250 });
+        const validator = new RemoteQuestValidator({ generateAgentState: async () => ({ ...METRICS, calculatedAt: 'now' }) } as any, stub);
+
+        // Act
+        const result = await validator.validate(MOCK_USER_ID, QUEST);
+
+        // Assert
+        expect(result).toEqual({
+            validatedDifficulty: 'Epic',
+            reasoning: "Stub validation of 'Write thesis'.",
+            recommendations: [],
+            confidence: 1,
+            suggestedXPPerPomodoro: 250,
+        });
+        expect(stub.calls).toHaveLength(1);
+        expect(stub.calls[0].context).toEqual({ userId: MOCK_USER_ID, metrics: METRICS, gmTone: 'tough' });
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should keep the API key in chrome.storage.local, out of the synced settings', async () => {
+        // Arrange
+        const stored: Record<string, string> = {};
+        (globalThis as any).chrome = {
+            storage: {
+                local: {
+                    get: jest.fn(async (keys: string[]) => Object.fromEntries(keys.filter(k => k in stored).map(k => [k, stored[k]]))),
+                    set: jest.fn(async (items: Record<string, string>) => { Object.assign(stored, items); }),
+                    remove: jest.fn(async (key: string) => { delete stored[key]; }),
+                },
+            },
+        };
+        mockFetch.mockResolvedValueOnce(chatReply('{"status": "validated", "suggestedDifficulty": "Hard"}'));
+        const config = { ...DEFAULT_USER_SETTINGS.ai.provider, type: 'openai-compatible' as const };
+
+        // Act
+        await setProviderApiKey(MOCK_USER_ID, 'sk-test');
+        const provider = createGMProvider(config, await getProviderApiKey(MOCK_USER_ID));
+        await provider.validateQuest(QUEST, { userId: MOCK_USER_ID, metrics: METRICS, gmTone: 'standard' });
+        await setProviderApiKey(MOCK_USER_ID, '');
+
+        // Assert
+        expect(DEFAULT_USER_SETTINGS.ai.provider).not.toHaveProperty('apiKey');
+        expect(mockFetch.mock.calls[0][1].headers['Authorization']).toBe('Bearer sk-test');
+        expect(await getProviderApiKey(MOCK_USER_ID)).toBe('');
+        delete (globalThis as any).chrome;
+    });
+});
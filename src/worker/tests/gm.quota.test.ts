@@ -0,0 +1,99 @@
+// FILE: src/worker/tests/gm.quota.test.ts
+
+import { applyQuotaReset, canValidateRemotely } from '../services/gm/gm.quota';
+import { GMService } from '../services/gm/gm.service';
+import type { Quest } from '../models/Quest';
+
+// --- MOCK SETUP ---
+
+let mockSettings: any;
+const mockUpdateSection = jest.fn(async (_userId: string, section: string, data: any) => {
+    mockSettings = { ...mockSettings, [section]: data };
+    return mockSettings;
+});
+
+const mockDb = {
+    getPendingSyncOps: jest.fn(),
+    removeSyncOp: jest.fn(),
+    quests: { get: jest.fn(), put: jest.fn() },
+};
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => mockDb,
+}));
+
+jest.mock('../services/settings.service', () => ({
+    getSettingsService: () => ({
+        getUserSettings: async () => mockSettings,
+        updateSection: mockUpdateSection,
+    }),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+const NOW = new Date(2026, 9, 15, 12);
+
+const quest = (questId: string, difficulty: string): any => ({
+    questId,
+    ownerId: MOCK_USER_ID,
+    title: `Quest ${questId}`,
+    difficulty: { userAssigned: difficulty, gmValidated: null, isLocked: false, xpPerPomodoro: 50 },
+});
+
+const validationOp = (questId: string): any => ({
+    id: `op_${questId}`,
+    collection: 'gm_validation',
+    operation: 'validate',
+    documentId: questId,
+    userId: MOCK_USER_ID,
+});
+
+// --- TEST SUITE ---
+describe('GM validation quota', () => {
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should reset the count at local midnight and keep the last of the budget for Epic and Hard quests', () => {
+        // Arrange
+        const quota = { dailyLimit: 10, successfulValidationsToday: 7, resetTimestamp: new Date(2026, 9, 15).toISOString() };
+
+        // Act
+        const reset = applyQuotaReset(quota, NOW);
+
+        // Assert
+        expect(reset).toEqual({ dailyLimit: 10, successfulValidationsToday: 0, resetTimestamp: new Date(2026, 9, 16).toISOString() });
+        expect(applyQuotaReset(reset, NOW)).toBe(reset);
+        expect(canValidateRemotely(quest('q1', 'Medium'), 3)).toBe(true);
+        expect(canValidateRemotely(quest('q1', 'Medium'), 2)).toBe(false);
+        expect(canValidateRemotely(quest('q2', 'Hard'), 1)).toBe(true);
+        expect(canValidateRemotely(quest('q3', 'Epic'), 0)).toBe(false);
+    });
+
+    it('should count remote validations and degrade to local once the quota is tight or exhausted', async () => {
+        // Arrange: 3 of 10 left, queued Epic first as the priority lane does
+        mockSettings = {
+            userId: MOCK_USER_ID,
+            gmValidationQuota: { dailyLimit: 10, successfulValidationsToday: 7, resetTimestamp: '2999-01-01T00:00:00.000Z' },
+        };
+        const quests: Record<string, any> = {
+            epic: quest('epic', 'Epic'),
+            easy: quest('easy', 'Easy'),
+            hard: quest('hard', 'Hard'),
+        };
+        mockDb.getPendingSyncOps.mockResolvedValue([validationOp('epic'), validationOp('easy'), validationOp('hard')]);
+        const questService = { getQuest: jest.fn(async (id: string) => quests[id]), saveQuest: jest.fn() };
+        const remote = { source: 'remote' as const, validate: jest.fn(async (_: string, q: Quest) => ({ validatedDifficulty: q.difficulty.userAssigned, reasoning: 'ok', recommendations: [], confidence: 1 })) };
+        const local = { source: 'local' as const, validate: jest.fn(async (_: string, _q: Quest) => ({ validatedDifficulty: 'Easy', reasoning: 'local', recommendations: [], confidence: 0.6 })) };
+        const service = new GMService({} as any, questService, { remote: remote as any, local: local as any });
+
+        // Act
+        await service.processPendingQueue();
+
+        // Assert: Epic spends one (2 left), Easy is then held back, Hard spends another
+        expect(remote.validate.mock.calls.map(([, q]) => q.questId)).toEqual(['epic', 'hard']);
+        expect(local.validate.mock.calls.map(([, q]) => q.questId)).toEqual(['easy']);
+        expect(mockSettings.gmValidationQuota.successfulValidationsToday).toBe(9);
+        expect(mockDb.removeSyncOp).toHaveBeenCalledTimes(3);
+    });
+});
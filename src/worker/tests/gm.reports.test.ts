@@ -0,0 +1,118 @@
+// FILE: src/worker/tests/gm.reports.test.ts
+
+import { buildWeeklyReport, WeeklyReportService } from '../services/gm/gm.reports';
+
+// --- MOCK SETUP ---
+
+const mockWeeklyReportsGet = jest.fn();
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => ({ weeklyReports: { get: mockWeeklyReportsGet } }),
+}));
+
+jest.mock('../services/analytics.service', () => ({
+    AnalyticsService: jest.fn(() => ({})),
+}));
+
+jest.mock('../services/notification.service', () => ({
+    NotificationService: jest.fn(() => ({})),
+}));
+
+jest.mock('../services/settings.service', () => ({
+    getSettingsService: jest.fn(),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+const WEEK_START = '2026-10-12'; // Monday
+const NOW = new Date('2026-10-20T12:00:00Z');
+
+const session = (questId: string, startTime: string, minutes: number, xp: number, quality: number, status = 'completed'): any => ({
+    questId,
+    startTime,
+    status,
+    actualDurationMin: minutes,
+    xpEarned: xp,
+    quality: { score: quality },
+});
+
+const QUESTS: any[] = [
+    { questId: 'q1', title: 'Write thesis', type: 'Quest', isCompleted: false, dueDate: '2026-10-15T00:00:00Z' },
+    { questId: 'q2', title: 'Learn Rust', type: 'Quest', isCompleted: false, dueDate: null },
+    {
+        questId: 'aq1',
+        title: 'Doomscrolling',
+        type: 'AntiQuest',
+        isCompleted: false,
+        dueDate: null,
+        antiEvents: [
+            { id: 'e1', timestamp: '2026-10-13T21:00:00Z', xpPenalty: 30 },
+            { id: 'e2', timestamp: '2026-10-14T21:00:00Z', xpPenalty: 30, actualPenalty: 20 },
+            { id: 'e3', timestamp: '2026-10-05T21:00:00Z', xpPenalty: 30 }, // previous week
+        ],
+    },
+];
+
+// --- TEST SUITE ---
+describe('WeeklyReportService', () => {
+
+    it('should compile quest totals, trends against the previous week, AntiQuest impact and overdue quests', () => {
+        // Arrange: three active days this week, one the week before
+        const sessions = [
+            session('q1', '2026-10-12T09:00:00Z', 50, 160, 90),
+            session('q1', '2026-10-13T09:00:00Z', 25, 80, 70),
+            session('q2', '2026-10-14T09:00:00Z', 25, 40, 80),
+            session('q2', '2026-10-14T10:00:00Z', 10, 0, 0, 'abandoned'),
+        ];
+        const previousSessions = [session('q2', '2026-10-06T09:00:00Z', 25, 40, 60)];
+
+        // Act
+        const report = buildWeeklyReport(MOCK_USER_ID, WEEK_START, {
+            sessions,
+            previousSessions,
+            quests: QUESTS,
+            snapshots: [
+                { id: 's1', userId: MOCK_USER_ID, metricType: 'weeklyVelocity', timestamp: '2026-10-13T09:00:00Z', value: 150 },
+                { id: 's2', userId: MOCK_USER_ID, metricType: 'weeklyVelocity', timestamp: '2026-10-14T09:00:00Z', value: 180 },
+            ],
+            burnoutRisk: null,
+            now: NOW,
+        });
+
+        // Assert
+        expect(report.id).toBe(`${MOCK_USER_ID}-${WEEK_START}`);
+        expect(report.weekEnd).toBe('2026-10-18');
+        expect(report.totals).toEqual({ xp: 280, focusMinutes: 100, sessionsCompleted: 3, sessionsAbandoned: 1 });
+        expect(report.quests.map(q => [q.questId, q.minutes, q.sessions])).toEqual([['q1', 75, 2], ['q2', 25, 1]]);
+        expect(report.consistency).toEqual(expect.objectContaining({ activeDays: 3, previousActiveDays: 1, trend: 'improving' }));
+        expect(report.quality).toEqual(expect.objectContaining({ average: 80, previousAverage: 60, trend: 'improving' }));
+        expect(report.quality.byDay[3]).toEqual({ date: '2026-10-15', average: null });
+        expect(report.velocity.xpPerHour).toBe(180);
+        expect(report.antiQuests).toEqual([{ antiQuestId: 'aq1', title: 'Doomscrolling', occurrences: 2, xpLost: 50 }]);
+        // Overdue as of the end of the week (Monday 19th, 00:00 UTC)
+        expect(report.overdue).toEqual([expect.objectContaining({ questId: 'q1', daysOverdue: 4 })]);
+        expect(report.recommendations.some(r => r.includes('Doomscrolling'))).toBe(true);
+    });
+
+    it('should export a stored report as Markdown and reject weeks without a report', async () => {
+        // Arrange
+        const report = buildWeeklyReport(MOCK_USER_ID, WEEK_START, {
+            sessions: [session('q1', '2026-10-12T09:00:00Z', 50, 160, 90)],
+            previousSessions: [],
+            quests: QUESTS,
+            snapshots: [],
+            burnoutRisk: null,
+            now: NOW,
+        });
+        mockWeeklyReportsGet.mockImplementation(async (id: string) => (id === report.id ? report : undefined));
+        const service = new WeeklyReportService();
+
+        // Act: any day in the week resolves to the Monday
+        const markdown = await service.exportWeeklyReportMarkdown(MOCK_USER_ID, '2026-10-15');
+
+        // Assert
+        expect(markdown).toContain('# Weekly Report: 2026-10-12 to 2026-10-18');
+        expect(markdown).toContain('| Write thesis | 1 | 50m | 160 | 90 |');
+        expect(markdown).toContain('## AntiQuests');
+        await expect(service.exportWeeklyReportMarkdown(MOCK_USER_ID, '2026-10-05')).rejects.toThrow('REPORT_NOT_FOUND');
+    });
+});
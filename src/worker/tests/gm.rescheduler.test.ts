@@ -0,0 +1,100 @@
+// FILE: src/worker/tests/gm.rescheduler.test.ts
+
+import { buildRescheduleProposals, RescheduleService } from '../services/gm/gm.rescheduler';
+
+// --- MOCK SETUP ---
+
+const mockQuestsGet = jest.fn();
+const mockQuestsPut = jest.fn();
+const mockQueueSync = jest.fn();
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => ({
+        quests: { get: mockQuestsGet, put: mockQuestsPut },
+        queueSync: mockQueueSync,
+    }),
+}));
+
+jest.mock('../services/settings.service', () => ({
+    getSettingsService: jest.fn(),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+const NOW = new Date(2026, 9, 15, 12, 0); // local noon
+const endOfLocalDay = (month: number, day: number) => new Date(2026, month, day, 23, 59, 59).toISOString();
+
+const quest = (questId: string, dueDate: string | null, estimates: number[]): any => ({
+    questId,
+    ownerId: MOCK_USER_ID,
+    title: `Quest ${questId}`,
+    type: 'Quest',
+    isCompleted: false,
+    dueDate,
+    schedule: { frequency: 'Daily', targetCompletionsPerCycle: 1, pomodoroDurationMin: 25, breakDurationMin: 5, preferredTimeSlots: [] },
+    subtasks: estimates.map((estimatePomodoros, i) => ({
+        id: `${questId}-s${i + 1}`,
+        title: `Step ${i + 1}`,
+        estimatePomodoros,
+        isComplete: false,
+        completedAt: null,
+        revisionCount: 0,
+    })),
+});
+
+// 350 min over the 14-day window: one pomodoro a day on q1
+const SESSIONS: any[] = Array.from({ length: 14 }, (_, i) => ({
+    questId: 'q1',
+    status: 'completed',
+    startTime: new Date(NOW.getTime() - (i + 1) * 24 * 60 * 60 * 1000).toISOString(),
+    actualDurationMin: 25,
+}));
+
+// --- TEST SUITE ---
+describe('RescheduleService', () => {
+
+    it('should propose a later due date, a daily commitment and deferrals for a slipping quest', () => {
+        // Arrange: q1 needs 8 pomodoros with 3 days left; q2 is comfortably on track; q3 is overdue
+        const quests = [
+            quest('q1', endOfLocalDay(9, 17), [2, 2, 2, 2]),
+            quest('q2', endOfLocalDay(11, 31), [1]),
+            quest('q3', endOfLocalDay(9, 10), [1, 1]),
+        ];
+
+        // Act
+        const proposals = buildRescheduleProposals({ quests, sessions: SESSIONS, now: NOW });
+
+        // Assert
+        expect(proposals.map(p => p.id)).toEqual([
+            'reschedule_extend_due_date_q1',
+            'reschedule_adjust_schedule_q1',
+            'reschedule_defer_subtasks_q1',
+            'reschedule_extend_due_date_q3',
+        ]);
+        const [extend, adjust, defer] = proposals;
+        expect(extend.reason).toBe('8 pomodoros left at 1 pomodoro/day needs 8 days, but only 3 remain.');
+        expect(extend.dueDate).toBe(endOfLocalDay(9, 24));
+        expect(adjust.pomodorosPerDay).toBe(3);
+        expect(defer.deferSubtaskIds).toEqual(['q1-s2', 'q1-s3', 'q1-s4']);
+        expect(defer.deferUntil).toBe('2026-10-18');
+    });
+
+    it('should apply a deferral to the owner\'s quest and refuse other users', async () => {
+        // Arrange
+        const q1 = quest('q1', endOfLocalDay(9, 17), [2, 2, 2, 2]);
+        mockQuestsGet.mockResolvedValue(q1);
+        const proposal = buildRescheduleProposals({ quests: [q1], sessions: SESSIONS, now: NOW })
+            .find(p => p.kind === 'defer_subtasks')!;
+        const service = new RescheduleService();
+
+        // Act
+        const updated = await service.applyRescheduleProposal(MOCK_USER_ID, { ...proposal, deferSubtaskIds: ['q1-s2'] });
+
+        // Assert: the deferred subtask moves to the end; the stored quest is untouched until put
+        expect(updated.subtasks.map(st => st.id)).toEqual(['q1-s1', 'q1-s3', 'q1-s4', 'q1-s2']);
+        expect(updated.subtasks[3].deferredUntil).toBe('2026-10-18');
+        expect(q1.subtasks[1].deferredUntil).toBeUndefined();
+        expect(mockQuestsPut).toHaveBeenCalledWith(updated);
+        expect(mockQueueSync).toHaveBeenCalledWith(expect.objectContaining({ collection: 'quests', documentId: 'q1' }));
+        await expect(service.applyRescheduleProposal('someone_else', proposal)).rejects.toThrow('ACCESS_DENIED');
+    });
+});
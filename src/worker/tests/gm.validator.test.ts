@@ -0,0 +1,85 @@
+// FILE: src/worker/tests/gm.validator.test.ts
+
+import { LocalQuestValidator, scoreQuest } from '../services/gm/gm.validator';
+import type { Quest } from '../models';
+import { makeQuest, makeSubtask } from './fixtures';
+
+// --- MOCK SETUP ---
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: jest.fn(),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+
+const buildQuest = (overrides: Partial<Quest> = {}): Quest => makeQuest({
+    title: 'Ship the landing page',
+    tags: ['web'],
+    difficulty: { userAssigned: 'Easy', gmValidated: null, isLocked: false, validatedAt: null, xpPerPomodoro: 40 },
+    ...overrides,
+});
+
+const subtasks = (estimates: number[]) =>
+    estimates.map((estimatePomodoros, i) => makeSubtask({ id: `st_${i}`, title: `Step ${i}`, estimatePomodoros }));
+
+// --- TEST SUITE ---
+describe('LocalQuestValidator', () => {
+
+    it('should score difficulty from effort estimates and the user level', () => {
+        // Arrange: 8 pomodoros (200 min) roughly agreeing with a 3.5h estimate
+        const quest = buildQuest({ subtasks: subtasks([4, 4]), timeEstimateHours: 3.5 });
+
+        // Act
+        const novice = scoreQuest({ quest, userLevel: 1, metrics: { burnoutRisk: 'Low' }, historyRatios: [] });
+        const veteran = scoreQuest({ quest, userLevel: 40, metrics: { burnoutRisk: 'Low' }, historyRatios: [] });
+
+        // Assert
+        expect(novice.validatedDifficulty).toBe('Medium');
+        expect(novice.suggestedXPPerPomodoro).toBe(80);
+        expect(novice.context).toEqual({ userLevel: 1, subtaskComplexity: 'Low', estimatedHours: 3.4 });
+        expect(veteran.validatedDifficulty).toBe('Easy');
+        expect(novice.confidence).toBeGreaterThan(0.5);
+        expect(novice.confidence).toBeLessThanOrEqual(0.9);
+    });
+
+    it('should keep the assigned difficulty with low confidence when nothing is estimated', () => {
+        // Arrange
+        const quest = buildQuest({ difficulty: { ...buildQuest().difficulty, userAssigned: 'Hard', xpPerPomodoro: 150 } });
+
+        // Act
+        const result = scoreQuest({ quest, userLevel: 5, metrics: { burnoutRisk: 'Low' }, historyRatios: [] });
+
+        // Assert
+        expect(result.validatedDifficulty).toBe('Hard');
+        expect(result.confidence).toBe(0.3);
+        expect(result.recommendations).toHaveLength(1);
+    });
+
+    it('should scale the estimate by how long similar completed quests took', async () => {
+        // Arrange: a 2h quest; a past 'web' quest estimated at 2h took 4h
+        const quest = buildQuest({ timeEstimateHours: 2 });
+        const past = buildQuest({ questId: 'quest_0', isCompleted: true, timeEstimateHours: 2, tracking: { ...buildQuest().tracking, totalTrackedTime: 240 } });
+        const db: any = {
+            users: { get: async () => ({ userId: MOCK_USER_ID, totalLevel: 20 }) },
+            agentStates: { get: async () => undefined },
+            quests: {
+                where: () => ({
+                    equals: () => ({
+                        filter: (fn: (q: any) => boolean) => ({ toArray: async () => [past, quest].filter(fn) }),
+                    }),
+                }),
+            },
+        };
+        const analytics = { generateAgentState: jest.fn().mockResolvedValue({ burnoutRisk: 'Low' }) };
+        const validator = new LocalQuestValidator(analytics as any, db);
+
+        // Act
+        const result = await validator.validate(MOCK_USER_ID, quest);
+
+        // Assert: 2h × 2.0 = 4h
+        expect(validator.source).toBe('local');
+        expect(result.validatedDifficulty).toBe('Medium');
+        expect(result.reasoning).toContain('1 similar completed quest took 2.0×');
+        expect(result.recommendations).toContain('Similar quests ran 100% over estimate; budget extra sessions.');
+    });
+});
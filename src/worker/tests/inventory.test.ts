@@ -0,0 +1,60 @@
+// FILE: src/worker/tests/inventory.test.ts
+
+import { InventoryService } from '../services/inventory.service';
+import { makeUserProfile as makeUser, makeInventoryItem as makeItem } from './fixtures';
+
+// --- MOCK SETUP ---
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => ({}),
+}));
+
+// --- TEST SUITE ---
+describe('InventoryService', () => {
+
+    it('should roll each loot source only once and pick rarity from the table', () => {
+        // Arrange: rolls are drop chance, rarity (0.99 → Legendary), template (0 → first)
+        const rolls = [0, 0.99, 0];
+        const service = new InventoryService(() => rolls.shift() ?? 0);
+        const user = makeUser();
+
+        // Act
+        const first = service.rollLoot(user, 'level_up', 'user_level:3');
+        const repeat = service.rollLoot(user, 'level_up', 'user_level:3');
+
+        // Assert
+        expect(first).toEqual(expect.objectContaining({ rarity: 'Legendary', templateId: 'ascendants-edge', durability: 100 }));
+        expect(repeat).toBeNull();
+        expect(user.inventory).toHaveLength(1);
+        expect(user.lootSources).toEqual(['user_level:3']);
+    });
+
+    it('should apply equipped artifacts and the armed rune, wearing and consuming them', () => {
+        // Arrange
+        const service = new InventoryService();
+        const weapon = makeItem({ itemId: 'w', templateId: 'worn-quill', durability: 4 });
+        const armor = makeItem({ itemId: 'a', templateId: 'padded-cloak', slotType: 'Armor' });
+        const rune = makeItem({
+            itemId: 'r', templateId: 'rune-of-fury', type: 'Rune', rarity: 'Epic',
+            slotType: null, durability: null, usesRemaining: 1,
+        });
+        const user = makeUser({
+            inventory: [weapon, armor, rune],
+            equippedArtifacts: { weapon: 'w', armor: 'a', accessory: null },
+        });
+
+        // Act
+        const multipliers = service.applySessionEffects(user, 'pomodoro');
+
+        // Assert: armor only boosts deep focus, so it neither applies nor wears
+        expect(multipliers).toEqual([
+            { source: 'buff', value: 1.05 },
+            { source: 'rune', value: 1.35 },
+        ]);
+        expect(weapon.durability).toBe(0);
+        expect(weapon.isEquipped).toBe(false);
+        expect(user.equippedArtifacts.weapon).toBeNull();
+        expect(armor.durability).toBe(100);
+        expect(user.inventory.map(i => i.itemId)).toEqual(['w', 'a']);
+    });
+});
@@ -0,0 +1,97 @@
+// FILE: src/worker/tests/quest-import.test.ts
+
+import { parseImport } from '../services/quest-import.service';
+
+// --- MOCK SETUP ---
+
+jest.mock('../services/quest.service', () => ({
+    QuestService: jest.fn(),
+}));
+
+// --- TEST SUITE ---
+describe('Quest import parsers', () => {
+
+    it('should turn Markdown headings into quests and open checklist items into subtasks', () => {
+        // Arrange
+        const markdown = [
+            '## Launch blog #writing due:2025-06-01',
+            'Personal site relaunch',
+            '- [ ] Pick a theme',
+            '- [x] Register domain',
+            '- [ ] Write first post',
+            '',
+            '# Errands',
+            '* groceries',
+        ].join('\n');
+
+        // Act
+        const { quests, completedSkipped } = parseImport('markdown', markdown);
+
+        // Assert
+        expect(completedSkipped).toBe(1);
+        expect(quests).toHaveLength(2);
+        expect(quests[0]).toEqual(expect.objectContaining({
+            title: 'Launch blog',
+            description: 'Personal site relaunch',
+            tags: ['writing'],
+            dueDate: '2025-06-01T00:00:00.000Z',
+            subtasks: ['Pick a theme', 'Write first post'],
+        }));
+        expect(quests[1].subtasks).toEqual(['groceries']);
+    });
+
+    it('should nest indented Todoist CSV tasks under their parent and map priorities', () => {
+        // Arrange
+        const csv = [
+            'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+            'section,Work,,,,,,,,',
+            'task,"Quarterly report, draft @work",,1,1,,,2025-04-01,en,',
+            'task,Collect numbers,,4,2,,,,en,',
+            'task,Water plants,,4,1,,,every day,en,',
+        ].join('\n');
+
+        // Act
+        const { quests } = parseImport('todoist-csv', csv);
+
+        // Assert
+        expect(quests).toHaveLength(2);
+        expect(quests[0]).toEqual(expect.objectContaining({
+            title: 'Quarterly report, draft',
+            tags: ['work'],
+            priority: 'A',
+            dueDate: '2025-04-01T00:00:00.000Z',
+            subtasks: ['Collect numbers'],
+        }));
+        // A task without children becomes its own single subtask; recurrence text is not a due date
+        expect(quests[1]).toEqual(expect.objectContaining({ priority: 'C', dueDate: null, subtasks: ['Water plants'] }));
+    });
+
+    it('should map open Trello cards to quests with checklist subtasks and label tags', () => {
+        // Arrange
+        const board = {
+            lists: [{ id: 'l1', closed: false }, { id: 'l2', closed: true }],
+            cards: [
+                { id: 'c1', name: 'Ship v2', desc: 'Release', idList: 'l1', closed: false, labels: [{ name: 'eng' }, { name: '', color: 'red' }] },
+                { id: 'c2', name: 'Old idea', idList: 'l2', closed: false, labels: [] },
+            ],
+            checklists: [
+                { idCard: 'c1', checkItems: [
+                    { name: 'Changelog', state: 'incomplete', pos: 2 },
+                    { name: 'Tests', state: 'complete', pos: 1 },
+                    { name: 'Tag release', state: 'incomplete', pos: 3 },
+                ] },
+            ],
+        };
+
+        // Act
+        const { quests, completedSkipped } = parseImport('trello-json', JSON.stringify(board));
+
+        // Assert
+        expect(completedSkipped).toBe(1);
+        expect(quests).toEqual([expect.objectContaining({
+            title: 'Ship v2',
+            tags: ['eng', 'red'],
+            subtasks: ['Changelog', 'Tag release'],
+        })]);
+    });
+});
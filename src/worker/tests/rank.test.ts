@@ -0,0 +1,102 @@
+// FILE: src/worker/tests/rank.test.ts
+
+import { RankService, calculateSessionRP, evaluateGrade } from '../services/rank.service';
+import type { UserProfile } from '../models';
+import { makeUserProfile } from './fixtures';
+
+// --- MOCK SETUP ---
+
+const mockDb = {
+    users: { get: jest.fn(), put: jest.fn() },
+    rankHistory: { get: jest.fn(), put: jest.fn() },
+    queueSync: jest.fn(),
+};
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => mockDb,
+}));
+
+jest.mock('../services/notification.service', () => ({
+    NotificationService: jest.fn().mockImplementation(() => ({ createNotification: jest.fn() })),
+}));
+
+const MOCK_USER_ID = "test_user_123";
+
+const makeUser = (overrides: Partial<UserProfile> = {}): UserProfile => makeUserProfile({
+    streakData: { currentStreak: 0, longestStreak: 0, lastActivityDate: '2025-03-01', streakStartDate: '2025-03-01' },
+    ...overrides,
+});
+
+// --- TEST SUITE ---
+describe('RankService', () => {
+
+    it('should award RP by session type and quality band', () => {
+        // Act & Assert
+        expect(calculateSessionRP('pomodoro', 25, 90, 0.7)).toBe(13);
+        expect(calculateSessionRP('pomodoro', 25, 60, 0.7)).toBe(10);
+        expect(calculateSessionRP('pomodoro', 25, 30, 0.7)).toBe(5);
+        expect(calculateSessionRP('deep_focus', 100, 60, 0.7)).toBe(28);
+        expect(calculateSessionRP('pomodoro', 1, 100, 0.7)).toBe(0);
+    });
+
+    it('should move at most one grade per evaluation, with a buffer before demotion', () => {
+        // Act & Assert
+        expect(evaluateGrade('Bronze I', 5000)).toBe('Bronze II');
+        expect(evaluateGrade('Silver I', 420)).toBe('Silver I');
+        expect(evaluateGrade('Silver I', 400)).toBe('Bronze III');
+        expect(evaluateGrade('Ascendant', 9000)).toBe('Ascendant');
+        expect(evaluateGrade('Bronze', 150)).toBe('Bronze II');
+    });
+
+    it('should decay RP only after the grace period and once per day', () => {
+        // Arrange: last active March 1st, grace covers the 2nd to the 4th
+        const service = new RankService();
+        const user = makeUser({ rankPoints: 1000 });
+
+        // Act
+        const inGrace = service.applyDecay(user, '2025-03-04');
+        const twoDays = service.applyDecay(user, '2025-03-06');
+        const sameDay = service.applyDecay(user, '2025-03-06');
+
+        // Assert
+        expect(inGrace).toBe(0);
+        expect(twoDays).toBe(20 + 19);
+        expect(sameDay).toBe(0);
+        expect(user.rankPoints).toBe(961);
+        expect(user.rankState).toEqual({
+            lastDecayDate: '2025-03-06',
+            weekStart: '2025-03-03',
+            weekRpEarned: 0,
+            weekRpDecayed: 39,
+            lastWeek: { weekStart: '2025-02-24', rpEarned: 0, rpDecayed: 0, rankPoints: 1000 },
+        });
+    });
+
+    it('should evaluate last week from its snapshot and keep this week\'s RP earned before the job ran', async () => {
+        // Arrange: 120 RP earned last week, then a session this week before the rank job
+        const service = new RankService();
+        const now = new Date();
+        const today = now.toISOString().split('T')[0];
+        const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+        const lastMonday = new Date(Date.parse(today) - (daysSinceMonday + 7) * 86400000).toISOString().split('T')[0];
+        const user = makeUser({
+            rankPoints: 120,
+            rankState: { lastDecayDate: null, weekStart: lastMonday, weekRpEarned: 120, weekRpDecayed: 0 },
+            streakData: { currentStreak: 1, longestStreak: 1, lastActivityDate: today, streakStartDate: today },
+        });
+        service.awardSessionRP(user, { sessionType: 'pomodoro' }, 25, 60, 0.7);
+        mockDb.users.get.mockResolvedValue(user);
+        mockDb.rankHistory.get.mockResolvedValue(undefined);
+
+        // Act
+        const entry = await service.processUser(MOCK_USER_ID);
+
+        // Assert
+        expect(entry).toEqual(expect.objectContaining({
+            weekStart: lastMonday, change: 'promoted', toGrade: 'Bronze II', rankPoints: 120, rpEarned: 120,
+        }));
+        expect(user.rankPoints).toBe(130);
+        expect(user.rankState?.weekRpEarned).toBe(10);
+        expect(mockDb.rankHistory.put).toHaveBeenCalledWith(entry);
+    });
+});
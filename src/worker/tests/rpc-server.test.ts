@@ -0,0 +1,110 @@
+// FILE: src/worker/tests/rpc-server.test.ts
+
+import { RpcServer } from '../messaging/rpc-server';
+import { RPC_CHANNEL } from '../messaging/rpc-schema';
+
+// --- MOCK SETUP ---
+
+// Requests go to the mock quests service passed in; keep the real service modules out of the suite
+jest.mock('../services/quest.service', () => ({ QuestService: jest.fn() }));
+jest.mock('../services/session.service', () => ({ SessionService: jest.fn() }));
+jest.mock('../services/task.service', () => ({ getTaskService: jest.fn() }));
+jest.mock('../services/seed.service', () => ({ SeedService: jest.fn() }));
+
+const MOCK_USER_ID = "test_user_123";
+
+const makeRequest = (service: string, method: string, args: unknown[] = []): any => ({
+    channel: RPC_CHANNEL,
+    kind: 'request',
+    id: `${service}.${method}`,
+    service,
+    method,
+    args,
+    userId: MOCK_USER_ID,
+});
+
+let mockQuestService: any;
+let server: RpcServer;
+
+// --- TEST SUITE ---
+describe('RpcServer', () => {
+
+    beforeEach(() => {
+        mockQuestService = {
+            getUserQuests: jest.fn().mockResolvedValue([{ questId: 'q1' }]),
+            updateQuest: jest.fn().mockResolvedValue({ questId: 'q1', title: 'Renamed' }),
+            saveQuest: jest.fn(),
+        };
+        server = new RpcServer({ quests: mockQuestService });
+    });
+
+    it('should call whitelisted methods and emit change events only for mutations', async () => {
+        // Arrange
+        const events: any[] = [];
+        server.onDataChanged(event => events.push(event));
+
+        // Act
+        const read = await server.handle(makeRequest('quests', 'getUserQuests', [MOCK_USER_ID]));
+        const write = await server.handle(makeRequest('quests', 'updateQuest', ['q1', { title: 'Renamed' }]));
+
+        // Assert
+        expect(read).toEqual(expect.objectContaining({ ok: true, result: [{ questId: 'q1' }] }));
+        expect(write).toEqual(expect.objectContaining({ ok: true, result: { questId: 'q1', title: 'Renamed' } }));
+        expect(mockQuestService.updateQuest).toHaveBeenCalledWith('q1', { title: 'Renamed' });
+        expect(events).toHaveLength(1);
+        expect(events[0]).toEqual(expect.objectContaining({
+            kind: 'data-changed',
+            method: 'updateQuest',
+            collections: ['quests'],
+            userId: MOCK_USER_ID,
+        }));
+    });
+
+    it('should treat home suggestions as a write that tracks outcomes and patterns', async () => {
+        // Arrange
+        const events: any[] = [];
+        const mockGMService: any = { getHomeSuggestions: jest.fn().mockResolvedValue([{ id: 'gm_tip' }]) };
+        server = new RpcServer({ quests: mockQuestService, gm: mockGMService });
+        server.onDataChanged(event => events.push(event));
+
+        // Act
+        const response = await server.handle(makeRequest('gm', 'getHomeSuggestions', [MOCK_USER_ID]));
+
+        // Assert
+        expect(response.result).toEqual([{ id: 'gm_tip' }]);
+        expect(events).toEqual([expect.objectContaining({
+            service: 'gm',
+            collections: ['suggestionOutcomes', 'agentStates'],
+        })]);
+    });
+
+    it('should reject methods that are not in the schema', async () => {
+        const response = await server.handle(makeRequest('quests', 'saveQuest', [{}]));
+
+        expect(response.ok).toBe(false);
+        expect(response.error).toBe('RPC_METHOD_NOT_ALLOWED: quests.saveQuest');
+        expect(mockQuestService.saveQuest).not.toHaveBeenCalled();
+    });
+
+    it('should run mutations one at a time', async () => {
+        // Arrange: the first write resolves only after the second was issued
+        const order: string[] = [];
+        let releaseFirst!: () => void;
+        mockQuestService.updateQuest
+            .mockImplementationOnce(() => new Promise<void>(resolve => {
+                order.push('first:start');
+                releaseFirst = () => { order.push('first:end'); resolve(); };
+            }))
+            .mockImplementationOnce(async () => { order.push('second:start'); });
+
+        // Act
+        const first = server.handle(makeRequest('quests', 'updateQuest', ['q1', {}]));
+        const second = server.handle(makeRequest('quests', 'updateQuest', ['q1', {}]));
+        await new Promise(resolve => setTimeout(resolve, 0));
+        releaseFirst();
+        await Promise.all([first, second]);
+
+        // Assert
+        expect(order).toEqual(['first:start', 'first:end', 'second:start']);
+    });
+});
@@ -0,0 +1,132 @@
+// FILE: src/worker/tests/session-export.test.ts
+
+import { SessionExportService } from '../services/session-export.service';
+
+// --- MOCK SETUP ---
+
+const MOCK_USER_ID = "test_user_123";
+
+const mockSessions: any[] = [];
+const mockQuests = new Map<string, any>();
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => ({
+        sessions: {
+            where: () => ({
+                between: (lower: [string, string], upper: [string, string], _includeLower = true, includeUpper = false) => ({
+                    filter: (fn: (s: any) => boolean) => ({
+                        toArray: async () => mockSessions.filter(s =>
+                            s.userId === lower[0] && s.startTime >= lower[1] &&
+                            (includeUpper ? s.startTime <= upper[1] : s.startTime < upper[1]) && fn(s)
+                        ),
+                    }),
+                }),
+            }),
+        },
+        quests: {
+            get: async (questId: string) => mockQuests.get(questId),
+        },
+    }),
+}));
+
+const makeSession = (overrides: any) => ({
+    sessionId: 's1',
+    userId: MOCK_USER_ID,
+    questId: 'q1',
+    subtaskId: 'st1',
+    sessionType: 'pomodoro',
+    startTime: '2025-03-10T09:00:00.000Z',
+    endTime: '2025-03-10T09:25:00.000Z',
+    plannedDurationMin: 25,
+    actualDurationMin: 25,
+    status: 'completed',
+    pauseEvents: [],
+    interruptions: [],
+    quality: { score: 90, factors: {} },
+    xpEarned: 50,
+    xpMultipliers: [],
+    deepFocusElapsedSec: 0,
+    notes: null,
+    tags: [],
+    ...overrides,
+});
+
+// --- TEST SUITE ---
+describe('SessionExportService', () => {
+
+    beforeEach(() => {
+        mockSessions.length = 0;
+        mockQuests.clear();
+        mockQuests.set('q1', { questId: 'q1', title: 'Work, Sprint', tags: ['work'], subtasks: [{ id: 'st1', title: 'Review PR' }] });
+        mockQuests.set('q2', { questId: 'q2', title: 'Guitar', tags: ['music'], subtasks: [] });
+    });
+
+    it('should export filtered sessions as CSV with pauses and quoted cells', async () => {
+        // Arrange
+        mockSessions.push(
+            makeSession({ pauseEvents: [{ timestamp: '', durationSec: 90, wasAutomatic: false }] }),
+            makeSession({ sessionId: 's2', questId: 'q2', subtaskId: null }),
+            makeSession({ sessionId: 's3', status: 'active' }),
+        );
+
+        // Act
+        const csv = await new SessionExportService().exportCsv(MOCK_USER_ID, {
+            startDate: '2025-03-10',
+            endDate: '2025-03-10',
+            tags: ['work'],
+        });
+
+        // Assert
+        const lines = csv.trim().split('\r\n');
+        expect(lines).toHaveLength(2); // header + s1 (s2 filtered by tag, s3 still active)
+        expect(lines[1]).toBe(
+            '2025-03-10,2025-03-10T09:00:00.000Z,2025-03-10T09:25:00.000Z,"Work, Sprint",Review PR,pomodoro,completed,25,25,1,1.5,0,90,50,work'
+        );
+    });
+
+    it('should select and date sessions by local day, not UTC day', async () => {
+        // Arrange: just inside and just outside March 10th in the local time zone
+        const localTime = (day: number, hour: number, minute = 0) => new Date(2025, 2, day, hour, minute).toISOString();
+        mockSessions.push(
+            makeSession({ sessionId: 'early', startTime: localTime(10, 0, 30), endTime: null }),
+            makeSession({ sessionId: 'late', startTime: localTime(10, 23, 30), endTime: null }),
+            makeSession({ sessionId: 'before', startTime: localTime(9, 23, 59), endTime: null }),
+            makeSession({ sessionId: 'after', startTime: localTime(11, 0), endTime: null }),
+        );
+
+        // Act
+        const csv = await new SessionExportService().exportCsv(MOCK_USER_ID, {
+            startDate: '2025-03-10',
+            endDate: '2025-03-10',
+        });
+
+        // Assert
+        const lines = csv.trim().split('\r\n').slice(1);
+        expect(lines).toHaveLength(2);
+        expect(lines.map(line => line.split(',')[0])).toEqual(['2025-03-10', '2025-03-10']);
+        expect(lines.map(line => line.split(',')[1])).toEqual([localTime(10, 0, 30), localTime(10, 23, 30)]);
+    });
+
+    it('should export one VEVENT per completed block with escaped text', async () => {
+        // Arrange
+        mockSessions.push(
+            makeSession({}),
+            makeSession({ sessionId: 's2', sessionType: 'deep_focus', endTime: null, actualDurationMin: 90 }),
+            makeSession({ sessionId: 's3', status: 'abandoned' }),
+        );
+
+        // Act
+        const ics = await new SessionExportService().exportIcs(MOCK_USER_ID, {
+            startDate: '2025-03-01',
+            endDate: '2025-03-31',
+            questIds: ['q1'],
+        });
+
+        // Assert
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+        expect(ics).toContain('SUMMARY:Work\\, Sprint: Review PR');
+        expect(ics).toContain('DTSTART:20250310T090000Z\r\nDTEND:20250310T092500Z');
+        expect(ics).toContain('DTEND:20250310T103000Z'); // deep focus end derived from duration
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    });
+});
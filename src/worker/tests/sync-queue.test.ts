@@ -0,0 +1,264 @@
+// FILE: src/worker/tests/sync-queue.test.ts
+
+import { SyncQueue } from '../sync/sync-queue';
+import { RetryScheduler, MAX_RETRIES } from '../sync/retry-scheduler';
+import { IndexedDb } from '../db/indexed-db';
+
+// --- MOCK SETUP ---
+
+const MOCK_USER_ID = "test_user_123";
+
+// Minimal in-memory stand-in for a Dexie table keyed by `key`
+function createMockTable(key: string, rows: any[] = []) {
+    const store = new Map<string, any>(rows.map(r => [r[key], r]));
+    return {
+        store,
+        get: jest.fn(async (id: string) => store.get(id)),
+        put: jest.fn(async (row: any) => { store.set(row[key], row); }),
+        delete: jest.fn(async (id: string) => { store.delete(id); }),
+        update: jest.fn(async (id: string, changes: any) => { store.set(id, { ...store.get(id), ...changes }); }),
+        count: jest.fn(async () => store.size),
+        where: (_index: string) => ({
+            equals: ([collection, documentId]: [string, string]) => ({
+                count: async () => Array.from(store.values())
+                    .filter(row => row.collection === collection && row.documentId === documentId).length,
+            }),
+        }),
+    };
+}
+
+const makeOp = (overrides: any) => ({
+    id: `${overrides.collection}-${overrides.documentId}`,
+    operation: 'update',
+    data: {},
+    userId: MOCK_USER_ID,
+    timestamp: Date.now(),
+    priority: 7,
+    retryCount: 0,
+    nextRetryTime: null,
+    error: null,
+    ...overrides,
+});
+
+let mockDb: any;
+let mockRemoteAPI: any;
+
+// --- TEST SUITE ---
+describe('SyncQueue: push and pull', () => {
+
+    beforeEach(() => {
+        Object.defineProperty(global, 'navigator', { value: { onLine: true }, configurable: true });
+
+        mockDb = {
+            users: createMockTable('userId', [{ userId: MOCK_USER_ID, experiencePoints: 120 }]),
+            quests: createMockTable('questId', [{ questId: 'q1', title: 'Local title', updatedAt: '2025-01-02T00:00:00.000Z' }]),
+            sessions: createMockTable('sessionId'),
+            notifications: createMockTable('id'),
+            settings: createMockTable('userId'),
+            comments: createMockTable('id'),
+            syncQueue: createMockTable('id'),
+            deadLetters: createMockTable('id'),
+            getPendingSyncOps: jest.fn(),
+            removeSyncOp: jest.fn(async (id: string) => { mockDb.syncQueue.store.delete(id); }),
+            getSyncState: jest.fn(async (userId: string) => ({ userId, cursor: null, lastPushAt: null, lastPullAt: null })),
+            saveSyncState: jest.fn(),
+            getSyncBase: jest.fn(),
+            saveSyncBase: jest.fn(),
+            deleteSyncBase: jest.fn(),
+        };
+
+        mockRemoteAPI = {
+            pushDocument: jest.fn().mockResolvedValue(undefined),
+            deleteDocument: jest.fn().mockResolvedValue(undefined),
+            pullChanges: jest.fn(),
+        };
+    });
+
+    it('should push every synced collection using the current local snapshot', async () => {
+        // Arrange
+        const ops = [
+            makeOp({ collection: 'users', documentId: MOCK_USER_ID, data: { experiencePoints: 0 } }),
+            makeOp({ collection: 'quests', documentId: 'q1', data: { hidden: true } }),
+            makeOp({ collection: 'notifications', documentId: 'n1', operation: 'create', data: { id: 'n1', title: 'Hi' } }),
+            makeOp({ collection: 'settings', documentId: 'gone', operation: 'delete', data: null }),
+        ];
+        mockDb.getPendingSyncOps.mockResolvedValue(ops);
+        const queue = new SyncQueue(mockRemoteAPI, mockDb);
+
+        // Act
+        const result = await queue.processQueue();
+
+        // Assert
+        expect(result).toEqual({ pushed: 4, failed: 0, deadLettered: 0 });
+        expect(mockRemoteAPI.pushDocument).toHaveBeenCalledWith('users', MOCK_USER_ID, { userId: MOCK_USER_ID, experiencePoints: 120 });
+        expect(mockRemoteAPI.pushDocument).toHaveBeenCalledWith('quests', 'q1', expect.objectContaining({ title: 'Local title' }));
+        // Falls back to op.data when the row is not in the table
+        expect(mockRemoteAPI.pushDocument).toHaveBeenCalledWith('notifications', 'n1', { id: 'n1', title: 'Hi' });
+        expect(mockRemoteAPI.deleteDocument).toHaveBeenCalledWith('settings', 'gone');
+        expect(mockDb.removeSyncOp).toHaveBeenCalledTimes(4);
+    });
+
+    it('should leave gm_validation ops for the GMService without starving data ops', async () => {
+        // Arrange: a full page of higher-priority GM ops ahead of one quest edit
+        const gmOps = Array.from({ length: 50 }, (_, i) =>
+            makeOp({ collection: 'gm_validation', documentId: `gm${i}`, operation: 'validate', priority: 2 }));
+        const queued = [...gmOps, makeOp({ collection: 'quests', documentId: 'q1' })];
+        mockDb.getPendingSyncOps.mockImplementation(async (limit: number, matches: (op: any) => boolean) =>
+            queued.filter(matches).slice(0, limit));
+        const queue = new SyncQueue(mockRemoteAPI, mockDb);
+
+        // Act
+        await queue.processQueue();
+
+        // Assert
+        expect(mockRemoteAPI.pushDocument).toHaveBeenCalledTimes(1);
+        expect(mockRemoteAPI.pushDocument).toHaveBeenCalledWith('quests', 'q1', expect.objectContaining({ title: 'Local title' }));
+        expect(mockDb.removeSyncOp).toHaveBeenCalledWith('quests-q1');
+    });
+
+    it('should merge pulled changes, honoring pending local edits and newer local rows', async () => {
+        // Arrange
+        mockDb.syncQueue.store.set('sessions-s_pending', makeOp({ collection: 'sessions', documentId: 's_pending' }));
+        mockRemoteAPI.pullChanges
+            .mockResolvedValueOnce({
+                changes: [
+                    { collection: 'sessions', documentId: 's1', operation: 'upsert', data: { sessionId: 's1' }, updatedAt: '2025-01-03T00:00:00.000Z' },
+                    { collection: 'sessions', documentId: 's_pending', operation: 'upsert', data: { sessionId: 's_pending' }, updatedAt: '2025-01-03T00:00:00.000Z' },
+                ],
+                cursor: 'c1',
+                hasMore: true,
+            })
+            .mockResolvedValueOnce({
+                changes: [
+                    { collection: 'quests', documentId: 'q1', operation: 'upsert', data: { questId: 'q1', title: 'Old remote', updatedAt: '2025-01-01T00:00:00.000Z' }, updatedAt: '2025-01-01T00:00:00.000Z' },
+                    { collection: 'comments', documentId: 'c9', operation: 'delete', data: null, updatedAt: '2025-01-03T00:00:00.000Z' },
+                ],
+                cursor: 'c2',
+                hasMore: false,
+            });
+        const queue = new SyncQueue(mockRemoteAPI, mockDb);
+
+        // Act
+        const result = await queue.pullChanges(MOCK_USER_ID);
+
+        // Assert
+        expect(result).toEqual({ applied: 2, skipped: 2, conflicts: 0 });
+        expect(mockRemoteAPI.pullChanges).toHaveBeenNthCalledWith(1, MOCK_USER_ID, null);
+        expect(mockRemoteAPI.pullChanges).toHaveBeenNthCalledWith(2, MOCK_USER_ID, 'c1');
+        expect(mockDb.sessions.store.has('s1')).toBe(true);
+        expect(mockDb.sessions.store.has('s_pending')).toBe(false);
+        expect(mockDb.quests.store.get('q1').title).toBe('Local title');
+        expect(mockDb.comments.delete).toHaveBeenCalledWith('c9');
+        expect(mockDb.saveSyncState).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 'c2' }));
+    });
+
+    it('should back off failed ops and dead-letter them once retries are exhausted', async () => {
+        // Arrange
+        const flaky = makeOp({ collection: 'quests', documentId: 'q1', retryCount: 0 });
+        const exhausted = makeOp({ collection: 'users', documentId: MOCK_USER_ID, retryCount: MAX_RETRIES - 1 });
+        mockDb.syncQueue.store.set(flaky.id, flaky);
+        mockDb.syncQueue.store.set(exhausted.id, exhausted);
+        mockDb.getPendingSyncOps.mockResolvedValue([flaky, exhausted]);
+        mockRemoteAPI.pushDocument.mockRejectedValue(new Error('API Error: 503'));
+        const queue = new SyncQueue(mockRemoteAPI, mockDb);
+        const before = Date.now();
+
+        // Act
+        const result = await queue.processQueue();
+
+        // Assert
+        expect(result).toEqual({ pushed: 0, failed: 2, deadLettered: 1 });
+        const rescheduled = mockDb.syncQueue.store.get(flaky.id);
+        expect(rescheduled.retryCount).toBe(1);
+        expect(rescheduled.error).toBe('API Error: 503');
+        expect(rescheduled.nextRetryTime).toBeGreaterThanOrEqual(before + 15 * 1000);
+        expect(mockDb.removeSyncOp).toHaveBeenCalledWith(exhausted.id);
+        expect(mockDb.deadLetters.store.get(exhausted.id)).toEqual(
+            expect.objectContaining({ retryCount: MAX_RETRIES, error: 'API Error: 503' })
+        );
+    });
+
+    it('should grow the retry delay exponentially up to the cap', () => {
+        const scheduler = new RetryScheduler(mockDb, () => 1); // no jitter reduction
+
+        expect(scheduler.getRetryDelay(1)).toBe(30 * 1000);
+        expect(scheduler.getRetryDelay(3)).toBe(120 * 1000);
+        expect(scheduler.getRetryDelay(20)).toBe(60 * 60 * 1000);
+    });
+});
+
+describe('IndexedDb.queueSync: coalescing', () => {
+    let db: any;
+
+    beforeEach(() => {
+        // Dexie only touches IndexedDB on open; swap the tables for in-memory mocks
+        db = new IndexedDb();
+        for (const [name, key] of [['syncQueue', 'id'], ['syncState', 'userId'], ['quests', 'questId']]) {
+            Object.defineProperty(db, name, { value: createMockTable(key), configurable: true });
+        }
+        db.table = (name: string) => db[name];
+        db.transaction = jest.fn(async (_mode: string, _tables: unknown, fn: () => Promise<void>) => fn());
+    });
+
+    const queue = (overrides: any) => db.queueSync({
+        collection: 'comments',
+        documentId: 'c1',
+        userId: MOCK_USER_ID,
+        priority: 7,
+        retryCount: 0,
+        nextRetryTime: null,
+        error: null,
+        ...overrides,
+    });
+
+    it('should fold updates into one op with merged data and the most urgent priority', async () => {
+        await queue({ operation: 'create', data: { id: 'c1', text: 'Hi' } });
+        await queue({ operation: 'update', data: { text: 'Hello' }, priority: 3 });
+        await queue({ operation: 'update', data: { pinned: true }, priority: 9 });
+
+        const ops = Array.from(db.syncQueue.store.values());
+        expect(ops).toHaveLength(1);
+        expect(ops[0]).toEqual(expect.objectContaining({
+            operation: 'create',
+            data: { id: 'c1', text: 'Hello', pinned: true },
+            priority: 3,
+            coalescedCount: 2,
+        }));
+        expect(db.syncState.store.get(MOCK_USER_ID).coalescedOps).toBe(2);
+    });
+
+    it('should bump the vector clock on the stored row and the queued snapshot together', async () => {
+        // Arrange
+        db.syncState.store.set(MOCK_USER_ID, { userId: MOCK_USER_ID, deviceId: 'device_b' });
+        const quest = { questId: 'q1', ownerId: MOCK_USER_ID, title: 'Edited', syncClock: { device_a: 1 } };
+        db.quests.store.set('q1', { ...quest });
+
+        // Act
+        await queue({ collection: 'quests', documentId: 'q1', operation: 'update', data: quest });
+
+        // Assert: a later put of the caller's object keeps the bumped clock
+        const bumped = { device_a: 1, device_b: 1 };
+        expect(db.quests.store.get('q1').syncClock).toEqual(bumped);
+        expect(db.syncQueue.store.get('quests-q1').data.syncClock).toEqual(bumped);
+        expect(quest.syncClock).toEqual(bumped);
+    });
+
+    it('should cancel a create followed by a delete and reset backoff when the payload changes', async () => {
+        await queue({ operation: 'create', data: { id: 'c1' } });
+        await queue({ operation: 'delete', data: null });
+        expect(db.syncQueue.store.size).toBe(0);
+
+        await queue({ documentId: 'c2', operation: 'update', data: { id: 'c2' }, retryCount: 2, nextRetryTime: 123, error: 'HTTP 500' });
+        const failing = db.syncQueue.store.get('comments-c2');
+        await queue({ documentId: 'c2', operation: 'delete', data: null });
+        expect(db.syncQueue.store.get('comments-c2')).toEqual(expect.objectContaining({
+            operation: 'delete',
+            data: null,
+            retryCount: 0,
+            nextRetryTime: null,
+            error: null,
+            timestamp: failing.timestamp,
+        }));
+        expect(db.transaction).toHaveBeenCalledWith('rw', expect.arrayContaining([db.syncQueue, db.syncState]), expect.any(Function));
+    });
+});
@@ -0,0 +1,52 @@
+// FILE: src/worker/tests/track.test.ts
+
+import { TrackService, classifyQuest } from '../services/track.service';
+import type { UserProfile } from '../models';
+import { makeUserProfile } from './fixtures';
+
+// --- MOCK SETUP ---
+
+jest.mock('../db/indexed-db', () => ({
+    getDB: () => ({}),
+}));
+
+const makeUser = (overrides: Partial<UserProfile> = {}): UserProfile => makeUserProfile({
+    specializationTrack: 'Scholar',
+    totalLevel: 0,
+    ...overrides,
+});
+
+// --- TEST SUITE ---
+describe('TrackService', () => {
+
+    it('should align quests by tag affinity or keyword, letting the user override', () => {
+        // Arrange
+        const service = new TrackService();
+        const byTag = { title: 'Chapter 4', description: '', tags: ['Math'] };
+        const byKeyword = { title: 'Review lecture notes', description: '', tags: [] };
+        const unrelated = { title: 'Explain orbital mechanics', description: '', tags: [] };
+
+        // Act & Assert
+        expect(classifyQuest(byTag, 'Scholar')).toBe(true);
+        expect(classifyQuest(byKeyword, 'Scholar')).toBe(true);
+        expect(classifyQuest(byKeyword, 'Architect')).toBe(false);
+        // Keywords match word starts only ('plan' inside 'explain' doesn't count)
+        expect(classifyQuest(unrelated, 'Vanguard')).toBe(false);
+        expect(service.isAligned({ ...byTag, trackAlignmentOverride: false }, 'Scholar')).toBe(false);
+        expect(service.isAligned({ ...unrelated, trackAlignmentOverride: null }, 'Scholar')).toBe(false);
+    });
+
+    it('should unlock perks by level with the best tier replacing lower ones', () => {
+        // Arrange
+        const service = new TrackService();
+        const novice = makeUser({ totalLevel: 2 });
+        const veteran = makeUser({ totalLevel: 15 });
+
+        // Act & Assert
+        expect(service.getAlignedMultiplier(novice)).toBe(1.1);
+        expect(service.getPerkModifiers(novice, 'deep_focus')).toEqual([]);
+        expect(service.getAlignedMultiplier(veteran)).toBe(1.15);
+        expect(service.getPerkModifiers(veteran, 'deep_focus')).toEqual([{ source: 'perk', value: 1.2 }]);
+        expect(service.getPerkModifiers(veteran, 'pomodoro')).toEqual([]);
+    });
+});
@@ -0,0 +1,25 @@
+/**
+ * Local Date Utilities
+ * Calendar days in the user's time zone, as YYYY-MM-DD strings
+ *
+ * Timestamps are stored as UTC ISO8601, but "today", "yesterday" and date
+ * pickers mean the user's local day; splitting an ISO string at 'T' gives
+ * the UTC day instead, which is off by one for part of every day.
+ */
+
+/**
+ * YYYY-MM-DD of a moment in the local time zone
+ */
+export function toLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight at the start of a YYYY-MM-DD day, shifted by `offsetDays`
+ */
+export function startOfLocalDate(date: string, offsetDays: number = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + offsetDays);
+}
@@ -1,18 +1,9 @@
 // FILE: ./src/worker/worker.ts (NEW FILE)
 
 // Import necessary services and dependencies
-import { QuestService } from "./services/quest.service";
-import { SyncService } from "./services/sync.service";
 import { getDB } from "./db/indexed-db"; 
+import { hasAlarms, scheduleAlarms, startIntervalJobs } from "./jobs/background-jobs";
 import './background-window';
-// Note: GMService is indirectly available via QuestService
-
-// Define the processing interval (60 seconds)
-const GM_QUEUE_INTERVAL = 10000; // test
-
-// Instantiate core services
-const questService = new QuestService();
-const syncService = new SyncService();
 
 console.log("Ascend Worker Initializing...");
 
@@ -23,9 +14,6 @@ console.log("Ascend Worker Initializing...");
 export default async function startWorkerLoop() {
     console.log("Worker loop starting...");
 
-    // 1. Start the main data synchronization loop
-    syncService.start();
-
     // DIAGNOSTIC: Check sync queue contents
     const db = getDB();
 
@@ -46,24 +34,17 @@ export default async function startWorkerLoop() {
         }))
     );
 
-    // 2. Phase 4.3 Hook: Start the GM Validation Queue Processor
-    // This process ensures offline GM validation requests are processed periodically.
-    setInterval(async () => {
-        try {
-            // Call the queue processor exposed by the GMService instance inside QuestService
-            console.log("Running GM Queue Processor...");
-            await questService.gmService.processPendingQueue();
-            console.log("GM Queue Processor executed successfully.");
-        } catch (e) {
-            console.error("GM Queue Processor failed:", e);
-        }
-    }, GM_QUEUE_INTERVAL);
+    // Inside the extension, background.js owns the periodic jobs via chrome.alarms.
+    // Running them here as well would process the queue twice.
+    if (hasAlarms()) {
+        console.log("chrome.alarms available, background jobs run in the service worker");
+        await scheduleAlarms();
+        return;
+    }
 
-    // Run the GM Queue Processor immediately to process any requests queued during startup
-    questService.gmService.processPendingQueue().catch(e => {
-        console.error("Initial GM Queue Processor run failed:", e);
-    });
+    // Dev server fallback: no service worker, so run the jobs on intervals in this page
+    startIntervalJobs();
 }
 
 // Worker will be started from App.tsx
-// No auto-start here to avoid double initialization
\ No newline at end of file
+// No auto-start here to avoid double initialization